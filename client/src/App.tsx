@@ -1,28 +1,46 @@
 import { Switch, Route, useLocation, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { AuthProvider, useAuth } from "@/lib/auth";
-import { DashboardLayout } from "@/components/dashboard-layout";
+import { StoreHostProvider, type HostStore } from "@/lib/store-host";
+import { CartProvider } from "@/lib/cart";
+import { DashboardLayout, getTenantHome } from "@/components/dashboard-layout";
+import type { TenantPermission } from "@shared/schema";
 
 import HomePage from "@/pages/home";
 import LoginPage from "@/pages/login";
 import RegisterPage from "@/pages/register";
+import InvitePage from "@/pages/invite";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
+import VerifyEmailPage from "@/pages/verify-email";
 import DashboardIndex from "@/pages/dashboard/index";
 import DashboardAnalytics from "@/pages/dashboard/analytics";
 import DashboardProducts from "@/pages/dashboard/products";
+import DashboardCategories from "@/pages/dashboard/categories";
 import DashboardOrders from "@/pages/dashboard/orders";
+import DashboardCustomers from "@/pages/dashboard/customers";
+import DashboardDiscounts from "@/pages/dashboard/discounts";
 import DashboardShipping from "@/pages/dashboard/shipping";
 import DashboardSettings from "@/pages/dashboard/settings";
 import DashboardDomains from "@/pages/dashboard/domains";
+import DashboardStaff from "@/pages/dashboard/staff";
+import DashboardApiKeys from "@/pages/dashboard/api-keys";
+import DashboardWebhooks from "@/pages/dashboard/webhooks";
+import DashboardAuditLog from "@/pages/dashboard/audit-log";
+import DashboardSecurity from "@/pages/dashboard/security";
 import AdminIndex from "@/pages/admin/index";
 import AdminTenants from "@/pages/admin/tenants";
 import AdminPlans from "@/pages/admin/plans";
 import AdminDomains from "@/pages/admin/domains";
+import AdminAuditLog from "@/pages/admin/audit-log";
+import AdminSecurity from "@/pages/admin/security";
 import StoreHomePage from "@/pages/store/index";
 import ProductPage from "@/pages/store/product";
+import TrackOrderPage from "@/pages/store/track";
 import NotFound from "@/pages/not-found";
 
 function ProtectedRoute({
@@ -58,18 +76,71 @@ function ProtectedRoute({
   return <>{children}</>;
 }
 
+// Sends staff whose role doesn't cover a page to the first one it does
+function PermittedPage({
+  permission,
+  component: Component,
+}: {
+  permission: TenantPermission;
+  component: React.ComponentType;
+}) {
+  const { can } = useAuth();
+
+  if (!can(permission)) {
+    return <Redirect to={getTenantHome(can)} />;
+  }
+
+  return <Component />;
+}
+
 function TenantDashboardRoutes() {
   return (
     <ProtectedRoute>
       <DashboardLayout>
         <Switch>
-          <Route path="/dashboard" component={DashboardIndex} />
-          <Route path="/dashboard/analytics" component={DashboardAnalytics} />
-          <Route path="/dashboard/products" component={DashboardProducts} />
-          <Route path="/dashboard/orders" component={DashboardOrders} />
-          <Route path="/dashboard/shipping" component={DashboardShipping} />
-          <Route path="/dashboard/settings" component={DashboardSettings} />
-          <Route path="/dashboard/domains" component={DashboardDomains} />
+          <Route path="/dashboard">
+            <PermittedPage permission="analytics" component={DashboardIndex} />
+          </Route>
+          <Route path="/dashboard/analytics">
+            <PermittedPage permission="analytics" component={DashboardAnalytics} />
+          </Route>
+          <Route path="/dashboard/products">
+            <PermittedPage permission="products" component={DashboardProducts} />
+          </Route>
+          <Route path="/dashboard/categories">
+            <PermittedPage permission="products" component={DashboardCategories} />
+          </Route>
+          <Route path="/dashboard/orders">
+            <PermittedPage permission="orders.view" component={DashboardOrders} />
+          </Route>
+          <Route path="/dashboard/customers">
+            <PermittedPage permission="customers" component={DashboardCustomers} />
+          </Route>
+          <Route path="/dashboard/discounts">
+            <PermittedPage permission="discounts" component={DashboardDiscounts} />
+          </Route>
+          <Route path="/dashboard/shipping">
+            <PermittedPage permission="shipping" component={DashboardShipping} />
+          </Route>
+          <Route path="/dashboard/settings">
+            <PermittedPage permission="settings" component={DashboardSettings} />
+          </Route>
+          <Route path="/dashboard/domains">
+            <PermittedPage permission="domains" component={DashboardDomains} />
+          </Route>
+          <Route path="/dashboard/staff">
+            <PermittedPage permission="staff" component={DashboardStaff} />
+          </Route>
+          <Route path="/dashboard/api-keys">
+            <PermittedPage permission="api_keys" component={DashboardApiKeys} />
+          </Route>
+          <Route path="/dashboard/webhooks">
+            <PermittedPage permission="webhooks" component={DashboardWebhooks} />
+          </Route>
+          <Route path="/dashboard/audit-log">
+            <PermittedPage permission="audit" component={DashboardAuditLog} />
+          </Route>
+          <Route path="/dashboard/security" component={DashboardSecurity} />
           <Route component={NotFound} />
         </Switch>
       </DashboardLayout>
@@ -78,27 +149,76 @@ function TenantDashboardRoutes() {
 }
 
 function AdminRoutes() {
+  const { user } = useAuth();
+
   return (
     <ProtectedRoute adminOnly>
       <DashboardLayout>
-        <Switch>
-          <Route path="/admin" component={AdminIndex} />
-          <Route path="/admin/tenants" component={AdminTenants} />
-          <Route path="/admin/plans" component={AdminPlans} />
-          <Route path="/admin/domains" component={AdminDomains} />
-          <Route component={NotFound} />
-        </Switch>
+        {/* The admin API refuses requests until 2FA is set up */}
+        {user && !user.twoFactorEnabled ? (
+          <AdminSecurity />
+        ) : (
+          <Switch>
+            <Route path="/admin" component={AdminIndex} />
+            <Route path="/admin/tenants" component={AdminTenants} />
+            <Route path="/admin/plans" component={AdminPlans} />
+            <Route path="/admin/domains" component={AdminDomains} />
+            <Route path="/admin/audit-log" component={AdminAuditLog} />
+            <Route path="/admin/security" component={AdminSecurity} />
+            <Route component={NotFound} />
+          </Switch>
+        )}
       </DashboardLayout>
     </ProtectedRoute>
   );
 }
 
+function CustomDomainRouter() {
+  return (
+    <Switch>
+      <Route path="/" component={StoreHomePage} />
+      <Route path="/track" component={TrackOrderPage} />
+      <Route path="/category/:categorySlug" component={StoreHomePage} />
+      <Route path="/collection/:collectionSlug" component={StoreHomePage} />
+      <Route path="/:productSlug" component={ProductPage} />
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
+
 function Router() {
+  const { data: host, isLoading } = useQuery<{ store: HostStore | null }>({
+    queryKey: ["/api/host"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  if (host?.store) {
+    return (
+      <StoreHostProvider store={host.store}>
+        <CustomDomainRouter />
+      </StoreHostProvider>
+    );
+  }
+
   return (
     <Switch>
       <Route path="/" component={HomePage} />
       <Route path="/login" component={LoginPage} />
       <Route path="/register" component={RegisterPage} />
+      <Route path="/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/reset-password/:token" component={ResetPasswordPage} />
+      <Route path="/verify-email/:token" component={VerifyEmailPage} />
+      <Route path="/invite/:token" component={InvitePage} />
+      <Route path="/store/:storeSlug/track" component={TrackOrderPage} />
+      <Route path="/store/:storeSlug/category/:categorySlug" component={StoreHomePage} />
+      <Route path="/store/:storeSlug/collection/:collectionSlug" component={StoreHomePage} />
       <Route path="/store/:storeSlug/:productSlug" component={ProductPage} />
       <Route path="/store/:storeSlug" component={StoreHomePage} />
       <Route path="/dashboard" component={TenantDashboardRoutes} />
@@ -117,7 +237,9 @@ function App() {
         <AuthProvider>
           <TooltipProvider>
             <Toaster />
-            <Router />
+            <CartProvider>
+              <Router />
+            </CartProvider>
           </TooltipProvider>
         </AuthProvider>
       </ThemeProvider>
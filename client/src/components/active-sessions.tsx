@@ -0,0 +1,117 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { ActiveSession } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { MonitorSmartphone, LogOut, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+export function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/auth/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't sign out session", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/auth/sessions"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Signed out everywhere else", description: "Only this device is still signed in." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't sign out sessions", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions?.filter((session) => !session.current).length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5 text-primary" />
+            <CardTitle className="font-display">Active Sessions</CardTitle>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={otherSessions === 0 || revokeOthersMutation.isPending}
+            data-testid="button-sign-out-everywhere"
+          >
+            {revokeOthersMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="h-4 w-4 mr-2" />
+            )}
+            Sign Out Everywhere Else
+          </Button>
+        </div>
+        <CardDescription>Devices signed in to your account. Sign out any you don't recognise.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-14" />
+            ))}
+          </div>
+        ) : (
+          <div className="divide-y">
+            {sessions?.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-4 py-3"
+                data-testid={`row-session-${session.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium">{session.device}</p>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      session.ip,
+                      session.lastSeenAt &&
+                        `Active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`,
+                      session.signedInAt &&
+                        `signed in ${formatDistanceToNow(new Date(session.signedInAt), { addSuffix: true })}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-session-${session.id}`}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditLogWithTenant,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, History, Search } from "lucide-react";
+import { format } from "date-fns";
+
+const actionStyles: Partial<Record<AuditAction, string>> = {
+  create: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  delete: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  update: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+interface AuditLogViewerProps {
+  endpoint: string; // List endpoint; its `/export` sibling serves the CSV
+  stores?: { id: string; name: string }[]; // Admin only: adds a store filter and column
+}
+
+export function AuditLogViewer({ endpoint, stores }: AuditLogViewerProps) {
+  const [entityType, setEntityType] = useState<AuditEntityType | "all">("all");
+  const [action, setAction] = useState<AuditAction | "all">("all");
+  const [tenantId, setTenantId] = useState("all");
+  const [actor, setActor] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams();
+  if (tenantId !== "all") params.set("tenantId", tenantId);
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (action !== "all") params.set("action", action);
+  if (actor.trim()) params.set("actor", actor.trim());
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const query = params.toString();
+
+  const { data: logs, isLoading } = useQuery<AuditLogWithTenant[]>({
+    queryKey: [query ? `${endpoint}?${query}` : endpoint],
+  });
+
+  const handleExport = () => {
+    window.open(`${endpoint}/export${query ? `?${query}` : ""}`, "_blank");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter by email..."
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            className="pl-9"
+            data-testid="input-audit-actor"
+          />
+        </div>
+        {stores && (
+          <Select value={tenantId} onValueChange={setTenantId}>
+            <SelectTrigger className="w-full lg:w-48" data-testid="select-audit-store">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All stores</SelectItem>
+              {stores.map((store) => (
+                <SelectItem key={store.id} value={store.id}>
+                  {store.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={entityType} onValueChange={(value) => setEntityType(value as AuditEntityType | "all")}>
+          <SelectTrigger className="w-full lg:w-44" data-testid="select-audit-entity">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Everything</SelectItem>
+            {Object.entries(AUDIT_ENTITY_TYPES).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={(value) => setAction(value as AuditAction | "all")}>
+          <SelectTrigger className="w-full lg:w-40" data-testid="select-audit-action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {Object.entries(AUDIT_ACTIONS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="w-full lg:w-40"
+          aria-label="From date"
+          data-testid="input-audit-from"
+        />
+        <Input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="w-full lg:w-40"
+          aria-label="To date"
+          data-testid="input-audit-to"
+        />
+        <Button variant="outline" onClick={handleExport} disabled={isLoading} data-testid="button-export-audit">
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            <CardTitle className="font-display">Activity</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-12" />
+              ))}
+            </div>
+          ) : !logs || logs.length === 0 ? (
+            <div className="text-center py-8">
+              <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No activity matches these filters</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    {stores && <TableHead>Store</TableHead>}
+                    <TableHead>Who</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>What</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map((log) => (
+                    <TableRow key={log.id} data-testid={`row-audit-${log.id}`}>
+                      <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                        {format(new Date(log.createdAt), "MMM d, yyyy h:mm a")}
+                      </TableCell>
+                      {stores && (
+                        <TableCell className="text-sm">{log.tenantName || (log.tenantId ? "Deleted store" : "Platform")}</TableCell>
+                      )}
+                      <TableCell>
+                        <p className="text-sm font-medium">{log.actorEmail || "System"}</p>
+                        {log.actorRole && <p className="text-xs text-muted-foreground capitalize">{log.actorRole.replace("_", " ")}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={actionStyles[log.action]}>
+                          {AUDIT_ACTIONS[log.action] ?? log.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm">{AUDIT_ENTITY_TYPES[log.entityType] ?? log.entityType}</p>
+                        {log.entityLabel && <p className="text-xs text-muted-foreground">{log.entityLabel}</p>}
+                      </TableCell>
+                      <TableCell className="min-w-64">
+                        {Object.keys(log.changes).length === 0 ? (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        ) : (
+                          <ul className="space-y-1 text-xs">
+                            {Object.entries(log.changes).map(([field, change]) => (
+                              <li key={field}>
+                                <span className="font-medium">{field}</span>:{" "}
+                                <span className="text-muted-foreground line-through">{formatValue(change.from)}</span>{" "}
+                                → <span>{formatValue(change.to)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {logs.length >= 200 && (
+                <p className="text-xs text-muted-foreground text-center pt-4">
+                  Showing the latest 200 entries. Narrow the filters or export to see more.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  cartCheckoutSchema,
+  getOrderNumber,
+  type PaymentMethod,
+  type PaymentProviderName,
+  type PlacedOrder,
+  type PublicStoreSettings,
+  type ShippingClass,
+} from "@shared/schema";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useCart } from "@/lib/cart";
+import { useStorePath } from "@/lib/store-host";
+import { PaymentMethodPicker, getCheckoutPaymentDue } from "@/components/payment-method-picker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { ShoppingCart, Minus, Plus, Trash2, Loader2, Check, ImageOff } from "lucide-react";
+import type { z } from "zod";
+
+const cartFormSchema = cartCheckoutSchema.omit({ items: true });
+type CartFormInput = z.infer<typeof cartFormSchema>;
+
+interface CartSheetProps {
+  storeSlug: string;
+  shippingClasses: ShippingClass[];
+  settings: PublicStoreSettings | null;
+  onOrderPlaced?: (order: PlacedOrder) => void;
+}
+
+export function CartSheet({ storeSlug, shippingClasses, settings, onOrderPlaced }: CartSheetProps) {
+  const { items, updateQuantity, removeItem, clear, count, subtotal } = useCart();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
+  const storePath = useStorePath();
+
+  const form = useForm<CartFormInput>({
+    resolver: zodResolver(cartFormSchema),
+    defaultValues: {
+      customerName: "",
+      phone: "",
+      address: "",
+      shippingClassId: "",
+      paymentMethod: "cod",
+    },
+  });
+
+  useEffect(() => {
+    if (shippingClasses.length && !form.getValues("shippingClassId")) {
+      const defaultClass = shippingClasses.find((sc) => sc.isDefault) || shippingClasses[0];
+      form.setValue("shippingClassId", defaultClass.id);
+    }
+  }, [shippingClasses, form]);
+
+  const selectedShippingClass = shippingClasses.find((sc) => sc.id === form.watch("shippingClassId"));
+  const shippingFee = selectedShippingClass ? parseFloat(selectedShippingClass.fee) : 0;
+  const total = subtotal + shippingFee;
+  const paymentMethod = form.watch("paymentMethod");
+  const paymentDue = getCheckoutPaymentDue(settings, paymentMethod, { total, shippingFee });
+
+  const setPaymentMethod = useCallback((method: PaymentMethod) => form.setValue("paymentMethod", method), [form]);
+  const setPaymentProvider = useCallback(
+    (provider: PaymentProviderName) => form.setValue("paymentProvider", provider),
+    [form]
+  );
+
+  const orderMutation = useMutation({
+    mutationFn: async (formData: CartFormInput) => {
+      const res = await apiRequest("POST", `/api/store/${storeSlug}/orders`, {
+        ...formData,
+        items: items.map((i) => ({ productId: i.productId, variantId: i.variantId, quantity: i.quantity })),
+      });
+      return (await res.json()) as PlacedOrder;
+    },
+    onSuccess: (order) => {
+      clear();
+      onOrderPlaced?.(order);
+      if (order.paymentUrl) {
+        window.location.href = order.paymentUrl;
+        return;
+      }
+      form.reset({
+        customerName: "",
+        phone: "",
+        address: "",
+        shippingClassId: form.getValues("shippingClassId"),
+        paymentMethod: form.getValues("paymentMethod"),
+        paymentProvider: form.getValues("paymentProvider"),
+      });
+      setPlacedOrder(order);
+      if (order.paymentError) {
+        toast({ title: "Payment not started", description: order.paymentError, variant: "destructive" });
+      }
+    },
+    onError: (error: Error) => {
+      if (error.message.startsWith("409")) {
+        toast({ title: "Sold out", description: getErrorMessage(error), variant: "destructive" });
+        return;
+      }
+      if (error.message.includes('"rejected"')) {
+        toast({ title: "Order not placed", description: getErrorMessage(error), variant: "destructive" });
+        return;
+      }
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setPlacedOrder(null);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" data-testid="button-open-cart">
+          <ShoppingCart className="h-4 w-4" />
+          <span className="hidden sm:inline ml-2">Cart</span>
+          {count > 0 && (
+            <Badge className="ml-2 px-1.5" data-testid="text-cart-count">
+              {count}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display">Your Cart</SheetTitle>
+        </SheetHeader>
+
+        {placedOrder ? (
+          <div className="text-center py-10">
+            <div className="rounded-full bg-green-100 dark:bg-green-900/30 p-4 w-fit mx-auto mb-4">
+              <Check className="h-8 w-8 text-green-600 dark:text-green-400" />
+            </div>
+            <h3 className="font-display text-xl font-bold mb-2" data-testid="text-cart-order-success">
+              Order Placed Successfully!
+            </h3>
+            <p className="font-mono font-medium mb-2" data-testid="text-cart-order-number">
+              Order #{getOrderNumber(placedOrder)}
+            </p>
+            <p className="text-muted-foreground">
+              {placedOrder.paymentStatus === "not_required"
+                ? "We'll call you shortly to confirm your order. Pay when you receive it."
+                : "We'll call you shortly to confirm your order. You can complete your payment from the tracking page."}
+            </p>
+            <Button asChild variant="outline" className="mt-6" data-testid="button-cart-track-order">
+              <Link href={storePath(storeSlug, `track?order=${encodeURIComponent(getOrderNumber(placedOrder))}`)}>
+                Track your order
+              </Link>
+            </Button>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-16">
+            <ShoppingCart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Your cart is empty</p>
+          </div>
+        ) : (
+          <div className="space-y-6 mt-6">
+            <div className="space-y-4">
+              {items.map((item) => (
+                <div
+                  key={`${item.productId}-${item.variantId || ""}`}
+                  className="flex gap-3"
+                  data-testid={`cart-item-${item.productId}`}
+                >
+                  <div className="h-16 w-16 rounded-md bg-muted overflow-hidden flex-shrink-0">
+                    {item.image ? (
+                      <img src={item.image} alt={item.name} className="h-full w-full object-cover" />
+                    ) : (
+                      <div className="h-full w-full flex items-center justify-center">
+                        <ImageOff className="h-6 w-6 text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium line-clamp-1">{item.name}</p>
+                    {item.variantName && <p className="text-xs text-muted-foreground">{item.variantName}</p>}
+                    <p className="text-sm font-semibold">৳{(parseFloat(item.price) * item.quantity).toFixed(2)}</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => updateQuantity(item, item.quantity - 1)}
+                      >
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <span className="w-6 text-center text-sm">{item.quantity}</span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => updateQuantity(item, item.quantity + 1)}
+                        disabled={item.stock !== undefined && item.quantity >= item.stock}
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 ml-auto"
+                        onClick={() => removeItem(item)}
+                        data-testid={`button-remove-${item.productId}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => orderMutation.mutate(data))} className="space-y-4 border-t pt-4">
+                <FormField
+                  control={form.control}
+                  name="customerName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Your Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter your full name" data-testid="input-cart-customer-name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone Number</FormLabel>
+                      <FormControl>
+                        <div className="flex">
+                          <span className="inline-flex items-center px-3 rounded-l-md border border-r-0 bg-muted text-muted-foreground text-sm">
+                            +880
+                          </span>
+                          <Input
+                            placeholder="1XXXXXXXXX"
+                            className="rounded-l-none"
+                            data-testid="input-cart-phone"
+                            {...field}
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Delivery Address</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Enter your complete delivery address with landmarks..."
+                          rows={3}
+                          data-testid="input-cart-address"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {shippingClasses.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="shippingClassId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Shipping Zone</FormLabel>
+                        <FormControl>
+                          <RadioGroup onValueChange={field.onChange} value={field.value} className="space-y-2">
+                            {shippingClasses.map((sc) => (
+                              <div
+                                key={sc.id}
+                                className="flex items-center justify-between p-3 rounded-lg border cursor-pointer"
+                                onClick={() => field.onChange(sc.id)}
+                              >
+                                <div className="flex items-center gap-3">
+                                  <RadioGroupItem value={sc.id} id={`cart-${sc.id}`} />
+                                  <Label htmlFor={`cart-${sc.id}`} className="cursor-pointer">
+                                    <span className="font-medium">{sc.name}</span>
+                                  </Label>
+                                </div>
+                                <span className="font-medium">৳{sc.fee}</span>
+                              </div>
+                            ))}
+                          </RadioGroup>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="border-t pt-4 space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      Subtotal ({count} item{count > 1 ? "s" : ""})
+                    </span>
+                    <span>৳{subtotal.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Shipping</span>
+                    <span>৳{shippingFee.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-lg pt-2 border-t">
+                    <span>Total</span>
+                    <span className="text-primary" data-testid="text-cart-total">৳{total.toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <PaymentMethodPicker
+                  settings={settings}
+                  method={paymentMethod}
+                  provider={form.watch("paymentProvider")}
+                  onMethodChange={setPaymentMethod}
+                  onProviderChange={setPaymentProvider}
+                  total={total}
+                  shippingFee={shippingFee}
+                  idPrefix="cart-payment"
+                />
+
+                <Button
+                  type="submit"
+                  size="lg"
+                  className="w-full"
+                  disabled={orderMutation.isPending}
+                  data-testid="button-cart-checkout"
+                >
+                  {orderMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Processing...
+                    </>
+                  ) : paymentDue > 0 ? (
+                    `Pay ৳${paymentDue.toFixed(2)} & Place Order`
+                  ) : (
+                    "Confirm Order (Cash on Delivery)"
+                  )}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
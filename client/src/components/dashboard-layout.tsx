@@ -1,5 +1,8 @@
 import { Link, useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -28,33 +31,56 @@ import {
   Store,
   LayoutDashboard,
   Package,
+  FolderTree,
   ShoppingCart,
   Truck,
   Settings,
   ExternalLink,
   LogOut,
   Users,
+  Tag,
   CreditCard,
   BarChart3,
   Globe,
+  UserCog,
+  History,
+  KeyRound,
+  Webhook,
+  MailWarning,
+  ShieldCheck,
 } from "lucide-react";
 import type { ReactNode } from "react";
+import { TENANT_ROLES, type TenantPermission } from "@shared/schema";
 
-const tenantMenuItems = [
-  { title: "Dashboard", url: "/dashboard", icon: LayoutDashboard },
-  { title: "Analytics", url: "/dashboard/analytics", icon: BarChart3 },
-  { title: "Products", url: "/dashboard/products", icon: Package },
-  { title: "Orders", url: "/dashboard/orders", icon: ShoppingCart },
-  { title: "Shipping", url: "/dashboard/shipping", icon: Truck },
-  { title: "Domains", url: "/dashboard/domains", icon: Globe },
-  { title: "Settings", url: "/dashboard/settings", icon: Settings },
+// Each page's permission; the sidebar and router hide pages a role can't use
+export const tenantMenuItems: { title: string; url: string; icon: typeof Store; permission: TenantPermission }[] = [
+  { title: "Dashboard", url: "/dashboard", icon: LayoutDashboard, permission: "analytics" },
+  { title: "Analytics", url: "/dashboard/analytics", icon: BarChart3, permission: "analytics" },
+  { title: "Products", url: "/dashboard/products", icon: Package, permission: "products" },
+  { title: "Categories", url: "/dashboard/categories", icon: FolderTree, permission: "products" },
+  { title: "Orders", url: "/dashboard/orders", icon: ShoppingCart, permission: "orders.view" },
+  { title: "Customers", url: "/dashboard/customers", icon: Users, permission: "customers" },
+  { title: "Discounts", url: "/dashboard/discounts", icon: Tag, permission: "discounts" },
+  { title: "Shipping", url: "/dashboard/shipping", icon: Truck, permission: "shipping" },
+  { title: "Domains", url: "/dashboard/domains", icon: Globe, permission: "domains" },
+  { title: "Staff", url: "/dashboard/staff", icon: UserCog, permission: "staff" },
+  { title: "API Keys", url: "/dashboard/api-keys", icon: KeyRound, permission: "api_keys" },
+  { title: "Webhooks", url: "/dashboard/webhooks", icon: Webhook, permission: "webhooks" },
+  { title: "Audit Log", url: "/dashboard/audit-log", icon: History, permission: "audit" },
+  { title: "Settings", url: "/dashboard/settings", icon: Settings, permission: "settings" },
 ];
 
+// First page the user is allowed to open; every role can see orders
+export function getTenantHome(can: (permission: TenantPermission) => boolean): string {
+  return tenantMenuItems.find((item) => can(item.permission))?.url ?? "/dashboard/orders";
+}
+
 const adminMenuItems = [
   { title: "Overview", url: "/admin", icon: BarChart3 },
   { title: "Tenants", url: "/admin/tenants", icon: Users },
   { title: "Plans", url: "/admin/plans", icon: CreditCard },
   { title: "Domains", url: "/admin/domains", icon: Globe },
+  { title: "Audit Log", url: "/admin/audit-log", icon: History },
 ];
 
 interface DashboardLayoutProps {
@@ -63,10 +89,21 @@ interface DashboardLayoutProps {
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
+  const { toast } = useToast();
 
   const isAdmin = user?.role === "admin";
-  const menuItems = isAdmin ? adminMenuItems : tenantMenuItems;
+  const menuItems = isAdmin ? adminMenuItems : tenantMenuItems.filter((item) => can(item.permission));
+
+  const resendMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/resend-verification"),
+    onSuccess: () => {
+      toast({ title: "Verification email sent", description: `Check ${user?.email} for the link.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send email", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
 
   const handleLogout = async () => {
     await logout();
@@ -87,7 +124,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       <div className="flex h-screen w-full">
         <Sidebar>
           <SidebarHeader className="p-4">
-            <Link href={isAdmin ? "/admin" : "/dashboard"} className="flex items-center gap-2">
+            <Link href={isAdmin ? "/admin" : getTenantHome(can)} className="flex items-center gap-2">
               <Store className="h-6 w-6 text-primary" />
               <span className="font-display font-bold text-lg">
                 {isAdmin ? "Admin Panel" : "StoreBuilder"}
@@ -168,9 +205,17 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
                 <DropdownMenuContent align="end" className="w-48">
                   <div className="px-2 py-1.5">
                     <p className="text-sm font-medium">{user?.email}</p>
-                    <p className="text-xs text-muted-foreground">{user?.role}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {user?.tenantRole ? TENANT_ROLES[user.tenantRole].label : user?.role}
+                    </p>
                   </div>
                   <DropdownMenuSeparator />
+                  <DropdownMenuItem asChild>
+                    <Link href={isAdmin ? "/admin/security" : "/dashboard/security"} data-testid="link-security">
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                      <span>Security</span>
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleLogout} data-testid="button-logout">
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>Log out</span>
@@ -179,7 +224,29 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
               </DropdownMenu>
             </div>
           </header>
-          <main className="flex-1 overflow-auto p-6 bg-background">{children}</main>
+          <main className="flex-1 overflow-auto p-6 bg-background">
+            {user && !user.emailVerifiedAt && (
+              <div
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 mb-6"
+                data-testid="banner-verify-email"
+              >
+                <p className="flex items-center gap-2 text-sm text-yellow-800 dark:text-yellow-200">
+                  <MailWarning className="h-4 w-4 shrink-0" />
+                  Please verify your email address using the link we sent to {user.email}.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => resendMutation.mutate()}
+                  disabled={resendMutation.isPending}
+                  data-testid="button-resend-verification"
+                >
+                  {resendMutation.isPending ? "Sending..." : "Resend link"}
+                </Button>
+              </div>
+            )}
+            {children}
+          </main>
         </div>
       </div>
     </SidebarProvider>
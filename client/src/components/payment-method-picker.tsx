@@ -0,0 +1,120 @@
+import { useEffect } from "react";
+import {
+  getOnlinePaymentDue,
+  PAYMENT_PROVIDERS,
+  type PaymentMethod,
+  type PaymentProviderName,
+  type PublicStoreSettings,
+} from "@shared/schema";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Banknote, CreditCard } from "lucide-react";
+
+// Same rule the server applies: advance delivery charges only apply once the
+// store has a gateway to take them
+export function getCheckoutPaymentDue(
+  settings: PublicStoreSettings | null | undefined,
+  method: PaymentMethod,
+  amounts: { total: number; shippingFee: number }
+): number {
+  const providers = settings?.paymentProviders ?? [];
+  return getOnlinePaymentDue(method, !!settings?.advanceDeliveryCharge && providers.length > 0, amounts);
+}
+
+interface PaymentMethodPickerProps {
+  settings: PublicStoreSettings | null | undefined;
+  method: PaymentMethod;
+  provider?: PaymentProviderName;
+  onMethodChange: (method: PaymentMethod) => void;
+  onProviderChange: (provider: PaymentProviderName) => void;
+  total: number;
+  shippingFee: number; // After any free-shipping discount
+  idPrefix?: string;
+}
+
+export function PaymentMethodPicker({
+  settings,
+  method,
+  provider,
+  onMethodChange,
+  onProviderChange,
+  total,
+  shippingFee,
+  idPrefix = "payment",
+}: PaymentMethodPickerProps) {
+  const providers = settings?.paymentProviders ?? [];
+  // A store that turned COD off but has no gateway yet still takes COD orders
+  const codAvailable = settings?.codEnabled !== false || providers.length === 0;
+  const due = getCheckoutPaymentDue(settings, method, { total, shippingFee });
+
+  useEffect(() => {
+    if (!codAvailable && method === "cod") onMethodChange("online");
+  }, [codAvailable, method, onMethodChange]);
+
+  useEffect(() => {
+    if (providers.length && (!provider || !providers.includes(provider))) {
+      onProviderChange(providers[0]);
+    }
+  }, [providers, provider, onProviderChange]);
+
+  if (providers.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <Label>Payment</Label>
+      <RadioGroup
+        value={method}
+        onValueChange={(value) => onMethodChange(value as PaymentMethod)}
+        className="space-y-2"
+      >
+        {codAvailable && (
+          <div
+            className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer"
+            onClick={() => onMethodChange("cod")}
+          >
+            <RadioGroupItem value="cod" id={`${idPrefix}-cod`} data-testid={`radio-${idPrefix}-cod`} />
+            <Label htmlFor={`${idPrefix}-cod`} className="cursor-pointer flex items-center gap-2">
+              <Banknote className="h-4 w-4 text-muted-foreground" />
+              Cash on Delivery
+            </Label>
+          </div>
+        )}
+        <div
+          className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer"
+          onClick={() => onMethodChange("online")}
+        >
+          <RadioGroupItem value="online" id={`${idPrefix}-online`} data-testid={`radio-${idPrefix}-online`} />
+          <Label htmlFor={`${idPrefix}-online`} className="cursor-pointer flex items-center gap-2">
+            <CreditCard className="h-4 w-4 text-muted-foreground" />
+            Pay Online
+          </Label>
+        </div>
+      </RadioGroup>
+
+      {due > 0 && (
+        <div className="space-y-2">
+          {method === "cod" && (
+            <p className="text-sm text-muted-foreground" data-testid={`text-${idPrefix}-advance`}>
+              Pay the ৳{due.toFixed(2)} delivery charge now and ৳{(total - due).toFixed(2)} on delivery.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {providers.map((name) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => onProviderChange(name)}
+                className={`px-4 py-2 rounded-lg border text-sm font-medium ${
+                  provider === name ? "border-primary bg-primary/5 text-primary" : ""
+                }`}
+                data-testid={`button-${idPrefix}-provider-${name}`}
+              >
+                {PAYMENT_PROVIDERS[name].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import {
+  PRODUCT_SHEET_COLUMNS,
+  PRODUCT_SHEET_LIST_SEPARATOR,
+  type ProductImportMapping,
+  type ProductImportReport,
+  type ProductSheetColumn,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+
+const COLUMNS = Object.keys(PRODUCT_SHEET_COLUMNS) as ProductSheetColumn[];
+const NOT_IMPORTED = "none";
+
+const COLUMN_HINTS: Partial<Record<ProductSheetColumn, string>> = {
+  slug: "Required. Rows with the same slug are one product; an existing slug updates that product.",
+  images: `Image URLs, separated by ${PRODUCT_SHEET_LIST_SEPARATOR}`,
+  categories: `Category slugs, separated by ${PRODUCT_SHEET_LIST_SEPARATOR}`,
+  variantSku: "An existing SKU updates that variant",
+};
+
+type Columns = { headers: string[]; rowCount: number; mapping: ProductImportMapping };
+
+// Upload, map columns, check, then import. The file is sent again at each
+// step rather than kept on the server.
+export function ProductImportDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<Columns | null>(null);
+  const [mapping, setMapping] = useState<ProductImportMapping>({});
+  const [report, setReport] = useState<ProductImportReport | null>(null);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setColumns(null);
+    setMapping({});
+    setReport(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const columnsMutation = useMutation({
+    mutationFn: async (selected: File) => {
+      const form = new FormData();
+      form.append("file", selected);
+      const res = await apiRequest("POST", "/api/products/import/columns", form);
+      return res.json() as Promise<Columns>;
+    },
+    onSuccess: (result) => {
+      setColumns(result);
+      setMapping(result.mapping);
+    },
+    onError: (error: Error) => {
+      setFile(null);
+      toast({ title: "Couldn't read file", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const form = new FormData();
+      form.append("file", file!);
+      form.append("mapping", JSON.stringify(mapping));
+      form.append("dryRun", String(dryRun));
+      const res = await apiRequest("POST", "/api/products/import", form);
+      return res.json() as Promise<ProductImportReport>;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun || result.errors.length > 0) {
+        setReport(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      handleOpenChange(false);
+      toast({
+        title: "Products imported",
+        description: `${result.productsCreated} created and ${result.productsUpdated} updated.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleFile = (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    columnsMutation.mutate(selected);
+  };
+
+  const setColumn = (column: ProductSheetColumn, value: string) => {
+    const next = { ...mapping };
+    if (value === NOT_IMPORTED) {
+      delete next[column];
+    } else {
+      next[column] = Number(value);
+    }
+    setMapping(next);
+    setReport(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display">Import Products</DialogTitle>
+          <DialogDescription>
+            Add or update products and variants from a CSV or Excel file, one row per variant. Export your products
+            first to get a file in the right shape.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!columns ? (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Spreadsheet</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={columnsMutation.isPending}
+              data-testid="input-import-file"
+            />
+            {columnsMutation.isPending && (
+              <p className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reading {file?.name}...
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {file?.name} has {columns.rowCount} rows. Choose which column holds each field; fields you don't import
+              keep their current values.
+            </p>
+            <div className="space-y-3">
+              {COLUMNS.map((column) => (
+                <div key={column} className="grid grid-cols-2 gap-3 items-start">
+                  <div>
+                    <Label>{PRODUCT_SHEET_COLUMNS[column]}</Label>
+                    {COLUMN_HINTS[column] && <p className="text-xs text-muted-foreground">{COLUMN_HINTS[column]}</p>}
+                  </div>
+                  <Select
+                    value={mapping[column] === undefined ? NOT_IMPORTED : String(mapping[column])}
+                    onValueChange={(value) => setColumn(column, value)}
+                  >
+                    <SelectTrigger data-testid={`select-import-column-${column}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Don't import</SelectItem>
+                      {columns.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {report && (
+              <div className="rounded-lg border p-3 space-y-2 text-sm" data-testid="import-report">
+                <p className="flex items-center gap-2 font-medium">
+                  {report.errors.length === 0 ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 text-destructive" />
+                  )}
+                  {report.errors.length === 0
+                    ? "Ready to import"
+                    : `${report.errors.length} ${report.errors.length === 1 ? "problem" : "problems"} to fix first. Nothing has been imported.`}
+                </p>
+                <p className="text-muted-foreground">
+                  {report.productsCreated} new and {report.productsUpdated} updated products; {report.variantsCreated}{" "}
+                  new and {report.variantsUpdated} updated variants.
+                </p>
+                {report.errors.length > 0 && (
+                  <ul className="max-h-48 overflow-y-auto space-y-1">
+                    {report.errors.map((error, index) => (
+                      <li key={index} className="text-destructive">
+                        Row {error.row}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={reset} className="flex-1">
+                Choose Another File
+              </Button>
+              {report && report.errors.length === 0 ? (
+                <Button
+                  onClick={() => importMutation.mutate(false)}
+                  disabled={importMutation.isPending}
+                  className="flex-1"
+                  data-testid="button-run-import"
+                >
+                  {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Import
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => importMutation.mutate(true)}
+                  disabled={importMutation.isPending || mapping.slug === undefined}
+                  className="flex-1"
+                  data-testid="button-check-import"
+                >
+                  {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Check File
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
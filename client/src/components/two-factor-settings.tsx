@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck, ShieldOff, KeyRound, Copy, Download, Loader2 } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // Admin accounts can't turn it off
+  recoveryCodesLeft: number;
+}
+
+interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const { refetch } = useAuth();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [action, setAction] = useState<"regenerate" | "disable" | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/two-factor"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getErrorMessage(error), variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/two-factor/setup");
+      return res.json() as Promise<TwoFactorEnrollment>;
+    },
+    onSuccess: (result) => {
+      setEnrollment(result);
+      setCode("");
+    },
+    onError: onError("Couldn't start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/two-factor/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      toast({ title: "Two-factor authentication is on" });
+    },
+    onError: onError("Couldn't turn on 2FA"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/two-factor/recovery-codes", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setAction(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      toast({ title: "New recovery codes created", description: "Your old codes no longer work." });
+    },
+    onError: onError("Couldn't regenerate codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/two-factor/disable", { code, password }),
+    onSuccess: async () => {
+      setAction(null);
+      setCode("");
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+      await refetch();
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError: onError("Couldn't turn off 2FA"),
+  });
+
+  // The codes are only ever shown once, so status is refreshed after they're saved
+  const finishRecoveryCodes = async () => {
+    setRecoveryCodes(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+    await refetch();
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Codes copied" });
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`StoreBuilder BD recovery codes\n\n${recoveryCodes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "storebuilder-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const cancelAction = () => {
+    setAction(null);
+    setCode("");
+    setPassword("");
+  };
+
+  if (isLoading || !status) {
+    return <Skeleton className="h-48" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <CardTitle className="font-display">Two-Factor Authentication</CardTitle>
+          </div>
+          {status.enabled ? (
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">On</Badge>
+          ) : (
+            <Badge variant="secondary">Off</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Ask for a code from an authenticator app such as Google Authenticator or Authy each time you sign in
+          {status.required && ". Required for admin accounts."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <div className="space-y-4" data-testid="section-recovery-codes">
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They
+                won't be shown again.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode} data-testid="text-recovery-code">
+                  {recoveryCode}
+                </span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={copyRecoveryCodes} data-testid="button-copy-codes">
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="outline" onClick={downloadRecoveryCodes} data-testid="button-download-codes">
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+              <Button onClick={finishRecoveryCodes} data-testid="button-codes-saved">
+                I've saved these codes
+              </Button>
+            </div>
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-4" data-testid="section-enroll">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img
+              src={enrollment.qrCode}
+              alt="Two-factor QR code"
+              className="h-48 w-48 rounded-lg border bg-white p-2"
+              data-testid="img-two-factor-qr"
+            />
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+              <code className="block break-all rounded bg-muted px-2 py-1 text-sm" data-testid="text-two-factor-secret">
+                {enrollment.secret}
+              </code>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-enable-code">Code from the app</Label>
+              <Input
+                id="two-factor-enable-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                inputMode="numeric"
+                placeholder="123456"
+                className="max-w-48"
+                data-testid="input-enable-code"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => enableMutation.mutate()}
+                disabled={enableMutation.isPending || code.trim().length < 6}
+                data-testid="button-enable-two-factor"
+              >
+                {enableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Turn On
+              </Button>
+              <Button variant="outline" onClick={() => setEnrollment(null)} data-testid="button-cancel-enroll">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : !status.enabled ? (
+          <Button
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            data-testid="button-setup-two-factor"
+          >
+            {setupMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4 mr-2" />
+            )}
+            Set Up Two-Factor Authentication
+          </Button>
+        ) : action ? (
+          <div className="space-y-4" data-testid={`section-${action}`}>
+            <p className="text-sm text-muted-foreground">
+              {action === "regenerate"
+                ? "Enter a code from your authenticator app to create new recovery codes. Your current codes will stop working."
+                : "Enter your password and a code from your authenticator app to turn off two-factor authentication."}
+            </p>
+            {action === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="max-w-xs"
+                  data-testid="input-disable-password"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Authenticator or recovery code</Label>
+              <Input
+                id="two-factor-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                className="max-w-xs"
+                data-testid="input-two-factor-code"
+              />
+            </div>
+            <div className="flex gap-2">
+              {action === "regenerate" ? (
+                <Button
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={regenerateMutation.isPending || code.trim().length < 6}
+                  data-testid="button-confirm-regenerate"
+                >
+                  {regenerateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create New Codes
+                </Button>
+              ) : (
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={disableMutation.isPending || !password || code.trim().length < 6}
+                  data-testid="button-confirm-disable"
+                >
+                  {disableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Turn Off
+                </Button>
+              )}
+              <Button variant="outline" onClick={cancelAction} data-testid="button-cancel-action">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground" data-testid="text-recovery-codes-left">
+              {status.recoveryCodesLeft} of 10 recovery codes left
+              {status.recoveryCodesLeft <= 3 && " - create new ones before you run out"}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setAction("regenerate")} data-testid="button-regenerate-codes">
+                <KeyRound className="h-4 w-4 mr-2" />
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setAction("disable")} data-testid="button-disable-two-factor">
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,490 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import {
+  productOptionsSchema,
+  getOptionCombinations,
+  MAX_PRODUCT_OPTIONS,
+  type Product,
+  type ProductVariant,
+  type ProductOptionWithValues,
+  type ProductOptionValue,
+  type ProductOptionsInput,
+  type OptionValueMedia,
+  type VariantBulkUpdate,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, X, Loader2, Wand2, Image as ImageIcon, Check } from "lucide-react";
+
+type DraftOption = { name: string; values: string };
+type DraftVariant = { price: string; stock: string; sku: string };
+type MediaTarget = { kind: "variant"; variant: ProductVariant } | { kind: "value"; value: ProductOptionValue };
+
+function toDraftOptions(options: ProductOptionWithValues[]): DraftOption[] {
+  return options.map((option) => ({ name: option.name, values: option.values.map((value) => value.value).join(", ") }));
+}
+
+function toDraftVariants(variants: ProductVariant[]): Record<string, DraftVariant> {
+  return Object.fromEntries(
+    variants.map((variant) => [variant.id, { price: variant.price, stock: String(variant.stock), sku: variant.sku ?? "" }])
+  );
+}
+
+// Variants in the order of their option values, so the table reads like the
+// matrix (S / Red, S / Blue, M / Red...)
+function sortByOptions(variants: ProductVariant[], options: ProductOptionWithValues[]): ProductVariant[] {
+  const positions = new Map(options.flatMap((option) => option.values.map((value) => [value.id, value.position])));
+  const key = (variant: ProductVariant) => variant.optionValueIds.map((id) => positions.get(id) ?? 0);
+  return [...variants].sort((a, b) => {
+    const [keyA, keyB] = [key(a), key(b)];
+    const index = keyA.findIndex((position, i) => position !== keyB[i]);
+    return index === -1 ? 0 : keyA[index] - keyB[index];
+  });
+}
+
+// Options such as Size and Color, and the variant for every combination of
+// their values with price, stock and SKU edited together in one table
+export function VariantOptionsEditor({
+  product,
+  options,
+  variants,
+}: {
+  product: Product;
+  options: ProductOptionWithValues[];
+  variants: ProductVariant[];
+}) {
+  const [draftOptions, setDraftOptions] = useState<DraftOption[]>(() => toDraftOptions(options));
+  const [drafts, setDrafts] = useState<Record<string, DraftVariant>>(() => toDraftVariants(variants));
+  const [bulkPrice, setBulkPrice] = useState("");
+  const [bulkStock, setBulkStock] = useState("");
+  const [mediaTarget, setMediaTarget] = useState<MediaTarget | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => setDraftOptions(toDraftOptions(options)), [options]);
+  useEffect(() => setDrafts(toDraftVariants(variants)), [variants]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/products", product.id, "options"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products", product.id, "variants"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const optionsMutation = useMutation({
+    mutationFn: (input: ProductOptionsInput) =>
+      apiRequest("PUT", `/api/products/${product.id}/options`, input),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Variants generated", description: "Set a price and stock for each one below." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save options", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const variantsMutation = useMutation({
+    mutationFn: (input: VariantBulkUpdate) => apiRequest("PATCH", `/api/products/${product.id}/variants`, input),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Variants saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save variants", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const valueMutation = useMutation({
+    mutationFn: ({ valueId, data }: { valueId: string; data: OptionValueMedia }) =>
+      apiRequest("PATCH", `/api/products/${product.id}/options/values/${valueId}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products", product.id, "options"] });
+      setMediaTarget(null);
+      toast({ title: "Option value saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save option value", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleSaveMedia = ({ images, swatch }: OptionValueMedia) => {
+    if (!mediaTarget) return;
+    if (mediaTarget.kind === "value") {
+      valueMutation.mutate({ valueId: mediaTarget.value.id, data: { images, swatch } });
+    } else {
+      variantsMutation.mutate(
+        { variants: [{ id: mediaTarget.variant.id, images }] },
+        { onSuccess: () => setMediaTarget(null) }
+      );
+    }
+  };
+
+  const parsedOptions = draftOptions.map((option) => ({
+    name: option.name.trim(),
+    values: option.values
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  }));
+  const combinationCount = getOptionCombinations(parsedOptions.map((option) => option.values)).length;
+
+  const handleGenerate = () => {
+    const result = productOptionsSchema.safeParse({ options: parsedOptions });
+    if (!result.success) {
+      toast({ title: "Check your options", description: result.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+    const handMade = variants.filter((variant) => variant.optionValueIds.length === 0);
+    if (
+      handMade.length > 0 &&
+      parsedOptions.length > 0 &&
+      !window.confirm(`This replaces the ${handMade.length} variant(s) you added by hand. Continue?`)
+    ) {
+      return;
+    }
+    optionsMutation.mutate(result.data);
+  };
+
+  const updateDraftOption = (index: number, field: keyof DraftOption, value: string) => {
+    setDraftOptions(draftOptions.map((option, i) => (i === index ? { ...option, [field]: value } : option)));
+  };
+
+  const updateDraft = (id: string, field: keyof DraftVariant, value: string) => {
+    setDrafts({ ...drafts, [id]: { ...drafts[id], [field]: value } });
+  };
+
+  const applyToAll = (field: "price" | "stock", value: string) => {
+    if (!value) return;
+    setDrafts(Object.fromEntries(Object.entries(drafts).map(([id, draft]) => [id, { ...draft, [field]: value }])));
+  };
+
+  const handleSaveVariants = () => {
+    const changed = variants
+      .filter((variant) => {
+        const draft = drafts[variant.id];
+        return (
+          draft &&
+          (draft.price !== variant.price || draft.stock !== String(variant.stock) || draft.sku !== (variant.sku ?? ""))
+        );
+      })
+      .map((variant) => {
+        const draft = drafts[variant.id];
+        return { id: variant.id, price: draft.price, stock: Number(draft.stock), sku: draft.sku.trim() || null };
+      });
+    if (changed.length === 0) {
+      toast({ title: "Nothing to save" });
+      return;
+    }
+    if (changed.some((variant) => !Number.isInteger(variant.stock) || variant.stock < 0)) {
+      toast({ title: "Stock must be a whole number of 0 or more", variant: "destructive" });
+      return;
+    }
+    variantsMutation.mutate({ variants: changed });
+  };
+
+  const generatedVariants = sortByOptions(
+    variants.filter((variant) => variant.optionValueIds.length > 0),
+    options
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {draftOptions.map((option, index) => (
+          <div key={index} className="flex gap-2 items-start" data-testid={`option-row-${index}`}>
+            <Input
+              placeholder="Size"
+              value={option.name}
+              onChange={(e) => updateDraftOption(index, "name", e.target.value)}
+              className="w-28"
+              data-testid={`input-option-name-${index}`}
+            />
+            <Input
+              placeholder="S, M, L, XL"
+              value={option.values}
+              onChange={(e) => updateDraftOption(index, "values", e.target.value)}
+              className="flex-1"
+              data-testid={`input-option-values-${index}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setDraftOptions(draftOptions.filter((_, i) => i !== index))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setDraftOptions([...draftOptions, { name: "", values: "" }])}
+            disabled={draftOptions.length >= MAX_PRODUCT_OPTIONS}
+            data-testid="button-add-option"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Option
+          </Button>
+          {(draftOptions.length > 0 || options.length > 0) && (
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleGenerate}
+              disabled={optionsMutation.isPending}
+              data-testid="button-generate-variants"
+            >
+              {optionsMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Wand2 className="h-4 w-4 mr-2" />
+              )}
+              {draftOptions.length > 0 ? `Generate ${combinationCount} Variants` : "Remove Options"}
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Separate values with commas. Existing variants keep their price, stock and SKU when you add or remove values.
+        </p>
+      </div>
+
+      {options.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Swatches and images</p>
+          {options.map((option) => (
+            <div key={option.id} className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground w-20 truncate">{option.name}</span>
+              {option.values.map((value) => (
+                <Button
+                  key={value.id}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setMediaTarget({ kind: "value", value })}
+                  data-testid={`button-option-value-media-${value.id}`}
+                >
+                  {value.swatch && (
+                    <span className="h-3 w-3 rounded-full border mr-2" style={{ backgroundColor: value.swatch }} />
+                  )}
+                  {value.value}
+                  {value.images.length > 0 && <ImageIcon className="h-3 w-3 ml-2 text-muted-foreground" />}
+                </Button>
+              ))}
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            A value's images show for every variant with it, unless the variant has images of its own.
+          </p>
+        </div>
+      )}
+
+      {generatedVariants.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2 items-center rounded-lg bg-muted/50 p-2">
+            <span className="text-sm text-muted-foreground">Set all:</span>
+            <Input
+              type="number"
+              placeholder="Price"
+              value={bulkPrice}
+              onChange={(e) => setBulkPrice(e.target.value)}
+              className="h-8 w-24"
+            />
+            <Button type="button" variant="outline" size="sm" onClick={() => applyToAll("price", bulkPrice)}>
+              Apply
+            </Button>
+            <Input
+              type="number"
+              placeholder="Stock"
+              value={bulkStock}
+              onChange={(e) => setBulkStock(e.target.value)}
+              className="h-8 w-20"
+            />
+            <Button type="button" variant="outline" size="sm" onClick={() => applyToAll("stock", bulkStock)}>
+              Apply
+            </Button>
+          </div>
+          <div className="rounded-lg border divide-y">
+            <div className="grid grid-cols-[1fr_6rem_5rem_7rem_2.5rem] gap-2 px-3 py-2 text-xs font-medium text-muted-foreground">
+              <span>Variant</span>
+              <span>Price (BDT)</span>
+              <span>Stock</span>
+              <span>SKU</span>
+              <span />
+            </div>
+            {generatedVariants.map((variant) => (
+              <div
+                key={variant.id}
+                className="grid grid-cols-[1fr_6rem_5rem_7rem_2.5rem] gap-2 px-3 py-2 items-center"
+                data-testid={`variant-row-${variant.id}`}
+              >
+                <span className="text-sm font-medium truncate">{variant.name}</span>
+                <Input
+                  type="number"
+                  value={drafts[variant.id]?.price ?? ""}
+                  onChange={(e) => updateDraft(variant.id, "price", e.target.value)}
+                  className="h-8"
+                />
+                <Input
+                  type="number"
+                  value={drafts[variant.id]?.stock ?? ""}
+                  onChange={(e) => updateDraft(variant.id, "stock", e.target.value)}
+                  className="h-8"
+                />
+                <Input
+                  value={drafts[variant.id]?.sku ?? ""}
+                  onChange={(e) => updateDraft(variant.id, "sku", e.target.value)}
+                  className="h-8"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 relative"
+                  onClick={() => setMediaTarget({ kind: "variant", variant })}
+                  title="Images"
+                  data-testid={`button-variant-images-${variant.id}`}
+                >
+                  <ImageIcon className="h-4 w-4" />
+                  {variant.images.length > 0 && (
+                    <span className="absolute -top-1 -right-1 text-[10px] leading-none rounded-full bg-primary text-primary-foreground px-1 py-0.5">
+                      {variant.images.length}
+                    </span>
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSaveVariants}
+            disabled={variantsMutation.isPending}
+            data-testid="button-save-variants"
+          >
+            {variantsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Variants
+          </Button>
+        </div>
+      )}
+
+      {mediaTarget && (
+        <MediaDialog
+          title={mediaTarget.kind === "variant" ? mediaTarget.variant.name : mediaTarget.value.value}
+          productImages={product.images}
+          images={mediaTarget.kind === "variant" ? mediaTarget.variant.images : mediaTarget.value.images}
+          swatch={mediaTarget.kind === "value" ? mediaTarget.value.swatch : undefined}
+          isSaving={valueMutation.isPending || variantsMutation.isPending}
+          onSave={handleSaveMedia}
+          onClose={() => setMediaTarget(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// Picks images from those already uploaded to the product, plus a swatch
+// color for option values. `swatch` is undefined for variants, which have none.
+function MediaDialog({
+  title,
+  productImages,
+  images: initialImages,
+  swatch: initialSwatch,
+  isSaving,
+  onSave,
+  onClose,
+}: {
+  title: string;
+  productImages: string[];
+  images: string[];
+  swatch?: string | null;
+  isSaving: boolean;
+  onSave: (media: OptionValueMedia) => void;
+  onClose: () => void;
+}) {
+  const [images, setImages] = useState(initialImages.filter((image) => productImages.includes(image)));
+  const [hasSwatch, setHasSwatch] = useState(!!initialSwatch);
+  const [swatch, setSwatch] = useState(initialSwatch || "#000000");
+
+  const toggleImage = (image: string) => {
+    setImages(images.includes(image) ? images.filter((i) => i !== image) : [...images, image]);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display">{title}</DialogTitle>
+          <DialogDescription>Choose the images shoppers see when they pick this.</DialogDescription>
+        </DialogHeader>
+
+        {initialSwatch !== undefined && (
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="has-swatch"
+              checked={hasSwatch}
+              onCheckedChange={(checked) => setHasSwatch(checked === true)}
+            />
+            <Label htmlFor="has-swatch">Show as a color swatch</Label>
+            {hasSwatch && (
+              <Input
+                type="color"
+                value={swatch}
+                onChange={(e) => setSwatch(e.target.value)}
+                className="h-9 w-14 p-1"
+                data-testid="input-swatch"
+              />
+            )}
+          </div>
+        )}
+
+        {productImages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Upload images to the product first, then assign them here.</p>
+        ) : (
+          <div className="grid grid-cols-4 gap-2">
+            {productImages.map((image) => (
+              <button
+                key={image}
+                type="button"
+                onClick={() => toggleImage(image)}
+                className={`relative aspect-square rounded-md overflow-hidden border-2 ${
+                  images.includes(image) ? "border-primary" : "border-transparent"
+                }`}
+                data-testid={`button-pick-image-${productImages.indexOf(image)}`}
+              >
+                <img src={image} alt="" className="w-full h-full object-cover" />
+                {images.includes(image) && (
+                  <span className="absolute top-1 right-1 rounded-full bg-primary text-primary-foreground p-0.5">
+                    <Check className="h-3 w-3" />
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() =>
+              onSave({ images, swatch: initialSwatch === undefined ? undefined : hasSwatch ? swatch : null })
+            }
+            disabled={isSaving}
+            className="flex-1"
+            data-testid="button-save-media"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
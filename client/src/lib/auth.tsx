@@ -1,18 +1,22 @@
 import { createContext, useContext, useState, useEffect } from "react";
 import type { ReactNode } from "react";
-import type { User, Tenant, Plan, StoreSettings } from "@shared/schema";
+import { hasPermission, type SafeUser, type Tenant, type Plan, type StoreSettings, type TenantRole, type TenantPermission } from "@shared/schema";
 
-interface AuthUser extends User {
+interface AuthUser extends SafeUser {
   tenant?: Tenant & { plan?: Plan; storeSettings?: StoreSettings };
+  tenantRole?: TenantRole | null; // The user's role on their store
 }
 
 interface AuthContextType {
   user: AuthUser | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with twoFactorRequired when the password was right but a code is still needed
+  login: (email: string, password: string) => Promise<{ twoFactorRequired: boolean }>;
+  verifyTwoFactor: (code: string) => Promise<void>;
   register: (email: string, password: string, storeName: string, storeSlug: string) => Promise<void>;
   logout: () => Promise<void>;
   refetch: () => Promise<void>;
+  can: (permission: TenantPermission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -52,6 +56,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const error = await res.json();
       throw new Error(error.message || "Login failed");
     }
+    const { twoFactorRequired } = await res.json();
+    if (twoFactorRequired) {
+      return { twoFactorRequired: true };
+    }
     
     // Wait a bit for session to be saved, then retry fetchUser if needed
     await new Promise(resolve => setTimeout(resolve, 100));
@@ -65,7 +73,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         if (userRes.ok) {
           const data = await userRes.json();
           setUser(data.user);
-          return;
+          return { twoFactorRequired: false };
         }
         if (attempts < maxAttempts - 1) {
           await new Promise(resolve => setTimeout(resolve, 200));
@@ -81,6 +89,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     
     // Final attempt
     await fetchUser();
+    return { twoFactorRequired: false };
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    const res = await fetch("/api/auth/login/two-factor", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code }),
+      credentials: "include",
+    });
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || "Verification failed");
+    }
+    await fetchUser();
   };
 
   const register = async (email: string, password: string, storeName: string, storeSlug: string) => {
@@ -130,8 +153,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(null);
   };
 
+  const can = (permission: TenantPermission) => hasPermission(user?.tenantRole, permission);
+
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, register, logout, refetch: fetchUser }}>
+    <AuthContext.Provider value={{ user, isLoading, login, verifyTwoFactor, register, logout, refetch: fetchUser, can }}>
       {children}
     </AuthContext.Provider>
   );
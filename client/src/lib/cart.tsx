@@ -0,0 +1,107 @@
+import { createContext, useContext, useState, useEffect } from "react";
+import type { ReactNode } from "react";
+import { useStoreSlug } from "@/lib/store-host";
+
+export interface CartItem {
+  productId: string;
+  variantId?: string;
+  productSlug: string;
+  name: string;
+  variantName?: string;
+  price: string;
+  image?: string;
+  quantity: number;
+  stock?: number; // Known stock for variant lines, used to cap quantity
+}
+
+type Carts = Record<string, CartItem[]>;
+
+const STORAGE_KEY = "storebuilder-carts";
+
+function loadCarts(): Carts {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function isSameLine(a: CartItem, b: Pick<CartItem, "productId" | "variantId">) {
+  return a.productId === b.productId && (a.variantId || null) === (b.variantId || null);
+}
+
+interface CartContextType {
+  carts: Carts;
+  setCart: (storeSlug: string, items: CartItem[]) => void;
+}
+
+const CartContext = createContext<CartContextType | null>(null);
+
+// Carts are kept per store in localStorage so a customer browsing two shops
+// doesn't mix their items.
+export function CartProvider({ children }: { children: ReactNode }) {
+  const [carts, setCarts] = useState<Carts>(loadCarts);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(carts));
+  }, [carts]);
+
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setCarts(loadCarts());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const setCart = (storeSlug: string, items: CartItem[]) => {
+    setCarts((prev) => ({ ...prev, [storeSlug]: items }));
+  };
+
+  return <CartContext.Provider value={{ carts, setCart }}>{children}</CartContext.Provider>;
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  const storeSlug = useStoreSlug();
+  const items = context.carts[storeSlug] || [];
+  const setItems = (next: CartItem[]) => context.setCart(storeSlug, next);
+
+  const clampQuantity = (item: CartItem, quantity: number) =>
+    item.stock !== undefined ? Math.min(quantity, item.stock) : quantity;
+
+  const addItem = (item: CartItem) => {
+    const existing = items.find((i) => isSameLine(i, item));
+    if (existing) {
+      setItems(
+        items.map((i) =>
+          isSameLine(i, item) ? { ...i, ...item, quantity: clampQuantity(item, i.quantity + item.quantity) } : i
+        )
+      );
+    } else {
+      setItems([...items, { ...item, quantity: clampQuantity(item, item.quantity) }]);
+    }
+  };
+
+  const updateQuantity = (line: Pick<CartItem, "productId" | "variantId">, quantity: number) => {
+    if (quantity < 1) {
+      removeItem(line);
+      return;
+    }
+    setItems(items.map((i) => (isSameLine(i, line) ? { ...i, quantity: clampQuantity(i, quantity) } : i)));
+  };
+
+  const removeItem = (line: Pick<CartItem, "productId" | "variantId">) => {
+    setItems(items.filter((i) => !isSameLine(i, line)));
+  };
+
+  const clear = () => setItems([]);
+
+  const count = items.reduce((sum, i) => sum + i.quantity, 0);
+  const subtotal = items.reduce((sum, i) => sum + parseFloat(i.price) * i.quantity, 0);
+
+  return { items, addItem, updateQuantity, removeItem, clear, count, subtotal };
+}
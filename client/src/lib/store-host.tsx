@@ -0,0 +1,39 @@
+import { createContext, useContext } from "react";
+import type { ReactNode } from "react";
+import { useParams } from "wouter";
+
+export interface HostStore {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+// Set when the app is being served on a tenant's verified custom domain.
+// Storefront pages then live at "/" and "/:productSlug" instead of under
+// "/store/:storeSlug".
+const StoreHostContext = createContext<HostStore | null>(null);
+
+export function StoreHostProvider({ store, children }: { store: HostStore; children: ReactNode }) {
+  return <StoreHostContext.Provider value={store}>{children}</StoreHostContext.Provider>;
+}
+
+export function useHostStore() {
+  return useContext(StoreHostContext);
+}
+
+export function useStoreSlug(): string {
+  const hostStore = useHostStore();
+  const params = useParams<{ storeSlug?: string }>();
+  return params.storeSlug || hostStore?.slug || "";
+}
+
+export function useStorePath() {
+  const hostStore = useHostStore();
+  return (storeSlug: string, path = "") => {
+    const suffix = path.replace(/^\/+/, "");
+    if (hostStore) {
+      return `/${suffix}`;
+    }
+    return suffix ? `/store/${storeSlug}/${suffix}` : `/store/${storeSlug}`;
+  };
+}
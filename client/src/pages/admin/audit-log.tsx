@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Tenant } from "@shared/schema";
+import { AuditLogViewer } from "@/components/audit-log-viewer";
+
+export default function AdminAuditLogPage() {
+  const { data: tenants } = useQuery<Tenant[]>({
+    queryKey: ["/api/admin/tenants"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl md:text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground mt-1">Every change made by store staff and platform admins</p>
+      </div>
+
+      <AuditLogViewer endpoint="/api/admin/audit-logs" stores={tenants ?? []} />
+    </div>
+  );
+}
@@ -153,6 +153,9 @@ export default function AdminDomainsPage() {
                             Pending
                           </Badge>
                         )}
+                        {domain.lastCheckError && (
+                          <p className="text-xs text-destructive mt-1 max-w-xs">{domain.lastCheckError}</p>
+                        )}
                       </TableCell>
                       <TableCell>
                         <span className="text-sm text-muted-foreground">
@@ -0,0 +1,25 @@
+import { useAuth } from "@/lib/auth";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ChangePasswordCard } from "@/components/change-password-card";
+import { ActiveSessions } from "@/components/active-sessions";
+
+export default function AdminSecurityPage() {
+  const { user } = useAuth();
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="font-display text-2xl md:text-3xl font-bold">Security</h1>
+        <p className="text-muted-foreground mt-1">
+          {user?.twoFactorEnabled
+            ? "Protect your login to the admin panel"
+            : "Set up two-factor authentication to continue to the admin panel"}
+        </p>
+      </div>
+
+      <ChangePasswordCard />
+      <TwoFactorSettings />
+      <ActiveSessions />
+    </div>
+  );
+}
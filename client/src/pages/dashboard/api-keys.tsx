@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  createApiKeySchema,
+  API_SCOPES,
+  type ApiScope,
+  type CreateApiKeyInput,
+  type PublicApiKey,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Plus, Trash2, Loader2, Copy } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+const SCOPES = Object.keys(API_SCOPES) as ApiScope[];
+
+export default function ApiKeysPage() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: apiKeys, isLoading } = useQuery<PublicApiKey[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CreateApiKeyInput) => {
+      const res = await apiRequest("POST", "/api/api-keys", input);
+      return res.json() as Promise<{ apiKey: PublicApiKey; key: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      setIsDialogOpen(false);
+      setNewKey(result.key);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create API key", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/api-keys/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      toast({ title: "API key revoked", description: "Apps using it can no longer reach your store." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't revoke API key", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleRevoke = (apiKey: PublicApiKey) => {
+    if (window.confirm(`Revoke "${apiKey.name}"? Anything using this key will stop working.`)) {
+      revokeMutation.mutate(apiKey.id);
+    }
+  };
+
+  const copyNewKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast({ title: "Key copied" });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="font-display text-2xl md:text-3xl font-bold">API Keys</h1>
+          <p className="text-muted-foreground mt-1">Connect other apps to your store through the REST API</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-create-api-key">
+              <Plus className="mr-2 h-4 w-4" />
+              Create API Key
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle className="font-display">Create API Key</DialogTitle>
+            </DialogHeader>
+            <ApiKeyForm
+              onSubmit={(input) => createMutation.mutate(input)}
+              isLoading={createMutation.isPending}
+              onCancel={() => setIsDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {newKey && (
+        <Card className="border-primary/40">
+          <CardHeader>
+            <CardTitle className="font-display">Copy your new key</CardTitle>
+            <CardDescription>
+              This is the only time it will be shown. Store it somewhere safe; if you lose it, revoke it and create a
+              new one.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input value={newKey} readOnly className="font-mono" data-testid="input-new-api-key" />
+              <Button variant="outline" onClick={copyNewKey} data-testid="button-copy-api-key">
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+            </div>
+            <Button variant="ghost" onClick={() => setNewKey(null)} data-testid="button-dismiss-api-key">
+              I've saved this key
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-display">Keys</CardTitle>
+          <CardDescription>Each key can only use the scopes you gave it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-16" />
+              ))}
+            </div>
+          ) : !apiKeys || apiKeys.length === 0 ? (
+            <div className="text-center py-8">
+              <KeyRound className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No API keys yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {apiKeys.map((apiKey) => (
+                <div
+                  key={apiKey.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 rounded-lg border"
+                  data-testid={`api-key-${apiKey.id}`}
+                >
+                  <div className="flex items-center gap-4 min-w-0">
+                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-primary/10">
+                      <KeyRound className="h-5 w-5 text-primary" />
+                    </div>
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">{apiKey.name}</h4>
+                        <code className="text-xs text-muted-foreground">{apiKey.keyPrefix}…</code>
+                        {apiKey.revokedAt && <Badge variant="secondary">Revoked</Badge>}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="font-mono text-xs">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {apiKey.lastUsedAt
+                          ? `Last used ${formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}`
+                          : "Never used"}
+                      </p>
+                    </div>
+                  </div>
+                  {!apiKey.revokedAt && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRevoke(apiKey)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-${apiKey.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-display">Using the API</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground space-y-2">
+          <p>
+            Send the key in an <code>Authorization: Bearer &lt;key&gt;</code> header to endpoints under{" "}
+            <code>/api/v1</code>: <code>products</code>, <code>products/:id/variants</code>, <code>orders</code>,{" "}
+            <code>customers</code> and <code>shipping-classes</code>.
+          </p>
+          <p>
+            Lists take <code>page</code> and <code>limit</code> (up to 100) and answer with <code>data</code> and{" "}
+            <code>pagination</code>. Errors come back as <code>{"{ error: { code, message } }"}</code>. Each key can make
+            120 requests a minute.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function ApiKeyForm({
+  onSubmit,
+  isLoading,
+  onCancel,
+}: {
+  onSubmit: (data: CreateApiKeyInput) => void;
+  isLoading: boolean;
+  onCancel: () => void;
+}) {
+  const form = useForm<CreateApiKeyInput>({
+    resolver: zodResolver(createApiKeySchema),
+    defaultValues: { name: "", scopes: [] },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Inventory sync" data-testid="input-api-key-name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="scopes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Scopes</FormLabel>
+              <div className="rounded-lg border p-3 space-y-2">
+                {SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={field.value.includes(scope)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(checked ? [...field.value, scope] : field.value.filter((s) => s !== scope))
+                      }
+                      className="mt-0.5"
+                      data-testid={`checkbox-scope-${scope}`}
+                    />
+                    <span>
+                      <span className="font-mono">{scope}</span>
+                      <span className="block text-muted-foreground">{API_SCOPES[scope]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="flex-1" data-testid="button-save-api-key">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              "Create Key"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
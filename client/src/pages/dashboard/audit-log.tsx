@@ -0,0 +1,14 @@
+import { AuditLogViewer } from "@/components/audit-log-viewer";
+
+export default function DashboardAuditLogPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl md:text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground mt-1">See who changed what in your store, and when</p>
+      </div>
+
+      <AuditLogViewer endpoint="/api/audit-logs" />
+    </div>
+  );
+}
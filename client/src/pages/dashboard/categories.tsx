@@ -0,0 +1,700 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  categorySchema,
+  collectionSchema,
+  getCategoryTree,
+  getCategoryPath,
+  COLLECTION_RULE_FIELDS,
+  type Category,
+  type CategoryInput,
+  type Collection,
+  type CollectionInput,
+  type CollectionRuleField,
+} from "@shared/schema";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, FolderTree, Layers, Edit, Trash2, Loader2, ExternalLink, X } from "lucide-react";
+
+const RULE_FIELDS = Object.keys(COLLECTION_RULE_FIELDS) as CollectionRuleField[];
+const NO_PARENT = "none";
+
+function toSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export default function CategoriesPage() {
+  const [categoryDialog, setCategoryDialog] = useState<{ category: Category | null } | null>(null);
+  const [collectionDialog, setCollectionDialog] = useState<{ collection: Collection | null } | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const tenantSlug = user?.tenant?.slug;
+
+  const { data: categories, isLoading: isLoadingCategories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: collections, isLoading: isLoadingCollections } = useQuery<Collection[]>({
+    queryKey: ["/api/collections"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getErrorMessage(error), variant: "destructive" });
+  };
+
+  const saveCategoryMutation = useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: CategoryInput }) =>
+      id ? apiRequest("PATCH", `/api/categories/${id}`, data) : apiRequest("POST", "/api/categories", data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      setCategoryDialog(null);
+      toast({ title: id ? "Category updated" : "Category created" });
+    },
+    onError: onError("Couldn't save category"),
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/categories/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({ title: "Category deleted" });
+    },
+    onError: onError("Couldn't delete category"),
+  });
+
+  const saveCollectionMutation = useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: CollectionInput }) =>
+      id ? apiRequest("PATCH", `/api/collections/${id}`, data) : apiRequest("POST", "/api/collections", data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      setCollectionDialog(null);
+      toast({ title: id ? "Collection updated" : "Collection created" });
+    },
+    onError: onError("Couldn't save collection"),
+  });
+
+  const deleteCollectionMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/collections/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({ title: "Collection deleted" });
+    },
+    onError: onError("Couldn't delete collection"),
+  });
+
+  const handleDeleteCategory = (category: Category) => {
+    if (window.confirm(`Delete "${category.name}"? Its subcategories move up a level and its products stay in your store.`)) {
+      deleteCategoryMutation.mutate(category.id);
+    }
+  };
+
+  const handleDeleteCollection = (collection: Collection) => {
+    if (window.confirm(`Delete "${collection.name}"? Its products stay in your store.`)) {
+      deleteCollectionMutation.mutate(collection.id);
+    }
+  };
+
+  const describeRules = (collection: Collection) =>
+    collection.rules
+      .map((rule) => {
+        const field = COLLECTION_RULE_FIELDS[rule.field];
+        const operator = field.operators[rule.operator as keyof typeof field.operators];
+        const value =
+          rule.field === "category" ? categories?.find((category) => category.id === rule.value)?.name ?? "deleted category" : rule.value;
+        return `${field.label} ${operator} ${value}`;
+      })
+      .join(collection.matchAll ? " and " : " or ");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl md:text-3xl font-bold">Categories</h1>
+        <p className="text-muted-foreground mt-1">Group your products so shoppers can browse them</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="font-display">Categories</CardTitle>
+              <CardDescription>Each one gets its own page in your store. Put categories inside others to nest them.</CardDescription>
+            </div>
+            <Button onClick={() => setCategoryDialog({ category: null })} data-testid="button-add-category">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Category
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingCategories ? (
+            <div className="space-y-3">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-14" />
+              ))}
+            </div>
+          ) : !categories || categories.length === 0 ? (
+            <div className="text-center py-8">
+              <FolderTree className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No categories yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {getCategoryTree(categories).map(({ category, depth }) => (
+                <div
+                  key={category.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+                  style={{ marginLeft: `${depth * 1.5}rem` }}
+                  data-testid={`category-${category.id}`}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <FolderTree className="h-4 w-4 shrink-0 text-primary" />
+                    <div className="min-w-0">
+                      <h4 className="font-medium truncate">{category.name}</h4>
+                      <p className="text-xs text-muted-foreground truncate">/category/{category.slug}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {tenantSlug && (
+                      <Button variant="ghost" size="icon" asChild>
+                        <a href={`/store/${tenantSlug}/category/${category.slug}`} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setCategoryDialog({ category })}
+                      data-testid={`button-edit-category-${category.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteCategory(category)}
+                      disabled={deleteCategoryMutation.isPending}
+                      data-testid={`button-delete-category-${category.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="font-display">Collections</CardTitle>
+              <CardDescription>
+                Pick products by hand from the Products page, or let rules fill a collection for you.
+              </CardDescription>
+            </div>
+            <Button onClick={() => setCollectionDialog({ collection: null })} data-testid="button-add-collection">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Collection
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingCollections ? (
+            <div className="space-y-3">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-14" />
+              ))}
+            </div>
+          ) : !collections || collections.length === 0 ? (
+            <div className="text-center py-8">
+              <Layers className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No collections yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {collections.map((collection) => (
+                <div
+                  key={collection.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+                  data-testid={`collection-${collection.id}`}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Layers className="h-4 w-4 shrink-0 text-primary" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">{collection.name}</h4>
+                        <Badge variant="secondary">{collection.type === "manual" ? "Manual" : "Automatic"}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {collection.type === "manual" ? `/collection/${collection.slug}` : describeRules(collection)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {tenantSlug && (
+                      <Button variant="ghost" size="icon" asChild>
+                        <a href={`/store/${tenantSlug}/collection/${collection.slug}`} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setCollectionDialog({ collection })}
+                      data-testid={`button-edit-collection-${collection.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteCollection(collection)}
+                      disabled={deleteCollectionMutation.isPending}
+                      data-testid={`button-delete-collection-${collection.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!categoryDialog} onOpenChange={(open) => !open && setCategoryDialog(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="font-display">{categoryDialog?.category ? "Edit Category" : "Add Category"}</DialogTitle>
+          </DialogHeader>
+          {categoryDialog && (
+            <CategoryForm
+              category={categoryDialog.category}
+              categories={categories ?? []}
+              onSubmit={(data) => saveCategoryMutation.mutate({ id: categoryDialog.category?.id, data })}
+              isLoading={saveCategoryMutation.isPending}
+              onCancel={() => setCategoryDialog(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!collectionDialog} onOpenChange={(open) => !open && setCollectionDialog(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              {collectionDialog?.collection ? "Edit Collection" : "Add Collection"}
+            </DialogTitle>
+          </DialogHeader>
+          {collectionDialog && (
+            <CollectionForm
+              collection={collectionDialog.collection}
+              categories={categories ?? []}
+              onSubmit={(data) => saveCollectionMutation.mutate({ id: collectionDialog.collection?.id, data })}
+              isLoading={saveCollectionMutation.isPending}
+              onCancel={() => setCollectionDialog(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function CategoryForm({
+  category,
+  categories,
+  onSubmit,
+  isLoading,
+  onCancel,
+}: {
+  category: Category | null;
+  categories: Category[];
+  onSubmit: (data: CategoryInput) => void;
+  isLoading: boolean;
+  onCancel: () => void;
+}) {
+  const form = useForm<CategoryInput>({
+    resolver: zodResolver(categorySchema),
+    defaultValues: {
+      name: category?.name ?? "",
+      slug: category?.slug ?? "",
+      parentId: category?.parentId ?? null,
+      description: category?.description ?? "",
+    },
+  });
+
+  // A category can't be filed under itself or anything inside it
+  const parentOptions = getCategoryTree(categories).filter(
+    ({ category: option }) => !category || !getCategoryPath(categories, option.id).some((c) => c.id === category.id)
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="T-Shirts"
+                  data-testid="input-category-name"
+                  {...field}
+                  onBlur={() => {
+                    field.onBlur();
+                    if (!category && !form.getValues("slug")) form.setValue("slug", toSlug(field.value));
+                  }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="slug"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>URL Slug</FormLabel>
+              <FormControl>
+                <Input placeholder="t-shirts" data-testid="input-category-slug" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="parentId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Inside</FormLabel>
+              <Select
+                value={field.value ?? NO_PARENT}
+                onValueChange={(value) => field.onChange(value === NO_PARENT ? null : value)}
+              >
+                <FormControl>
+                  <SelectTrigger data-testid="select-category-parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>Nothing (top level)</SelectItem>
+                  {parentOptions.map(({ category: option, depth }) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {"— ".repeat(depth)}
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={3}
+                  placeholder="Shown at the top of the category page"
+                  data-testid="input-category-description"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="flex-1" data-testid="button-save-category">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Category"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function CollectionForm({
+  collection,
+  categories,
+  onSubmit,
+  isLoading,
+  onCancel,
+}: {
+  collection: Collection | null;
+  categories: Category[];
+  onSubmit: (data: CollectionInput) => void;
+  isLoading: boolean;
+  onCancel: () => void;
+}) {
+  const form = useForm<CollectionInput>({
+    resolver: zodResolver(collectionSchema),
+    defaultValues: {
+      name: collection?.name ?? "",
+      slug: collection?.slug ?? "",
+      description: collection?.description ?? "",
+      type: collection?.type ?? "manual",
+      rules: collection?.rules ?? [],
+      matchAll: collection?.matchAll ?? true,
+    },
+  });
+  const rules = useFieldArray({ control: form.control, name: "rules" });
+  const type = form.watch("type");
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Eid Specials"
+                  data-testid="input-collection-name"
+                  {...field}
+                  onBlur={() => {
+                    field.onBlur();
+                    if (!collection && !form.getValues("slug")) form.setValue("slug", toSlug(field.value));
+                  }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="slug"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>URL Slug</FormLabel>
+              <FormControl>
+                <Input placeholder="eid-specials" data-testid="input-collection-slug" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={2} data-testid="input-collection-description" {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Products</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-collection-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="manual">Chosen by hand</SelectItem>
+                  <SelectItem value="automatic">Matching rules</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {field.value === "manual"
+                  ? "Add products to this collection when editing them on the Products page."
+                  : "Active products that match are added and removed automatically."}
+              </p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {type === "automatic" && (
+          <div className="space-y-3 rounded-lg border p-3">
+            <FormField
+              control={form.control}
+              name="matchAll"
+              render={({ field }) => (
+                <FormItem>
+                  <Select value={field.value ? "all" : "any"} onValueChange={(value) => field.onChange(value === "all")}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-collection-match">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="all">Products must match all rules</SelectItem>
+                      <SelectItem value="any">Products can match any rule</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            {rules.fields.map((rule, index) => {
+              const field = form.watch(`rules.${index}.field`);
+              return (
+                <div key={rule.id} className="flex gap-2 items-start" data-testid={`collection-rule-${index}`}>
+                  <Select
+                    value={field}
+                    onValueChange={(value) => {
+                      const next = value as CollectionRuleField;
+                      form.setValue(`rules.${index}.field`, next);
+                      form.setValue(`rules.${index}.operator`, Object.keys(COLLECTION_RULE_FIELDS[next].operators)[0]);
+                      form.setValue(`rules.${index}.value`, "");
+                    }}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RULE_FIELDS.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {COLLECTION_RULE_FIELDS[option].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormField
+                    control={form.control}
+                    name={`rules.${index}.operator`}
+                    render={({ field: operator }) => (
+                      <Select value={operator.value} onValueChange={operator.onChange}>
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(COLLECTION_RULE_FIELDS[field].operators).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`rules.${index}.value`}
+                    render={({ field: value }) => (
+                      <FormItem className="flex-1">
+                        {field === "category" ? (
+                          <Select value={value.value} onValueChange={value.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose..." />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {getCategoryTree(categories).map(({ category, depth }) => (
+                                <SelectItem key={category.id} value={category.id}>
+                                  {"— ".repeat(depth)}
+                                  {category.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <FormControl>
+                            <Input
+                              type={field === "name" ? "text" : "number"}
+                              placeholder={field === "price" ? "1000" : field === "created" ? "30" : "Cotton"}
+                              {...value}
+                            />
+                          </FormControl>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="ghost" size="icon" onClick={() => rules.remove(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => rules.append({ field: "name", operator: "contains", value: "" })}
+              disabled={rules.fields.length >= 10}
+              data-testid="button-add-rule"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rule
+            </Button>
+            {form.formState.errors.rules?.message && (
+              <p className="text-sm font-medium text-destructive">{form.formState.errors.rules.message}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="flex-1" data-testid="button-save-collection">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Collection"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
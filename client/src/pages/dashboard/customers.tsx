@@ -0,0 +1,274 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getOrderNumber, type CustomerWithStats, type OrderWithItems } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Users, Phone, MapPin, Search, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+type CustomerDetails = CustomerWithStats & { orders: OrderWithItems[] };
+
+const statusStyles: Record<string, string> = {
+  new: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  confirmed: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  shipped: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+  delivered: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+// Share of finished orders (delivered or cancelled) that were delivered
+function getDeliveryRate(customer: Pick<CustomerWithStats, "deliveredCount" | "cancelledCount">) {
+  const finished = customer.deliveredCount + customer.cancelledCount;
+  return finished > 0 ? Math.round((customer.deliveredCount / finished) * 100) : null;
+}
+
+export default function CustomersPage() {
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: customers, isLoading } = useQuery<CustomerWithStats[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const searchTerm = search.trim().toLowerCase();
+  const filteredCustomers = customers?.filter(
+    (c) => !searchTerm || c.name.toLowerCase().includes(searchTerm) || c.phone.includes(searchTerm)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl md:text-3xl font-bold">Customers</h1>
+        <p className="text-muted-foreground mt-1">See who buys from you and how their orders turned out</p>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by name or phone"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+          data-testid="input-search-customers"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20" />
+          ))}
+        </div>
+      ) : filteredCustomers && filteredCustomers.length > 0 ? (
+        <div className="space-y-3">
+          {filteredCustomers.map((customer) => (
+            <CustomerCard key={customer.id} customer={customer} onView={() => setSelectedId(customer.id)} />
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="rounded-full bg-primary/10 p-4 mb-4">
+              <Users className="h-8 w-8 text-primary" />
+            </div>
+            <h3 className="font-display text-xl font-semibold mb-2">No customers found</h3>
+            <p className="text-muted-foreground text-center max-w-sm">
+              {searchTerm
+                ? "No customers match your search."
+                : "Customers are added automatically when they place their first order."}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!selectedId} onOpenChange={() => setSelectedId(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-display">Customer Details</DialogTitle>
+          </DialogHeader>
+          {selectedId && <CustomerDetailsView customerId={selectedId} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function CustomerCard({ customer, onView }: { customer: CustomerWithStats; onView: () => void }) {
+  const deliveryRate = getDeliveryRate(customer);
+
+  return (
+    <Card data-testid={`customer-card-${customer.id}`}>
+      <CardContent className="p-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 flex-wrap mb-1">
+              <span className="font-medium">{customer.name}</span>
+              {customer.orderCount > 1 && (
+                <Badge variant="secondary">
+                  Repeat buyer
+                </Badge>
+              )}
+              {customer.cancelledCount > 0 && customer.cancelledCount >= customer.deliveredCount && (
+                <Badge className={statusStyles.cancelled}>
+                  High cancellations
+                </Badge>
+              )}
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Phone className="h-4 w-4" />
+              <span>{customer.phone}</span>
+              {customer.lastOrderAt && (
+                <span>· Last order {format(new Date(customer.lastOrderAt), "MMM d, yyyy")}</span>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-6 text-sm">
+            <div className="text-right">
+              <p className="font-bold">{customer.orderCount}</p>
+              <p className="text-xs text-muted-foreground">Orders</p>
+            </div>
+            <div className="text-right">
+              <p className="font-bold">৳{customer.totalSpent}</p>
+              <p className="text-xs text-muted-foreground">Delivered</p>
+            </div>
+            <div className="text-right">
+              <p className="font-bold">{deliveryRate === null ? "—" : `${deliveryRate}%`}</p>
+              <p className="text-xs text-muted-foreground">Success</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={onView} data-testid={`button-view-customer-${customer.id}`}>
+              View
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CustomerDetailsView({ customerId }: { customerId: string }) {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState("");
+
+  const { data: customer, isLoading } = useQuery<CustomerDetails>({
+    queryKey: ["/api/customers", customerId],
+  });
+
+  useEffect(() => {
+    setNotes(customer?.notes || "");
+  }, [customer?.notes]);
+
+  const notesMutation = useMutation({
+    mutationFn: (notes: string) => apiRequest("PATCH", `/api/customers/${customerId}`, { notes: notes || null }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      toast({ title: "Notes saved", description: "Customer notes have been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !customer) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-16" />
+        <Skeleton className="h-32" />
+      </div>
+    );
+  }
+
+  const deliveryRate = getDeliveryRate(customer);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-3">
+        <p className="font-medium text-lg">{customer.name}</p>
+        <div className="flex items-center gap-3 text-sm">
+          <Phone className="h-4 w-4 text-muted-foreground" />
+          <span>{customer.phone}</span>
+        </div>
+        {customer.address && (
+          <div className="flex items-start gap-3 text-sm">
+            <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+            <span>{customer.address}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+        <div className="rounded-lg bg-muted/50 p-3">
+          <p className="font-bold">{customer.orderCount}</p>
+          <p className="text-xs text-muted-foreground">Orders</p>
+        </div>
+        <div className="rounded-lg bg-muted/50 p-3">
+          <p className="font-bold">{customer.deliveredCount}</p>
+          <p className="text-xs text-muted-foreground">Delivered</p>
+        </div>
+        <div className="rounded-lg bg-muted/50 p-3">
+          <p className="font-bold">{customer.cancelledCount}</p>
+          <p className="text-xs text-muted-foreground">Cancelled</p>
+        </div>
+        <div className="rounded-lg bg-muted/50 p-3">
+          <p className="font-bold">{deliveryRate === null ? "—" : `${deliveryRate}%`}</p>
+          <p className="text-xs text-muted-foreground">Success</p>
+        </div>
+      </div>
+
+      <div className="border-t pt-4 space-y-2">
+        <label className="text-sm font-medium block">Notes</label>
+        <Textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Only visible to you, e.g. prefers evening delivery"
+          rows={3}
+          maxLength={2000}
+          data-testid="input-customer-notes"
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => notesMutation.mutate(notes)}
+            disabled={notesMutation.isPending || notes === (customer.notes || "")}
+            data-testid="button-save-notes"
+          >
+            {notesMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Notes
+          </Button>
+        </div>
+      </div>
+
+      <div className="border-t pt-4">
+        <h4 className="font-medium mb-3">
+          Order History <span className="text-muted-foreground font-normal">· ৳{customer.totalSpent} delivered</span>
+        </h4>
+        <div className="space-y-2">
+          {customer.orders.map((order) => (
+            <div
+              key={order.id}
+              className="flex items-center justify-between gap-3 text-sm"
+              data-testid={`customer-order-${order.id}`}
+            >
+              <div className="min-w-0">
+                <span className="font-mono">#{getOrderNumber(order)}</span>
+                <span className="text-muted-foreground ml-2">{format(new Date(order.createdAt), "MMM d, yyyy")}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge className={statusStyles[order.status]}>
+                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                </Badge>
+                <span className="font-medium">৳{order.total}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,536 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { DiscountFormInput, DiscountWithStats, Product } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Tag, Edit, Trash2, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+// Form fields are kept as strings; the server does the real validation
+const discountFieldsSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_-]{3,32}$/, "Codes are 3-32 letters, numbers, dashes or underscores"),
+  type: z.enum(["percentage", "fixed", "free_shipping"]),
+  value: z.string(),
+  automatic: z.boolean(),
+  minOrderAmount: z.string(),
+  usageLimit: z.string(),
+  startsAt: z.string(),
+  expiresAt: z.string(),
+  productIds: z.array(z.string()),
+  isActive: z.boolean(),
+});
+
+type DiscountFields = z.infer<typeof discountFieldsSchema>;
+
+// Dates are picked as whole days: a discount starts at the beginning of its
+// start day and runs until the end of its expiry day
+function toDiscountPayload(data: DiscountFields): DiscountFormInput {
+  return {
+    code: data.code,
+    type: data.type,
+    value: data.type === "free_shipping" ? 0 : Number(data.value),
+    automatic: data.automatic,
+    minOrderAmount: data.minOrderAmount ? Number(data.minOrderAmount) : null,
+    usageLimit: data.usageLimit ? Number(data.usageLimit) : null,
+    productIds: data.productIds.length > 0 ? data.productIds : null,
+    startsAt: data.startsAt ? new Date(`${data.startsAt}T00:00:00`) : null,
+    expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59`) : null,
+    isActive: data.isActive,
+  };
+}
+
+function describeDiscount(discount: DiscountWithStats) {
+  if (discount.type === "free_shipping") return "Free shipping";
+  if (discount.type === "percentage") return `${parseFloat(discount.value)}% off`;
+  return `৳${discount.value} off`;
+}
+
+function isExpired(discount: DiscountWithStats) {
+  return !!discount.expiresAt && new Date(discount.expiresAt) <= new Date();
+}
+
+export default function DiscountsPage() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingDiscount, setEditingDiscount] = useState<DiscountWithStats | null>(null);
+  const { toast } = useToast();
+
+  const { data: discounts, isLoading } = useQuery<DiscountWithStats[]>({
+    queryKey: ["/api/discounts"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: DiscountFormInput) => apiRequest("POST", "/api/discounts", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discounts"] });
+      setIsDialogOpen(false);
+      toast({ title: "Discount created", description: "Your discount is ready to use." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<DiscountFormInput> }) =>
+      apiRequest("PATCH", `/api/discounts/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discounts"] });
+      setIsDialogOpen(false);
+      setEditingDiscount(null);
+      toast({ title: "Discount updated", description: "Your discount has been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/discounts/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discounts"] });
+      toast({ title: "Discount deleted", description: "Past orders keep the discount they received." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleEdit = (discount: DiscountWithStats) => {
+    setEditingDiscount(discount);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm("Are you sure you want to delete this discount?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingDiscount(null);
+  };
+
+  const totals = (discounts || []).reduce(
+    (acc, d) => ({
+      orders: acc.orders + d.orderCount,
+      discountTotal: acc.discountTotal + parseFloat(d.discountTotal),
+      revenue: acc.revenue + parseFloat(d.revenue),
+    }),
+    { orders: 0, discountTotal: 0, revenue: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="font-display text-2xl md:text-3xl font-bold">Discounts</h1>
+          <p className="text-muted-foreground mt-1">Run promotions with coupon codes or automatic offers</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : closeDialog())}>
+          <DialogTrigger asChild>
+            <Button onClick={() => setEditingDiscount(null)} data-testid="button-add-discount">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Discount
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="font-display">
+                {editingDiscount ? "Edit Discount" : "Add Discount"}
+              </DialogTitle>
+            </DialogHeader>
+            <DiscountForm
+              key={editingDiscount?.id || "new"}
+              discount={editingDiscount}
+              onSubmit={(data) => {
+                const payload = toDiscountPayload(data);
+                if (editingDiscount) {
+                  updateMutation.mutate({ id: editingDiscount.id, data: payload });
+                } else {
+                  createMutation.mutate(payload);
+                }
+              }}
+              isLoading={createMutation.isPending || updateMutation.isPending}
+              onCancel={closeDialog}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Orders with a discount</p>
+            <p className="text-2xl font-bold" data-testid="text-discount-orders">{totals.orders}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Total discounted</p>
+            <p className="text-2xl font-bold" data-testid="text-discount-total">৳{totals.discountTotal.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Sales from discounted orders</p>
+            <p className="text-2xl font-bold" data-testid="text-discount-revenue">৳{totals.revenue.toFixed(2)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20" />
+          ))}
+        </div>
+      ) : discounts && discounts.length > 0 ? (
+        <div className="space-y-3">
+          {discounts.map((discount) => (
+            <DiscountCard
+              key={discount.id}
+              discount={discount}
+              onToggle={(isActive) => updateMutation.mutate({ id: discount.id, data: { isActive } })}
+              onEdit={() => handleEdit(discount)}
+              onDelete={() => handleDelete(discount.id)}
+            />
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <div className="rounded-full bg-primary/10 p-4 mb-4">
+              <Tag className="h-8 w-8 text-primary" />
+            </div>
+            <h3 className="font-display text-xl font-semibold mb-2">No discounts yet</h3>
+            <p className="text-muted-foreground text-center max-w-sm mb-4">
+              Create a coupon code to share with customers, or an automatic offer that applies at checkout.
+            </p>
+            <Button onClick={() => setIsDialogOpen(true)} data-testid="button-add-first-discount">
+              <Plus className="mr-2 h-4 w-4" />
+              Add First Discount
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function DiscountCard({
+  discount,
+  onToggle,
+  onEdit,
+  onDelete,
+}: {
+  discount: DiscountWithStats;
+  onToggle: (isActive: boolean) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const conditions = [
+    discount.minOrderAmount && `Min. order ৳${discount.minOrderAmount}`,
+    discount.productIds?.length && `${discount.productIds.length} product${discount.productIds.length === 1 ? "" : "s"}`,
+    discount.expiresAt && `${isExpired(discount) ? "Expired" : "Expires"} ${format(new Date(discount.expiresAt), "MMM d, yyyy")}`,
+  ].filter(Boolean);
+
+  return (
+    <Card data-testid={`discount-card-${discount.id}`}>
+      <CardContent className="p-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 flex-wrap mb-1">
+              <span className="font-mono font-medium">{discount.code}</span>
+              <span className="text-sm">{describeDiscount(discount)}</span>
+              {discount.automatic && <Badge variant="secondary">Automatic</Badge>}
+              {!discount.isActive && <Badge variant="outline">Inactive</Badge>}
+              {isExpired(discount) && <Badge variant="destructive">Expired</Badge>}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {discount.usageCount}
+              {discount.usageLimit !== null ? ` / ${discount.usageLimit}` : ""} used
+              {conditions.length > 0 && ` · ${conditions.join(" · ")}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-6 text-sm">
+            <div className="text-right">
+              <p className="font-bold">{discount.orderCount}</p>
+              <p className="text-xs text-muted-foreground">Orders</p>
+            </div>
+            <div className="text-right">
+              <p className="font-bold">৳{discount.discountTotal}</p>
+              <p className="text-xs text-muted-foreground">Discounted</p>
+            </div>
+            <div className="text-right">
+              <p className="font-bold">৳{discount.revenue}</p>
+              <p className="text-xs text-muted-foreground">Sales</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={discount.isActive}
+                onCheckedChange={onToggle}
+                data-testid={`switch-discount-active-${discount.id}`}
+              />
+              <Button variant="ghost" size="icon" onClick={onEdit} data-testid={`button-edit-${discount.id}`}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={onDelete} data-testid={`button-delete-${discount.id}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DiscountForm({
+  discount,
+  onSubmit,
+  isLoading,
+  onCancel,
+}: {
+  discount: DiscountWithStats | null;
+  onSubmit: (data: DiscountFields) => void;
+  isLoading: boolean;
+  onCancel: () => void;
+}) {
+  const { data: products } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const form = useForm<DiscountFields>({
+    resolver: zodResolver(discountFieldsSchema),
+    defaultValues: {
+      code: discount?.code || "",
+      type: discount?.type || "percentage",
+      value: discount && discount.type !== "free_shipping" ? String(parseFloat(discount.value)) : "",
+      automatic: discount?.automatic || false,
+      minOrderAmount: discount?.minOrderAmount || "",
+      usageLimit: discount?.usageLimit ? String(discount.usageLimit) : "",
+      startsAt: discount?.startsAt ? format(new Date(discount.startsAt), "yyyy-MM-dd") : "",
+      expiresAt: discount?.expiresAt ? format(new Date(discount.expiresAt), "yyyy-MM-dd") : "",
+      productIds: discount?.productIds || [],
+      isActive: discount?.isActive ?? true,
+    },
+  });
+
+  const type = form.watch("type");
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Code</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="EID2026"
+                  className="font-mono uppercase"
+                  data-testid="input-discount-code"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-discount-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage off</SelectItem>
+                    <SelectItem value="fixed">Fixed amount off</SelectItem>
+                    <SelectItem value="free_shipping">Free shipping</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {type !== "free_shipping" && (
+            <FormField
+              control={form.control}
+              name="value"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === "percentage" ? "Percent off" : "Amount off (BDT)"}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder={type === "percentage" ? "10" : "100"}
+                      data-testid="input-discount-value"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="minOrderAmount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Minimum order (BDT)</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="No minimum" data-testid="input-discount-min-order" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="usageLimit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Usage limit</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="Unlimited" data-testid="input-discount-usage-limit" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="startsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts</FormLabel>
+                <FormControl>
+                  <Input type="date" data-testid="input-discount-starts" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="expiresAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expires</FormLabel>
+                <FormControl>
+                  <Input type="date" data-testid="input-discount-expires" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="productIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Applies to</FormLabel>
+              <p className="text-sm text-muted-foreground">Leave everything unticked to apply to all products</p>
+              <div className="max-h-40 overflow-y-auto rounded-lg border p-3 space-y-2">
+                {products?.map((product) => (
+                  <label key={product.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={field.value.includes(product.id)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked ? [...field.value, product.id] : field.value.filter((id) => id !== product.id)
+                        )
+                      }
+                      data-testid={`checkbox-discount-product-${product.id}`}
+                    />
+                    {product.name}
+                  </label>
+                ))}
+                {products?.length === 0 && <p className="text-sm text-muted-foreground">No products yet</p>}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="automatic"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <FormLabel className="text-base">Apply automatically</FormLabel>
+                <p className="text-sm text-muted-foreground">
+                  Customers get it without entering the code. The best offer wins.
+                </p>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-discount-automatic" />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <FormLabel className="text-base">Active</FormLabel>
+                <p className="text-sm text-muted-foreground">Inactive discounts can't be used at checkout</p>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-discount-active" />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <div className="flex gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="flex-1" data-testid="button-save-discount">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : discount ? (
+              "Update"
+            ) : (
+              "Create"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -25,6 +25,10 @@ import {
   AlertTitle,
 } from "@/components/ui/alert";
 
+type DomainWithRecord = DomainMapping & {
+  txtRecord: { name: string; value: string } | null;
+};
+
 export default function DomainsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -33,7 +37,7 @@ export default function DomainsPage() {
 
   const canUseCustomDomains = user?.tenant?.plan?.allowCustomDomain;
 
-  const { data: domains, isLoading } = useQuery<DomainMapping[]>({
+  const { data: domains, isLoading } = useQuery<DomainWithRecord[]>({
     queryKey: ["/api/domains"],
   });
 
@@ -64,10 +68,12 @@ export default function DomainsPage() {
   const verifyMutation = useMutation({
     mutationFn: (id: string) => apiRequest("POST", `/api/domains/${id}/verify`),
     onSuccess: () => {
-      toast({ title: "Verification requested", description: "We'll verify your domain. This usually takes a few minutes." });
+      queryClient.invalidateQueries({ queryKey: ["/api/domains"] });
+      toast({ title: "Domain verified", description: "Your store is now live on this domain." });
     },
     onError: (error: Error) => {
-      toast({ title: "Error", description: error.message, variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: ["/api/domains"] });
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
     },
   });
 
@@ -162,51 +168,79 @@ export default function DomainsPage() {
               {domains.map((domain) => (
                 <div
                   key={domain.id}
-                  className="flex flex-wrap items-center justify-between gap-4 p-4 border rounded-md"
+                  className="p-4 border rounded-md space-y-3"
                   data-testid={`domain-item-${domain.id}`}
                 >
-                  <div className="flex items-center gap-3">
-                    <Globe className="h-5 w-5 text-muted-foreground" />
-                    <div>
-                      <p className="font-medium">{domain.domain}</p>
-                      <p className="text-sm text-muted-foreground">
-                        Added {new Date(domain.createdAt).toLocaleDateString()}
-                      </p>
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <Globe className="h-5 w-5 text-muted-foreground" />
+                      <div>
+                        <p className="font-medium">{domain.domain}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Added {new Date(domain.createdAt).toLocaleDateString()}
+                          {domain.lastCheckedAt && (
+                            <> · Last checked {new Date(domain.lastCheckedAt).toLocaleString()}</>
+                          )}
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {domain.verified ? (
-                      <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">
-                        <Check className="h-3 w-3 mr-1" />
-                        Verified
-                      </Badge>
-                    ) : (
-                      <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100">
-                        <Clock className="h-3 w-3 mr-1" />
-                        Pending
-                      </Badge>
-                    )}
-                    {!domain.verified && (
+                    <div className="flex items-center gap-2">
+                      {domain.verified ? (
+                        <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">
+                          <Check className="h-3 w-3 mr-1" />
+                          Verified
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100">
+                          <Clock className="h-3 w-3 mr-1" />
+                          Pending
+                        </Badge>
+                      )}
+                      {!domain.verified && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => verifyMutation.mutate(domain.id)}
+                          disabled={verifyMutation.isPending}
+                          data-testid={`button-verify-${domain.id}`}
+                        >
+                          {verifyMutation.isPending && verifyMutation.variables === domain.id && (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          )}
+                          Verify DNS
+                        </Button>
+                      )}
                       <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => verifyMutation.mutate(domain.id)}
-                        disabled={verifyMutation.isPending}
-                        data-testid={`button-verify-${domain.id}`}
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(domain.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-${domain.id}`}
                       >
-                        Request Verification
+                        <Trash2 className="h-4 w-4 text-destructive" />
                       </Button>
-                    )}
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => deleteMutation.mutate(domain.id)}
-                      disabled={deleteMutation.isPending}
-                      data-testid={`button-delete-${domain.id}`}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+                    </div>
                   </div>
+                  {domain.lastCheckError && (
+                    <p className="text-sm text-destructive flex items-center gap-2" data-testid={`text-check-error-${domain.id}`}>
+                      <AlertCircle className="h-4 w-4" />
+                      {domain.lastCheckError}
+                    </p>
+                  )}
+                  {!domain.verified && domain.txtRecord && (
+                    <div className="bg-muted p-3 rounded-md font-mono text-xs space-y-1 break-all">
+                      <p>Type: TXT</p>
+                      <p>Name: {domain.txtRecord.name}</p>
+                      <p>Value: {domain.txtRecord.value}</p>
+                      {domain.cnameTarget && (
+                        <>
+                          <p className="pt-2">Type: CNAME</p>
+                          <p>Name: {domain.domain}</p>
+                          <p>Value: {domain.cnameTarget}</p>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -224,15 +258,10 @@ export default function DomainsPage() {
           </CardHeader>
           <CardContent className="space-y-4">
             <p className="text-muted-foreground">
-              To connect your domain, create a CNAME record pointing to your platform domain.
+              To connect your domain, add the TXT record shown next to it to prove ownership, then create a CNAME record pointing to our platform.
             </p>
-            <div className="bg-muted p-4 rounded-md font-mono text-sm">
-              <p>Type: CNAME</p>
-              <p>Name: shop (or your subdomain)</p>
-              <p>Value: your-platform-domain.com</p>
-            </div>
             <p className="text-sm text-muted-foreground">
-              DNS changes can take up to 48 hours to propagate. Once set up, request verification and our team will activate your domain.
+              DNS changes can take up to 48 hours to propagate. Once the records are in place, click "Verify DNS" and your domain is activated automatically. We re-check verified domains periodically and will deactivate a domain that stops pointing to us.
             </p>
           </CardContent>
         </Card>
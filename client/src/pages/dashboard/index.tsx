@@ -2,7 +2,8 @@ import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Package, ShoppingCart, TrendingUp, DollarSign } from "lucide-react";
+import { Package, ShoppingCart, TrendingUp, DollarSign, AlertTriangle } from "lucide-react";
+import type { LowStockItem } from "@shared/schema";
 
 interface DashboardStats {
   totalProducts: number;
@@ -81,6 +82,8 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      <LowStockCard />
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -178,6 +181,55 @@ function RecentOrders() {
   );
 }
 
+// Only shown when something needs restocking
+function LowStockCard() {
+  const { data: items } = useQuery<LowStockItem[]>({
+    queryKey: ["/api/products/low-stock"],
+  });
+
+  if (!items || items.length === 0) return null;
+
+  return (
+    <Card className="border-amber-300 dark:border-amber-700" data-testid="card-low-stock">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          <CardTitle className="font-display">Low Stock</CardTitle>
+        </div>
+        <Link href="/dashboard/products" className="text-sm text-primary hover:underline">
+          Manage products
+        </Link>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {items.slice(0, 8).map((item) => (
+            <div
+              key={item.variantId ?? item.productId}
+              className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50"
+              data-testid={`low-stock-item-${item.variantId ?? item.productId}`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">{item.productName}</p>
+                {(item.variantName || item.sku) && (
+                  <p className="text-sm text-muted-foreground truncate">
+                    {[item.variantName, item.sku].filter(Boolean).join(" - ")}
+                  </p>
+                )}
+              </div>
+              <span className={`text-sm font-medium ${item.stock === 0 ? "text-destructive" : "text-amber-600"}`}>
+                {item.stock === 0 ? "Sold out" : `${item.stock} left`}
+              </span>
+            </div>
+          ))}
+          {items.length > 8 && (
+            <p className="text-sm text-muted-foreground">And {items.length - 8} more</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function OrderStatusBadge({ status }: { status: string }) {
   const statusStyles: Record<string, string> = {
     new: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
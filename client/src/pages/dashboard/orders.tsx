@@ -1,8 +1,11 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Order } from "@shared/schema";
+import { Link } from "wouter";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { getCashDue, getOrderNumber, getRiskLevel, PAYMENT_PROVIDERS, STATUS_PERMISSIONS, type CustomerWithStats, type OrderEvent, type OrderWithItems, type SmsMessage } from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -11,18 +14,32 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { ShoppingCart, MapPin, Phone, User, Package, Loader2, Download, CheckSquare, Square } from "lucide-react";
+import { ShoppingCart, MapPin, Phone, User, Package, Loader2, Download, CheckSquare, Square, Search, Truck, CreditCard, ShieldAlert } from "lucide-react";
 import { format } from "date-fns";
 
 const ORDER_STATUSES = ["new", "confirmed", "shipped", "delivered", "cancelled"] as const;
 
+const riskStyles: Record<string, string> = {
+  medium: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+  high: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+const paymentStatusLabels: Record<string, string> = {
+  pending: "awaiting payment",
+  paid: "paid",
+  failed: "payment failed",
+};
+
 export default function OrdersPage() {
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<OrderWithItems | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [search, setSearch] = useState("");
+  const [riskFilter, setRiskFilter] = useState<"all" | "medium" | "high" | "held">("all");
   const [selectedOrderIds, setSelectedOrderIds] = useState<Set<string>>(new Set());
   const { toast } = useToast();
+  const { can } = useAuth();
 
-  const { data: orders, isLoading } = useQuery<Order[]>({
+  const { data: orders, isLoading } = useQuery<OrderWithItems[]>({
     queryKey: ["/api/orders"],
   });
 
@@ -34,7 +51,19 @@ export default function OrdersPage() {
       toast({ title: "Order updated", description: "Order status has been updated." });
     },
     onError: (error: Error) => {
-      toast({ title: "Error", description: error.message, variant: "destructive" });
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/orders/${id}/approve`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setSelectedOrder(null);
+      toast({ title: "Order approved", description: "The order can now be confirmed and shipped." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -50,7 +79,46 @@ export default function OrdersPage() {
       });
     },
     onError: (error: Error) => {
-      toast({ title: "Error", description: error.message, variant: "destructive" });
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const courierMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/orders/${id}/courier`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setSelectedOrder(null);
+      toast({ title: "Sent to courier", description: "The parcel has been booked and the order marked as shipped." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Courier error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const bulkCourierMutation = useMutation({
+    mutationFn: async (orderIds: string[]) => {
+      const res = await apiRequest("POST", "/api/orders/bulk-courier", { orderIds });
+      return (await res.json()) as {
+        sentCount: number;
+        failed: { orderId: string; orderNumber?: string; message: string }[];
+      };
+    },
+    onSuccess: ({ sentCount, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setSelectedOrderIds(new Set(failed.map((f) => f.orderId)));
+      if (failed.length === 0) {
+        toast({ title: "Sent to courier", description: `${sentCount} order(s) booked with your courier.` });
+      } else {
+        const first = failed[0];
+        toast({
+          title: `${sentCount} sent, ${failed.length} failed`,
+          description: `${first.orderNumber ? `#${first.orderNumber}: ` : ""}${first.message}`,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Courier error", description: getErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -85,8 +153,20 @@ export default function OrdersPage() {
     setSelectedOrderIds(newSelected);
   };
 
+  const searchTerm = search.trim().toLowerCase().replace(/^#/, "");
+  const matchesRisk = (order: OrderWithItems) => {
+    if (riskFilter === "held") return order.onHold && order.status !== "cancelled";
+    if (riskFilter === "high") return getRiskLevel(order.riskScore) === "high";
+    if (riskFilter === "medium") return getRiskLevel(order.riskScore) !== "low";
+    return true;
+  };
   const filteredOrders = orders?.filter((order) =>
-    statusFilter === "all" ? true : order.status === statusFilter
+    (statusFilter === "all" ? true : order.status === statusFilter) &&
+    matchesRisk(order) &&
+    (!searchTerm ||
+      getOrderNumber(order).toLowerCase().includes(searchTerm) ||
+      order.customerName.toLowerCase().includes(searchTerm) ||
+      order.phone.includes(searchTerm))
   );
 
   const orderCounts = {
@@ -105,6 +185,33 @@ export default function OrdersPage() {
         <p className="text-muted-foreground mt-1">Manage customer orders and track deliveries</p>
       </div>
 
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative max-w-sm flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by order number, name or phone"
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setSelectedOrderIds(new Set()); }}
+            className="pl-9"
+            data-testid="input-search-orders"
+          />
+        </div>
+        <Select
+          value={riskFilter}
+          onValueChange={(value) => { setRiskFilter(value as typeof riskFilter); setSelectedOrderIds(new Set()); }}
+        >
+          <SelectTrigger className="w-48" data-testid="select-risk-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All risk levels</SelectItem>
+            <SelectItem value="medium">Medium & high risk</SelectItem>
+            <SelectItem value="high">High risk</SelectItem>
+            <SelectItem value="held">On hold</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
       <Tabs value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setSelectedOrderIds(new Set()); }}>
         <TabsList className="flex-wrap h-auto">
           <TabsTrigger value="all" data-testid="tab-all">
@@ -157,12 +264,28 @@ export default function OrdersPage() {
                           </SelectTrigger>
                           <SelectContent>
                             {ORDER_STATUSES.map((status) => (
-                              <SelectItem key={status} value={status}>
+                              <SelectItem key={status} value={status} disabled={!can(STATUS_PERMISSIONS[status])}>
                                 Mark as {status.charAt(0).toUpperCase() + status.slice(1)}
                               </SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
+                        {can("orders.ship") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => bulkCourierMutation.mutate(Array.from(selectedOrderIds))}
+                            disabled={bulkCourierMutation.isPending}
+                            data-testid="button-bulk-courier"
+                          >
+                            {bulkCourierMutation.isPending ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Truck className="h-4 w-4 mr-2" />
+                            )}
+                            Send to Courier
+                          </Button>
+                        )}
                       </>
                     )}
                     <Button
@@ -210,7 +333,9 @@ export default function OrdersPage() {
       <Dialog open={!!selectedOrder} onOpenChange={() => setSelectedOrder(null)}>
         <DialogContent className="max-w-lg">
           <DialogHeader>
-            <DialogTitle className="font-display">Order Details</DialogTitle>
+            <DialogTitle className="font-display">
+              Order Details{selectedOrder && ` #${getOrderNumber(selectedOrder)}`}
+            </DialogTitle>
           </DialogHeader>
           {selectedOrder && (
             <OrderDetails
@@ -220,6 +345,10 @@ export default function OrdersPage() {
                 setSelectedOrder(null);
               }}
               isUpdating={updateStatusMutation.isPending}
+              onSendToCourier={() => courierMutation.mutate(selectedOrder.id)}
+              isSending={courierMutation.isPending}
+              onApprove={() => approveMutation.mutate(selectedOrder.id)}
+              isApproving={approveMutation.isPending}
             />
           )}
         </DialogContent>
@@ -236,13 +365,14 @@ function OrderCard({
   onUpdateStatus,
   isUpdating,
 }: {
-  order: Order;
+  order: OrderWithItems;
   isSelected: boolean;
   onSelect: () => void;
   onViewDetails: () => void;
   onUpdateStatus: (status: string) => void;
   isUpdating: boolean;
 }) {
+  const { can } = useAuth();
   const statusStyles: Record<string, string> = {
     new: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
     confirmed: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
@@ -260,11 +390,12 @@ function OrderCard({
             <div className="flex-1 min-w-0">
             <div className="flex items-center gap-3 mb-2 flex-wrap">
               <span className="font-mono text-sm text-muted-foreground">
-                #{order.id.slice(0, 8)}
+                #{getOrderNumber(order)}
               </span>
               <Badge size="sm" className={statusStyles[order.status]}>
                 {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
               </Badge>
+              <RiskBadge order={order} />
               <span className="text-sm text-muted-foreground">
                 {format(new Date(order.createdAt), "MMM d, yyyy h:mm a")}
               </span>
@@ -278,10 +409,20 @@ function OrderCard({
                 <Phone className="h-4 w-4 text-muted-foreground" />
                 <span>{order.phone}</span>
               </div>
-              <div className="flex items-center gap-2">
-                <Package className="h-4 w-4 text-muted-foreground" />
-                <span>Qty: {order.quantity}</span>
+              <div className="flex items-center gap-2 min-w-0">
+                <Package className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="truncate">
+                  {order.items.length > 0
+                    ? order.items.map((item) => `${item.productName} × ${item.quantity}`).join(", ")
+                    : `Qty: ${order.quantity}`}
+                </span>
               </div>
+              {order.courierTrackingCode && (
+                <div className="flex items-center gap-2 min-w-0">
+                  <Truck className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <span className="truncate font-mono">{order.courierTrackingCode}</span>
+                </div>
+              )}
             </div>
             </div>
           </div>
@@ -301,7 +442,7 @@ function OrderCard({
                 </SelectTrigger>
                 <SelectContent>
                   {ORDER_STATUSES.map((status) => (
-                    <SelectItem key={status} value={status}>
+                    <SelectItem key={status} value={status} disabled={!can(STATUS_PERMISSIONS[status])}>
                       {status.charAt(0).toUpperCase() + status.slice(1)}
                     </SelectItem>
                   ))}
@@ -318,17 +459,82 @@ function OrderCard({
   );
 }
 
+function RiskBadge({ order }: { order: OrderWithItems }) {
+  const level = getRiskLevel(order.riskScore);
+  if (order.onHold && order.status !== "cancelled") {
+    return (
+      <Badge className={riskStyles.high} data-testid={`badge-hold-${order.id}`}>
+        On hold
+      </Badge>
+    );
+  }
+  if (level === "low") return null;
+  return (
+    <Badge className={riskStyles[level]} title={order.riskReasons?.join("\n")} data-testid={`badge-risk-${order.id}`}>
+      {level === "high" ? "High risk" : "Medium risk"}
+    </Badge>
+  );
+}
+
 function OrderDetails({
   order,
   onUpdateStatus,
   isUpdating,
+  onSendToCourier,
+  isSending,
+  onApprove,
+  isApproving,
 }: {
-  order: Order;
+  order: OrderWithItems;
   onUpdateStatus: (status: string) => void;
   isUpdating: boolean;
+  onSendToCourier: () => void;
+  isSending: boolean;
+  onApprove: () => void;
+  isApproving: boolean;
 }) {
+  const { can } = useAuth();
+  const riskLevel = getRiskLevel(order.riskScore);
+  const isHeld = order.onHold && order.status !== "cancelled";
+
   return (
     <div className="space-y-6">
+      {(riskLevel !== "low" || isHeld) && (
+        <div
+          className={`rounded-lg p-4 text-sm space-y-2 ${riskStyles[riskLevel === "low" ? "medium" : riskLevel]}`}
+          data-testid="section-order-risk"
+        >
+          <p className="flex items-center gap-2 font-medium">
+            <ShieldAlert className="h-4 w-4" />
+            {isHeld ? "On hold for review" : riskLevel === "high" ? "High risk" : "Medium risk"} · score {order.riskScore}
+          </p>
+          {order.riskReasons && order.riskReasons.length > 0 && (
+            <ul className="list-disc pl-6 space-y-1">
+              {order.riskReasons.map((reason, i) => (
+                <li key={i}>{reason}</li>
+              ))}
+            </ul>
+          )}
+          {isHeld && can("orders.update") && (
+            <div className="flex gap-2 pt-1">
+              <Button size="sm" onClick={onApprove} disabled={isApproving} data-testid="button-approve-order">
+                {isApproving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Approve Order
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onUpdateStatus("cancelled")}
+                disabled={isUpdating}
+                data-testid="button-reject-order"
+              >
+                Cancel Order
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="grid gap-4">
         <div className="flex items-center gap-3">
           <User className="h-5 w-5 text-muted-foreground" />
@@ -344,6 +550,7 @@ function OrderDetails({
             <p className="font-medium">{order.phone}</p>
           </div>
         </div>
+        {order.customerId && can("customers") && <CustomerHistory customerId={order.customerId} />}
         <div className="flex items-start gap-3">
           <MapPin className="h-5 w-5 text-muted-foreground mt-0.5" />
           <div>
@@ -356,10 +563,23 @@ function OrderDetails({
       <div className="border-t pt-4">
         <h4 className="font-medium mb-3">Order Summary</h4>
         <div className="space-y-2 text-sm">
-          <div className="flex justify-between">
-            <span className="text-muted-foreground">Quantity</span>
-            <span>{order.quantity}</span>
-          </div>
+          {order.items.length > 0 ? (
+            order.items.map((item) => (
+              <div key={item.id} className="flex justify-between gap-4" data-testid={`order-item-${item.id}`}>
+                <span className="text-muted-foreground">
+                  {item.productName}
+                  {item.variantName && ` (${item.variantName})`} × {item.quantity}
+                  <span className="block text-xs">৳{item.unitPrice} each</span>
+                </span>
+                <span>৳{item.lineTotal}</span>
+              </div>
+            ))
+          ) : (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Quantity</span>
+              <span>{order.quantity}</span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-muted-foreground">Subtotal</span>
             <span>৳{order.subtotal}</span>
@@ -368,6 +588,14 @@ function OrderDetails({
             <span className="text-muted-foreground">Shipping</span>
             <span>৳{order.shippingFee}</span>
           </div>
+          {parseFloat(order.discountAmount) > 0 && (
+            <div className="flex justify-between" data-testid="text-order-discount">
+              <span className="text-muted-foreground">
+                Discount{order.discountCode && <span className="font-mono"> ({order.discountCode})</span>}
+              </span>
+              <span>-৳{order.discountAmount}</span>
+            </div>
+          )}
           <div className="flex justify-between font-bold text-base pt-2 border-t">
             <span>Total</span>
             <span>৳{order.total}</span>
@@ -375,6 +603,59 @@ function OrderDetails({
         </div>
       </div>
 
+      {order.paymentStatus !== "not_required" && (
+        <div className="border-t pt-4 flex items-start gap-3" data-testid="section-order-payment">
+          <CreditCard className="h-5 w-5 text-muted-foreground mt-0.5" />
+          <div className="text-sm">
+            <p>
+              ৳{order.paymentDue} {order.paymentMethod === "online" ? "online" : "delivery charge in advance"}
+              {order.paymentProvider && ` via ${PAYMENT_PROVIDERS[order.paymentProvider].label}`}
+              {" · "}
+              <span className="font-medium" data-testid="text-payment-status">
+                {paymentStatusLabels[order.paymentStatus]}
+              </span>
+            </p>
+            {order.paymentTransactionId && (
+              <p className="text-muted-foreground">
+                Transaction <span className="font-mono">{order.paymentTransactionId}</span>
+              </p>
+            )}
+            <p className="text-muted-foreground" data-testid="text-cash-due">
+              Collect on delivery: ৳{getCashDue(order).toFixed(2)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {order.courierTrackingCode ? (
+        <div className="border-t pt-4 flex items-start gap-3">
+          <Truck className="h-5 w-5 text-muted-foreground mt-0.5" />
+          <div className="text-sm">
+            <p className="text-muted-foreground">
+              Sent to <span className="capitalize">{order.courierProvider}</span>
+              {order.courierSentAt && ` on ${format(new Date(order.courierSentAt), "MMM d, yyyy h:mm a")}`}
+            </p>
+            <p className="font-medium font-mono" data-testid="text-tracking-code">
+              {order.courierTrackingCode}
+            </p>
+            {order.courierConsignmentId !== order.courierTrackingCode && (
+              <p className="text-xs text-muted-foreground">Consignment {order.courierConsignmentId}</p>
+            )}
+          </div>
+        </div>
+      ) : order.status === "confirmed" && can("orders.ship") && (
+        <div className="border-t pt-4">
+          <Button className="w-full" onClick={onSendToCourier} disabled={isSending} data-testid="button-send-courier">
+            {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Truck className="mr-2 h-4 w-4" />}
+            Send to Courier
+          </Button>
+        </div>
+      )}
+
+      <OrderTimeline orderId={order.id} />
+
+      <SmsLog orderId={order.id} />
+
       <div className="border-t pt-4">
         <label className="text-sm font-medium mb-2 block">Update Status</label>
         <Select value={order.status} onValueChange={onUpdateStatus} disabled={isUpdating}>
@@ -383,7 +664,7 @@ function OrderDetails({
           </SelectTrigger>
           <SelectContent>
             {ORDER_STATUSES.map((status) => (
-              <SelectItem key={status} value={status}>
+              <SelectItem key={status} value={status} disabled={!can(STATUS_PERMISSIONS[status])}>
                 {status.charAt(0).toUpperCase() + status.slice(1)}
               </SelectItem>
             ))}
@@ -394,6 +675,104 @@ function OrderDetails({
   );
 }
 
+function OrderTimeline({ orderId }: { orderId: string }) {
+  const { data: events } = useQuery<OrderEvent[]>({
+    queryKey: ["/api/orders", orderId, "events"],
+  });
+
+  if (!events || events.length === 0) return null;
+
+  const describe = (event: OrderEvent) => {
+    if (event.type === "courier_booked") return event.message || "Sent to courier";
+    if (event.type === "payment" || event.type === "review") return event.message || "Order updated";
+    const status = event.status ? `Marked as ${event.status}` : null;
+    if (event.type === "courier_update") {
+      return [`Courier: ${event.courierStatus}`, status].filter(Boolean).join(" · ");
+    }
+    return `${status}${event.source === "staff" ? " by staff" : ""}`;
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium mb-3">Timeline</h4>
+      <ol className="space-y-3 text-sm" data-testid="list-order-timeline">
+        {events.map((event) => (
+          <li key={event.id} className="flex gap-3">
+            <span className="mt-1.5 h-2 w-2 rounded-full bg-primary flex-shrink-0" />
+            <div>
+              <p>{describe(event)}</p>
+              {event.type === "courier_update" && event.message && (
+                <p className="text-muted-foreground">{event.message}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(event.createdAt), "MMM d, yyyy h:mm a")}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function SmsLog({ orderId }: { orderId: string }) {
+  const { data: messages } = useQuery<SmsMessage[]>({
+    queryKey: ["/api/orders", orderId, "sms"],
+  });
+
+  if (!messages || messages.length === 0) return null;
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="font-medium mb-3">SMS Sent</h4>
+      <div className="space-y-3 text-sm" data-testid="list-order-sms">
+        {messages.map((message) => (
+          <div key={message.id}>
+            <div className="flex items-center gap-2">
+              <Badge
+                className={
+                  message.status === "sent"
+                    ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                    : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
+                }
+              >
+                {message.status}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(message.createdAt), "MMM d, yyyy h:mm a")}
+              </span>
+            </div>
+            <p className="mt-1">{message.body}</p>
+            {message.error && <p className="text-xs text-destructive">{message.error}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Past orders from the same phone number, so repeat buyers and frequent
+// cancellers stand out before the order is confirmed
+function CustomerHistory({ customerId }: { customerId: string }) {
+  const { data: customer } = useQuery<CustomerWithStats>({
+    queryKey: ["/api/customers", customerId],
+  });
+
+  if (!customer || customer.orderCount <= 1) return null;
+
+  return (
+    <div className="rounded-lg bg-muted/50 p-3 text-sm" data-testid="text-customer-history">
+      <span className="font-medium">{customer.orderCount} orders from this customer</span>
+      <span className="text-muted-foreground">
+        {" "}· {customer.deliveredCount} delivered · {customer.cancelledCount} cancelled
+      </span>
+      <Link href="/dashboard/customers" className="block text-primary hover:underline mt-1">
+        View customers
+      </Link>
+    </div>
+  );
+}
+
 function EmptyState({ status }: { status: string }) {
   return (
     <Card>
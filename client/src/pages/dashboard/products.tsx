@@ -4,18 +4,31 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { Product, ProductVariant } from "@shared/schema";
+import {
+  getCategoryTree,
+  type Product,
+  type ProductVariant,
+  type ProductWithAssignments,
+  type ProductOptionWithValues,
+  type Category,
+  type Collection,
+} from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ProductImportDialog } from "@/components/product-import-dialog";
+import { VariantOptionsEditor } from "@/components/variant-options-editor";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Package, Edit, Trash2, ExternalLink, Loader2, ImagePlus, X } from "lucide-react";
+import { Plus, Package, Edit, Trash2, ExternalLink, Loader2, ImagePlus, X, Upload, Download } from "lucide-react";
 import { ImageUpload } from "@/components/ImageUpload";
 import { useAuth } from "@/lib/auth";
 
@@ -27,6 +40,11 @@ const productFormSchema = z.object({
   status: z.enum(["active", "draft", "archived"]),
   images: z.array(z.string()).optional(),
   hasVariants: z.boolean().optional(),
+  trackStock: z.boolean(),
+  stock: z.number().int().min(0, "Stock must be 0 or greater"),
+  lowStockThreshold: z.number().int().min(0, "Threshold must be 0 or greater").nullable(),
+  categoryIds: z.array(z.string()),
+  collectionIds: z.array(z.string()),
 });
 
 const variantFormSchema = z.object({
@@ -42,10 +60,11 @@ type ProductFormData = z.infer<typeof productFormSchema>;
 
 export default function ProductsPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [editingProduct, setEditingProduct] = useState<ProductWithAssignments | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const { toast } = useToast();
 
-  const { data: products, isLoading } = useQuery<Product[]>({
+  const { data: products, isLoading } = useQuery<ProductWithAssignments[]>({
     queryKey: ["/api/products"],
   });
 
@@ -80,6 +99,7 @@ export default function ProductsPage() {
       apiRequest("PATCH", `/api/products/${id}`, data),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/low-stock"] });
       // Refetch variants after product update
       queryClient.invalidateQueries({ queryKey: ["/api/products", variables.id, "variants"] });
       // Don't close dialog - keep it open so user can see variants
@@ -101,7 +121,7 @@ export default function ProductsPage() {
     },
   });
 
-  const handleEdit = (product: Product) => {
+  const handleEdit = (product: ProductWithAssignments) => {
     setEditingProduct(product);
     setIsDialogOpen(true);
   };
@@ -124,36 +144,60 @@ export default function ProductsPage() {
           <h1 className="font-display text-2xl md:text-3xl font-bold">Products</h1>
           <p className="text-muted-foreground mt-1">Manage your product catalog</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => setEditingProduct(null)} data-testid="button-add-product">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Product
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle className="font-display">
-                {editingProduct ? "Edit Product" : "Add New Product"}
-              </DialogTitle>
-            </DialogHeader>
-            <ProductForm
-              product={editingProduct}
-              variants={productVariants || []}
-              onSubmit={(data) => {
-                if (editingProduct) {
-                  updateMutation.mutate({ id: editingProduct.id, data });
-                } else {
-                  createMutation.mutate(data);
-                }
-              }}
-              isLoading={createMutation.isPending || updateMutation.isPending}
-              onCancel={closeDialog}
-            />
-          </DialogContent>
-        </Dialog>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-products">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" data-testid="button-export-products">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => window.open("/api/products/export?format=csv", "_blank")}>
+                CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => window.open("/api/products/export?format=xlsx", "_blank")}>
+                Excel (.xlsx)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setEditingProduct(null)} data-testid="button-add-product">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Product
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="font-display">
+                  {editingProduct ? "Edit Product" : "Add New Product"}
+                </DialogTitle>
+              </DialogHeader>
+              <ProductForm
+                product={editingProduct}
+                variants={productVariants || []}
+                onSubmit={(data) => {
+                  if (editingProduct) {
+                    updateMutation.mutate({ id: editingProduct.id, data });
+                  } else {
+                    createMutation.mutate(data);
+                  }
+                }}
+                isLoading={createMutation.isPending || updateMutation.isPending}
+                onCancel={closeDialog}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <ProductImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+
       {isLoading ? (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {[1, 2, 3].map((i) => (
@@ -217,7 +261,17 @@ function ProductCard({
             {product.status}
           </Badge>
         </div>
-        <p className="text-lg font-bold text-primary">৳{product.price}</p>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-lg font-bold text-primary">৳{product.price}</p>
+          {product.trackStock && !product.hasVariants && (
+            <span
+              className={`text-sm ${product.stock === 0 ? "text-destructive" : "text-muted-foreground"}`}
+              data-testid={`text-stock-${product.id}`}
+            >
+              {product.stock === 0 ? "Sold out" : `${product.stock} in stock`}
+            </span>
+          )}
+        </div>
         {product.description && (
           <p className="text-sm text-muted-foreground mt-2 line-clamp-2">{product.description}</p>
         )}
@@ -247,7 +301,7 @@ function ProductForm({
   isLoading,
   onCancel,
 }: {
-  product: Product | null;
+  product: ProductWithAssignments | null;
   variants?: any[];
   isLoadingVariants?: boolean;
   onSubmit: (data: ProductFormData) => void;
@@ -258,6 +312,11 @@ function ProductForm({
   const [showVariantForm, setShowVariantForm] = useState(false);
   const [editingVariant, setEditingVariant] = useState<any | null>(null);
   const { toast } = useToast();
+  const { data: options = [] } = useQuery<ProductOptionWithValues[]>({
+    queryKey: ["/api/products", product?.id, "options"],
+    enabled: !!product?.id,
+  });
+  const hasOptions = options.length > 0;
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productFormSchema),
     defaultValues: {
@@ -267,10 +326,26 @@ function ProductForm({
       description: product?.description || "",
       status: product?.status || "draft",
       images: product?.images || [],
+      trackStock: product?.trackStock ?? false,
+      stock: product?.stock ?? 0,
+      lowStockThreshold: product?.lowStockThreshold ?? null,
+      categoryIds: product?.categoryIds || [],
+      collectionIds: product?.collectionIds || [],
     },
   });
 
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: collections } = useQuery<Collection[]>({
+    queryKey: ["/api/collections"],
+  });
+  // Automatic collections pick their own products from their rules
+  const manualCollections = collections?.filter((collection) => collection.type === "manual") ?? [];
+
   const name = form.watch("name");
+  const trackStock = form.watch("trackStock");
 
   const variantForm = useForm<z.infer<typeof variantFormSchema>>({
     resolver: zodResolver(variantFormSchema),
@@ -499,6 +574,127 @@ function ProductForm({
             </FormItem>
           )}
         />
+        {variants.length === 0 && (
+          <FormField
+            control={form.control}
+            name="trackStock"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div>
+                  <FormLabel>Track Stock</FormLabel>
+                  <p className="text-sm text-muted-foreground">
+                    Stop selling when it runs out. Products with variants count each variant's stock instead.
+                  </p>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-track-stock" />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          {variants.length === 0 && trackStock && (
+            <FormField
+              control={form.control}
+              name="stock"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Stock Quantity</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="0"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      data-testid="input-product-stock"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="lowStockThreshold"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Low Stock Alert At</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    placeholder="Store default"
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value) || 0)}
+                    data-testid="input-product-low-stock"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {categories && categories.length > 0 && (
+          <FormField
+            control={form.control}
+            name="categoryIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Categories</FormLabel>
+                <div className="rounded-lg border p-3 space-y-2 max-h-48 overflow-y-auto">
+                  {getCategoryTree(categories).map(({ category, depth }) => (
+                    <label
+                      key={category.id}
+                      className="flex items-center gap-2 text-sm cursor-pointer"
+                      style={{ paddingLeft: `${depth * 1.25}rem` }}
+                    >
+                      <Checkbox
+                        checked={field.value.includes(category.id)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked ? [...field.value, category.id] : field.value.filter((id) => id !== category.id)
+                          )
+                        }
+                        data-testid={`checkbox-category-${category.id}`}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        {manualCollections.length > 0 && (
+          <FormField
+            control={form.control}
+            name="collectionIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Collections</FormLabel>
+                <div className="rounded-lg border p-3 space-y-2 max-h-48 overflow-y-auto">
+                  {manualCollections.map((collection) => (
+                    <label key={collection.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={field.value.includes(collection.id)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked ? [...field.value, collection.id] : field.value.filter((id) => id !== collection.id)
+                          )
+                        }
+                        data-testid={`checkbox-collection-${collection.id}`}
+                      />
+                      {collection.name}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
 
         {/* Variant Management - Only show for existing products */}
         {product?.id && (
@@ -506,9 +702,13 @@ function ProductForm({
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-medium">Product Variants</h3>
-                <p className="text-sm text-muted-foreground">Add size, color, or other options</p>
+                <p className="text-sm text-muted-foreground">
+                  {hasOptions
+                    ? "Every combination of your options is a variant"
+                    : "Add options like size and color to generate every variant, or add variants one by one"}
+                </p>
               </div>
-              {!showVariantForm && (
+              {!showVariantForm && !hasOptions && (
                 <Button
                   type="button"
                   variant="outline"
@@ -525,7 +725,9 @@ function ProductForm({
               )}
             </div>
 
-            {showVariantForm && (
+            <VariantOptionsEditor product={product} options={options} variants={initialVariants} />
+
+            {showVariantForm && !hasOptions && (
               <Card>
                 <CardContent className="p-4 space-y-4">
                   <div className="flex items-center justify-between">
@@ -640,7 +842,7 @@ function ProductForm({
               </Card>
             )}
 
-            {variants.length > 0 && (
+            {!hasOptions && variants.length > 0 && (
               <div className="space-y-2">
                 {variants.map((variant) => (
                   <Card key={variant.id}>
@@ -0,0 +1,18 @@
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ChangePasswordCard } from "@/components/change-password-card";
+import { ActiveSessions } from "@/components/active-sessions";
+
+export default function DashboardSecurityPage() {
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="font-display text-2xl md:text-3xl font-bold">Security</h1>
+        <p className="text-muted-foreground mt-1">Protect your login to the store dashboard</p>
+      </div>
+
+      <ChangePasswordCard />
+      <TwoFactorSettings />
+      <ActiveSessions />
+    </div>
+  );
+}
@@ -1,18 +1,38 @@
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useAuth } from "@/lib/auth";
-import type { StoreSettings } from "@shared/schema";
+import {
+  COURIER_PROVIDERS,
+  PAYMENT_PROVIDERS,
+  HIGH_RISK_ACTIONS,
+  LOW_STOCK_THRESHOLD,
+  SMS_EVENTS,
+  SMS_TEMPLATE_VARIABLES,
+  getSmsTemplates,
+  getEnabledPaymentProviders,
+  type CourierProviderName,
+  type PaymentProviderName,
+  type HighRiskAction,
+  type SmsEvent,
+  type SmsTemplates,
+  type StoreSettings,
+} from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, BarChart3, Palette, Phone, Loader2, Check } from "lucide-react";
+import { Settings, BarChart3, Palette, Phone, Loader2, Check, Hash, Truck, MessageSquare, CreditCard, ShieldAlert, Package } from "lucide-react";
 import { SiFacebook, SiGoogletagmanager } from "react-icons/si";
 
 const settingsFormSchema = z.object({
@@ -21,6 +41,10 @@ const settingsFormSchema = z.object({
   primaryColor: z.string().optional(),
   whatsappNumber: z.string().optional(),
   contactEmail: z.string().email().optional().or(z.literal("")),
+  orderNumberPrefix: z
+    .string()
+    .regex(/^[A-Za-z0-9-]{0,10}$/, "Up to 10 letters, numbers or hyphens")
+    .optional(),
 });
 
 type SettingsFormData = z.infer<typeof settingsFormSchema>;
@@ -53,6 +77,7 @@ export default function SettingsPage() {
       primaryColor: settings?.primaryColor || "#3b82f6",
       whatsappNumber: settings?.whatsappNumber || "",
       contactEmail: settings?.contactEmail || "",
+      orderNumberPrefix: settings?.orderNumberPrefix || "",
     },
     values: {
       fbPixelId: settings?.fbPixelId || "",
@@ -60,6 +85,7 @@ export default function SettingsPage() {
       primaryColor: settings?.primaryColor || "#3b82f6",
       whatsappNumber: settings?.whatsappNumber || "",
       contactEmail: settings?.contactEmail || "",
+      orderNumberPrefix: settings?.orderNumberPrefix || "",
     },
   });
 
@@ -211,6 +237,41 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Hash className="h-5 w-5 text-primary" />
+                <CardTitle className="font-display">Order Numbers</CardTitle>
+              </div>
+              <CardDescription>
+                Orders are numbered sequentially so they're easy to read out over the phone.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="orderNumberPrefix"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Order Number Prefix</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="ORD-"
+                        maxLength={10}
+                        data-testid="input-order-prefix"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      New orders will be numbered like {field.value || ""}1001. Existing orders keep their number.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <div className="flex items-center gap-2">
@@ -273,6 +334,16 @@ export default function SettingsPage() {
         </form>
       </Form>
 
+      <CourierSettingsCard settings={settings} />
+
+      <PaymentSettingsCard settings={settings} />
+
+      <FraudSettingsCard settings={settings} />
+
+      <InventorySettingsCard settings={settings} />
+
+      <SmsSettingsCard settings={settings} />
+
       <Card>
         <CardHeader>
           <div className="flex items-center gap-2">
@@ -313,3 +384,531 @@ export default function SettingsPage() {
     </div>
   );
 }
+
+function CourierSettingsCard({ settings }: { settings?: StoreSettings }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [provider, setProvider] = useState<CourierProviderName | "none">("none");
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setProvider(settings?.courierProvider || "none");
+    setCredentials(settings?.courierCredentials || {});
+  }, [settings?.courierProvider, settings?.courierCredentials]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PATCH", "/api/store-settings", {
+        courierProvider: provider === "none" ? null : provider,
+        courierCredentials: provider === "none" ? null : credentials,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/store-settings"] });
+      toast({ title: "Courier saved", description: "Your courier settings have been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const secretMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/store-settings/courier-webhook-secret"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/store-settings"] });
+      toast({ title: "Webhook secret generated", description: "Update it in your courier's merchant portal." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const fields = provider === "none" ? [] : COURIER_PROVIDERS[provider].fields;
+
+  const webhookUrl = settings?.courierProvider && user?.tenant
+    ? `${window.location.origin}/api/webhooks/couriers/${settings.courierProvider}/${user.tenant.id}`
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Truck className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">Courier</CardTitle>
+          {settings?.courierProvider && (
+            <Badge variant="outline" className="bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+              {COURIER_PROVIDERS[settings.courierProvider].label} connected
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Connect your courier account to book parcels straight from the Orders page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Courier Service</Label>
+          <Select
+            value={provider}
+            onValueChange={(value) => {
+              setProvider(value as CourierProviderName | "none");
+              setCredentials(value === settings?.courierProvider ? settings?.courierCredentials || {} : {});
+            }}
+          >
+            <SelectTrigger data-testid="select-courier-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {(Object.keys(COURIER_PROVIDERS) as CourierProviderName[]).map((name) => (
+                <SelectItem key={name} value={name}>
+                  {COURIER_PROVIDERS[name].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {fields.map((field) => (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={`courier-${field.key}`}>
+              {field.label}
+              {field.optional && <span className="text-muted-foreground font-normal"> (optional)</span>}
+            </Label>
+            <Input
+              id={`courier-${field.key}`}
+              type={field.secret ? "password" : "text"}
+              autoComplete="off"
+              value={credentials[field.key] || ""}
+              onChange={(e) => setCredentials({ ...credentials, [field.key]: e.target.value })}
+              data-testid={`input-courier-${field.key}`}
+            />
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-courier">
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Courier
+          </Button>
+        </div>
+        {webhookUrl && (
+          <div className="border-t pt-4 space-y-3">
+            <div>
+              <p className="text-sm font-medium">Delivery Status Webhook</p>
+              <p className="text-sm text-muted-foreground">
+                Add this URL and secret in your courier's merchant portal to update orders automatically when parcels
+                are delivered or returned.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Webhook URL</Label>
+              <Input readOnly value={webhookUrl} className="font-mono text-xs" data-testid="text-webhook-url" />
+            </div>
+            {settings?.courierWebhookSecret && (
+              <div className="space-y-2">
+                <Label>Webhook Secret</Label>
+                <Input
+                  readOnly
+                  value={settings.courierWebhookSecret}
+                  className="font-mono text-xs"
+                  data-testid="text-webhook-secret"
+                />
+                {settings.courierProvider === "redx" && (
+                  <p className="text-xs text-muted-foreground">
+                    Set it as an <span className="font-mono">X-Webhook-Secret</span> header on the RedX webhook.
+                  </p>
+                )}
+              </div>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (!settings?.courierWebhookSecret || window.confirm("Generate a new secret? The old one will stop working.")) {
+                  secretMutation.mutate();
+                }
+              }}
+              disabled={secretMutation.isPending}
+              data-testid="button-generate-webhook-secret"
+            >
+              {secretMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {settings?.courierWebhookSecret ? "Regenerate Secret" : "Generate Secret"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PaymentSettingsCard({ settings }: { settings?: StoreSettings }) {
+  const { toast } = useToast();
+  const [provider, setProvider] = useState<PaymentProviderName>("bkash");
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const connected = getEnabledPaymentProviders(settings);
+
+  useEffect(() => {
+    setCredentials(settings?.paymentCredentials?.[provider] || {});
+  }, [provider, settings?.paymentCredentials]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Partial<Pick<StoreSettings, "codEnabled" | "advanceDeliveryCharge">> & {
+      paymentCredentials?: Partial<Record<PaymentProviderName, Record<string, string> | null>>;
+    }) => apiRequest("PATCH", "/api/store-settings", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/store-settings"] });
+      toast({ title: "Payments saved", description: "Your payment settings have been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CreditCard className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">Payments</CardTitle>
+          {connected.map((name) => (
+            <Badge
+              key={name}
+              variant="outline"
+              className="bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+            >
+              {PAYMENT_PROVIDERS[name].label} connected
+            </Badge>
+          ))}
+        </div>
+        <CardDescription>
+          Take bKash, Nagad or card payments at checkout alongside cash on delivery.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="payment-cod">Cash on Delivery</Label>
+            <p className="text-sm text-muted-foreground">
+              Turning this off requires online payment for every order once a gateway is connected.
+            </p>
+          </div>
+          <Switch
+            id="payment-cod"
+            checked={settings?.codEnabled ?? true}
+            onCheckedChange={(codEnabled) => saveMutation.mutate({ codEnabled })}
+            disabled={saveMutation.isPending}
+            data-testid="switch-payment-cod"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="payment-advance">Delivery Charge in Advance</Label>
+            <p className="text-sm text-muted-foreground">
+              Cash on delivery customers pay the delivery charge online before you ship.
+            </p>
+          </div>
+          <Switch
+            id="payment-advance"
+            checked={settings?.advanceDeliveryCharge ?? false}
+            onCheckedChange={(advanceDeliveryCharge) => saveMutation.mutate({ advanceDeliveryCharge })}
+            disabled={saveMutation.isPending}
+            data-testid="switch-payment-advance"
+          />
+        </div>
+
+        <div className="border-t pt-4 space-y-4">
+          <div className="space-y-2">
+            <Label>Payment Gateway</Label>
+            <Select value={provider} onValueChange={(value) => setProvider(value as PaymentProviderName)}>
+              <SelectTrigger data-testid="select-payment-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAYMENT_PROVIDERS) as PaymentProviderName[]).map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {PAYMENT_PROVIDERS[name].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {PAYMENT_PROVIDERS[provider].fields.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`payment-${field.key}`}>{field.label}</Label>
+              {field.multiline ? (
+                <Textarea
+                  id={`payment-${field.key}`}
+                  rows={4}
+                  autoComplete="off"
+                  className="font-mono text-xs"
+                  value={credentials[field.key] || ""}
+                  onChange={(e) => setCredentials({ ...credentials, [field.key]: e.target.value })}
+                  data-testid={`input-payment-${field.key}`}
+                />
+              ) : (
+                <Input
+                  id={`payment-${field.key}`}
+                  type={field.secret ? "password" : "text"}
+                  autoComplete="off"
+                  value={credentials[field.key] || ""}
+                  onChange={(e) => setCredentials({ ...credentials, [field.key]: e.target.value })}
+                  data-testid={`input-payment-${field.key}`}
+                />
+              )}
+            </div>
+          ))}
+          <div className="flex justify-end gap-2">
+            {connected.includes(provider) && (
+              <Button
+                variant="outline"
+                onClick={() => saveMutation.mutate({ paymentCredentials: { [provider]: null } })}
+                disabled={saveMutation.isPending}
+                data-testid="button-disconnect-payment"
+              >
+                Disconnect
+              </Button>
+            )}
+            <Button
+              onClick={() => saveMutation.mutate({ paymentCredentials: { [provider]: credentials } })}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-payment"
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save {PAYMENT_PROVIDERS[provider].label}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function FraudSettingsCard({ settings }: { settings?: StoreSettings }) {
+  const { toast } = useToast();
+  const [action, setAction] = useState<HighRiskAction>("flag");
+  const [windowMinutes, setWindowMinutes] = useState("60");
+
+  useEffect(() => {
+    setAction(settings?.highRiskAction || "flag");
+    setWindowMinutes(String(settings?.duplicateOrderWindow ?? 60));
+  }, [settings?.highRiskAction, settings?.duplicateOrderWindow]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PATCH", "/api/store-settings", {
+        highRiskAction: action,
+        duplicateOrderWindow: windowMinutes,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/store-settings"] });
+      toast({ title: "Fraud settings saved", description: "New orders will be checked with these settings." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">Fraud Protection</CardTitle>
+        </div>
+        <CardDescription>
+          Every order gets a risk score from repeat orders, the phone's cancel and return history, and fake-looking
+          names or addresses.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>High-Risk Orders</Label>
+          <Select value={action} onValueChange={(value) => setAction(value as HighRiskAction)}>
+            <SelectTrigger data-testid="select-high-risk-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(HIGH_RISK_ACTIONS) as HighRiskAction[]).map((name) => (
+                <SelectItem key={name} value={name}>
+                  {HIGH_RISK_ACTIONS[name].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">{HIGH_RISK_ACTIONS[action].description}</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="duplicate-window">Duplicate Order Window (minutes)</Label>
+          <Input
+            id="duplicate-window"
+            type="number"
+            min={1}
+            max={1440}
+            value={windowMinutes}
+            onChange={(e) => setWindowMinutes(e.target.value)}
+            data-testid="input-duplicate-window"
+          />
+          <p className="text-sm text-muted-foreground">
+            The same phone ordering the same product again within this time counts as a duplicate.
+          </p>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-fraud">
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Fraud Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function InventorySettingsCard({ settings }: { settings?: StoreSettings }) {
+  const { toast } = useToast();
+  const [threshold, setThreshold] = useState(String(LOW_STOCK_THRESHOLD));
+  const [lowStockEmail, setLowStockEmail] = useState(true);
+
+  useEffect(() => {
+    setThreshold(String(settings?.lowStockThreshold ?? LOW_STOCK_THRESHOLD));
+    setLowStockEmail(settings?.lowStockEmail ?? true);
+  }, [settings?.lowStockThreshold, settings?.lowStockEmail]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PATCH", "/api/store-settings", {
+        lowStockThreshold: threshold,
+        lowStockEmail,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/store-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/low-stock"] });
+      toast({ title: "Low stock settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Package className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">Low Stock Alerts</CardTitle>
+        </div>
+        <CardDescription>
+          Variants, and products that track stock, are flagged on your dashboard once they're down to this many.
+          Products can set their own threshold.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="low-stock-threshold">Low Stock Threshold</Label>
+          <Input
+            id="low-stock-threshold"
+            type="number"
+            min={0}
+            max={1000}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            data-testid="input-low-stock-threshold"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="low-stock-email">Email Me</Label>
+            <p className="text-sm text-muted-foreground">
+              Send an email to your contact email when an order leaves something at or below its threshold.
+            </p>
+          </div>
+          <Switch
+            id="low-stock-email"
+            checked={lowStockEmail}
+            onCheckedChange={setLowStockEmail}
+            data-testid="switch-low-stock-email"
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-inventory">
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Low Stock Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const SMS_EVENT_LABELS: Record<SmsEvent, string> = {
+  order_placed: "Order placed",
+  order_confirmed: "Order confirmed",
+  order_shipped: "Order shipped",
+  order_delivered: "Order delivered",
+};
+
+function SmsSettingsCard({ settings }: { settings?: StoreSettings }) {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<SmsTemplates>(getSmsTemplates(settings));
+
+  useEffect(() => {
+    setTemplates(getSmsTemplates(settings));
+  }, [settings?.smsTemplates]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PATCH", "/api/store-settings", { smsTemplates: templates }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/store-settings"] });
+      toast({ title: "SMS templates saved", description: "Customers will receive the updated messages." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateTemplate = (event: SmsEvent, change: Partial<SmsTemplates[SmsEvent]>) => {
+    setTemplates({ ...templates, [event]: { ...templates[event], ...change } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-primary" />
+          <CardTitle className="font-display">SMS Notifications</CardTitle>
+        </div>
+        <CardDescription>
+          Text customers as their order moves along. Available placeholders:{" "}
+          {SMS_TEMPLATE_VARIABLES.map((v) => `{${v}}`).join(", ")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {SMS_EVENTS.map((event) => (
+          <div key={event} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`sms-${event}`}>{SMS_EVENT_LABELS[event]}</Label>
+              <Switch
+                checked={templates[event].enabled}
+                onCheckedChange={(enabled) => updateTemplate(event, { enabled })}
+                data-testid={`switch-sms-${event}`}
+              />
+            </div>
+            <Textarea
+              id={`sms-${event}`}
+              value={templates[event].body}
+              onChange={(e) => updateTemplate(event, { body: e.target.value })}
+              disabled={!templates[event].enabled}
+              rows={2}
+              maxLength={480}
+              data-testid={`input-sms-${event}`}
+            />
+            <p className="text-xs text-muted-foreground text-right">{templates[event].body.length}/480</p>
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-sms">
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Templates
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  staffInviteSchema,
+  TENANT_ROLES,
+  tenantRoleEnum,
+  type StaffInviteInput,
+  type StaffMember,
+  type PublicStaffInvite,
+  type TenantRole,
+} from "@shared/schema";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { UserPlus, UserCog, Mail, Trash2, Loader2, Copy } from "lucide-react";
+
+const ROLES = tenantRoleEnum.enumValues;
+
+export default function StaffPage() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ members: StaffMember[]; invites: PublicStaffInvite[] }>({
+    queryKey: ["/api/staff"],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (input: StaffInviteInput) => {
+      const res = await apiRequest("POST", "/api/staff/invites", input);
+      return res.json() as Promise<{ invite: PublicStaffInvite; emailSent: boolean; inviteUrl?: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      setIsDialogOpen(false);
+      if (result.emailSent) {
+        toast({ title: "Invite sent", description: `We've emailed ${result.invite.email} a link to join.` });
+      } else {
+        setInviteLink(result.inviteUrl ?? null);
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send invite", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const cancelInviteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/staff/invites/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({ title: "Invite cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: TenantRole }) => apiRequest("PATCH", `/api/staff/${id}`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({ title: "Role updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update role", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/staff/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({ title: "Staff member removed", description: "Their login no longer works." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't remove staff member", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleRemove = (member: StaffMember) => {
+    if (window.confirm(`Remove ${member.email}? Their login will be deleted.`)) {
+      removeMutation.mutate(member.id);
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+    await navigator.clipboard.writeText(inviteLink);
+    toast({ title: "Link copied" });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="font-display text-2xl md:text-3xl font-bold">Staff</h1>
+          <p className="text-muted-foreground mt-1">Give your team their own logins with only the access they need</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-invite-staff">
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite Staff
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle className="font-display">Invite Staff</DialogTitle>
+            </DialogHeader>
+            <InviteForm
+              onSubmit={(input) => inviteMutation.mutate(input)}
+              isLoading={inviteMutation.isPending}
+              onCancel={() => setIsDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {inviteLink && (
+        <Card className="border-primary/40">
+          <CardHeader>
+            <CardTitle className="font-display">Share the invite link</CardTitle>
+            <CardDescription>
+              Email isn't set up, so send this link to your staff member yourself. It works once and expires in 7
+              days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input value={inviteLink} readOnly data-testid="input-invite-link" />
+            <Button variant="outline" onClick={copyInviteLink} data-testid="button-copy-invite-link">
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-display">Team</CardTitle>
+          <CardDescription>Everyone who can sign in to manage this store</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-16" />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {data?.members.map((member) => {
+                const isSelf = member.userId === user?.id;
+                return (
+                  <div
+                    key={member.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 rounded-lg border"
+                    data-testid={`staff-member-${member.id}`}
+                  >
+                    <div className="flex items-center gap-4 min-w-0">
+                      <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-primary/10">
+                        <UserCog className="h-5 w-5 text-primary" />
+                      </div>
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-medium truncate">{member.email}</h4>
+                          {isSelf && (
+                            <Badge variant="secondary">You</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">{TENANT_ROLES[member.role].description}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => updateRoleMutation.mutate({ id: member.id, role: role as TenantRole })}
+                        disabled={isSelf || updateRoleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-36" data-testid={`select-role-${member.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {TENANT_ROLES[role].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemove(member)}
+                        disabled={isSelf || removeMutation.isPending}
+                        data-testid={`button-remove-${member.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {data && data.invites.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-display">Pending Invites</CardTitle>
+            <CardDescription>Invites that haven't been accepted yet. Inviting the same email again sends a fresh link.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data.invites.map((invite) => {
+              const expired = new Date(invite.expiresAt).getTime() < Date.now();
+              return (
+                <div
+                  key={invite.id}
+                  className="flex items-center justify-between gap-4 p-4 rounded-lg border"
+                  data-testid={`staff-invite-${invite.id}`}
+                >
+                  <div className="flex items-center gap-4 min-w-0">
+                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-muted">
+                      <Mail className="h-5 w-5 text-muted-foreground" />
+                    </div>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">{invite.email}</h4>
+                        <Badge variant="outline">{TENANT_ROLES[invite.role].label}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {expired
+                          ? "Expired"
+                          : `Expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => cancelInviteMutation.mutate(invite.id)}
+                    disabled={cancelInviteMutation.isPending}
+                    data-testid={`button-cancel-invite-${invite.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-display">Roles</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground space-y-2">
+          {ROLES.map((role) => (
+            <p key={role}>
+              <strong>{TENANT_ROLES[role].label}:</strong> {TENANT_ROLES[role].description}.
+            </p>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function InviteForm({
+  onSubmit,
+  isLoading,
+  onCancel,
+}: {
+  onSubmit: (data: StaffInviteInput) => void;
+  isLoading: boolean;
+  onCancel: () => void;
+}) {
+  const form = useForm<StaffInviteInput>({
+    resolver: zodResolver(staffInviteSchema),
+    defaultValues: { email: "", role: "order_agent" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="staff@example.com" data-testid="input-invite-email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Role</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {TENANT_ROLES[role].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">{TENANT_ROLES[field.value].description}</p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="flex-1" data-testid="button-send-invite">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              "Send Invite"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,424 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  webhookSchema,
+  WEBHOOK_EVENTS,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+  type WebhookInput,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Webhook as WebhookIcon, Plus, Trash2, Loader2, Copy, Eye, EyeOff, History, RefreshCw, Send } from "lucide-react";
+import { format } from "date-fns";
+
+const EVENTS = Object.keys(WEBHOOK_EVENTS) as WebhookEvent[];
+
+const deliveryStatusStyles: Record<WebhookDeliveryStatus, string> = {
+  succeeded: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+export default function WebhooksPage() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [logId, setLogId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: webhooks, isLoading } = useQuery<Webhook[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (input: WebhookInput) => {
+      const res = await apiRequest("POST", "/api/webhooks", input);
+      return res.json() as Promise<Webhook>;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setIsDialogOpen(false);
+      setRevealedId(webhook.id);
+      toast({ title: "Webhook added", description: "Copy its signing secret to verify our requests." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't add webhook", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) => apiRequest("PATCH", `/api/webhooks/${id}`, { active }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update webhook", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/webhooks/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({ title: "Webhook deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't delete webhook", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleDelete = (webhook: Webhook) => {
+    if (window.confirm(`Delete the webhook for ${webhook.url}? Its delivery log goes with it.`)) {
+      deleteMutation.mutate(webhook.id);
+    }
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Secret copied" });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="font-display text-2xl md:text-3xl font-bold">Webhooks</h1>
+          <p className="text-muted-foreground mt-1">Send orders and product changes to your other tools as they happen</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-add-webhook">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Webhook
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle className="font-display">Add Webhook</DialogTitle>
+            </DialogHeader>
+            <WebhookForm
+              onSubmit={(input) => createMutation.mutate(input)}
+              isLoading={createMutation.isPending}
+              onCancel={() => setIsDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-32" />
+          ))}
+        </div>
+      ) : !webhooks || webhooks.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <WebhookIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No webhooks yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        webhooks.map((webhook) => (
+          <Card key={webhook.id} data-testid={`webhook-${webhook.id}`}>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                <div className="min-w-0 space-y-2">
+                  <CardTitle className="font-mono text-base break-all">{webhook.url}</CardTitle>
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="outline" className="font-mono text-xs">
+                        {event}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={webhook.active}
+                    onCheckedChange={(active) => toggleMutation.mutate({ id: webhook.id, active })}
+                    disabled={toggleMutation.isPending}
+                    aria-label="Active"
+                    data-testid={`switch-webhook-active-${webhook.id}`}
+                  />
+                  <span className="text-sm text-muted-foreground w-8">{webhook.active ? "On" : "Off"}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(webhook)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-webhook-${webhook.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Signing secret</p>
+                <div className="flex gap-2">
+                  <Input
+                    value={revealedId === webhook.id ? webhook.secret : "•".repeat(32)}
+                    readOnly
+                    className="font-mono"
+                    data-testid={`input-webhook-secret-${webhook.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                    data-testid={`button-reveal-secret-${webhook.id}`}
+                  >
+                    {revealedId === webhook.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => copySecret(webhook.secret)}
+                    data-testid={`button-copy-secret-${webhook.id}`}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setLogId(logId === webhook.id ? null : webhook.id)}
+                data-testid={`button-deliveries-${webhook.id}`}
+              >
+                <History className="mr-2 h-4 w-4" />
+                {logId === webhook.id ? "Hide Deliveries" : "Recent Deliveries"}
+              </Button>
+              {logId === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-display">How it works</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground space-y-2">
+          {EVENTS.map((event) => (
+            <p key={event}>
+              <strong className="font-mono">{event}:</strong> {WEBHOOK_EVENTS[event]}
+              {event === "stock.low" && " (at or below the low stock threshold in Settings)"}.
+            </p>
+          ))}
+          <p>
+            We POST a JSON body of <code>{"{ id, event, createdAt, data }"}</code>. The{" "}
+            <code>X-StoreBuilder-Signature</code> header is <code>sha256=</code> followed by the HMAC-SHA256 of{" "}
+            <code>&lt;X-StoreBuilder-Timestamp&gt;.&lt;body&gt;</code> using your signing secret.
+          </p>
+          <p>
+            Reply with a 2xx status within 10 seconds. Anything else is retried up to 5 more times, waiting 1, 2, 4, 8
+            and 16 minutes. Redeliveries keep the same <code>id</code>, so you can skip events you've already handled.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const { toast } = useToast();
+  const endpoint = `/api/webhooks/${webhookId}/deliveries`;
+
+  const { data: deliveries, isLoading, isFetching, refetch } = useQuery<WebhookDelivery[]>({
+    queryKey: [endpoint],
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const res = await apiRequest("POST", `${endpoint}/${deliveryId}/redeliver`);
+      return res.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      if (delivery.status === "succeeded") {
+        toast({ title: "Redelivered", description: `Your server answered ${delivery.responseStatus}.` });
+      } else {
+        toast({
+          title: "Redelivery failed",
+          description: `${delivery.error || `Your server answered ${delivery.responseStatus}`}. We'll keep retrying.`,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't redeliver", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32" />;
+  }
+
+  return (
+    <div className="space-y-2" data-testid={`deliveries-${webhookId}`}>
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+      {!deliveries || deliveries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">Nothing sent yet</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                  <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                    {format(new Date(delivery.createdAt), "MMM d, h:mm a")}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={`capitalize ${deliveryStatusStyles[delivery.status]}`}>
+                      {delivery.status}
+                    </Badge>
+                    {delivery.status === "pending" && delivery.nextAttemptAt && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Next try {format(new Date(delivery.nextAttemptAt), "h:mm a")}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-64">
+                    {delivery.responseStatus !== null && <p className="text-sm font-medium">{delivery.responseStatus}</p>}
+                    {(delivery.error || delivery.responseBody) && (
+                      <p className="text-xs text-muted-foreground truncate" title={delivery.error || delivery.responseBody || ""}>
+                        {delivery.error || delivery.responseBody}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{delivery.attempts}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => redeliverMutation.mutate(delivery.id)}
+                      disabled={redeliverMutation.isPending}
+                      data-testid={`button-redeliver-${delivery.id}`}
+                    >
+                      {redeliverMutation.isPending && redeliverMutation.variables === delivery.id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Send className="mr-2 h-4 w-4" />
+                      )}
+                      Redeliver
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function WebhookForm({
+  onSubmit,
+  isLoading,
+  onCancel,
+}: {
+  onSubmit: (data: WebhookInput) => void;
+  isLoading: boolean;
+  onCancel: () => void;
+}) {
+  const form = useForm<WebhookInput>({
+    resolver: zodResolver(webhookSchema),
+    defaultValues: { url: "", events: ["order.created"], active: true },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>URL</FormLabel>
+              <FormControl>
+                <Input placeholder="https://example.com/webhooks/storebuilder" data-testid="input-webhook-url" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="events"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Events</FormLabel>
+              <div className="rounded-lg border p-3 space-y-2">
+                {EVENTS.map((event) => (
+                  <label key={event} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={field.value.includes(event)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(checked ? [...field.value, event] : field.value.filter((e) => e !== event))
+                      }
+                      className="mt-0.5"
+                      data-testid={`checkbox-event-${event}`}
+                    />
+                    <span>
+                      <span className="font-mono">{event}</span>
+                      <span className="block text-muted-foreground">{WEBHOOK_EVENTS[event]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} className="flex-1" data-testid="button-save-webhook">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Adding...
+              </>
+            ) : (
+              "Add Webhook"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
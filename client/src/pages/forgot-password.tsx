@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { forgotPasswordSchema, type ForgotPasswordInput } from "@shared/schema";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { Store, Loader2, MailCheck } from "lucide-react";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordInput>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: (data: ForgotPasswordInput) => apiRequest("POST", "/api/auth/forgot-password", data),
+    onSuccess: (_, data) => {
+      setSentTo(data.email);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send reset link", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="flex items-center justify-between gap-4 p-4 border-b">
+        <Link href="/" className="flex items-center gap-2">
+          <Store className="h-6 w-6 text-primary" />
+          <span className="font-display font-bold text-lg">StoreBuilder BD</span>
+        </Link>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          {sentTo ? (
+            <>
+              <CardHeader className="text-center">
+                <MailCheck className="h-10 w-10 text-primary mx-auto mb-2" />
+                <CardTitle className="font-display text-2xl">Check Your Email</CardTitle>
+                <CardDescription data-testid="text-reset-sent">
+                  If an account exists for {sentTo}, we've sent a link to reset its password. The link expires in
+                  an hour.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="text-center text-sm text-muted-foreground">
+                <Link href="/login" className="text-primary hover:underline" data-testid="link-login">
+                  Back to sign in
+                </Link>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader className="text-center">
+                <CardTitle className="font-display text-2xl">Forgot Password</CardTitle>
+                <CardDescription>Enter your email and we'll send you a link to choose a new password</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => forgotMutation.mutate(data))} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input type="email" placeholder="you@example.com" data-testid="input-email" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={forgotMutation.isPending}
+                      data-testid="button-send-reset"
+                    >
+                      {forgotMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Sending...
+                        </>
+                      ) : (
+                        "Send Reset Link"
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+                <div className="mt-6 text-center text-sm text-muted-foreground">
+                  Remembered it?{" "}
+                  <Link href="/login" className="text-primary hover:underline" data-testid="link-login">
+                    Sign in
+                  </Link>
+                </div>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useLocation, useParams, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { TENANT_ROLES, type TenantRole } from "@shared/schema";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { Store, Loader2 } from "lucide-react";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+const acceptFormSchema = z
+  .object({
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type AcceptFormData = z.infer<typeof acceptFormSchema>;
+
+interface InviteDetails {
+  email: string;
+  role: TenantRole;
+  storeName?: string;
+}
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { refetch } = useAuth();
+  const { toast } = useToast();
+
+  const { data: invite, isLoading, error } = useQuery<InviteDetails>({
+    queryKey: ["/api/invites", token],
+  });
+
+  const form = useForm<AcceptFormData>({
+    resolver: zodResolver(acceptFormSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: (data: AcceptFormData) =>
+      apiRequest("POST", `/api/invites/${token}/accept`, { password: data.password }),
+    onSuccess: async () => {
+      await refetch();
+      toast({ title: "Welcome aboard!", description: `You've joined ${invite?.storeName || "the store"}.` });
+      navigate("/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't accept invitation", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="flex items-center justify-between gap-4 p-4 border-b">
+        <Link href="/" className="flex items-center gap-2">
+          <Store className="h-6 w-6 text-primary" />
+          <span className="font-display font-bold text-lg">StoreBuilder BD</span>
+        </Link>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          {isLoading ? (
+            <CardContent className="py-12 flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </CardContent>
+          ) : error || !invite ? (
+            <>
+              <CardHeader className="text-center">
+                <CardTitle className="font-display text-2xl">Invitation Unavailable</CardTitle>
+                <CardDescription data-testid="text-invite-error">
+                  {error ? getErrorMessage(error) : "This invitation is invalid or has expired"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="text-center text-sm text-muted-foreground">
+                Ask the store owner to send you a new invite, or{" "}
+                <Link href="/login" className="text-primary hover:underline">
+                  sign in
+                </Link>
+                .
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader className="text-center">
+                <CardTitle className="font-display text-2xl">Join {invite.storeName || "the store"}</CardTitle>
+                <CardDescription>
+                  You've been invited as {TENANT_ROLES[invite.role].label}. Choose a password to finish setting up
+                  your login.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => acceptMutation.mutate(data))} className="space-y-4">
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <Input value={invite.email} disabled data-testid="input-invite-email" />
+                    </FormItem>
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="At least 8 characters"
+                              data-testid="input-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="Repeat your password"
+                              data-testid="input-confirm-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={acceptMutation.isPending}
+                      data-testid="button-accept-invite"
+                    >
+                      {acceptMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Joining...
+                        </>
+                      ) : (
+                        "Accept Invitation"
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -2,21 +2,22 @@ import { useState } from "react";
 import { useLocation, Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { loginSchema, type LoginInput } from "@shared/schema";
+import { loginSchema, twoFactorCodeSchema, type LoginInput } from "@shared/schema";
 import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { Store, Loader2 } from "lucide-react";
+import { Store, Loader2, ShieldCheck } from "lucide-react";
 import { ThemeToggle } from "@/components/theme-toggle";
 
 export default function LoginPage() {
   const [, navigate] = useLocation();
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
 
   const form = useForm<LoginInput>({
     resolver: zodResolver(loginSchema),
@@ -26,10 +27,19 @@ export default function LoginPage() {
     },
   });
 
+  const codeForm = useForm<{ code: string }>({
+    resolver: zodResolver(twoFactorCodeSchema),
+    defaultValues: { code: "" },
+  });
+
   const onSubmit = async (data: LoginInput) => {
     setIsLoading(true);
     try {
-      await login(data.email, data.password);
+      const { twoFactorRequired } = await login(data.email, data.password);
+      if (twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
       toast({ title: "Welcome back!", description: "You have successfully logged in." });
       navigate("/dashboard");
     } catch (error) {
@@ -43,6 +53,29 @@ export default function LoginPage() {
     }
   };
 
+  const onSubmitCode = async (data: { code: string }) => {
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(data.code);
+      toast({ title: "Welcome back!", description: "You have successfully logged in." });
+      navigate("/dashboard");
+    } catch (error) {
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const backToPassword = () => {
+    setTwoFactorStep(false);
+    codeForm.reset();
+    form.resetField("password");
+  };
+
   return (
     <div className="min-h-screen flex flex-col bg-background">
       <header className="flex items-center justify-between gap-4 p-4 border-b">
@@ -55,68 +88,136 @@ export default function LoginPage() {
 
       <main className="flex-1 flex items-center justify-center p-4">
         <Card className="w-full max-w-md">
-          <CardHeader className="text-center">
-            <CardTitle className="font-display text-2xl">Welcome Back</CardTitle>
-            <CardDescription>Sign in to manage your store</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="email"
-                          placeholder="you@example.com"
-                          data-testid="input-email"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Password</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="password"
-                          placeholder="Enter your password"
-                          data-testid="input-password"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-login">
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Signing in...
-                    </>
-                  ) : (
-                    "Sign In"
-                  )}
-                </Button>
-              </form>
-            </Form>
-            <div className="mt-6 text-center text-sm text-muted-foreground">
-              Don't have an account?{" "}
-              <Link href="/register" className="text-primary hover:underline" data-testid="link-register">
-                Create one
-              </Link>
-            </div>
-          </CardContent>
+          {twoFactorStep ? (
+            <>
+              <CardHeader className="text-center">
+                <ShieldCheck className="h-10 w-10 text-primary mx-auto mb-2" />
+                <CardTitle className="font-display text-2xl">Two-Factor Authentication</CardTitle>
+                <CardDescription>
+                  Enter the 6-digit code from your authenticator app, or one of your recovery codes
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...codeForm}>
+                  <form onSubmit={codeForm.handleSubmit(onSubmitCode)} className="space-y-4">
+                    <FormField
+                      control={codeForm.control}
+                      name="code"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Code</FormLabel>
+                          <FormControl>
+                            <Input
+                              autoComplete="one-time-code"
+                              autoFocus
+                              placeholder="123456"
+                              data-testid="input-two-factor-code"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-verify-code">
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Verifying...
+                        </>
+                      ) : (
+                        "Verify"
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+                <div className="mt-6 text-center text-sm">
+                  <button
+                    type="button"
+                    onClick={backToPassword}
+                    className="text-primary hover:underline"
+                    data-testid="button-back-to-password"
+                  >
+                    Back to sign in
+                  </button>
+                </div>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader className="text-center">
+                <CardTitle className="font-display text-2xl">Welcome Back</CardTitle>
+                <CardDescription>Sign in to manage your store</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder="you@example.com"
+                              data-testid="input-email"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex items-center justify-between">
+                            <FormLabel>Password</FormLabel>
+                            <Link
+                              href="/forgot-password"
+                              className="text-sm text-primary hover:underline"
+                              data-testid="link-forgot-password"
+                            >
+                              Forgot password?
+                            </Link>
+                          </div>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="Enter your password"
+                              data-testid="input-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-login">
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Signing in...
+                        </>
+                      ) : (
+                        "Sign In"
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+                <div className="mt-6 text-center text-sm text-muted-foreground">
+                  Don't have an account?{" "}
+                  <Link href="/register" className="text-primary hover:underline" data-testid="link-register">
+                    Create one
+                  </Link>
+                </div>
+              </CardContent>
+            </>
+          )}
         </Card>
       </main>
     </div>
@@ -78,7 +78,7 @@ export default function RegisterPage() {
     setIsLoading(true);
     try {
       await register(data.email, data.password, data.storeName, data.storeSlug);
-      toast({ title: "Welcome!", description: "Your store has been created successfully." });
+      toast({ title: "Welcome!", description: "Your store is ready. Check your inbox to verify your email." });
       navigate("/dashboard");
     } catch (error) {
       toast({
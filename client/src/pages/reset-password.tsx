@@ -0,0 +1,152 @@
+import { useLocation, useParams, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { Store, Loader2 } from "lucide-react";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+const resetFormSchema = z
+  .object({
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type ResetFormData = z.infer<typeof resetFormSchema>;
+
+export default function ResetPasswordPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: resetLink, isLoading, error } = useQuery<{ email: string }>({
+    queryKey: ["/api/auth/reset-password", token],
+  });
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (data: ResetFormData) =>
+      apiRequest("POST", "/api/auth/reset-password", { token, password: data.password }),
+    onSuccess: () => {
+      toast({ title: "Password updated", description: "Sign in with your new password." });
+      navigate("/login");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't reset password", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="flex items-center justify-between gap-4 p-4 border-b">
+        <Link href="/" className="flex items-center gap-2">
+          <Store className="h-6 w-6 text-primary" />
+          <span className="font-display font-bold text-lg">StoreBuilder BD</span>
+        </Link>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          {isLoading ? (
+            <CardContent className="py-12 flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </CardContent>
+          ) : error || !resetLink ? (
+            <>
+              <CardHeader className="text-center">
+                <CardTitle className="font-display text-2xl">Link Unavailable</CardTitle>
+                <CardDescription data-testid="text-reset-error">
+                  {error ? getErrorMessage(error) : "This reset link is invalid or has expired"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="text-center text-sm text-muted-foreground">
+                <Link href="/forgot-password" className="text-primary hover:underline" data-testid="link-forgot-password">
+                  Request a new link
+                </Link>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader className="text-center">
+                <CardTitle className="font-display text-2xl">Choose a New Password</CardTitle>
+                <CardDescription>For {resetLink.email}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>New Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="At least 8 characters"
+                              data-testid="input-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm Password</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder="Repeat your password"
+                              data-testid="input-confirm-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={resetMutation.isPending}
+                      data-testid="button-reset-password"
+                    >
+                      {resetMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Saving...
+                        </>
+                      ) : (
+                        "Reset Password"
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
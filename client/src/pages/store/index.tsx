@@ -1,11 +1,21 @@
-import { useParams, Link } from "wouter";
+import { Link, useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import type { Product, StoreSettings } from "@shared/schema";
+import {
+  getCategoryPath,
+  getAvailableStock,
+  type Product,
+  type ShippingClass,
+  type PublicStoreSettings,
+  type Category,
+  type PublicCollection,
+} from "@shared/schema";
+import { useStoreSlug, useStorePath } from "@/lib/store-host";
+import { CartSheet } from "@/components/cart-sheet";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Store, ShoppingBag, ImageOff } from "lucide-react";
+import { Store, ShoppingBag, ImageOff, ChevronRight } from "lucide-react";
 
 interface StoreHomeData {
   tenant: {
@@ -14,17 +24,31 @@ interface StoreHomeData {
     slug: string;
   };
   products: Product[];
-  settings: StoreSettings | null;
+  categories: Category[];
+  collections: PublicCollection[];
+  category: Category | null;
+  collection: PublicCollection | null;
+  shippingClasses: ShippingClass[];
+  settings: PublicStoreSettings | null;
 }
 
 export default function StoreHomePage() {
-  const { storeSlug } = useParams<{ storeSlug: string }>();
+  const storeSlug = useStoreSlug();
+  const storePath = useStorePath();
+  const { categorySlug, collectionSlug } = useParams<{ categorySlug?: string; collectionSlug?: string }>();
 
   const { data, isLoading, error } = useQuery<StoreHomeData>({
-    queryKey: ["/api/store", storeSlug],
+    queryKey: ["/api/store", storeSlug, { category: categorySlug, collection: collectionSlug }],
     queryFn: async () => {
-      const res = await fetch(`/api/store/${storeSlug}`);
-      if (!res.ok) throw new Error("Store not found");
+      const params = new URLSearchParams();
+      if (categorySlug) params.set("category", categorySlug);
+      if (collectionSlug) params.set("collection", collectionSlug);
+      const query = params.toString();
+      const res = await fetch(`/api/store/${storeSlug}${query ? `?${query}` : ""}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Store not found");
+      }
       return res.json();
     },
   });
@@ -54,6 +78,24 @@ export default function StoreHomePage() {
     );
   }
 
+  // The store exists but the category or collection in the URL doesn't
+  if (error && error.message !== "Store not found" && (categorySlug || collectionSlug)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="p-8 text-center max-w-md">
+          <ShoppingBag className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-2">{error.message}</h1>
+          <p className="text-muted-foreground mb-4">It may have been renamed or removed.</p>
+          <Button asChild variant="outline">
+            <Link href={storePath(storeSlug)} data-testid="link-back-to-store">
+              Browse all products
+            </Link>
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   if (error || !data) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -68,8 +110,25 @@ export default function StoreHomePage() {
     );
   }
 
-  const { tenant, products, settings } = data;
+  const { tenant, products, categories, collections, category, collection, shippingClasses, settings } = data;
   const primaryColor = settings?.primaryColor || "#3b82f6";
+  const breadcrumb = category ? getCategoryPath(categories, category.id) : [];
+  const subcategories = category ? categories.filter((c) => c.parentId === category.id) : [];
+  const topLevelCategories = categories.filter((c) => !c.parentId);
+  const activeTopLevelId = breadcrumb[0]?.id;
+  const isFiltered = !!(category || collection);
+
+  const navLink = (href: string, label: string, active: boolean, testId: string) => (
+    <Link
+      key={testId}
+      href={href}
+      className="shrink-0 rounded-full border px-3 py-1 text-sm font-medium transition-colors hover-elevate"
+      style={active ? { backgroundColor: primaryColor, borderColor: primaryColor, color: "#fff" } : undefined}
+      data-testid={testId}
+    >
+      {label}
+    </Link>
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -89,12 +148,67 @@ export default function StoreHomePage() {
               {tenant.name.charAt(0).toUpperCase()}
             </div>
           )}
-          <h1 className="font-display font-bold text-xl">{tenant.name}</h1>
+          <h1 className="font-display font-bold text-xl flex-1">{tenant.name}</h1>
+          <CartSheet storeSlug={tenant.slug} shippingClasses={shippingClasses} settings={settings} />
         </div>
+        {(topLevelCategories.length > 0 || collections.length > 0) && (
+          <nav className="container mx-auto px-4 pb-3 flex gap-2 overflow-x-auto" data-testid="nav-store-categories">
+            {navLink(storePath(tenant.slug), "All", !isFiltered, "link-category-all")}
+            {topLevelCategories.map((c) =>
+              navLink(storePath(tenant.slug, `category/${c.slug}`), c.name, c.id === activeTopLevelId, `link-category-${c.slug}`)
+            )}
+            {collections.map((c) =>
+              navLink(storePath(tenant.slug, `collection/${c.slug}`), c.name, c.id === collection?.id, `link-collection-${c.slug}`)
+            )}
+          </nav>
+        )}
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        {products.length === 0 ? (
+        {isFiltered && (
+          <div className="mb-6 space-y-3">
+            <nav className="flex items-center flex-wrap gap-1 text-sm text-muted-foreground" data-testid="breadcrumb">
+              <Link href={storePath(tenant.slug)} className="hover:text-foreground">
+                All products
+              </Link>
+              {(category ? breadcrumb : [collection!]).map((item, index, items) => (
+                <span key={item.id} className="flex items-center gap-1">
+                  <ChevronRight className="h-4 w-4" />
+                  {index === items.length - 1 ? (
+                    <span className="text-foreground">{item.name}</span>
+                  ) : (
+                    <Link href={storePath(tenant.slug, `category/${item.slug}`)} className="hover:text-foreground">
+                      {item.name}
+                    </Link>
+                  )}
+                </span>
+              ))}
+            </nav>
+            <div>
+              <h2 className="text-2xl font-display font-bold" data-testid="text-listing-title">
+                {category?.name ?? collection?.name}
+              </h2>
+              {(category?.description || collection?.description) && (
+                <p className="text-muted-foreground mt-1">{category?.description || collection?.description}</p>
+              )}
+            </div>
+            {subcategories.length > 0 && (
+              <div className="flex gap-2 flex-wrap">
+                {subcategories.map((c) =>
+                  navLink(storePath(tenant.slug, `category/${c.slug}`), c.name, false, `link-subcategory-${c.slug}`)
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {products.length === 0 && isFiltered ? (
+          <div className="text-center py-16">
+            <ShoppingBag className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Nothing Here Yet</h2>
+            <p className="text-muted-foreground">There are no products in this section right now.</p>
+          </div>
+        ) : products.length === 0 ? (
           <div className="text-center py-16">
             <ShoppingBag className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
             <h2 className="text-xl font-semibold mb-2">No Products Yet</h2>
@@ -104,16 +218,20 @@ export default function StoreHomePage() {
           </div>
         ) : (
           <>
-            <div className="mb-6">
-              <h2 className="text-2xl font-display font-bold">Our Products</h2>
-              <p className="text-muted-foreground">{products.length} products available</p>
-            </div>
+            {isFiltered ? (
+              <p className="text-muted-foreground mb-6">{products.length} products available</p>
+            ) : (
+              <div className="mb-6">
+                <h2 className="text-2xl font-display font-bold">Our Products</h2>
+                <p className="text-muted-foreground">{products.length} products available</p>
+              </div>
+            )}
 
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
               {products.map((product) => (
                 <Link
                   key={product.id}
-                  href={`/store/${tenant.slug}/${product.slug}`}
+                  href={storePath(tenant.slug, product.slug)}
                   className="block group"
                   data-testid={`link-product-${product.id}`}
                 >
@@ -130,6 +248,11 @@ export default function StoreHomePage() {
                           <ImageOff className="h-12 w-12 text-muted-foreground" />
                         </div>
                       )}
+                      {getAvailableStock(product) === 0 && (
+                        <Badge variant="destructive" className="absolute top-2 left-2" data-testid={`badge-sold-out-${product.id}`}>
+                          Sold out
+                        </Badge>
+                      )}
                     </div>
                     <CardContent className="p-4">
                       <h3 className="font-semibold line-clamp-2 mb-2">{product.name}</h3>
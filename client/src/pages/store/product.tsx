@@ -1,10 +1,14 @@
-import { useState, useEffect } from "react";
-import { useParams } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { checkoutSchema, type CheckoutInput, type Product, type ShippingClass, type StoreSettings } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { checkoutSchema, getOrderNumber, getVariantImages, getAvailableStock, getLowStockThreshold, type CheckoutInput, type DiscountPreview, type PaymentMethod, type PaymentProviderName, type PlacedOrder, type Product, type ProductOptionWithValues, type ShippingClass, type PublicStoreSettings } from "@shared/schema";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { useStoreSlug, useStorePath } from "@/lib/store-host";
+import { useCart } from "@/lib/cart";
+import { CartSheet } from "@/components/cart-sheet";
+import { PaymentMethodPicker, getCheckoutPaymentDue } from "@/components/payment-method-picker";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -27,6 +31,8 @@ import {
   Loader2,
   Store,
   ImageOff,
+  Tag,
+  X,
 } from "lucide-react";
 import { SiWhatsapp } from "react-icons/si";
 
@@ -44,17 +50,26 @@ interface StoreData {
     stock: number;
     sku?: string | null;
     isDefault: boolean;
+    optionValueIds: string[];
+    images: string[];
   }>;
+  options?: ProductOptionWithValues[];
   shippingClasses: ShippingClass[];
-  settings: StoreSettings | null;
+  settings: PublicStoreSettings | null;
 }
 
 export default function ProductPage() {
-  const { storeSlug, productSlug } = useParams<{ storeSlug: string; productSlug: string }>();
+  const { productSlug } = useParams<{ productSlug: string }>();
+  const storeSlug = useStoreSlug();
+  const storePath = useStorePath();
   const { toast } = useToast();
+  const cart = useCart();
   const [quantity, setQuantity] = useState(1);
   const [selectedVariant, setSelectedVariant] = useState<string | null>(null);
-  const [orderSuccess, setOrderSuccess] = useState(false);
+  const [activeImage, setActiveImage] = useState(0);
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
+  const [couponInput, setCouponInput] = useState("");
+  const [appliedCode, setAppliedCode] = useState<string | undefined>(undefined);
 
   const { data, isLoading, error } = useQuery<StoreData>({
     queryKey: ["/api/store", storeSlug, "product", productSlug],
@@ -74,6 +89,7 @@ export default function ProductPage() {
       quantity: 1,
       shippingClassId: "",
       variantId: undefined,
+      paymentMethod: "cod",
     },
   });
 
@@ -90,10 +106,11 @@ export default function ProductPage() {
     form.setValue("quantity", quantity);
   }, [quantity, form]);
 
-  // Set default variant when variants load
+  // Set default variant when variants load, preferring one that is in stock
   useEffect(() => {
     if (data?.variants && data.variants.length > 0) {
-      const defaultVariant = data.variants.find((v) => v.isDefault) || data.variants[0];
+      const inStock = data.variants.filter((v) => v.stock > 0);
+      const defaultVariant = inStock.find((v) => v.isDefault) || inStock[0] || data.variants[0];
       if (defaultVariant) {
         setSelectedVariant(defaultVariant.id);
         form.setValue("variantId", defaultVariant.id);
@@ -120,6 +137,15 @@ export default function ProductPage() {
 
   // Get selected variant or use product price
   const selectedVariantData = data?.variants?.find((v) => v.id === selectedVariant);
+  const gallery = data ? getVariantImages(data.product.images, selectedVariantData, data.options) : [];
+
+  // Back to the first image whenever the variant brings its own set
+  useEffect(() => {
+    setActiveImage(0);
+  }, [selectedVariant]);
+  // Null when the product doesn't track stock, so there's no limit
+  const availableStock = data ? getAvailableStock(data.product, selectedVariantData) : null;
+  const soldOut = availableStock === 0;
   const unitPrice = selectedVariantData
     ? parseFloat(selectedVariantData.price)
     : data?.product
@@ -128,13 +154,65 @@ export default function ProductPage() {
 
   const subtotal = unitPrice * quantity;
   const shippingFee = selectedShippingClass ? parseFloat(selectedShippingClass.fee) : 0;
-  const total = subtotal + shippingFee;
+
+  // The server prices the discount - an entered code, or an automatic
+  // promotion when no code is applied
+  const variantReady = !!data && (!data.variants?.length || !!selectedVariant);
+  const { data: discountPreview, error: discountError } = useQuery<DiscountPreview>({
+    queryKey: ["/api/store", storeSlug, "discount", data?.product.id, selectedVariant, quantity, selectedShippingClass?.id, appliedCode],
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/store/${storeSlug}/discount`, {
+        items: [{ productId: data!.product.id, variantId: selectedVariant || undefined, quantity }],
+        shippingClassId: selectedShippingClass?.id,
+        discountCode: appliedCode,
+      });
+      return res.json();
+    },
+    enabled: variantReady,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+  const appliedDiscount = discountError ? null : discountPreview?.discount ?? null;
+  const discountAmount = appliedDiscount ? parseFloat(discountPreview!.discountAmount) : 0;
+  const total = subtotal + shippingFee - discountAmount;
+  const paymentMethod = form.watch("paymentMethod");
+  const paymentDue = getCheckoutPaymentDue(data?.settings, paymentMethod, {
+    total,
+    shippingFee: appliedDiscount?.type === "free_shipping" ? 0 : shippingFee,
+  });
+
+  const setPaymentMethod = useCallback((method: PaymentMethod) => form.setValue("paymentMethod", method), [form]);
+  const setPaymentProvider = useCallback(
+    (provider: PaymentProviderName) => form.setValue("paymentProvider", provider),
+    [form]
+  );
+
+  const applyCoupon = () => {
+    const code = couponInput.trim().toUpperCase();
+    setAppliedCode(code || undefined);
+  };
+
+  const removeCoupon = () => {
+    setCouponInput("");
+    setAppliedCode(undefined);
+  };
 
   const orderMutation = useMutation({
-    mutationFn: (orderData: CheckoutInput & { productId: string }) =>
-      apiRequest("POST", `/api/store/${storeSlug}/orders`, orderData),
-    onSuccess: () => {
-      setOrderSuccess(true);
+    mutationFn: async ({ quantity, variantId, ...customer }: CheckoutInput & { productId: string }) => {
+      const res = await apiRequest("POST", `/api/store/${storeSlug}/orders`, {
+        ...customer,
+        items: [{ productId: customer.productId, variantId, quantity }],
+        discountCode: discountError ? undefined : appliedCode,
+      });
+      return (await res.json()) as PlacedOrder;
+    },
+    onSuccess: (order) => {
+      if (order.paymentUrl) {
+        // Off to the gateway; it sends the customer back to the track page
+        window.location.href = order.paymentUrl;
+        return;
+      }
+      setPlacedOrder(order);
       if (data?.settings?.fbPixelId) {
         trackFBEvent("Purchase", {
           content_name: data.product.name,
@@ -144,9 +222,29 @@ export default function ProductPage() {
           currency: "BDT",
         });
       }
+      if (order.paymentError) {
+        toast({ title: "Order placed, payment not started", description: order.paymentError, variant: "destructive" });
+        return;
+      }
       toast({ title: "Order placed!", description: "We'll contact you shortly to confirm." });
     },
     onError: (error: Error) => {
+      if (error.message.startsWith("409")) {
+        // Someone else bought the last units - refresh stock so the picker reflects it
+        queryClient.invalidateQueries({ queryKey: ["/api/store", storeSlug, "product", productSlug] });
+        toast({ title: "Sold out", description: getErrorMessage(error), variant: "destructive" });
+        return;
+      }
+      if (error.message.includes('"discountInvalid"')) {
+        // The code stopped working since it was applied (expired, used up...)
+        removeCoupon();
+        toast({ title: "Discount removed", description: getErrorMessage(error), variant: "destructive" });
+        return;
+      }
+      if (error.message.includes('"rejected"')) {
+        toast({ title: "Order not placed", description: getErrorMessage(error), variant: "destructive" });
+        return;
+      }
       toast({ title: "Error", description: error.message, variant: "destructive" });
     },
   });
@@ -160,13 +258,9 @@ export default function ProductPage() {
       return;
     }
 
-    // Check stock if variant is selected
-    if (formData.variantId) {
-      const variant = data?.variants?.find((v) => v.id === formData.variantId);
-      if (variant && variant.stock < formData.quantity) {
-        toast({ title: "Insufficient stock", description: `Only ${variant.stock} available`, variant: "destructive" });
-        return;
-      }
+    if (availableStock !== null && availableStock < formData.quantity) {
+      toast({ title: "Insufficient stock", description: `Only ${availableStock} available`, variant: "destructive" });
+      return;
     }
 
     if (data?.settings?.fbPixelId) {
@@ -185,6 +279,33 @@ export default function ProductPage() {
     });
   };
 
+  const handleAddToCart = () => {
+    if (!data?.product) return;
+
+    if (data.variants && data.variants.length > 0 && !selectedVariantData) {
+      toast({ title: "Please select a variant", variant: "destructive" });
+      return;
+    }
+
+    if (availableStock !== null && availableStock < quantity) {
+      toast({ title: "Insufficient stock", description: `Only ${availableStock} available`, variant: "destructive" });
+      return;
+    }
+
+    cart.addItem({
+      productId: data.product.id,
+      variantId: selectedVariantData?.id,
+      productSlug: data.product.slug,
+      name: data.product.name,
+      variantName: selectedVariantData?.name,
+      price: unitPrice.toFixed(2),
+      image: gallery[0],
+      quantity,
+      stock: availableStock ?? undefined,
+    });
+    toast({ title: "Added to cart", description: `${data.product.name} × ${quantity}` });
+  };
+
   if (isLoading) {
     return <ProductSkeleton />;
   }
@@ -193,8 +314,16 @@ export default function ProductPage() {
     return <ProductNotFound />;
   }
 
-  if (orderSuccess) {
-    return <OrderConfirmation storeName={data.tenant.name} />;
+  if (placedOrder) {
+    const orderNumber = getOrderNumber(placedOrder);
+    return (
+      <OrderConfirmation
+        storeName={data.tenant.name}
+        orderNumber={orderNumber}
+        trackPath={storePath(data.tenant.slug, `track?order=${encodeURIComponent(orderNumber)}`)}
+        paymentPending={placedOrder.paymentStatus !== "not_required"}
+      />
+    );
   }
 
   const { tenant, product, shippingClasses, settings } = data;
@@ -209,18 +338,21 @@ export default function ProductPage() {
             <Store className="h-5 w-5 text-primary" />
             <span className="font-display font-bold">{tenant.name}</span>
           </div>
-          {settings?.whatsappNumber && (
-            <a
-              href={`https://wa.me/${settings.whatsappNumber}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="flex items-center gap-2 text-sm text-green-600 hover:text-green-700"
-              data-testid="link-whatsapp"
-            >
-              <SiWhatsapp className="h-4 w-4" />
-              <span className="hidden sm:inline">Contact</span>
-            </a>
-          )}
+          <div className="flex items-center gap-4">
+            {settings?.whatsappNumber && (
+              <a
+                href={`https://wa.me/${settings.whatsappNumber}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-sm text-green-600 hover:text-green-700"
+                data-testid="link-whatsapp"
+              >
+                <SiWhatsapp className="h-4 w-4" />
+                <span className="hidden sm:inline">Contact</span>
+              </a>
+            )}
+            <CartSheet storeSlug={tenant.slug} shippingClasses={shippingClasses} settings={settings} />
+          </div>
         </div>
       </header>
 
@@ -228,9 +360,9 @@ export default function ProductPage() {
         <div className="grid gap-8 lg:grid-cols-2">
           <div className="space-y-4">
             <div className="aspect-square bg-muted rounded-lg overflow-hidden">
-              {product.images && product.images.length > 0 ? (
+              {gallery.length > 0 ? (
                 <img
-                  src={product.images[0]}
+                  src={gallery[activeImage] ?? gallery[0]}
                   alt={product.name}
                   className="w-full h-full object-cover"
                   data-testid="img-product"
@@ -242,12 +374,16 @@ export default function ProductPage() {
               )}
             </div>
 
-            {product.images && product.images.length > 1 && (
+            {gallery.length > 1 && (
               <div className="flex gap-2 overflow-x-auto pb-2">
-                {product.images.map((img, i) => (
+                {gallery.map((img, i) => (
                   <div
-                    key={i}
-                    className="flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2 border-transparent hover:border-primary cursor-pointer"
+                    key={img}
+                    onClick={() => setActiveImage(i)}
+                    className={`flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2 hover:border-primary cursor-pointer ${
+                      i === activeImage ? "border-primary" : "border-transparent"
+                    }`}
+                    data-testid={`button-thumbnail-${i}`}
                   >
                     <img
                       src={img}
@@ -277,7 +413,15 @@ export default function ProductPage() {
 
           <div className="space-y-6">
             <div>
-              <Badge variant="secondary" className="mb-2">In Stock</Badge>
+              {soldOut ? (
+                <Badge variant="destructive" className="mb-2" data-testid="badge-stock">Out of Stock</Badge>
+              ) : availableStock !== null && availableStock <= getLowStockThreshold(product, settings) ? (
+                <Badge variant="secondary" className="mb-2 text-amber-700 dark:text-amber-400" data-testid="badge-stock">
+                  Only {availableStock} left
+                </Badge>
+              ) : (
+                <Badge variant="secondary" className="mb-2" data-testid="badge-stock">In Stock</Badge>
+              )}
               <h1 className="font-display text-3xl md:text-4xl font-bold" data-testid="text-product-name">
                 {product.name}
               </h1>
@@ -318,42 +462,57 @@ export default function ProductPage() {
                       <FormField
                         control={form.control}
                         name="variantId"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Select Variant</FormLabel>
-                            <FormControl>
-                              <Select
-                                value={selectedVariant || ""}
-                                onValueChange={(value) => {
+                        render={({ field }) =>
+                          data.options && data.options.length > 0 ? (
+                            <FormItem>
+                              <OptionPicker
+                                options={data.options}
+                                variants={data.variants!}
+                                selectedVariantId={selectedVariant}
+                                onSelect={(value) => {
                                   setSelectedVariant(value);
                                   field.onChange(value);
                                 }}
-                              >
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select a variant" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {data.variants.map((variant) => (
-                                    <SelectItem
-                                      key={variant.id}
-                                      value={variant.id}
-                                      disabled={variant.stock === 0}
-                                    >
-                                      <div className="flex items-center justify-between w-full">
-                                        <span>{variant.name}</span>
-                                        <span className="ml-4 text-muted-foreground">
-                                          ৳{variant.price}
-                                          {variant.stock === 0 && " (Out of Stock)"}
-                                        </span>
-                                      </div>
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                              />
+                              <FormMessage />
+                            </FormItem>
+                          ) : (
+                            <FormItem>
+                              <FormLabel>Select Variant</FormLabel>
+                              <FormControl>
+                                <Select
+                                  value={selectedVariant || ""}
+                                  onValueChange={(value) => {
+                                    setSelectedVariant(value);
+                                    field.onChange(value);
+                                  }}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select a variant" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {data.variants.map((variant) => (
+                                      <SelectItem
+                                        key={variant.id}
+                                        value={variant.id}
+                                        disabled={variant.stock === 0}
+                                      >
+                                        <div className="flex items-center justify-between w-full">
+                                          <span>{variant.name}</span>
+                                          <span className="ml-4 text-muted-foreground">
+                                            ৳{variant.price}
+                                            {variant.stock === 0 && " (Out of Stock)"}
+                                          </span>
+                                        </div>
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )
+                        }
                       />
                     )}
 
@@ -378,6 +537,7 @@ export default function ProductPage() {
                           variant="outline"
                           size="icon"
                           onClick={() => setQuantity(quantity + 1)}
+                          disabled={availableStock !== null && quantity >= availableStock}
                           data-testid="button-increase-qty"
                         >
                           <Plus className="h-4 w-4" />
@@ -485,6 +645,57 @@ export default function ProductPage() {
                       />
                     )}
 
+                    <div className="space-y-2">
+                      <Label htmlFor="coupon">Discount Code</Label>
+                      {appliedCode && !discountError ? (
+                        <div className="flex items-center justify-between rounded-lg border p-3">
+                          <span className="flex items-center gap-2 font-mono text-sm">
+                            <Tag className="h-4 w-4 text-primary" />
+                            {appliedCode}
+                          </span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={removeCoupon}
+                            data-testid="button-remove-coupon"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          <Input
+                            id="coupon"
+                            placeholder="Enter code"
+                            value={couponInput}
+                            onChange={(e) => setCouponInput(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") {
+                                e.preventDefault();
+                                applyCoupon();
+                              }
+                            }}
+                            data-testid="input-coupon"
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={applyCoupon}
+                            disabled={!couponInput.trim()}
+                            data-testid="button-apply-coupon"
+                          >
+                            Apply
+                          </Button>
+                        </div>
+                      )}
+                      {appliedCode && discountError && (
+                        <p className="text-sm text-destructive" data-testid="text-coupon-error">
+                          {getErrorMessage(discountError)}
+                        </p>
+                      )}
+                    </div>
+
                     <div className="border-t pt-4 space-y-2">
                       <div className="flex justify-between text-sm">
                         <span className="text-muted-foreground">
@@ -496,17 +707,35 @@ export default function ProductPage() {
                         <span className="text-muted-foreground">Shipping</span>
                         <span>৳{shippingFee.toFixed(2)}</span>
                       </div>
+                      {appliedDiscount && discountAmount > 0 && (
+                        <div className="flex justify-between text-sm text-green-600" data-testid="text-discount">
+                          <span>
+                            {appliedDiscount.type === "free_shipping" ? "Free shipping" : "Discount"} ({appliedDiscount.code})
+                          </span>
+                          <span>-৳{discountAmount.toFixed(2)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between font-bold text-lg pt-2 border-t">
                         <span>Total</span>
                         <span className="text-primary" data-testid="text-total">৳{total.toFixed(2)}</span>
                       </div>
                     </div>
 
+                    <PaymentMethodPicker
+                      settings={settings}
+                      method={paymentMethod}
+                      provider={form.watch("paymentProvider")}
+                      onMethodChange={setPaymentMethod}
+                      onProviderChange={setPaymentProvider}
+                      total={total}
+                      shippingFee={appliedDiscount?.type === "free_shipping" ? 0 : shippingFee}
+                    />
+
                     <Button
                       type="submit"
                       size="lg"
                       className="w-full"
-                      disabled={orderMutation.isPending}
+                      disabled={orderMutation.isPending || soldOut}
                       data-testid="button-place-order"
                     >
                       {orderMutation.isPending ? (
@@ -517,13 +746,28 @@ export default function ProductPage() {
                       ) : (
                         <>
                           <ShoppingCart className="mr-2 h-4 w-4" />
-                          Confirm Order (Cash on Delivery)
+                          {paymentDue > 0 ? `Pay ৳${paymentDue.toFixed(2)} & Place Order` : "Confirm Order (Cash on Delivery)"}
                         </>
                       )}
                     </Button>
 
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="lg"
+                      className="w-full"
+                      onClick={handleAddToCart}
+                      disabled={soldOut}
+                      data-testid="button-add-to-cart"
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add to Cart
+                    </Button>
+
                     <p className="text-xs text-center text-muted-foreground">
-                      Pay when you receive your order. No advance payment required.
+                      {paymentDue > 0
+                        ? "You'll be taken to the payment page to complete your order."
+                        : "Pay when you receive your order. No advance payment required."}
                     </p>
                   </form>
                 </Form>
@@ -548,7 +792,7 @@ export default function ProductPage() {
   );
 }
 
-function TrackingScripts({ settings }: { settings: StoreSettings | null }) {
+function TrackingScripts({ settings }: { settings: PublicStoreSettings | null }) {
   useEffect(() => {
     if (settings?.fbPixelId) {
       const script = document.createElement("script");
@@ -629,7 +873,17 @@ function ProductNotFound() {
   );
 }
 
-function OrderConfirmation({ storeName }: { storeName: string }) {
+function OrderConfirmation({
+  storeName,
+  orderNumber,
+  trackPath,
+  paymentPending,
+}: {
+  storeName: string;
+  orderNumber: string;
+  trackPath: string;
+  paymentPending: boolean;
+}) {
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="max-w-md w-full text-center">
@@ -640,6 +894,9 @@ function OrderConfirmation({ storeName }: { storeName: string }) {
           <h1 className="font-display text-2xl font-bold mb-2" data-testid="text-order-success">
             Order Placed Successfully!
           </h1>
+          <p className="font-mono font-medium mb-2" data-testid="text-order-number">
+            Order #{orderNumber}
+          </p>
           <p className="text-muted-foreground mb-6">
             Thank you for your order. {storeName} will contact you shortly to confirm your order and delivery details.
           </p>
@@ -650,15 +907,104 @@ function OrderConfirmation({ storeName }: { storeName: string }) {
             </p>
             <p className="flex items-center gap-2">
               <Truck className="h-4 w-4 text-muted-foreground" />
-              <span>Pay when you receive your order</span>
+              <span>
+                {paymentPending ? "Complete your payment from the order tracking page" : "Pay when you receive your order"}
+              </span>
             </p>
             <p className="flex items-center gap-2">
               <Shield className="h-4 w-4 text-muted-foreground" />
               <span>100% secure transaction</span>
             </p>
           </div>
+          <Button asChild variant="outline" className="mt-6 w-full" data-testid="button-track-order">
+            <Link href={trackPath}>Track your order</Link>
+          </Button>
         </CardContent>
       </Card>
     </div>
   );
 }
+
+// One row of buttons per option, or color swatches for values that have one.
+// A value is disabled when no variant with it is in stock, and struck through
+// when it is sold out alongside the values chosen for the other options;
+// picking it then jumps to one that isn't.
+function OptionPicker({
+  options,
+  variants,
+  selectedVariantId,
+  onSelect,
+}: {
+  options: ProductOptionWithValues[];
+  variants: NonNullable<StoreData["variants"]>;
+  selectedVariantId: string | null;
+  onSelect: (variantId: string) => void;
+}) {
+  const selectedIds = variants.find((v) => v.id === selectedVariantId)?.optionValueIds ?? [];
+  const chosen = options.map((option) => option.values.find((value) => selectedIds.includes(value.id))?.id);
+  const findVariant = (valueIds: (string | undefined)[]) =>
+    variants.find((v) => valueIds.every((id) => !id || v.optionValueIds.includes(id)));
+
+  return (
+    <div className="space-y-3">
+      {options.map((option, index) => (
+        <div key={option.id}>
+          <Label className="text-sm font-medium mb-2 block">
+            {option.name}
+            {chosen[index] && (
+              <span className="ml-2 font-normal text-muted-foreground">
+                {option.values.find((value) => value.id === chosen[index])?.value}
+              </span>
+            )}
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => {
+              const available = variants.some((v) => v.stock > 0 && v.optionValueIds.includes(value.id));
+              const match = findVariant(chosen.map((id, i) => (i === index ? value.id : id)));
+              const soldOut = !match || match.stock === 0;
+              const pick = () => {
+                const next = soldOut
+                  ? variants.find((v) => v.stock > 0 && v.optionValueIds.includes(value.id))
+                  : match;
+                if (next) onSelect(next.id);
+              };
+              if (value.swatch) {
+                return (
+                  <button
+                    key={value.id}
+                    type="button"
+                    title={value.value}
+                    aria-label={value.value}
+                    disabled={!available}
+                    onClick={pick}
+                    className={`relative h-9 w-9 rounded-full border overflow-hidden disabled:cursor-not-allowed disabled:opacity-30 ${
+                      chosen[index] === value.id ? "ring-2 ring-primary ring-offset-2" : ""
+                    }`}
+                    style={{ backgroundColor: value.swatch }}
+                    data-testid={`button-option-value-${value.id}`}
+                  >
+                    {soldOut && <span className="absolute left-0 top-1/2 h-px w-full -rotate-45 bg-foreground" />}
+                  </button>
+                );
+              }
+              return (
+                <Button
+                  key={value.id}
+                  type="button"
+                  size="sm"
+                  variant={chosen[index] === value.id ? "default" : "outline"}
+                  disabled={!available}
+                  className={soldOut ? "line-through" : undefined}
+                  onClick={pick}
+                  data-testid={`button-option-value-${value.id}`}
+                >
+                  {value.value}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
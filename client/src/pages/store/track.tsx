@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { Link, useSearch } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  trackOrderSchema,
+  PAYMENT_PROVIDERS,
+  type PublicStoreSettings,
+  type TrackedOrder,
+  type TrackOrderInput,
+} from "@shared/schema";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useStoreSlug, useStorePath } from "@/lib/store-host";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Store, Loader2, Search, Truck, MapPin, PackageSearch, CreditCard, CheckCircle2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+
+interface StoreInfo {
+  tenant: {
+    id: string;
+    name: string;
+    slug: string;
+  };
+  settings: PublicStoreSettings | null;
+}
+
+const statusStyles: Record<string, string> = {
+  new: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  confirmed: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  shipped: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+  delivered: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+const paymentStatusLabels: Record<string, string> = {
+  pending: "Awaiting payment",
+  paid: "Paid",
+  failed: "Payment failed",
+};
+
+const statusLabels: Record<string, string> = {
+  new: "Order received",
+  confirmed: "Order confirmed",
+  shipped: "Handed to courier",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+export default function TrackOrderPage() {
+  const storeSlug = useStoreSlug();
+  const storePath = useStorePath();
+  const search = useSearch();
+  const [tracked, setTracked] = useState<TrackedOrder | null>(null);
+  // Set when a payment gateway sends the customer back here
+  const paymentResult = new URLSearchParams(search).get("payment");
+
+  const { data, isLoading, error } = useQuery<StoreInfo>({
+    queryKey: ["/api/store", storeSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/store/${storeSlug}`);
+      if (!res.ok) throw new Error("Store not found");
+      return res.json();
+    },
+  });
+
+  const form = useForm<TrackOrderInput>({
+    resolver: zodResolver(trackOrderSchema),
+    defaultValues: {
+      // Confirmation pages link here with the order number filled in
+      orderNumber: new URLSearchParams(search).get("order") || "",
+      phone: "",
+    },
+  });
+
+  const trackMutation = useMutation({
+    mutationFn: async (input: TrackOrderInput) => {
+      const res = await apiRequest("POST", `/api/store/${storeSlug}/track`, input);
+      return (await res.json()) as TrackedOrder;
+    },
+    onSuccess: (order) => setTracked(order),
+    onError: () => setTracked(null),
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async (input: TrackOrderInput) => {
+      const res = await apiRequest("POST", `/api/store/${storeSlug}/track/pay`, input);
+      return (await res.json()) as { paymentUrl: string };
+    },
+    onSuccess: ({ paymentUrl }) => {
+      window.location.href = paymentUrl;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <header className="border-b bg-card">
+          <div className="container mx-auto px-4 py-4">
+            <Skeleton className="h-8 w-48" />
+          </div>
+        </header>
+        <main className="container max-w-2xl mx-auto px-4 py-8">
+          <Skeleton className="h-64 w-full" />
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="p-8 text-center max-w-md">
+          <Store className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Store Not Found</h1>
+          <p className="text-muted-foreground">
+            The store you're looking for doesn't exist or is no longer available.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  const { tenant, settings } = data;
+  const primaryColor = settings?.primaryColor || "#3b82f6";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Link href={storePath(tenant.slug)} className="flex items-center gap-3 w-fit" data-testid="link-store-home">
+            {settings?.storeLogo ? (
+              <img
+                src={settings.storeLogo}
+                alt={tenant.name}
+                className="h-10 w-10 rounded-md object-cover"
+              />
+            ) : (
+              <div
+                className="h-10 w-10 rounded-md flex items-center justify-center text-white font-bold"
+                style={{ backgroundColor: primaryColor }}
+              >
+                {tenant.name.charAt(0).toUpperCase()}
+              </div>
+            )}
+            <span className="font-display font-bold text-xl">{tenant.name}</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container max-w-2xl mx-auto px-4 py-8 space-y-6">
+        {paymentResult === "paid" && (
+          <div
+            className="flex items-center gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-800 dark:border-green-900 dark:bg-green-900/20 dark:text-green-400"
+            data-testid="text-payment-paid"
+          >
+            <CheckCircle2 className="h-5 w-5 flex-shrink-0" />
+            Payment received. Thank you! Enter your phone number to see your order.
+          </div>
+        )}
+        {paymentResult === "failed" && (
+          <div
+            className="flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/5 p-4 text-sm text-destructive"
+            data-testid="text-payment-failed"
+          >
+            <XCircle className="h-5 w-5 flex-shrink-0" />
+            Your payment didn't go through. Your order is saved - look it up below to try again.
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-display flex items-center gap-2">
+              <PackageSearch className="h-5 w-5" />
+              Track Your Order
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => trackMutation.mutate(values))}
+                className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end"
+              >
+                <FormField
+                  control={form.control}
+                  name="orderNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Order Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. 1001" {...field} data-testid="input-track-order-number" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="01XXXXXXXXX" {...field} data-testid="input-track-phone" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={trackMutation.isPending} data-testid="button-track-order">
+                  {trackMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Search className="h-4 w-4" />
+                  )}
+                  Track
+                </Button>
+              </form>
+            </Form>
+            {trackMutation.error && (
+              <p className="text-sm text-destructive mt-4" data-testid="text-track-error">
+                {getErrorMessage(trackMutation.error)}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {tracked && (
+          <TrackedOrderDetails
+            order={tracked}
+            onPay={() => payMutation.mutate(form.getValues())}
+            isPaying={payMutation.isPending}
+            payError={payMutation.error ? getErrorMessage(payMutation.error) : null}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
+
+function TrackedOrderDetails({
+  order,
+  onPay,
+  isPaying,
+  payError,
+}: {
+  order: TrackedOrder;
+  onPay: () => void;
+  isPaying: boolean;
+  payError: string | null;
+}) {
+  const { payment } = order;
+  const canPay = order.status !== "cancelled" && (payment.status === "pending" || payment.status === "failed");
+
+  const describe = (event: TrackedOrder["timeline"][number]) => {
+    if (event.type === "courier_booked") return "Handed to courier";
+    if (event.type === "payment") return event.message || "Payment updated";
+    if (event.type === "courier_update") {
+      return event.status ? statusLabels[event.status] : `Courier update: ${event.courierStatus}`;
+    }
+    return event.status ? statusLabels[event.status] : "Order updated";
+  };
+
+  return (
+    <Card data-testid="card-tracked-order">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="font-mono" data-testid="text-tracked-order-number">
+            Order #{order.orderNumber}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Placed {format(new Date(order.createdAt), "MMM d, yyyy h:mm a")}
+          </p>
+        </div>
+        <Badge className={statusStyles[order.status]} data-testid="badge-tracked-status">
+          {order.status}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 text-sm">
+          {order.items.map((item, i) => (
+            <div key={i} className="flex justify-between gap-4">
+              <span>
+                {item.productName}
+                {item.variantName && <span className="text-muted-foreground"> ({item.variantName})</span>}
+                <span className="text-muted-foreground"> × {item.quantity}</span>
+              </span>
+              <span>৳{item.lineTotal}</span>
+            </div>
+          ))}
+          <div className="border-t pt-2 flex justify-between text-muted-foreground">
+            <span>Subtotal</span>
+            <span>৳{order.subtotal}</span>
+          </div>
+          <div className="flex justify-between text-muted-foreground">
+            <span>Shipping</span>
+            <span>৳{order.shippingFee}</span>
+          </div>
+          {parseFloat(order.discountAmount) > 0 && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>Discount</span>
+              <span>-৳{order.discountAmount}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-semibold">
+            <span>Total</span>
+            <span>৳{order.total}</span>
+          </div>
+        </div>
+
+        {payment.status !== "not_required" && (
+          <div className="border-t pt-4 space-y-3 text-sm" data-testid="section-tracked-payment">
+            <p className="flex items-center gap-2">
+              <CreditCard className="h-4 w-4 text-muted-foreground" />
+              <span>
+                {payment.method === "online" ? "Online payment" : "Delivery charge paid in advance"}
+                {payment.provider && ` via ${PAYMENT_PROVIDERS[payment.provider].label}`}
+                {` · ৳${payment.due} · `}
+                <span className="font-medium" data-testid="text-tracked-payment-status">
+                  {paymentStatusLabels[payment.status]}
+                </span>
+              </span>
+            </p>
+            {canPay && (
+              <Button onClick={onPay} disabled={isPaying} data-testid="button-tracked-pay">
+                {isPaying && <Loader2 className="h-4 w-4 animate-spin" />}
+                Pay ৳{payment.due} now
+              </Button>
+            )}
+            {payError && <p className="text-destructive">{payError}</p>}
+          </div>
+        )}
+
+        {(order.shippingClass || order.courier) && (
+          <div className="border-t pt-4 space-y-2 text-sm">
+            {order.shippingClass && (
+              <p className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                <span>
+                  {order.shippingClass.name} ({order.shippingClass.location})
+                </span>
+              </p>
+            )}
+            {order.courier && (
+              <p className="flex items-center gap-2" data-testid="text-tracked-courier">
+                <Truck className="h-4 w-4 text-muted-foreground" />
+                <span>
+                  {order.courier.name}
+                  {order.courier.trackingCode && (
+                    <>
+                      {" · Tracking code "}
+                      <span className="font-mono">{order.courier.trackingCode}</span>
+                    </>
+                  )}
+                </span>
+              </p>
+            )}
+          </div>
+        )}
+
+        {order.timeline.length > 0 && (
+          <div className="border-t pt-4">
+            <h4 className="font-medium mb-3">Timeline</h4>
+            <ol className="space-y-3 text-sm" data-testid="list-tracked-timeline">
+              {order.timeline.map((event, i) => (
+                <li key={i} className="flex gap-3">
+                  <span className="mt-1.5 h-2 w-2 rounded-full bg-primary flex-shrink-0" />
+                  <div>
+                    <p>{describe(event)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(event.createdAt), "MMM d, yyyy h:mm a")}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
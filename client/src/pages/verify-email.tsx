@@ -0,0 +1,69 @@
+import { useEffect } from "react";
+import { useParams, Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Store, Loader2, CheckCircle, XCircle } from "lucide-react";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+export default function VerifyEmailPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user, refetch } = useAuth();
+
+  const verifyMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/verify-email", { token }),
+    onSuccess: () => refetch(),
+  });
+
+  useEffect(() => {
+    verifyMutation.mutate();
+    // The link is single-use, so it's only submitted once
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="flex items-center justify-between gap-4 p-4 border-b">
+        <Link href="/" className="flex items-center gap-2">
+          <Store className="h-6 w-6 text-primary" />
+          <span className="font-display font-bold text-lg">StoreBuilder BD</span>
+        </Link>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          {verifyMutation.isSuccess ? (
+            <CardHeader className="text-center">
+              <CheckCircle className="h-10 w-10 text-green-600 mx-auto mb-2" />
+              <CardTitle className="font-display text-2xl">Email Verified</CardTitle>
+              <CardDescription data-testid="text-verify-success">
+                Thanks for confirming your email address.
+              </CardDescription>
+            </CardHeader>
+          ) : verifyMutation.isError ? (
+            <CardHeader className="text-center">
+              <XCircle className="h-10 w-10 text-destructive mx-auto mb-2" />
+              <CardTitle className="font-display text-2xl">Verification Failed</CardTitle>
+              <CardDescription data-testid="text-verify-error">
+                {getErrorMessage(verifyMutation.error)}. You can request a new link from your dashboard.
+              </CardDescription>
+            </CardHeader>
+          ) : (
+            <CardContent className="py-12 flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </CardContent>
+          )}
+          {!verifyMutation.isPending && (
+            <CardContent className="text-center">
+              <Button asChild data-testid="button-continue">
+                <Link href={user ? "/dashboard" : "/login"}>{user ? "Go to Dashboard" : "Sign In"}</Link>
+              </Button>
+            </CardContent>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -43,6 +43,7 @@ async function createAdmin() {
     console.log("\n📧 Admin Credentials:");
     console.log(`   Email: ${email}`);
     console.log(`   Password: ${password}`);
+    console.log("\n🔐 Two-factor authentication must be set up on first sign-in.");
     console.log("\n✅ Admin account setup complete!");
   } catch (error) {
     console.error("❌ Error creating admin account:", error);
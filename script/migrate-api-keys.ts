@@ -0,0 +1,32 @@
+import { pool } from "../server/db";
+
+async function migrateApiKeys() {
+  try {
+    console.log("Starting API Keys migration...");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id VARCHAR NOT NULL REFERENCES tenants(id),
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes JSON NOT NULL,
+        created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+        last_used_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    console.log("✓ api_keys table exists");
+
+    console.log("\n✅ API Keys migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateApiKeys();
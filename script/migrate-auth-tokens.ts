@@ -0,0 +1,51 @@
+import { pool } from "../server/db";
+
+async function migrateAuthTokens() {
+  try {
+    console.log("Starting Auth Tokens migration...");
+
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE auth_token_purpose AS ENUM ('password_reset', 'email_verification');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS auth_tokens (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        purpose auth_token_purpose NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    console.log("✓ auth_tokens table exists");
+
+    const column = await pool.query(`
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'users' AND column_name = 'email_verified_at';
+    `);
+    if (column.rowCount === 0) {
+      await pool.query(`ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMP;`);
+
+      // Accounts from before verification existed have been in use for a
+      // while, so they're trusted rather than asked to verify now. Only done
+      // when the column is first added, so later sign-ups aren't touched.
+      const result = await pool.query(`UPDATE users SET email_verified_at = created_at;`);
+      console.log(`✅ Marked ${result.rowCount ?? 0} existing account(s) as verified`);
+    } else {
+      console.log("✓ users.email_verified_at already exists");
+    }
+
+    console.log("\n✅ Auth Tokens migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateAuthTokens();
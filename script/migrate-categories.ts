@@ -0,0 +1,79 @@
+import { pool } from "../server/db";
+
+async function migrateCategories() {
+  try {
+    console.log("Starting Categories & Collections migration...");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS categories (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id VARCHAR NOT NULL REFERENCES tenants(id),
+        parent_id VARCHAR REFERENCES categories(id) ON DELETE SET NULL,
+        name TEXT NOT NULL,
+        slug TEXT NOT NULL,
+        description TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS categories_tenant_slug_idx ON categories (tenant_id, slug);
+    `);
+    console.log("✓ categories table exists");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS product_categories (
+        product_id VARCHAR NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        category_id VARCHAR NOT NULL REFERENCES categories(id) ON DELETE CASCADE
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS product_categories_product_category_idx ON product_categories (product_id, category_id);
+    `);
+    console.log("✓ product_categories table exists");
+
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE collection_type AS ENUM ('manual', 'automatic');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS collections (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id VARCHAR NOT NULL REFERENCES tenants(id),
+        name TEXT NOT NULL,
+        slug TEXT NOT NULL,
+        description TEXT,
+        type collection_type NOT NULL DEFAULT 'manual',
+        rules JSON NOT NULL DEFAULT '[]',
+        match_all BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS collections_tenant_slug_idx ON collections (tenant_id, slug);
+    `);
+    console.log("✓ collections table exists");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS collection_products (
+        collection_id VARCHAR NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+        product_id VARCHAR NOT NULL REFERENCES products(id) ON DELETE CASCADE
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS collection_products_collection_product_idx ON collection_products (collection_id, product_id);
+    `);
+    console.log("✓ collection_products table exists");
+
+    console.log("\n✅ Categories & Collections migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateCategories();
@@ -0,0 +1,75 @@
+import { pool } from "../server/db";
+import { normalizeBdPhone } from "../shared/schema";
+
+async function migrateCustomers() {
+  try {
+    console.log("Starting Customers migration...");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS customers (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id VARCHAR NOT NULL REFERENCES tenants(id),
+        phone TEXT NOT NULL,
+        name TEXT NOT NULL,
+        address TEXT,
+        notes TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS customers_tenant_phone_idx ON customers (tenant_id, phone);
+    `);
+    console.log("✓ customers table exists");
+
+    await pool.query(`
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS customer_id VARCHAR REFERENCES customers(id) ON DELETE SET NULL;
+    `);
+    console.log("✓ orders.customer_id exists");
+
+    // Phone normalization lives in shared/schema, so unlinked orders are
+    // grouped here rather than in SQL. Oldest first, so the latest order's
+    // name and address win.
+    const { rows } = await pool.query(`
+      SELECT id, tenant_id, phone, customer_name, address, created_at
+      FROM orders
+      WHERE customer_id IS NULL
+      ORDER BY created_at ASC;
+    `);
+
+    let linked = 0;
+    let skipped = 0;
+    for (const order of rows) {
+      const phone = normalizeBdPhone(order.phone);
+      if (!phone) {
+        skipped++;
+        continue;
+      }
+      const customer = await pool.query(
+        `
+        INSERT INTO customers (tenant_id, phone, name, address, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $5)
+        ON CONFLICT (tenant_id, phone)
+        DO UPDATE SET name = EXCLUDED.name, address = EXCLUDED.address, updated_at = EXCLUDED.updated_at
+        RETURNING id;
+        `,
+        [order.tenant_id, phone, order.customer_name, order.address, order.created_at]
+      );
+      await pool.query(`UPDATE orders SET customer_id = $1 WHERE id = $2;`, [customer.rows[0].id, order.id]);
+      linked++;
+    }
+    console.log(`✅ Linked ${linked} order(s) to customers`);
+    if (skipped > 0) {
+      console.log(`⚠️  Skipped ${skipped} order(s) with an unrecognised phone number`);
+    }
+
+    console.log("\n✅ Customers migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateCustomers();
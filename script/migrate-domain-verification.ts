@@ -0,0 +1,29 @@
+import { pool } from "../server/db";
+
+async function migrateDomainVerification() {
+  try {
+    console.log("Starting Domain Verification migration...");
+
+    await pool.query(`
+      ALTER TABLE domain_mappings ADD COLUMN IF NOT EXISTS manually_verified BOOLEAN NOT NULL DEFAULT false;
+    `);
+    console.log("✓ domain_mappings.manually_verified column exists");
+
+    // Verified domains that never passed a DNS check were verified by an
+    // admin or before checks existed; re-checks must not take them offline
+    const result = await pool.query(`
+      UPDATE domain_mappings SET manually_verified = true
+      WHERE verified = true AND last_checked_at IS NULL AND manually_verified = false;
+    `);
+    console.log(`✓ ${result.rowCount ?? 0} verified domains marked as manually verified`);
+
+    console.log("\n✅ Domain Verification migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateDomainVerification();
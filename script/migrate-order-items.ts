@@ -0,0 +1,69 @@
+import { pool } from "../server/db";
+
+async function migrateOrderItems() {
+  try {
+    console.log("Starting Order Items migration...");
+
+    // Check if order_items table exists
+    const tableCheck = await pool.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables 
+        WHERE table_schema = 'public' 
+        AND table_name = 'order_items'
+      );
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log("Creating order_items table...");
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS order_items (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+          product_id VARCHAR REFERENCES products(id) ON DELETE SET NULL,
+          variant_id VARCHAR REFERENCES product_variants(id) ON DELETE SET NULL,
+          product_name TEXT NOT NULL,
+          variant_name TEXT,
+          unit_price DECIMAL(10, 2) NOT NULL,
+          quantity INTEGER NOT NULL,
+          line_total DECIMAL(10, 2) NOT NULL
+        );
+      `);
+      console.log("✅ order_items table created");
+    } else {
+      console.log("✓ order_items table already exists");
+    }
+
+    // orders.product_id is only set on legacy single-item orders now
+    await pool.query(`ALTER TABLE orders ALTER COLUMN product_id DROP NOT NULL;`);
+    console.log("✓ orders.product_id is nullable");
+
+    // Backfill one line item for every legacy order that doesn't have any yet
+    const result = await pool.query(`
+      INSERT INTO order_items (order_id, product_id, variant_id, product_name, variant_name, unit_price, quantity, line_total)
+      SELECT
+        o.id,
+        o.product_id,
+        o.variant_id,
+        COALESCE(p.name, 'Unknown Product'),
+        v.name,
+        ROUND(o.subtotal / GREATEST(o.quantity, 1), 2),
+        o.quantity,
+        o.subtotal
+      FROM orders o
+      LEFT JOIN products p ON p.id = o.product_id
+      LEFT JOIN product_variants v ON v.id = o.variant_id
+      WHERE o.product_id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id);
+    `);
+    console.log(`✅ Backfilled ${result.rowCount} legacy order(s)`);
+
+    console.log("\n✅ Order Items migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateOrderItems();
@@ -0,0 +1,57 @@
+import { pool } from "../server/db";
+
+async function migrateOrderNumbers() {
+  try {
+    console.log("Starting Order Numbers migration...");
+
+    await pool.query(`ALTER TABLE tenants ADD COLUMN IF NOT EXISTS order_sequence INTEGER NOT NULL DEFAULT 1000;`);
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS order_sequence INTEGER;`);
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS order_number TEXT;`);
+    await pool.query(`ALTER TABLE store_settings ADD COLUMN IF NOT EXISTS order_number_prefix TEXT NOT NULL DEFAULT '';`);
+    console.log("✓ Order number columns exist");
+
+    // Number existing orders per tenant in the order they were placed,
+    // continuing after anything that has already been numbered
+    const result = await pool.query(`
+      WITH numbered AS (
+        SELECT
+          o.id,
+          COALESCE(s.order_number_prefix, '') AS prefix,
+          t.order_sequence + ROW_NUMBER() OVER (PARTITION BY o.tenant_id ORDER BY o.created_at, o.id) AS seq
+        FROM orders o
+        JOIN tenants t ON t.id = o.tenant_id
+        LEFT JOIN store_settings s ON s.tenant_id = o.tenant_id
+        WHERE o.order_sequence IS NULL
+      )
+      UPDATE orders o
+      SET order_sequence = n.seq,
+          order_number = n.prefix || n.seq
+      FROM numbered n
+      WHERE o.id = n.id;
+    `);
+    console.log(`✅ Numbered ${result.rowCount} existing order(s)`);
+
+    // Move each tenant's counter past the highest number issued
+    await pool.query(`
+      UPDATE tenants t
+      SET order_sequence = m.max_seq
+      FROM (SELECT tenant_id, MAX(order_sequence) AS max_seq FROM orders GROUP BY tenant_id) m
+      WHERE m.tenant_id = t.id AND m.max_seq > t.order_sequence;
+    `);
+    console.log("✓ Tenant order counters updated");
+
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS orders_tenant_sequence_idx ON orders (tenant_id, order_sequence);
+    `);
+    console.log("✓ Unique index on (tenant_id, order_sequence)");
+
+    console.log("\n✅ Order Numbers migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateOrderNumbers();
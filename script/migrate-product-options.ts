@@ -0,0 +1,41 @@
+import { pool } from "../server/db";
+
+async function migrateProductOptions() {
+  try {
+    console.log("Starting Product Options migration...");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS product_options (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        product_id VARCHAR NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+    console.log("✓ product_options table exists");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS product_option_values (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        option_id VARCHAR NOT NULL REFERENCES product_options(id) ON DELETE CASCADE,
+        value TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+    console.log("✓ product_option_values table exists");
+
+    await pool.query(`
+      ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS option_value_ids JSON NOT NULL DEFAULT '[]';
+    `);
+    console.log("✓ product_variants.option_value_ids column exists");
+
+    console.log("\n✅ Product Options migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateProductOptions();
@@ -0,0 +1,54 @@
+import { pool } from "../server/db";
+
+async function migrateProductStock() {
+  try {
+    console.log("Starting Product Stock migration...");
+
+    await pool.query(`
+      ALTER TABLE products ADD COLUMN IF NOT EXISTS track_stock BOOLEAN NOT NULL DEFAULT false;
+    `);
+    console.log("✓ products.track_stock column exists");
+
+    await pool.query(`
+      ALTER TABLE products ADD COLUMN IF NOT EXISTS stock INTEGER NOT NULL DEFAULT 0;
+    `);
+    console.log("✓ products.stock column exists");
+
+    await pool.query(`
+      ALTER TABLE products ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER;
+    `);
+    console.log("✓ products.low_stock_threshold column exists");
+
+    await pool.query(`
+      ALTER TABLE store_settings ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER NOT NULL DEFAULT 5;
+    `);
+    console.log("✓ store_settings.low_stock_threshold column exists");
+
+    await pool.query(`
+      ALTER TABLE store_settings ADD COLUMN IF NOT EXISTS low_stock_email BOOLEAN NOT NULL DEFAULT true;
+    `);
+    console.log("✓ store_settings.low_stock_email column exists");
+
+    // Lines on existing orders held stock only if they were for a variant;
+    // products didn't track stock before this
+    await pool.query(`
+      ALTER TABLE order_items ADD COLUMN IF NOT EXISTS stock_reserved BOOLEAN;
+    `);
+    const result = await pool.query(`
+      UPDATE order_items SET stock_reserved = (variant_id IS NOT NULL) WHERE stock_reserved IS NULL;
+    `);
+    await pool.query(`
+      ALTER TABLE order_items ALTER COLUMN stock_reserved SET DEFAULT false, ALTER COLUMN stock_reserved SET NOT NULL;
+    `);
+    console.log(`✓ order_items.stock_reserved column exists (${result.rowCount ?? 0} existing lines filled in)`);
+
+    console.log("\n✅ Product Stock migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateProductStock();
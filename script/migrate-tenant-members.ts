@@ -0,0 +1,67 @@
+import { pool } from "../server/db";
+
+async function migrateTenantMembers() {
+  try {
+    console.log("Starting Tenant Members migration...");
+
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE tenant_role AS ENUM ('owner', 'manager', 'order_agent', 'packer');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS tenant_members (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id VARCHAR NOT NULL REFERENCES tenants(id),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role tenant_role NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS tenant_members_tenant_user_idx ON tenant_members (tenant_id, user_id);
+    `);
+    console.log("✓ tenant_members table exists");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS staff_invites (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id VARCHAR NOT NULL REFERENCES tenants(id),
+        email TEXT NOT NULL,
+        role tenant_role NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        invited_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS staff_invites_tenant_email_idx ON staff_invites (tenant_id, email);
+    `);
+    console.log("✓ staff_invites table exists");
+
+    // Before staff accounts every store had a single login, so each existing
+    // tenant user is its store's owner
+    const result = await pool.query(`
+      INSERT INTO tenant_members (tenant_id, user_id, role, created_at)
+      SELECT u.tenant_id, u.id, 'owner', u.created_at
+      FROM users u
+      WHERE u.role = 'tenant'
+        AND u.tenant_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM tenant_members m WHERE m.user_id = u.id)
+      ON CONFLICT (tenant_id, user_id) DO NOTHING;
+    `);
+    console.log(`✅ Made ${result.rowCount ?? 0} existing store login(s) owners`);
+
+    console.log("\n✅ Tenant Members migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateTenantMembers();
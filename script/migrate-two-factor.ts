@@ -0,0 +1,42 @@
+import { pool } from "../server/db";
+
+async function migrateTwoFactor() {
+  try {
+    console.log("Starting Two-Factor migration...");
+
+    await pool.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+        ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS totp_last_used_step INTEGER;
+    `);
+    console.log("✓ users two-factor columns exist");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS recovery_codes (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS recovery_codes_user_code_idx ON recovery_codes (user_id, code_hash);
+    `);
+    console.log("✓ recovery_codes table exists");
+
+    // Admins keep their sessions but are sent to set up 2FA before they can
+    // use the admin panel again
+    const admins = await pool.query(`SELECT COUNT(*)::int AS count FROM users WHERE role = 'admin' AND totp_enabled_at IS NULL;`);
+    console.log(`ℹ️  ${admins.rows[0].count} admin account(s) will be asked to set up 2FA on their next visit`);
+
+    console.log("\n✅ Two-Factor migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateTwoFactor();
@@ -0,0 +1,31 @@
+import { pool } from "../server/db";
+
+async function migrateVariantImages() {
+  try {
+    console.log("Starting Variant Images migration...");
+
+    await pool.query(`
+      ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS images TEXT[] NOT NULL DEFAULT ARRAY[]::text[];
+    `);
+    console.log("✓ product_variants.images column exists");
+
+    await pool.query(`
+      ALTER TABLE product_option_values ADD COLUMN IF NOT EXISTS swatch TEXT;
+    `);
+    console.log("✓ product_option_values.swatch column exists");
+
+    await pool.query(`
+      ALTER TABLE product_option_values ADD COLUMN IF NOT EXISTS images TEXT[] NOT NULL DEFAULT ARRAY[]::text[];
+    `);
+    console.log("✓ product_option_values.images column exists");
+
+    console.log("\n✅ Variant Images migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateVariantImages();
@@ -0,0 +1,63 @@
+import { pool } from "../server/db";
+
+async function migrateWebhooks() {
+  try {
+    console.log("Starting Webhooks migration...");
+
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'succeeded', 'failed');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+    console.log("✓ webhook_delivery_status enum exists");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id VARCHAR NOT NULL REFERENCES tenants(id),
+        url TEXT NOT NULL,
+        events JSON NOT NULL,
+        secret TEXT NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    console.log("✓ webhooks table exists");
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        webhook_id VARCHAR NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        event_id VARCHAR NOT NULL,
+        event TEXT NOT NULL,
+        payload JSON NOT NULL,
+        status webhook_delivery_status NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        response_body TEXT,
+        error TEXT,
+        next_attempt_at TIMESTAMP,
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_created_idx ON webhook_deliveries (webhook_id, created_at);
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_status_next_attempt_idx ON webhook_deliveries (status, next_attempt_at);
+    `);
+    console.log("✓ webhook_deliveries table exists");
+
+    console.log("\n✅ Webhooks migration completed successfully!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateWebhooks();
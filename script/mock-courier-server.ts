@@ -0,0 +1,102 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { randomBytes } from "crypto";
+
+// Local stand-in for the Steadfast, Pathao and RedX merchant APIs. Point the
+// adapters at it with:
+//   STEADFAST_BASE_URL=http://localhost:4010/steadfast
+//   PATHAO_BASE_URL=http://localhost:4010/pathao
+//   REDX_BASE_URL=http://localhost:4010/redx
+// Any address containing "reject" is refused, to exercise error handling.
+
+const port = parseInt(process.env.MOCK_COURIER_PORT || "4010");
+
+function readJson(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function send(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+function fakeId(length = 8) {
+  return randomBytes(length).toString("hex").slice(0, length).toUpperCase();
+}
+
+const server = createServer(async (req, res) => {
+  const body = req.method === "POST" ? await readJson(req) : {};
+  console.log(`${req.method} ${req.url}`, JSON.stringify(body));
+
+  switch (req.url) {
+    case "/steadfast/create_order": {
+      if (!req.headers["api-key"] || !req.headers["secret-key"]) {
+        return send(res, 401, { status: 401, message: "Unauthorized" });
+      }
+      if (String(body.recipient_address || "").includes("reject")) {
+        return send(res, 200, { status: 400, message: "Invalid recipient address" });
+      }
+      return send(res, 200, {
+        status: 200,
+        message: "Consignment has been created successfully.",
+        consignment: {
+          consignment_id: Math.floor(Math.random() * 1e8),
+          invoice: body.invoice,
+          tracking_code: fakeId(),
+          status: "in_review",
+        },
+      });
+    }
+
+    case "/pathao/aladdin/api/v1/issue-token": {
+      if (!body.client_id || !body.client_secret) {
+        return send(res, 401, { message: "Invalid client credentials" });
+      }
+      return send(res, 200, { token_type: "Bearer", expires_in: 3600, access_token: fakeId(32) });
+    }
+
+    case "/pathao/aladdin/api/v1/orders": {
+      if (!req.headers.authorization?.startsWith("Bearer ")) {
+        return send(res, 401, { message: "Unauthenticated." });
+      }
+      if (String(body.recipient_address || "").includes("reject")) {
+        return send(res, 422, { code: 422, message: "Please fix the given errors" });
+      }
+      return send(res, 200, {
+        code: 200,
+        message: "Order Created Successfully",
+        data: {
+          consignment_id: `DL${fakeId(10)}`,
+          merchant_order_id: body.merchant_order_id,
+          order_status: "Pending",
+        },
+      });
+    }
+
+    case "/redx/parcel": {
+      if (!req.headers["api-access-token"]) {
+        return send(res, 401, { message: "Unauthorized" });
+      }
+      if (String(body.customer_address || "").includes("reject")) {
+        return send(res, 400, { message: "Delivery area not found" });
+      }
+      return send(res, 200, { tracking_id: `${Date.now()}`.slice(-10) + fakeId(4) });
+    }
+
+    default:
+      return send(res, 404, { message: "Not found" });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock courier server listening on http://localhost:${port}`);
+});
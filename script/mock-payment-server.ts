@@ -0,0 +1,256 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { constants, generateKeyPairSync, privateDecrypt, publicEncrypt, randomBytes } from "crypto";
+
+// Local stand-in for the bKash, Nagad and SSLCommerz gateways. Point the
+// adapters at it with:
+//   BKASH_BASE_URL=http://localhost:4020/bkash
+//   NAGAD_BASE_URL=http://localhost:4020/nagad
+//   SSLCOMMERZ_BASE_URL=http://localhost:4020/sslcommerz
+// Any credentials work for bKash and SSLCommerz. Nagad needs the keys printed
+// on startup, since its requests are encrypted. Each payment gets a checkout
+// page with Pay and Cancel buttons that send the customer back to the store.
+
+const port = parseInt(process.env.MOCK_PAYMENT_PORT || "4020");
+const baseUrl = `http://localhost:${port}`;
+
+// Nagad encrypts to the gateway's key and signs with the merchant's
+const pgKeys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const merchantKeys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+interface MockPayment {
+  provider: "bkash" | "nagad" | "sslcommerz";
+  amount: string;
+  callbackUrl: string;
+  orderId: string; // Merchant's reference for the attempt
+  status: "pending" | "completed" | "cancelled";
+  transactionId?: string;
+}
+
+const payments = new Map<string, MockPayment>();
+const sslValidations = new Map<string, string>(); // val_id -> tran_id
+
+function readBody(req: IncomingMessage): Promise<Record<string, any>> {
+  return new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (!body) return resolve({});
+      if (String(req.headers["content-type"]).includes("application/x-www-form-urlencoded")) {
+        return resolve(Object.fromEntries(new URLSearchParams(body)));
+      }
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function send(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+function redirect(res: ServerResponse, url: string) {
+  res.writeHead(302, { Location: url });
+  res.end();
+}
+
+function fakeId(length = 10) {
+  return randomBytes(length).toString("hex").slice(0, length).toUpperCase();
+}
+
+function withQuery(url: string, params: Record<string, string>) {
+  const target = new URL(url);
+  for (const [key, value] of Object.entries(params)) target.searchParams.set(key, value);
+  return target.toString();
+}
+
+function checkoutPage(res: ServerResponse, id: string, payment: MockPayment) {
+  res.writeHead(200, { "Content-Type": "text/html" });
+  res.end(`<!doctype html>
+<html>
+  <body style="font-family: sans-serif; max-width: 420px; margin: 80px auto; text-align: center">
+    <h2>Mock ${payment.provider} checkout</h2>
+    <p>Amount: ৳${payment.amount}</p>
+    <p>Reference: ${payment.orderId}</p>
+    <p>
+      <a href="/checkout/${id}/pay">Pay</a> &nbsp;
+      <a href="/checkout/${id}/cancel">Cancel</a>
+    </p>
+  </body>
+</html>`);
+}
+
+// Where the gateway sends the customer back, in each gateway's own format
+function returnUrl(id: string, payment: MockPayment): string {
+  const paid = payment.status === "completed";
+  switch (payment.provider) {
+    case "bkash":
+      return withQuery(payment.callbackUrl, { paymentID: id, status: paid ? "success" : "cancel" });
+    case "nagad":
+      return withQuery(payment.callbackUrl, {
+        order_id: payment.orderId,
+        payment_ref_id: id,
+        status: paid ? "Success" : "Aborted",
+      });
+    case "sslcommerz": {
+      if (!paid) return withQuery(payment.callbackUrl, { tran_id: id, status: "CANCELLED" });
+      const valId = `VAL${fakeId()}`;
+      sslValidations.set(valId, id);
+      return withQuery(payment.callbackUrl, { tran_id: id, val_id: valId, status: "VALID" });
+    }
+  }
+}
+
+function bkashStatus(id: string) {
+  const payment = payments.get(id);
+  if (!payment || payment.status !== "completed") {
+    return { statusCode: "2056", statusMessage: "Invalid Payment State" };
+  }
+  return {
+    statusCode: "0000",
+    statusMessage: "Successful",
+    paymentID: id,
+    trxID: payment.transactionId,
+    amount: payment.amount,
+    transactionStatus: "Completed",
+  };
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", baseUrl);
+  const body = req.method === "POST" ? await readBody(req) : {};
+  console.log(`${req.method} ${url.pathname}${url.search}`, JSON.stringify(body));
+
+  // Customer-facing checkout pages
+  const checkout = url.pathname.match(/^\/checkout\/([^/]+)(?:\/(pay|cancel))?$/);
+  if (checkout) {
+    const payment = payments.get(checkout[1]);
+    if (!payment) return send(res, 404, { message: "Unknown payment" });
+    if (!checkout[2]) return checkoutPage(res, checkout[1], payment);
+    if (payment.status === "pending") {
+      payment.status = checkout[2] === "pay" ? "completed" : "cancelled";
+      payment.transactionId = payment.status === "completed" ? `TRX${fakeId()}` : undefined;
+    }
+    return redirect(res, returnUrl(checkout[1], payment));
+  }
+
+  // bKash tokenized checkout
+  if (url.pathname === "/bkash/tokenized/checkout/token/grant") {
+    if (!body.app_key || !body.app_secret || !req.headers.username) {
+      return send(res, 200, { statusCode: "2001", statusMessage: "Invalid App Key" });
+    }
+    return send(res, 200, { id_token: fakeId(32), expires_in: 3600, statusCode: "0000" });
+  }
+  if (url.pathname === "/bkash/tokenized/checkout/create") {
+    if (!req.headers.authorization) {
+      return send(res, 401, { statusCode: "2079", statusMessage: "Invalid Token" });
+    }
+    const id = `TR${fakeId(18)}`;
+    payments.set(id, {
+      provider: "bkash",
+      amount: body.amount,
+      callbackUrl: body.callbackURL,
+      orderId: body.merchantInvoiceNumber,
+      status: "pending",
+    });
+    return send(res, 200, { statusCode: "0000", paymentID: id, bkashURL: `${baseUrl}/checkout/${id}` });
+  }
+  if (
+    url.pathname === "/bkash/tokenized/checkout/execute" ||
+    url.pathname === "/bkash/tokenized/checkout/payment/status"
+  ) {
+    return send(res, 200, bkashStatus(body.paymentID));
+  }
+
+  // SSLCommerz hosted checkout
+  if (url.pathname === "/sslcommerz/gwprocess/v4/api.php") {
+    if (!body.store_id || !body.store_passwd) {
+      return send(res, 200, { status: "FAILED", failedreason: "Store Credential Error Or Store is De-active" });
+    }
+    payments.set(body.tran_id, {
+      provider: "sslcommerz",
+      amount: body.total_amount,
+      callbackUrl: body.success_url,
+      orderId: body.tran_id,
+      status: "pending",
+    });
+    return send(res, 200, {
+      status: "SUCCESS",
+      sessionkey: fakeId(32),
+      GatewayPageURL: `${baseUrl}/checkout/${encodeURIComponent(body.tran_id)}`,
+    });
+  }
+  if (url.pathname === "/sslcommerz/validator/api/validationserverAPI.php") {
+    const tranId = sslValidations.get(url.searchParams.get("val_id") || "");
+    const payment = tranId ? payments.get(tranId) : undefined;
+    if (!tranId || !payment) return send(res, 200, { status: "INVALID_TRANSACTION" });
+    return send(res, 200, {
+      status: "VALID",
+      tran_id: tranId,
+      bank_tran_id: payment.transactionId,
+      amount: payment.amount,
+      currency: "BDT",
+    });
+  }
+
+  // Nagad remote payment gateway
+  // Node won't undo PKCS#1 v1.5 padding for us any more; see server/payments/nagad.ts
+  const decrypt = (data: string) => {
+    const block = privateDecrypt({ key: pgKeys.privateKey, padding: constants.RSA_NO_PADDING }, Buffer.from(data, "base64"));
+    return JSON.parse(block.subarray(block.indexOf(0, 2) + 1).toString());
+  };
+  const encrypt = (data: unknown) =>
+    publicEncrypt(
+      { key: merchantKeys.publicKey, padding: constants.RSA_PKCS1_PADDING },
+      Buffer.from(JSON.stringify(data))
+    ).toString("base64");
+
+  const initialize = url.pathname.match(/^\/nagad\/api\/dfs\/check-out\/initialize\/([^/]+)\/([^/]+)$/);
+  if (initialize) {
+    let payload: any;
+    try {
+      payload = decrypt(body.sensitiveData);
+    } catch {
+      return send(res, 400, { reason: "DECRYPTION_FAILED", message: "Could not decrypt sensitive data" });
+    }
+    const id = `NGD${fakeId(16)}`;
+    payments.set(id, { provider: "nagad", amount: "0", callbackUrl: "", orderId: payload.orderId, status: "pending" });
+    return send(res, 200, {
+      sensitiveData: encrypt({ paymentReferenceId: id, challenge: fakeId(20), acceptDateTime: payload.datetime }),
+      signature: "",
+    });
+  }
+  const complete = url.pathname.match(/^\/nagad\/api\/dfs\/check-out\/complete\/([^/]+)$/);
+  if (complete) {
+    const payment = payments.get(complete[1]);
+    if (!payment) return send(res, 404, { reason: "INVALID_REFERENCE", message: "Unknown payment reference" });
+    payment.amount = decrypt(body.sensitiveData).amount;
+    payment.callbackUrl = body.merchantCallbackURL;
+    return send(res, 200, { status: "Success", callBackUrl: `${baseUrl}/checkout/${complete[1]}` });
+  }
+  const verify = url.pathname.match(/^\/nagad\/api\/dfs\/verify\/payment\/([^/]+)$/);
+  if (verify) {
+    const payment = payments.get(verify[1]);
+    if (!payment) return send(res, 404, { message: "Unknown payment reference" });
+    return send(res, 200, {
+      status: payment.status === "completed" ? "Success" : "Aborted",
+      orderId: payment.orderId,
+      amount: payment.amount,
+      issuerPaymentRefNo: payment.transactionId,
+    });
+  }
+
+  return send(res, 404, { message: "Not found" });
+});
+
+server.listen(port, () => {
+  console.log(`Mock payment server listening on ${baseUrl}`);
+  console.log("\nNagad test credentials (any merchant ID and number):");
+  console.log("Merchant private key:");
+  console.log(merchantKeys.privateKey.export({ type: "pkcs8", format: "pem" }));
+  console.log("Nagad public key:");
+  console.log(pgKeys.publicKey.export({ type: "spki", format: "pem" }));
+});
@@ -0,0 +1,426 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import rateLimit from "express-rate-limit";
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { storage, OutOfStockError, OrderOnHoldError } from "./storage";
+import { recordAudit } from "./audit";
+import { sendOrderStatusSms } from "./sms";
+import { withLowStockAlerts } from "./low-stock";
+import { sendOrderStatusWebhook, sendProductUpdatedWebhook } from "./webhooks";
+import {
+  apiPaginationSchema,
+  apiProductSchema,
+  apiVariantSchema,
+  apiShippingClassSchema,
+  apiOrderStatusSchema,
+  updateCustomerSchema,
+  orderStatusEnum,
+  getOrderNumber,
+  type ApiKey,
+  type ApiPage,
+  type ApiPagination,
+  type ApiScope,
+  type Tenant,
+} from "@shared/schema";
+
+const KEY_PREFIX = "sbk_";
+const LAST_USED_INTERVAL_MS = 60 * 1000; // How stale lastUsedAt may get, to save a write per request
+
+// The key is shown to the owner once; only its hash is kept
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { key, keyPrefix: key.slice(0, KEY_PREFIX.length + 6), keyHash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Every failure is answered as `{ error: { code, message } }`
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+function sendError(res: Response, error: unknown) {
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({ error: { code: error.code, message: error.message } });
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: {
+        code: "invalid_request",
+        message: error.errors[0].message,
+        fields: error.errors.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+      },
+    });
+  }
+  if (error instanceof OutOfStockError || error instanceof OrderOnHoldError) {
+    return res.status(409).json({ error: { code: "conflict", message: error.message } });
+  }
+  console.error("API v1 error:", error);
+  res.status(500).json({ error: { code: "internal_error", message: "Something went wrong" } });
+}
+
+// Routes throw instead of answering errors themselves, so every endpoint
+// fails the same way
+function handle(handler: (req: Request, res: Response) => Promise<unknown>) {
+  return (req: Request, res: Response) => {
+    handler(req, res).catch((error) => sendError(res, error));
+  };
+}
+
+async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const match = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw new ApiError(401, "unauthorized", "Send your API key as 'Authorization: Bearer <key>'");
+    }
+
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(match[1]));
+    if (!apiKey || apiKey.revokedAt) {
+      throw new ApiError(401, "unauthorized", "Invalid or revoked API key");
+    }
+    const tenant = await storage.getTenant(apiKey.tenantId);
+    if (!tenant || tenant.status === "suspended") {
+      throw new ApiError(403, "store_suspended", "This store is suspended");
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+      storage.touchApiKey(apiKey.id).catch(console.error);
+    }
+    (req as any).apiKey = apiKey;
+    (req as any).tenant = tenant;
+    (req as any).tenantId = tenant.id;
+    next();
+  } catch (error) {
+    sendError(res, error);
+  }
+}
+
+// Counted per key rather than per IP, so one busy integration can't use up
+// another's allowance
+const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 120,
+  keyGenerator: (req) => (req as any).apiKey.id,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, res) => {
+    sendError(res, new ApiError(429, "rate_limited", "Too many requests, please slow down"));
+  },
+});
+
+const requireScope = (scope: ApiScope) => (req: Request, res: Response, next: NextFunction) => {
+  const apiKey: ApiKey = (req as any).apiKey;
+  if (!apiKey.scopes.includes(scope)) {
+    return sendError(res, new ApiError(403, "insufficient_scope", `This API key doesn't have the ${scope} scope`));
+  }
+  next();
+};
+
+function toPage<T>(data: T[], total: number, { page, limit }: ApiPagination): ApiPage<T> {
+  return { data, pagination: { page, limit, total, hasMore: page * limit < total } };
+}
+
+// For collections a store only has a handful of; orders and customers are
+// paged in the database instead
+function paginate<T>(items: T[], pagination: ApiPagination): ApiPage<T> {
+  const start = (pagination.page - 1) * pagination.limit;
+  return toPage(items.slice(start, start + pagination.limit), items.length, pagination);
+}
+
+async function findProduct(req: Request, id: string) {
+  const product = await storage.getProduct(id);
+  if (!product || product.tenantId !== (req as any).tenantId) {
+    throw new ApiError(404, "not_found", "Product not found");
+  }
+  return product;
+}
+
+async function findVariant(req: Request, productId: string, id: string) {
+  const product = await findProduct(req, productId);
+  const variant = await storage.getProductVariant(id);
+  if (!variant || variant.productId !== product.id) {
+    throw new ApiError(404, "not_found", "Variant not found");
+  }
+  return { product, variant };
+}
+
+async function findOrder(req: Request, id: string) {
+  const order = await storage.getOrderWithItems(id);
+  if (!order || order.tenantId !== (req as any).tenantId) {
+    throw new ApiError(404, "not_found", "Order not found");
+  }
+  return order;
+}
+
+async function findShippingClass(req: Request, id: string) {
+  const shippingClass = await storage.getShippingClass(id);
+  if (!shippingClass || shippingClass.tenantId !== (req as any).tenantId) {
+    throw new ApiError(404, "not_found", "Shipping class not found");
+  }
+  return shippingClass;
+}
+
+async function findCustomer(req: Request, id: string) {
+  const customer = await storage.getCustomer(id);
+  if (!customer || customer.tenantId !== (req as any).tenantId) {
+    throw new ApiError(404, "not_found", "Customer not found");
+  }
+  return customer;
+}
+
+const orderListSchema = apiPaginationSchema.extend({
+  status: z.enum(orderStatusEnum.enumValues).optional(),
+});
+
+export function registerApiV1Routes(app: Express): void {
+  app.use("/api/v1", authenticate, apiKeyLimiter);
+
+  // ==================== PRODUCTS ====================
+  app.get("/api/v1/products", requireScope("products:read"), handle(async (req, res) => {
+    const pagination = apiPaginationSchema.parse(req.query);
+    const products = await storage.getProductsByTenant((req as any).tenantId);
+    res.json(paginate(products, pagination));
+  }));
+
+  app.get("/api/v1/products/:id", requireScope("products:read"), handle(async (req, res) => {
+    const product = await findProduct(req, req.params.id);
+    const variants = await storage.getProductVariants(product.id);
+    res.json({ data: { ...product, variants } });
+  }));
+
+  app.post("/api/v1/products", requireScope("products:write"), handle(async (req, res) => {
+    const data = apiProductSchema.parse(req.body);
+    const tenant: Tenant = (req as any).tenant;
+
+    const plan = tenant.planId ? await storage.getPlan(tenant.planId) : undefined;
+    const productLimit = plan?.productLimit || 5;
+    if ((await storage.countProductsByTenant(tenant.id)) >= productLimit) {
+      throw new ApiError(403, "plan_limit", `Product limit reached (${productLimit}). Please upgrade your plan.`);
+    }
+
+    const product = await storage.createProduct({ ...data, tenantId: tenant.id });
+    recordAudit(req, {
+      entityType: "product",
+      entityId: product.id,
+      entityLabel: product.name,
+      action: "create",
+      after: product,
+    });
+    res.status(201).json({ data: product });
+  }));
+
+  app.patch("/api/v1/products/:id", requireScope("products:write"), handle(async (req, res) => {
+    const product = await findProduct(req, req.params.id);
+    const data = apiProductSchema.partial().parse(req.body);
+    const updated = await withLowStockAlerts(product.tenantId, () => storage.updateProduct(product.id, data));
+    sendProductUpdatedWebhook(product.tenantId, product.id);
+    recordAudit(req, {
+      entityType: "product",
+      entityId: product.id,
+      entityLabel: product.name,
+      action: "update",
+      before: product,
+      after: updated,
+    });
+    res.json({ data: updated });
+  }));
+
+  app.delete("/api/v1/products/:id", requireScope("products:write"), handle(async (req, res) => {
+    const product = await findProduct(req, req.params.id);
+    await storage.deleteProduct(product.id);
+    recordAudit(req, {
+      entityType: "product",
+      entityId: product.id,
+      entityLabel: product.name,
+      action: "delete",
+      before: product,
+    });
+    res.status(204).end();
+  }));
+
+  // ==================== VARIANTS ====================
+  app.get("/api/v1/products/:productId/variants", requireScope("products:read"), handle(async (req, res) => {
+    const pagination = apiPaginationSchema.parse(req.query);
+    const product = await findProduct(req, req.params.productId);
+    res.json(paginate(await storage.getProductVariants(product.id), pagination));
+  }));
+
+  app.post("/api/v1/products/:productId/variants", requireScope("products:write"), handle(async (req, res) => {
+    const product = await findProduct(req, req.params.productId);
+    const data = apiVariantSchema.parse(req.body);
+    const variant = await storage.createProductVariant({ ...data, productId: product.id });
+    if (!product.hasVariants) {
+      await storage.updateProduct(product.id, { hasVariants: true });
+    }
+    sendProductUpdatedWebhook(product.tenantId, product.id);
+    recordAudit(req, {
+      entityType: "variant",
+      entityId: variant.id,
+      entityLabel: `${product.name} - ${variant.name}`,
+      action: "create",
+      after: variant,
+    });
+    res.status(201).json({ data: variant });
+  }));
+
+  app.patch("/api/v1/products/:productId/variants/:id", requireScope("products:write"), handle(async (req, res) => {
+    const { product, variant } = await findVariant(req, req.params.productId, req.params.id);
+    const data = apiVariantSchema.partial().parse(req.body);
+    const updated = await withLowStockAlerts(product.tenantId, () => storage.updateProductVariant(variant.id, data));
+    sendProductUpdatedWebhook(product.tenantId, product.id);
+    recordAudit(req, {
+      entityType: "variant",
+      entityId: variant.id,
+      entityLabel: `${product.name} - ${variant.name}`,
+      action: "update",
+      before: variant,
+      after: updated,
+    });
+    res.json({ data: updated });
+  }));
+
+  app.delete("/api/v1/products/:productId/variants/:id", requireScope("products:write"), handle(async (req, res) => {
+    const { product, variant } = await findVariant(req, req.params.productId, req.params.id);
+    await storage.deleteProductVariant(variant.id);
+    if ((await storage.getProductVariants(product.id)).length === 0) {
+      await storage.updateProduct(product.id, { hasVariants: false });
+    }
+    sendProductUpdatedWebhook(product.tenantId, product.id);
+    recordAudit(req, {
+      entityType: "variant",
+      entityId: variant.id,
+      entityLabel: `${product.name} - ${variant.name}`,
+      action: "delete",
+      before: variant,
+    });
+    res.status(204).end();
+  }));
+
+  // ==================== ORDERS ====================
+  app.get("/api/v1/orders", requireScope("orders:read"), handle(async (req, res) => {
+    const { status, ...pagination } = orderListSchema.parse(req.query);
+    const { orders, total } = await storage.getOrdersPage((req as any).tenantId, {
+      status,
+      limit: pagination.limit,
+      offset: (pagination.page - 1) * pagination.limit,
+    });
+    res.json(toPage(orders, total, pagination));
+  }));
+
+  app.get("/api/v1/orders/:id", requireScope("orders:read"), handle(async (req, res) => {
+    res.json({ data: await findOrder(req, req.params.id) });
+  }));
+
+  app.patch("/api/v1/orders/:id", requireScope("orders:write"), handle(async (req, res) => {
+    const order = await findOrder(req, req.params.id);
+    const { status } = apiOrderStatusSchema.parse(req.body);
+    // Reinstating a cancelled order takes its stock again
+    const update = () => storage.updateOrderStatus(order.id, status);
+    const updated = await (order.status === "cancelled" && status !== "cancelled"
+      ? withLowStockAlerts(order.tenantId, update)
+      : update());
+    if (updated) {
+      sendOrderStatusSms(updated);
+      sendOrderStatusWebhook(updated, order.status);
+    }
+    recordAudit(req, {
+      entityType: "order",
+      entityId: order.id,
+      entityLabel: getOrderNumber(order),
+      action: "update",
+      before: order,
+      after: updated,
+    });
+    res.json({ data: await storage.getOrderWithItems(order.id) });
+  }));
+
+  // ==================== SHIPPING CLASSES ====================
+  app.get("/api/v1/shipping-classes", requireScope("shipping:read"), handle(async (req, res) => {
+    const pagination = apiPaginationSchema.parse(req.query);
+    res.json(paginate(await storage.getShippingClassesByTenant((req as any).tenantId), pagination));
+  }));
+
+  app.post("/api/v1/shipping-classes", requireScope("shipping:write"), handle(async (req, res) => {
+    const data = apiShippingClassSchema.parse(req.body);
+    const shippingClass = await storage.createShippingClass({ ...data, tenantId: (req as any).tenantId });
+    recordAudit(req, {
+      entityType: "shipping_class",
+      entityId: shippingClass.id,
+      entityLabel: shippingClass.name,
+      action: "create",
+      after: shippingClass,
+    });
+    res.status(201).json({ data: shippingClass });
+  }));
+
+  app.patch("/api/v1/shipping-classes/:id", requireScope("shipping:write"), handle(async (req, res) => {
+    const shippingClass = await findShippingClass(req, req.params.id);
+    const data = apiShippingClassSchema.partial().parse(req.body);
+    const updated = await storage.updateShippingClass(shippingClass.id, data);
+    recordAudit(req, {
+      entityType: "shipping_class",
+      entityId: shippingClass.id,
+      entityLabel: shippingClass.name,
+      action: "update",
+      before: shippingClass,
+      after: updated,
+    });
+    res.json({ data: updated });
+  }));
+
+  app.delete("/api/v1/shipping-classes/:id", requireScope("shipping:write"), handle(async (req, res) => {
+    const shippingClass = await findShippingClass(req, req.params.id);
+    await storage.deleteShippingClass(shippingClass.id);
+    recordAudit(req, {
+      entityType: "shipping_class",
+      entityId: shippingClass.id,
+      entityLabel: shippingClass.name,
+      action: "delete",
+      before: shippingClass,
+    });
+    res.status(204).end();
+  }));
+
+  // ==================== CUSTOMERS ====================
+  app.get("/api/v1/customers", requireScope("customers:read"), handle(async (req, res) => {
+    const pagination = apiPaginationSchema.parse(req.query);
+    const { customers, total } = await storage.getCustomersPage((req as any).tenantId, {
+      limit: pagination.limit,
+      offset: (pagination.page - 1) * pagination.limit,
+    });
+    res.json(toPage(customers, total, pagination));
+  }));
+
+  app.get("/api/v1/customers/:id", requireScope("customers:read"), handle(async (req, res) => {
+    res.json({ data: await findCustomer(req, req.params.id) });
+  }));
+
+  app.patch("/api/v1/customers/:id", requireScope("customers:write"), handle(async (req, res) => {
+    const customer = await findCustomer(req, req.params.id);
+    const data = updateCustomerSchema.parse(req.body);
+    const updated = await storage.updateCustomer(customer.id, data);
+    recordAudit(req, {
+      entityType: "customer",
+      entityId: customer.id,
+      entityLabel: `${customer.name} (${customer.phone})`,
+      action: "update",
+      before: customer,
+      after: updated,
+    });
+    res.json({ data: updated });
+  }));
+
+  // Anything else under /api/v1 gets the same error shape as the rest
+  app.use("/api/v1", (_req, res) => {
+    sendError(res, new ApiError(404, "not_found", "No such endpoint"));
+  });
+}
@@ -0,0 +1,127 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  type AuditAction,
+  type AuditChanges,
+  type AuditEntityType,
+  type AuditLogWithTenant,
+} from "@shared/schema";
+
+type Snapshot = Record<string, any> | null | undefined;
+
+export interface AuditEntry {
+  tenantId?: string | null; // Defaults to the signed-in staff member's store
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  entityLabel?: string | null;
+  action: AuditAction;
+  before?: Snapshot;
+  after?: Snapshot;
+  actor?: { id: string; email: string; role: string }; // Defaults to the signed-in user or API key
+}
+
+// Bookkeeping columns that would only add noise to every entry
+const IGNORED_FIELDS = new Set(["id", "tenantId", "createdAt", "updatedAt"]);
+
+// Logged as changed, but never with their values
+const SECRET_FIELDS = new Set([
+  "password",
+  "tokenHash",
+  "keyHash",
+  "courierCredentials",
+  "paymentCredentials",
+  "courierWebhookSecret",
+  "secret",
+  "totpSecret",
+  "codeHash",
+  "recoveryCodeHashes",
+]);
+
+// Field-by-field differences between two versions of a row. Creates pass
+// only `after` and deletes only `before`. For updates just the columns of
+// `after` are compared, so extras on `before` (joined items, stats) are ignored.
+export function getAuditChanges(before: Snapshot, after: Snapshot): AuditChanges {
+  const fields = Object.keys(after ?? before ?? {}).filter((field) => !IGNORED_FIELDS.has(field));
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    const from = before ? before[field] ?? null : null;
+    const to = after ? after[field] ?? null : null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes[field] = SECRET_FIELDS.has(field)
+      ? { from: from === null ? null : "[redacted]", to: to === null ? null : "[redacted]" }
+      : { from, to };
+  }
+  return changes;
+}
+
+// Appends an entry to the audit log. Never throws, so a logging failure
+// can't undo a change that has already been saved.
+export function recordAudit(req: Request, entry: AuditEntry): void {
+  const user = (req as any).user;
+  const apiKey = (req as any).apiKey;
+  const actor =
+    entry.actor ??
+    (apiKey
+      ? { id: apiKey.id, email: `API key: ${apiKey.name}`, role: "api_key" }
+      : user && { id: user.id, email: user.email, role: (req as any).tenantRole ?? user.role });
+
+  storage
+    .createAuditLog({
+      tenantId: entry.tenantId === undefined ? (req as any).tenantId ?? null : entry.tenantId,
+      actorId: actor?.id ?? null,
+      actorEmail: actor?.email ?? null,
+      actorRole: actor?.role ?? null,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      entityLabel: entry.entityLabel ?? null,
+      action: entry.action,
+      changes: getAuditChanges(entry.before, entry.after),
+    })
+    .catch((error) => {
+      console.error("Failed to record audit log:", error);
+    });
+}
+
+// Spreadsheet apps run cells starting with these as formulas, and entity
+// labels and changes hold text anyone with store access can type in
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function formatAuditChanges(changes: AuditChanges): string {
+  return Object.entries(changes)
+    .map(([field, { from, to }]) => `${field}: ${JSON.stringify(from)} → ${JSON.stringify(to)}`)
+    .join("; ");
+}
+
+export function auditLogsToCsv(logs: AuditLogWithTenant[], includeStore: boolean): string {
+  const headers = [
+    "Time",
+    ...(includeStore ? ["Store"] : []),
+    "Actor",
+    "Role",
+    "Action",
+    "Entity Type",
+    "Entity",
+    "Entity ID",
+    "Changes",
+  ];
+  const rows = logs.map((log) => [
+    new Date(log.createdAt).toISOString(),
+    ...(includeStore ? [log.tenantName ?? log.tenantId ?? ""] : []),
+    log.actorEmail ?? "system",
+    log.actorRole,
+    AUDIT_ACTIONS[log.action] ?? log.action,
+    AUDIT_ENTITY_TYPES[log.entityType] ?? log.entityType,
+    log.entityLabel,
+    log.entityId,
+    formatAuditChanges(log.changes),
+  ]);
+  return [headers.map(csvCell).join(","), ...rows.map((row) => row.map(csvCell).join(","))].join("\n");
+}
@@ -0,0 +1,102 @@
+import type { Category, Collection, CollectionRule, Product, PublicCollection } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The category and everything filed under it, at any depth
+export function getCategoryTreeIds(categories: Category[], rootId: string): Set<string> {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Moving a category under itself or one of its own subcategories would cut
+// that branch off from the tree
+export function isCategoryCycle(categories: Category[], id: string, parentId: string | null): boolean {
+  return !!parentId && getCategoryTreeIds(categories, id).has(parentId);
+}
+
+// Maps each product to the categories (or collections) it's linked to
+export function groupLinks<K extends string, V extends string>(
+  links: Record<K | V, string>[],
+  key: K,
+  value: V
+): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const link of links) {
+    grouped.set(link[key], [...(grouped.get(link[key]) ?? []), link[value]]);
+  }
+  return grouped;
+}
+
+function matchesRule(product: Product, categoryIds: string[], rule: CollectionRule): boolean {
+  switch (rule.field) {
+    case "name": {
+      const contains = product.name.toLowerCase().includes(rule.value.toLowerCase());
+      return rule.operator === "contains" ? contains : !contains;
+    }
+    case "price": {
+      const price = parseFloat(product.price);
+      return rule.operator === "greater_than" ? price > Number(rule.value) : price < Number(rule.value);
+    }
+    case "category": {
+      const inCategory = categoryIds.includes(rule.value);
+      return rule.operator === "is" ? inCategory : !inCategory;
+    }
+    case "created":
+      return Date.now() - new Date(product.createdAt).getTime() <= Number(rule.value) * DAY_MS;
+  }
+}
+
+// `categoryIds` maps each product to the categories it's in, expanded to
+// include their parents so a rule on "Clothing" also matches "T-Shirts"
+export function getCollectionProductIds(
+  collection: Collection,
+  products: Product[],
+  categoryIds: Map<string, string[]>,
+  manualProductIds: string[]
+): Set<string> {
+  if (collection.type === "manual") {
+    return new Set(manualProductIds);
+  }
+  const matches = (product: Product) => {
+    const productCategoryIds = categoryIds.get(product.id) ?? [];
+    const check = (rule: CollectionRule) => matchesRule(product, productCategoryIds, rule);
+    return collection.matchAll ? collection.rules.every(check) : collection.rules.some(check);
+  };
+  return new Set(products.filter(matches).map((product) => product.id));
+}
+
+// Each product's categories plus all of their ancestors
+export function expandCategoryAncestors(
+  categories: Category[],
+  productCategoryIds: Map<string, string[]>
+): Map<string, string[]> {
+  const parentOf = new Map(categories.map((category) => [category.id, category.parentId]));
+  const expanded = new Map<string, string[]>();
+  productCategoryIds.forEach((ids, productId) => {
+    const all = new Set<string>();
+    for (const id of ids) {
+      let current: string | null | undefined = id;
+      while (current && !all.has(current)) {
+        all.add(current);
+        current = parentOf.get(current);
+      }
+    }
+    expanded.set(productId, Array.from(all));
+  });
+  return expanded;
+}
+
+// Shoppers see a collection's name, not the rules behind it
+export function toPublicCollection({ id, name, slug, description }: Collection): PublicCollection {
+  return { id, name, slug, description };
+}
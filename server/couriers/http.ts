@@ -0,0 +1,39 @@
+import type { CourierProviderName } from "@shared/schema";
+import { CourierError } from "./types";
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// JSON request helper shared by the adapters. Network failures, timeouts and
+// non-2xx responses all surface as CourierError.
+export async function courierRequest<T>(
+  provider: CourierProviderName,
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: unknown }
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: init.method || "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json", ...init.headers },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "request failed";
+    throw new CourierError(provider, `Could not reach ${provider}: ${reason}`);
+  }
+
+  const text = await res.text();
+  let data: any = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    // Some error pages come back as HTML - fall through with the raw text
+  }
+
+  if (!res.ok) {
+    const message = data?.message || data?.error || text || res.statusText;
+    throw new CourierError(provider, `${provider} rejected the request: ${message}`, res.status);
+  }
+  return data as T;
+}
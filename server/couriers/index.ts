@@ -0,0 +1,61 @@
+import {
+  getCashDue,
+  getOrderNumber,
+  courierCredentialsSchemas,
+  type CourierCredentials,
+  type CourierProviderName,
+  type OrderWithItems,
+  type StoreSettings,
+} from "@shared/schema";
+import { createSteadfastProvider } from "./steadfast";
+import { createPathaoProvider } from "./pathao";
+import { createRedxProvider } from "./redx";
+import type { CourierParcel, CourierProvider } from "./types";
+
+export { CourierError } from "./types";
+export type { CourierConsignment, CourierParcel, CourierProvider } from "./types";
+export {
+  parseCourierWebhook,
+  getWebhookSecret,
+  isValidWebhookSecret,
+  getStatusForCourierEvent,
+  type CourierWebhookEvent,
+} from "./webhooks";
+
+const factories: Record<CourierProviderName, (credentials: CourierCredentials) => CourierProvider> = {
+  steadfast: createSteadfastProvider,
+  pathao: createPathaoProvider,
+  redx: createRedxProvider,
+};
+
+export function createCourierProvider(name: CourierProviderName, credentials: CourierCredentials): CourierProvider {
+  return factories[name](credentials);
+}
+
+// Returns the tenant's configured courier, or null if none is set up or its
+// saved credentials are incomplete.
+export function getCourierProvider(settings: StoreSettings | undefined): CourierProvider | null {
+  if (!settings?.courierProvider || !settings.courierCredentials) return null;
+  const parsed = courierCredentialsSchemas[settings.courierProvider].safeParse(settings.courierCredentials);
+  if (!parsed.success) return null;
+  return createCourierProvider(settings.courierProvider, parsed.data);
+}
+
+export function buildCourierParcel(order: OrderWithItems, deliveryArea?: string | null): CourierParcel {
+  const description = order.items.length > 0
+    ? order.items
+        .map((item) => `${item.productName}${item.variantName ? ` (${item.variantName})` : ""} x${item.quantity}`)
+        .join(", ")
+    : `${order.quantity} item(s)`;
+
+  return {
+    invoice: getOrderNumber(order),
+    recipientName: order.customerName,
+    recipientPhone: order.phone,
+    recipientAddress: order.address,
+    deliveryArea,
+    codAmount: getCashDue(order),
+    itemCount: order.quantity,
+    description: description.slice(0, 250),
+  };
+}
@@ -0,0 +1,90 @@
+import type { CourierCredentials } from "@shared/schema";
+import { courierRequest } from "./http";
+import { CourierError, type CourierProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://api-hermes.pathao.com";
+
+// Pathao defaults: 48-hour delivery of a parcel (item type 2) weighing 0.5 kg
+const DELIVERY_TYPE_NORMAL = 48;
+const ITEM_TYPE_PARCEL = 2;
+const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+
+interface PathaoTokenResponse {
+  access_token: string;
+  expires_in: number; // seconds
+}
+
+interface PathaoCreateResponse {
+  code: number;
+  message?: string;
+  data?: {
+    consignment_id: string;
+    merchant_order_id?: string;
+    order_status?: string;
+  };
+}
+
+// Access tokens are cached per merchant account until shortly before expiry
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+
+export function createPathaoProvider(credentials: CourierCredentials): CourierProvider {
+  const baseUrl = (process.env.PATHAO_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, "");
+  const cacheKey = `${baseUrl}|${credentials.clientId}|${credentials.username}`;
+
+  async function getAccessToken(): Promise<string> {
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const data = await courierRequest<PathaoTokenResponse>("pathao", `${baseUrl}/aladdin/api/v1/issue-token`, {
+      body: {
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+        username: credentials.username,
+        password: credentials.password,
+        grant_type: "password",
+      },
+    });
+    tokenCache.set(cacheKey, {
+      token: data.access_token,
+      expiresAt: Date.now() + Math.max(data.expires_in - 60, 0) * 1000,
+    });
+    return data.access_token;
+  }
+
+  return {
+    name: "pathao",
+    async createParcel(parcel) {
+      const token = await getAccessToken();
+      const data = await courierRequest<PathaoCreateResponse>("pathao", `${baseUrl}/aladdin/api/v1/orders`, {
+        headers: { Authorization: `Bearer ${token}` },
+        body: {
+          store_id: Number(credentials.storeId),
+          merchant_order_id: parcel.invoice,
+          recipient_name: parcel.recipientName,
+          recipient_phone: parcel.recipientPhone,
+          recipient_address: parcel.recipientAddress,
+          delivery_type: DELIVERY_TYPE_NORMAL,
+          item_type: ITEM_TYPE_PARCEL,
+          item_quantity: parcel.itemCount,
+          item_weight: DEFAULT_ITEM_WEIGHT_KG,
+          amount_to_collect: Math.round(parcel.codAmount),
+          item_description: parcel.description,
+          special_instruction: parcel.note,
+        },
+      });
+
+      if (!data.data?.consignment_id) {
+        throw new CourierError("pathao", `pathao rejected the request: ${data.message || "unknown error"}`);
+      }
+
+      // Pathao uses the consignment ID as the public tracking code
+      return {
+        consignmentId: data.data.consignment_id,
+        trackingCode: data.data.consignment_id,
+        status: data.data.order_status,
+      };
+    },
+  };
+}
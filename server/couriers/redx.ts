@@ -0,0 +1,48 @@
+import type { CourierCredentials } from "@shared/schema";
+import { courierRequest } from "./http";
+import { CourierError, type CourierProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://openapi.redx.com.bd/v1.0.0-beta";
+
+// Grams; RedX prices by weight band and 500g covers most small parcels
+const DEFAULT_PARCEL_WEIGHT = 500;
+
+interface RedxCreateResponse {
+  tracking_id?: string;
+  message?: string;
+}
+
+export function createRedxProvider(credentials: CourierCredentials): CourierProvider {
+  const baseUrl = (process.env.REDX_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  return {
+    name: "redx",
+    async createParcel(parcel) {
+      const data = await courierRequest<RedxCreateResponse>("redx", `${baseUrl}/parcel`, {
+        headers: { "API-ACCESS-TOKEN": `Bearer ${credentials.accessToken}` },
+        body: {
+          customer_name: parcel.recipientName,
+          customer_phone: parcel.recipientPhone,
+          customer_address: parcel.recipientAddress,
+          delivery_area: parcel.deliveryArea || "",
+          delivery_area_id: credentials.deliveryAreaId ? Number(credentials.deliveryAreaId) : undefined,
+          merchant_invoice_id: parcel.invoice,
+          cash_collection_amount: String(parcel.codAmount),
+          parcel_weight: DEFAULT_PARCEL_WEIGHT,
+          value: String(parcel.codAmount),
+          instruction: parcel.note,
+        },
+      });
+
+      if (!data.tracking_id) {
+        throw new CourierError("redx", `redx rejected the request: ${data.message || "unknown error"}`);
+      }
+
+      // RedX only issues a tracking ID, which doubles as the consignment reference
+      return {
+        consignmentId: data.tracking_id,
+        trackingCode: data.tracking_id,
+      };
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import type { CourierCredentials } from "@shared/schema";
+import { courierRequest } from "./http";
+import { CourierError, type CourierProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://portal.packzy.com/api/v1";
+
+interface SteadfastCreateResponse {
+  status: number;
+  message?: string;
+  consignment?: {
+    consignment_id: number | string;
+    tracking_code: string;
+    status?: string;
+  };
+}
+
+export function createSteadfastProvider(credentials: CourierCredentials): CourierProvider {
+  const baseUrl = (process.env.STEADFAST_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  return {
+    name: "steadfast",
+    async createParcel(parcel) {
+      const data = await courierRequest<SteadfastCreateResponse>("steadfast", `${baseUrl}/create_order`, {
+        headers: {
+          "Api-Key": credentials.apiKey,
+          "Secret-Key": credentials.secretKey,
+        },
+        body: {
+          invoice: parcel.invoice,
+          recipient_name: parcel.recipientName,
+          recipient_phone: parcel.recipientPhone,
+          recipient_address: parcel.recipientAddress,
+          cod_amount: parcel.codAmount,
+          note: parcel.note || parcel.description,
+        },
+      });
+
+      // Steadfast answers 200 with a status field even for validation errors
+      if (data.status !== 200 || !data.consignment) {
+        throw new CourierError("steadfast", `steadfast rejected the request: ${data.message || "unknown error"}`);
+      }
+
+      return {
+        consignmentId: String(data.consignment.consignment_id),
+        trackingCode: data.consignment.tracking_code,
+        status: data.consignment.status,
+      };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { CourierProviderName } from "@shared/schema";
+
+// What we hand to a courier when booking a parcel for an order
+export interface CourierParcel {
+  invoice: string; // Our order number, shown on the courier's label
+  recipientName: string;
+  recipientPhone: string;
+  recipientAddress: string;
+  deliveryArea?: string | null; // Shipping zone name, for couriers that want one
+  codAmount: number; // Cash to collect on delivery
+  itemCount: number;
+  description: string;
+  note?: string;
+}
+
+export interface CourierConsignment {
+  consignmentId: string;
+  trackingCode: string;
+  status?: string; // Courier's own status string at booking time
+}
+
+export interface CourierProvider {
+  name: CourierProviderName;
+  createParcel(parcel: CourierParcel): Promise<CourierConsignment>;
+}
+
+// Thrown when a courier rejects a booking or can't be reached. The message is
+// safe to show to the store owner.
+export class CourierError extends Error {
+  constructor(public provider: CourierProviderName, message: string, public status?: number) {
+    super(message);
+    this.name = "CourierError";
+  }
+}
@@ -0,0 +1,134 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { CourierProviderName, OrderStatus } from "@shared/schema";
+
+// Courier delivery outcomes we act on. Everything else (picked up, in
+// transit, ...) is recorded on the timeline without changing the order.
+export type CourierDeliveryEvent = "delivered" | "partial" | "returned" | "hold" | "update";
+
+export interface CourierWebhookEvent {
+  consignmentId?: string;
+  trackingCode?: string;
+  invoice?: string; // Our order number, echoed back by the courier
+  event: CourierDeliveryEvent;
+  courierStatus: string;
+  message?: string;
+}
+
+// Maps the provider's status strings onto our delivery events
+const STATUS_MAP: Record<CourierProviderName, Record<string, CourierDeliveryEvent>> = {
+  steadfast: {
+    delivered: "delivered",
+    delivered_approval_pending: "delivered",
+    partial_delivered: "partial",
+    partial_delivered_approval_pending: "partial",
+    cancelled: "returned",
+    cancelled_approval_pending: "returned",
+    hold: "hold",
+  },
+  pathao: {
+    "order.delivered": "delivered",
+    "order.partial-delivery": "partial",
+    "order.returned": "returned",
+    "order.paid-return": "returned",
+    "order.on-hold": "hold",
+    "order.delivery-failed": "hold",
+  },
+  redx: {
+    delivered: "delivered",
+    "partial-delivered": "partial",
+    returned: "returned",
+    "agent-returning": "returned",
+    "agent-hold": "hold",
+  },
+};
+
+function str(value: unknown): string | undefined {
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+// Normalizes a provider's webhook body. Returns null for payloads that don't
+// describe a parcel (e.g. Pathao's integration handshake).
+export function parseCourierWebhook(provider: CourierProviderName, body: any): CourierWebhookEvent | null {
+  if (!body || typeof body !== "object") return null;
+
+  let courierStatus: string | undefined;
+  let event: CourierWebhookEvent;
+  switch (provider) {
+    case "steadfast":
+      courierStatus = str(body.status);
+      event = {
+        consignmentId: str(body.consignment_id),
+        trackingCode: str(body.tracking_code),
+        invoice: str(body.invoice),
+        event: "update",
+        courierStatus: courierStatus || "",
+        message: str(body.tracking_message),
+      };
+      break;
+    case "pathao":
+      courierStatus = str(body.event);
+      event = {
+        consignmentId: str(body.consignment_id),
+        trackingCode: str(body.consignment_id),
+        invoice: str(body.merchant_order_id),
+        event: "update",
+        courierStatus: courierStatus || "",
+        message: str(body.reason),
+      };
+      break;
+    case "redx":
+      courierStatus = str(body.status);
+      event = {
+        trackingCode: str(body.tracking_number),
+        consignmentId: str(body.tracking_number),
+        invoice: str(body.invoice_number),
+        event: "update",
+        courierStatus: courierStatus || "",
+        message: str(body.message_en),
+      };
+      break;
+  }
+
+  if (!courierStatus || !(event.consignmentId || event.trackingCode || event.invoice)) {
+    return null;
+  }
+  event.event = STATUS_MAP[provider][courierStatus.toLowerCase()] || "update";
+  return event;
+}
+
+// Couriers send the shared secret in different places: Steadfast as a bearer
+// token, Pathao in X-PATHAO-Signature, and anything else (RedX) in an
+// X-Webhook-Secret header. Never from the URL, where it would end up in
+// proxy and access logs.
+export function getWebhookSecret(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const authorization = headers["authorization"];
+  if (typeof authorization === "string" && authorization.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length);
+  }
+  const signature = headers["x-pathao-signature"] || headers["x-webhook-secret"];
+  return typeof signature === "string" ? signature : undefined;
+}
+
+// Compares digests rather than the secrets themselves, so the comparison
+// takes the same time whatever the length of the guess
+export function isValidWebhookSecret(expected: string | null | undefined, provided: string | undefined): boolean {
+  if (!expected || !provided) return false;
+  const a = createHash("sha256").update(expected).digest();
+  const b = createHash("sha256").update(provided).digest();
+  return timingSafeEqual(a, b);
+}
+
+// Order status a courier event should move the order to, or null to only
+// record it. Partial deliveries count as delivered (the timeline keeps the
+// detail) and returns cancel the order so its stock goes back on the shelf.
+// A hold doesn't change the status on purpose: the parcel is still out, and
+// the hold and the courier's reason show on the order timeline.
+export function getStatusForCourierEvent(event: CourierDeliveryEvent, current: OrderStatus): OrderStatus | null {
+  const target: OrderStatus | null =
+    event === "delivered" || event === "partial" ? "delivered" : event === "returned" ? "cancelled" : null;
+  if (!target || target === current) return null;
+  // Couriers never reinstate a cancelled order, and only a return can follow delivery
+  if (current === "cancelled") return null;
+  if (current === "delivered" && target !== "cancelled") return null;
+  return target;
+}
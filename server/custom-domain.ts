@@ -0,0 +1,72 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { Tenant } from "@shared/schema";
+
+// Host lookups happen on every request (including assets), so results are
+// cached briefly. Negative results are cached too so the platform's own host
+// doesn't hit the database each time.
+const CACHE_TTL_MS = 60 * 1000;
+const hostCache = new Map<string, { tenant: Tenant | null; expiresAt: number }>();
+
+function normalizeHost(host: string | undefined): string | null {
+  if (!host) return null;
+  return host.split(":")[0].trim().toLowerCase().replace(/\.$/, "") || null;
+}
+
+async function lookupTenantByHost(host: string): Promise<Tenant | null> {
+  const candidates = host.startsWith("www.") ? [host, host.slice(4)] : [host];
+
+  for (const candidate of candidates) {
+    const mapping = await storage.getDomainMappingByDomain(candidate);
+    if (!mapping || !mapping.verified) continue;
+
+    const tenant = await storage.getTenant(mapping.tenantId);
+    if (tenant && tenant.status === "active") {
+      return tenant;
+    }
+  }
+
+  return null;
+}
+
+export async function getTenantForHost(host: string | undefined): Promise<Tenant | null> {
+  const normalized = normalizeHost(host);
+  if (!normalized) return null;
+
+  const cached = hostCache.get(normalized);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tenant;
+  }
+
+  const tenant = await lookupTenantByHost(normalized);
+  hostCache.set(normalized, { tenant, expiresAt: Date.now() + CACHE_TTL_MS });
+  return tenant;
+}
+
+// Call after a domain mapping is verified, unverified or removed so the change
+// takes effect immediately instead of after the cache TTL.
+export function clearCustomDomainCache(domain?: string) {
+  if (!domain) {
+    hostCache.clear();
+    return;
+  }
+  const normalized = normalizeHost(domain);
+  if (!normalized) return;
+  hostCache.delete(normalized);
+  hostCache.delete(`www.${normalized}`);
+}
+
+// Resolves the store behind a verified custom domain and exposes it as
+// (req as any).hostTenant. Requests on the platform's own host pass through
+// untouched.
+export const resolveCustomDomain = async (req: Request, _res: Response, next: NextFunction) => {
+  try {
+    const tenant = await getTenantForHost(req.hostname);
+    if (tenant) {
+      (req as any).hostTenant = tenant;
+    }
+  } catch (error) {
+    console.error("Custom domain lookup error:", error);
+  }
+  next();
+};
@@ -0,0 +1,87 @@
+import { storage } from "./storage";
+import type { Discount, InsertOrderItem } from "@shared/schema";
+
+type DiscountLine = Pick<InsertOrderItem, "productId" | "lineTotal">;
+
+// Thrown for codes the customer can't use; the message is shown at checkout
+export class DiscountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiscountError";
+  }
+}
+
+export interface AppliedDiscount {
+  discount: Discount;
+  amount: number;
+}
+
+function sumLines(lines: DiscountLine[]): number {
+  return lines.reduce((sum, line) => sum + parseFloat(line.lineTotal), 0);
+}
+
+// Subtotal of the lines the discount is scoped to
+function eligibleSubtotal(discount: Discount, lines: DiscountLine[]): number {
+  if (!discount.productIds?.length) return sumLines(lines);
+  return sumLines(lines.filter((line) => line.productId && discount.productIds!.includes(line.productId)));
+}
+
+// Why the discount can't be used on this cart, or null if it can
+export function getDiscountProblem(discount: Discount, lines: DiscountLine[], now = new Date()): string | null {
+  if (!discount.isActive) return "This code is no longer active";
+  if (discount.startsAt && discount.startsAt > now) return "This code isn't active yet";
+  if (discount.expiresAt && discount.expiresAt <= now) return "This code has expired";
+  if (discount.usageLimit !== null && discount.usageCount >= discount.usageLimit) {
+    return "This code has reached its usage limit";
+  }
+  if (discount.minOrderAmount && sumLines(lines) < parseFloat(discount.minOrderAmount)) {
+    return `Spend at least ৳${discount.minOrderAmount} to use this code`;
+  }
+  if (discount.productIds?.length && eligibleSubtotal(discount, lines) === 0) {
+    return "This code doesn't apply to the items in your order";
+  }
+  return null;
+}
+
+// Taka off the order. Percentage and fixed discounts only count the lines
+// they're scoped to and never exceed them; free shipping waives the fee.
+export function calculateDiscount(discount: Discount, lines: DiscountLine[], shippingFee: number): number {
+  let amount: number;
+  if (discount.type === "free_shipping") {
+    amount = shippingFee;
+  } else {
+    const base = eligibleSubtotal(discount, lines);
+    const value = parseFloat(discount.value);
+    amount = discount.type === "percentage" ? (base * value) / 100 : Math.min(value, base);
+  }
+  return Math.round(amount * 100) / 100;
+}
+
+// The discount a checkout gets: the entered code, throwing DiscountError if
+// it can't be used, or otherwise the best automatic promotion that still
+// applies, skipping any in `exhaustedIds`. Discounts don't stack.
+export async function resolveCheckoutDiscount(
+  tenantId: string,
+  code: string | undefined,
+  lines: DiscountLine[],
+  shippingFee: number,
+  exhaustedIds: string[] = []
+): Promise<AppliedDiscount | null> {
+  if (code) {
+    const discount = await storage.getDiscountByCode(tenantId, code);
+    if (!discount) throw new DiscountError("Invalid discount code");
+    const problem = getDiscountProblem(discount, lines);
+    if (problem) throw new DiscountError(problem);
+    return { discount, amount: calculateDiscount(discount, lines, shippingFee) };
+  }
+
+  let best: AppliedDiscount | null = null;
+  for (const discount of await storage.getAutomaticDiscounts(tenantId)) {
+    if (exhaustedIds.includes(discount.id) || getDiscountProblem(discount, lines)) continue;
+    const amount = calculateDiscount(discount, lines, shippingFee);
+    if (amount > 0 && (!best || amount > best.amount)) {
+      best = { discount, amount };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,157 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import type { DomainMapping } from "@shared/schema";
+
+// domain-verification.ts pulls in the database module, which wants a URL.
+// Storage calls are stubbed, so nothing connects to it.
+process.env.DATABASE_URL ??= "postgres://localhost/unused";
+const { checkDomainDns, createStaticResolver, setDnsResolver, verifyDomainMapping } = await import(
+  "./domain-verification"
+);
+const { storage } = await import("./storage");
+
+const TXT_NAME = "_storebuilder-verify.shop.example.com";
+const TXT_VALUE = "storebuilder-verify=abc123";
+
+function makeMapping(overrides: Partial<DomainMapping> = {}): DomainMapping {
+  return {
+    id: "mapping-1",
+    tenantId: "tenant-1",
+    domain: "shop.example.com",
+    verified: false,
+    verificationToken: "abc123",
+    cnameTarget: null,
+    verifiedAt: null,
+    lastCheckedAt: null,
+    lastCheckError: null,
+    checkFailures: 0,
+    manuallyVerified: false,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  delete process.env.CUSTOM_DOMAIN_CNAME_TARGET;
+  delete process.env.CUSTOM_DOMAIN_A_RECORDS;
+});
+
+test("a matching TXT record is enough when there's nothing to point at", async () => {
+  setDnsResolver(createStaticResolver({ txt: { [TXT_NAME]: [TXT_VALUE] } }));
+  assert.deepEqual(await checkDomainDns(makeMapping()), { ok: true });
+});
+
+test("a missing or different TXT record fails", async () => {
+  setDnsResolver(createStaticResolver({ txt: { [TXT_NAME]: ["storebuilder-verify=someone-else"] } }));
+  assert.deepEqual(await checkDomainDns(makeMapping()), {
+    ok: false,
+    reason: `TXT record ${TXT_NAME} not found or does not match`,
+  });
+
+  setDnsResolver(createStaticResolver({}));
+  assert.equal((await checkDomainDns(makeMapping())).ok, false);
+});
+
+test("a mapping without a token fails before any lookup", async () => {
+  setDnsResolver(createStaticResolver({ txt: { [TXT_NAME]: [TXT_VALUE] } }));
+  assert.deepEqual(await checkDomainDns(makeMapping({ verificationToken: null })), {
+    ok: false,
+    reason: "No verification token has been issued for this domain",
+  });
+});
+
+test("the domain must CNAME to the expected target", async () => {
+  process.env.CUSTOM_DOMAIN_CNAME_TARGET = "stores.example.net";
+  setDnsResolver(
+    createStaticResolver({
+      txt: { [TXT_NAME]: [TXT_VALUE] },
+      cname: { "shop.example.com": "Stores.Example.net." },
+    })
+  );
+  assert.deepEqual(await checkDomainDns(makeMapping()), { ok: true });
+
+  setDnsResolver(
+    createStaticResolver({
+      txt: { [TXT_NAME]: [TXT_VALUE] },
+      cname: { "shop.example.com": "elsewhere.example.org" },
+    })
+  );
+  assert.deepEqual(await checkDomainDns(makeMapping()), {
+    ok: false,
+    reason: "shop.example.com does not point to stores.example.net",
+  });
+});
+
+test("an apex domain can use an A record instead", async () => {
+  process.env.CUSTOM_DOMAIN_A_RECORDS = "203.0.113.10, 203.0.113.11";
+  setDnsResolver(
+    createStaticResolver({
+      txt: { [TXT_NAME]: [TXT_VALUE] },
+      a: { "shop.example.com": ["198.51.100.1", "203.0.113.11"] },
+    })
+  );
+  assert.deepEqual(await checkDomainDns(makeMapping()), { ok: true });
+
+  setDnsResolver(
+    createStaticResolver({
+      txt: { [TXT_NAME]: [TXT_VALUE] },
+      a: { "shop.example.com": ["198.51.100.1"] },
+    })
+  );
+  assert.deepEqual(await checkDomainDns(makeMapping()), {
+    ok: false,
+    reason: "shop.example.com does not resolve to our servers",
+  });
+});
+
+test("resolver errors count as a failed check rather than throwing", async () => {
+  process.env.CUSTOM_DOMAIN_CNAME_TARGET = "stores.example.net";
+  const servfail = async (): Promise<never> => {
+    throw Object.assign(new Error("queryTxt ESERVFAIL"), { code: "ESERVFAIL" });
+  };
+  setDnsResolver({ resolveTxt: servfail, resolveCname: servfail, resolve4: servfail });
+  assert.equal((await checkDomainDns(makeMapping())).ok, false);
+
+  setDnsResolver({ ...createStaticResolver({ txt: { [TXT_NAME]: [TXT_VALUE] } }), resolveCname: servfail });
+  assert.deepEqual(await checkDomainDns(makeMapping()), {
+    ok: false,
+    reason: "shop.example.com does not point to stores.example.net",
+  });
+});
+
+test("verifyDomainMapping records a passing check", async (t) => {
+  const update = t.mock.method(storage, "updateDomainMapping", async (_id: string, data: Partial<DomainMapping>) =>
+    makeMapping({ ...data })
+  );
+  setDnsResolver(createStaticResolver({ txt: { [TXT_NAME]: [TXT_VALUE] } }));
+
+  const updated = await verifyDomainMapping(makeMapping({ checkFailures: 2, lastCheckError: "old" }));
+  assert.equal(update.mock.callCount(), 1);
+  assert.equal(updated?.verified, true);
+  assert.ok(updated?.verifiedAt);
+  assert.equal(updated?.checkFailures, 0);
+  assert.equal(updated?.lastCheckError, null);
+});
+
+test("verifyDomainMapping keeps a verified domain through a few failed re-checks", async (t) => {
+  t.mock.method(storage, "updateDomainMapping", async (_id: string, data: Partial<DomainMapping>) =>
+    makeMapping({ ...data })
+  );
+  setDnsResolver(createStaticResolver({}));
+  const verifiedAt = new Date("2026-02-01T00:00:00Z");
+
+  const first = await verifyDomainMapping(makeMapping({ verified: true, verifiedAt }));
+  assert.equal(first?.verified, true);
+  assert.equal(first?.checkFailures, 1);
+  assert.equal(first?.lastCheckError, `TXT record ${TXT_NAME} not found or does not match`);
+
+  const third = await verifyDomainMapping(makeMapping({ verified: true, verifiedAt, checkFailures: 2 }));
+  assert.equal(third?.verified, false);
+  assert.equal(third?.verifiedAt, null);
+  assert.equal(third?.checkFailures, 3);
+
+  const manual = await verifyDomainMapping(
+    makeMapping({ verified: true, verifiedAt, checkFailures: 5, manuallyVerified: true })
+  );
+  assert.equal(manual?.verified, true);
+});
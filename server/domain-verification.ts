@@ -0,0 +1,193 @@
+import { promises as dns } from "dns";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { clearCustomDomainCache } from "./custom-domain";
+import type { DomainMapping } from "@shared/schema";
+
+// Customers prove ownership with a TXT record on this label and point the
+// domain at us with a CNAME (or, for apex domains, an A record).
+export const VERIFICATION_TXT_PREFIX = "_storebuilder-verify";
+const TXT_VALUE_PREFIX = "storebuilder-verify=";
+
+// A verified domain is only unverified after this many consecutive failed
+// re-checks, so a single DNS hiccup doesn't take a storefront offline.
+const MAX_RECHECK_FAILURES = 3;
+
+export interface DnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+  resolveCname(hostname: string): Promise<string[]>;
+  resolve4(hostname: string): Promise<string[]>;
+}
+
+let resolver: DnsResolver = dns;
+
+export function setDnsResolver(custom: DnsResolver) {
+  resolver = custom;
+}
+
+// In-memory resolver for local development and tests. Missing records behave
+// like NXDOMAIN/ENODATA from the system resolver.
+export function createStaticResolver(records: {
+  txt?: Record<string, string[]>;
+  cname?: Record<string, string>;
+  a?: Record<string, string[]>;
+}): DnsResolver {
+  const notFound = (hostname: string) =>
+    Object.assign(new Error(`queryNotFound ${hostname}`), { code: "ENOTFOUND" });
+
+  return {
+    async resolveTxt(hostname) {
+      const values = records.txt?.[hostname];
+      if (!values) throw notFound(hostname);
+      return values.map((v) => [v]);
+    },
+    async resolveCname(hostname) {
+      const target = records.cname?.[hostname];
+      if (!target) throw notFound(hostname);
+      return [target];
+    },
+    async resolve4(hostname) {
+      const addresses = records.a?.[hostname];
+      if (!addresses) throw notFound(hostname);
+      return addresses;
+    },
+  };
+}
+
+export function getCnameTarget(): string | null {
+  return process.env.CUSTOM_DOMAIN_CNAME_TARGET?.trim().toLowerCase() || null;
+}
+
+function getExpectedIps(): string[] {
+  return (process.env.CUSTOM_DOMAIN_A_RECORDS || "")
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+}
+
+export function generateVerificationToken(): string {
+  return randomBytes(16).toString("hex");
+}
+
+export function getVerificationRecord(mapping: Pick<DomainMapping, "domain" | "verificationToken">) {
+  return {
+    name: `${VERIFICATION_TXT_PREFIX}.${mapping.domain}`,
+    value: `${TXT_VALUE_PREFIX}${mapping.verificationToken}`,
+  };
+}
+
+function stripDot(hostname: string) {
+  return hostname.toLowerCase().replace(/\.$/, "");
+}
+
+async function safeResolve<T>(fn: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return await fn();
+  } catch {
+    return [];
+  }
+}
+
+export async function checkDomainDns(
+  mapping: Pick<DomainMapping, "domain" | "verificationToken" | "cnameTarget">
+): Promise<{ ok: true } | { ok: false; reason: string }> {
+  if (!mapping.verificationToken) {
+    return { ok: false, reason: "No verification token has been issued for this domain" };
+  }
+
+  const record = getVerificationRecord(mapping);
+  const txtRecords = await safeResolve(() => resolver.resolveTxt(record.name));
+  const txtValues = txtRecords.map((chunks) => chunks.join(""));
+  if (!txtValues.includes(record.value)) {
+    return { ok: false, reason: `TXT record ${record.name} not found or does not match` };
+  }
+
+  const cnameTarget = mapping.cnameTarget || getCnameTarget();
+  const expectedIps = getExpectedIps();
+  if (!cnameTarget && expectedIps.length === 0) {
+    // Nothing to compare against (e.g. local development) - ownership is enough
+    return { ok: true };
+  }
+
+  if (cnameTarget) {
+    const cnames = await safeResolve(() => resolver.resolveCname(mapping.domain));
+    if (cnames.some((c) => stripDot(c) === cnameTarget)) {
+      return { ok: true };
+    }
+  }
+
+  if (expectedIps.length > 0) {
+    const addresses = await safeResolve(() => resolver.resolve4(mapping.domain));
+    if (addresses.some((ip) => expectedIps.includes(ip))) {
+      return { ok: true };
+    }
+  }
+
+  return {
+    ok: false,
+    reason: cnameTarget
+      ? `${mapping.domain} does not point to ${cnameTarget}`
+      : `${mapping.domain} does not resolve to our servers`,
+  };
+}
+
+// Runs a DNS check and records the outcome on the mapping. Used both for
+// tenant-initiated verification and for the periodic re-check.
+export async function verifyDomainMapping(mapping: DomainMapping): Promise<DomainMapping | undefined> {
+  const result = await checkDomainDns(mapping);
+  const now = new Date();
+
+  let updated: DomainMapping | undefined;
+  if (result.ok) {
+    updated = await storage.updateDomainMapping(mapping.id, {
+      verified: true,
+      verifiedAt: mapping.verified ? mapping.verifiedAt : now,
+      lastCheckedAt: now,
+      lastCheckError: null,
+      checkFailures: 0,
+      manuallyVerified: false,
+    });
+  } else {
+    const checkFailures = mapping.checkFailures + 1;
+    const stillVerified = mapping.verified && (mapping.manuallyVerified || checkFailures < MAX_RECHECK_FAILURES);
+    updated = await storage.updateDomainMapping(mapping.id, {
+      verified: stillVerified,
+      verifiedAt: stillVerified ? mapping.verifiedAt : null,
+      lastCheckedAt: now,
+      lastCheckError: result.reason,
+      checkFailures,
+    });
+  }
+
+  if (updated && updated.verified !== mapping.verified) {
+    clearCustomDomainCache(mapping.domain);
+  }
+  return updated;
+}
+
+// Domains verified by hand, or without a token to look for, are left alone
+// until their owner passes a DNS check
+export async function recheckVerifiedDomains(): Promise<void> {
+  const mappings = await storage.getVerifiedDomainMappings();
+  for (const mapping of mappings) {
+    if (mapping.manuallyVerified || !mapping.verificationToken) continue;
+    try {
+      const updated = await verifyDomainMapping(mapping);
+      if (updated && !updated.verified) {
+        console.warn(`Custom domain ${mapping.domain} failed re-verification: ${updated.lastCheckError}`);
+      }
+    } catch (error) {
+      console.error(`Failed to re-check domain ${mapping.domain}:`, error);
+    }
+  }
+}
+
+export function startDomainRecheckJob() {
+  const minutes = parseInt(process.env.DOMAIN_RECHECK_INTERVAL_MINUTES || "360", 10);
+  if (!minutes || minutes <= 0) return;
+
+  const timer = setInterval(() => {
+    recheckVerifiedDomains().catch((error) => console.error("Domain re-check error:", error));
+  }, minutes * 60 * 1000);
+  timer.unref();
+}
@@ -1,4 +1,5 @@
 import nodemailer from "nodemailer";
+import type { LowStockItem } from "@shared/schema";
 
 const transporter = nodemailer.createTransport({
   host: process.env.SMTP_HOST || "smtp.gmail.com",
@@ -10,6 +11,14 @@ const transporter = nodemailer.createTransport({
   },
 });
 
+interface OrderEmailItem {
+  productName: string;
+  variantName?: string | null;
+  quantity: number;
+  unitPrice: string;
+  lineTotal: string;
+}
+
 interface OrderEmailData {
   tenantEmail: string;
   tenantName: string;
@@ -17,10 +26,11 @@ interface OrderEmailData {
   customerName: string;
   customerPhone: string;
   customerAddress: string;
-  productName: string;
-  quantity: number;
+  items: OrderEmailItem[];
   subtotal: string;
   shippingFee: string;
+  discountCode?: string | null;
+  discountAmount?: string;
   total: string;
   shippingLocation: string;
 }
@@ -32,6 +42,17 @@ export async function sendNewOrderEmail(data: OrderEmailData): Promise<boolean>
   }
 
   try {
+    const itemRows = data.items
+      .map(
+        (item) => `
+        <div class="row">
+          <span class="label">${item.productName}${item.variantName ? ` (${item.variantName})` : ""} × ${item.quantity}</span>
+          <span class="value">৳${item.lineTotal}</span>
+        </div>`
+      )
+      .join("");
+    const totalQuantity = data.items.reduce((sum, item) => sum + item.quantity, 0);
+
     const html = `
 <!DOCTYPE html>
 <html>
@@ -64,22 +85,20 @@ export async function sendNewOrderEmail(data: OrderEmailData): Promise<boolean>
       
       <div class="order-details">
         <h3>Order Details</h3>
+        ${itemRows}
         <div class="row">
-          <span class="label">Product</span>
-          <span class="value">${data.productName}</span>
-        </div>
-        <div class="row">
-          <span class="label">Quantity</span>
-          <span class="value">${data.quantity}</span>
-        </div>
-        <div class="row">
-          <span class="label">Subtotal</span>
+          <span class="label">Subtotal (${totalQuantity} item${totalQuantity === 1 ? "" : "s"})</span>
           <span class="value">৳${data.subtotal}</span>
         </div>
         <div class="row">
           <span class="label">Shipping (${data.shippingLocation})</span>
           <span class="value">৳${data.shippingFee}</span>
         </div>
+        ${data.discountAmount && parseFloat(data.discountAmount) > 0 ? `
+        <div class="row">
+          <span class="label">Discount${data.discountCode ? ` (${data.discountCode})` : ""}</span>
+          <span class="value">-৳${data.discountAmount}</span>
+        </div>` : ""}
       </div>
       
       <div class="total-row">
@@ -118,7 +137,9 @@ export async function sendNewOrderEmail(data: OrderEmailData): Promise<boolean>
     await transporter.sendMail({
       from: process.env.SMTP_FROM || process.env.SMTP_USER,
       to: data.tenantEmail,
-      subject: `New Order #${data.orderNumber} - ${data.productName}`,
+      subject: `New Order #${data.orderNumber} - ${
+        data.items.length === 1 ? data.items[0].productName : `${data.items.length} products`
+      }`,
       html,
     });
 
@@ -129,3 +150,272 @@ export async function sendNewOrderEmail(data: OrderEmailData): Promise<boolean>
     return false;
   }
 }
+
+interface LowStockEmailData {
+  tenantEmail: string;
+  tenantName: string;
+  items: LowStockItem[];
+}
+
+export async function sendLowStockEmail(data: LowStockEmailData): Promise<boolean> {
+  if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
+    console.log("SMTP not configured, skipping low stock email");
+    return false;
+  }
+
+  try {
+    const itemRows = data.items
+      .map(
+        (item) => `
+        <div class="row">
+          <span class="label">${item.productName}${item.variantName ? ` (${item.variantName})` : ""}${item.sku ? ` - ${item.sku}` : ""}</span>
+          <span class="value">${item.stock === 0 ? "Sold out" : `${item.stock} left`}</span>
+        </div>`
+      )
+      .join("");
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #f59e0b; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+    .stock-details { background: white; padding: 15px; border-radius: 8px; margin: 15px 0; }
+    .row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #e5e7eb; }
+    .row:last-child { border-bottom: none; }
+    .label { color: #6b7280; }
+    .value { font-weight: 600; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Running Low on Stock</h1>
+    </div>
+    <div class="content">
+      <p>Hello ${data.tenantName},</p>
+      <p>A new order has left these items at or below your low stock threshold:</p>
+
+      <div class="stock-details">
+        ${itemRows}
+      </div>
+
+      <p>Restock them from your dashboard before they sell out.</p>
+    </div>
+    <div class="footer">
+      <p>This email was sent by StoreBuilder BD</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: data.tenantEmail,
+      subject: `Low stock - ${
+        data.items.length === 1 ? data.items[0].productName : `${data.items.length} items`
+      }`,
+      html,
+    });
+
+    console.log(`Low stock email sent to ${data.tenantEmail}`);
+    return true;
+  } catch (error) {
+    console.error("Failed to send low stock email:", error);
+    return false;
+  }
+}
+
+interface StaffInviteEmailData {
+  email: string;
+  storeName: string;
+  invitedBy?: string;
+  roleLabel: string;
+  inviteUrl: string;
+  expiresAt: Date;
+}
+
+export async function sendStaffInviteEmail(data: StaffInviteEmailData): Promise<boolean> {
+  if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
+    console.log("SMTP not configured, skipping staff invite email");
+    return false;
+  }
+
+  try {
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #3b82f6; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+    .button { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>You're invited to ${data.storeName}</h1>
+    </div>
+    <div class="content">
+      <p>Hello,</p>
+      <p>${data.invitedBy || "The store owner"} has invited you to help run <strong>${data.storeName}</strong> as <strong>${data.roleLabel}</strong>.</p>
+      <p style="text-align: center; margin: 30px 0;">
+        <a class="button" href="${data.inviteUrl}">Accept invitation</a>
+      </p>
+      <p>You'll choose a password for your own login. This link expires on ${data.expiresAt.toDateString()}.</p>
+      <p>If you weren't expecting this invitation, you can ignore this email.</p>
+    </div>
+    <div class="footer">
+      <p>This email was sent by StoreBuilder BD</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: data.email,
+      subject: `You're invited to ${data.storeName}`,
+      html,
+    });
+
+    console.log(`Staff invite email sent to ${data.email}`);
+    return true;
+  } catch (error) {
+    console.error("Failed to send staff invite email:", error);
+    return false;
+  }
+}
+
+interface AccountEmailData {
+  email: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export async function sendPasswordResetEmail(data: AccountEmailData): Promise<boolean> {
+  if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
+    console.log("SMTP not configured, skipping password reset email");
+    return false;
+  }
+
+  try {
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #3b82f6; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+    .button { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Reset your password</h1>
+    </div>
+    <div class="content">
+      <p>Hello,</p>
+      <p>We received a request to reset the password for <strong>${data.email}</strong>.</p>
+      <p style="text-align: center; margin: 30px 0;">
+        <a class="button" href="${data.url}">Choose a new password</a>
+      </p>
+      <p>This link can be used once and expires at ${data.expiresAt.toUTCString()}.</p>
+      <p>If you didn't ask to reset your password, you can ignore this email - your password won't change.</p>
+    </div>
+    <div class="footer">
+      <p>This email was sent by StoreBuilder BD</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: data.email,
+      subject: "Reset your StoreBuilder BD password",
+      html,
+    });
+
+    console.log(`Password reset email sent to ${data.email}`);
+    return true;
+  } catch (error) {
+    console.error("Failed to send password reset email:", error);
+    return false;
+  }
+}
+
+export async function sendEmailVerificationEmail(data: AccountEmailData): Promise<boolean> {
+  if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
+    console.log("SMTP not configured, skipping email verification");
+    return false;
+  }
+
+  try {
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #3b82f6; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+    .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+    .button { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600; }
+    .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Confirm your email</h1>
+    </div>
+    <div class="content">
+      <p>Hello,</p>
+      <p>Thanks for creating your store. Please confirm that <strong>${data.email}</strong> is your email address so we can reach you about orders and your account.</p>
+      <p style="text-align: center; margin: 30px 0;">
+        <a class="button" href="${data.url}">Verify email</a>
+      </p>
+      <p>This link expires on ${data.expiresAt.toDateString()}.</p>
+    </div>
+    <div class="footer">
+      <p>This email was sent by StoreBuilder BD</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: data.email,
+      subject: "Confirm your email for StoreBuilder BD",
+      html,
+    });
+
+    console.log(`Verification email sent to ${data.email}`);
+    return true;
+  } catch (error) {
+    console.error("Failed to send verification email:", error);
+    return false;
+  }
+}
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+// fraud.ts pulls in the database module, which wants a URL. Nothing here
+// connects to it.
+process.env.DATABASE_URL ??= "postgres://localhost/unused";
+const { getAddressProblem, getNameProblem } = await import("./fraud");
+
+test("real addresses aren't flagged", () => {
+  const addresses = [
+    "House 12, Road 5, Dhanmondi, Dhaka 1209",
+    "Flat 4B, Liberty Tower, Agrabad, Chattogram",
+    "Property Plaza, 45 Kazi Nazrul Islam Avenue, Karwan Bazar, Dhaka",
+    "Poverty Alleviation Office, Zindabazar, Sylhet",
+    "Village Shyampur, Upazila Mymensingh Sadar, Mymensingh",
+    "Sector 7, Road 18, Uttara, Dhaka 1230",
+    "Holding 221, Sher-e-Bangla Road, Khulna",
+    "বাড়ি ১২, রোড ৫, ধানমন্ডি, ঢাকা",
+    "গ্রাম: শ্যামপুর, উপজেলা: সদর, জেলা: ময়মনসিংহ",
+  ];
+  for (const address of addresses) {
+    assert.equal(getAddressProblem(address), null, address);
+  }
+});
+
+test("keyboard mashing is flagged", () => {
+  for (const address of ["qwerty road, dhaka", "House 5, asdfgh lane", "zxcvbnm, Mirpur 10", "Road hjkl, Banani"]) {
+    assert.equal(getAddressProblem(address), "Address looks like random typing", address);
+  }
+});
+
+test("real names aren't flagged", () => {
+  for (const name of ["Md. Rahim Uddin", "Liberty Akter", "Fatema Tuz Zohora", "মোঃ করিম হোসেন"]) {
+    assert.equal(getNameProblem(name), null, name);
+  }
+});
+
+test("names typed at random are flagged", () => {
+  for (const name of ["qwert", "asdfg hjkl", "zxcvb"]) {
+    assert.equal(getNameProblem(name), "Name looks like random typing", name);
+  }
+});
@@ -0,0 +1,121 @@
+import { storage } from "./storage";
+import { getOrderNumber, normalizeBdPhone, type InsertOrder, type InsertOrderItem } from "@shared/schema";
+
+type RiskLine = Pick<InsertOrderItem, "productId" | "productName">;
+
+export interface RiskAssessment {
+  score: number; // 0-100
+  reasons: string[];
+}
+
+// Points per signal; an order's score is their sum, capped at 100
+const WEIGHTS = {
+  duplicate: 50,
+  velocity: 25,
+  cancelHistory: 40,
+  address: 30,
+  name: 15,
+};
+
+const VELOCITY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const VELOCITY_LIMIT = 3; // Earlier orders in the window before it counts
+const MIN_SETTLED_FOR_HISTORY = 2; // Delivered + cancelled orders needed to judge a phone
+const CANCEL_RATE_LIMIT = 0.5;
+
+const KEYBOARD_ROWS = ["qwertyuiop", "asdfghjkl", "zxcvbnm"];
+
+function getKeyboardRuns(length: number): string[] {
+  return KEYBOARD_ROWS.flatMap((row) =>
+    Array.from({ length: Math.max(row.length - length + 1, 0) }, (_, start) => row.slice(start, start + length))
+  );
+}
+
+// Keys next to each other along a row. Ordinary words hold four-key runs
+// ("prop-erty", "lib-erty"), so those only count without a vowel; five or
+// more count either way.
+const KEYBOARD_RUN = new RegExp(
+  [...getKeyboardRuns(5), ...getKeyboardRuns(4).filter((run) => !/[aeiou]/.test(run))].join("|"),
+  "i"
+);
+// Latin or Bangla letters; addresses are written in either
+const LETTER = /[A-Za-z\u0980-\u09FF]/g;
+// Long Latin runs with no vowels are rarely real words or place names
+const NO_VOWELS = /[b-df-hj-np-tv-xz]{6,}/i;
+
+// Why the address looks fake, or null. Works on Bangla as well as Latin
+// script - only the keyboard and vowel checks are Latin-specific.
+export function getAddressProblem(address: string): string | null {
+  const text = address.trim();
+  const letters = text.match(LETTER) || [];
+  if (text.length < 10 || letters.length < 5) return "Address is too short to deliver to";
+  if (/(.)\1{3,}/.test(text)) return "Address has repeated characters";
+  if (new Set(letters.map((l) => l.toLowerCase())).size < 5) return "Address uses very few different letters";
+  if (KEYBOARD_RUN.test(text) || NO_VOWELS.test(text)) return "Address looks like random typing";
+  return null;
+}
+
+export function getNameProblem(name: string): string | null {
+  const text = name.trim();
+  if (/\d/.test(text)) return "Name contains numbers";
+  if ((text.match(LETTER) || []).length < 2) return "Name is too short";
+  if (/(.)\1{2,}/.test(text) || KEYBOARD_RUN.test(text) || NO_VOWELS.test(text)) {
+    return "Name looks like random typing";
+  }
+  return null;
+}
+
+// Scores a checkout before the order is created, from the customer's past
+// orders with this store and the details they typed in
+export async function assessOrderRisk(
+  order: Pick<InsertOrder, "tenantId" | "phone" | "customerName" | "address">,
+  lines: RiskLine[],
+  duplicateWindowMinutes: number,
+  now = new Date()
+): Promise<RiskAssessment> {
+  let score = 0;
+  const reasons: string[] = [];
+  const flag = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  const phone = normalizeBdPhone(order.phone);
+  const customer = phone ? await storage.getCustomerByPhone(order.tenantId, phone) : undefined;
+  const history = customer ? await storage.getOrdersByCustomer(customer.id) : [];
+
+  // Same product again within the window, e.g. a double-submitted form or
+  // someone placing orders they never mean to receive
+  const windowStart = now.getTime() - duplicateWindowMinutes * 60 * 1000;
+  const productIds = new Set(lines.map((line) => line.productId).filter(Boolean));
+  const duplicate = history.find(
+    (past) =>
+      past.status !== "cancelled" &&
+      past.createdAt.getTime() >= windowStart &&
+      past.items.some((item) => item.productId && productIds.has(item.productId))
+  );
+  if (duplicate) {
+    const minutes = Math.max(1, Math.round((now.getTime() - duplicate.createdAt.getTime()) / 60000));
+    flag(WEIGHTS.duplicate, `Same phone ordered the same product ${minutes} min ago (#${getOrderNumber(duplicate)})`);
+  }
+
+  const recent = history.filter((past) => past.createdAt.getTime() >= now.getTime() - VELOCITY_WINDOW_MS);
+  if (recent.length >= VELOCITY_LIMIT) {
+    flag(WEIGHTS.velocity, `${recent.length} other orders from this phone in the last 24 hours`);
+  }
+
+  // Courier returns land as cancelled, so this covers refused parcels too
+  const delivered = history.filter((past) => past.status === "delivered").length;
+  const cancelled = history.filter((past) => past.status === "cancelled").length;
+  const settled = delivered + cancelled;
+  if (settled >= MIN_SETTLED_FOR_HISTORY && cancelled / settled >= CANCEL_RATE_LIMIT) {
+    flag(WEIGHTS.cancelHistory, `${cancelled} of ${settled} past orders from this phone were cancelled or returned`);
+  }
+
+  const addressProblem = getAddressProblem(order.address);
+  if (addressProblem) flag(WEIGHTS.address, addressProblem);
+
+  const nameProblem = getNameProblem(order.customerName);
+  if (nameProblem) flag(WEIGHTS.name, nameProblem);
+
+  return { score: Math.min(100, score), reasons };
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startDomainRecheckJob } from "./domain-verification";
+import { startWebhookRetryJob } from "./webhooks";
 import { createServer } from "http";
 
 const app = express();
@@ -61,6 +63,8 @@ app.use((req, res, next) => {
 
 (async () => {
   await registerRoutes(httpServer, app);
+  startDomainRecheckJob();
+  startWebhookRetryJob();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
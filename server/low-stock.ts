@@ -0,0 +1,91 @@
+import { storage } from "./storage";
+import { sendLowStockEmail } from "./email";
+import { sendLowStockWebhook } from "./webhooks";
+import {
+  getAvailableStock,
+  getLowStockThreshold,
+  LOW_STOCK_THRESHOLD,
+  type InsertOrderItem,
+  type LowStockItem,
+  type StoreSettings,
+  type Tenant,
+} from "@shared/schema";
+
+// Goes out as the stock.low webhook and, unless the store has turned it off,
+// an email to its contact address
+async function notifyLowStock(tenant: Tenant, settings: StoreSettings | undefined, items: LowStockItem[]) {
+  if (items.length === 0) return;
+  sendLowStockWebhook(tenant.id, items);
+  if (settings?.contactEmail && settings.lowStockEmail) {
+    await sendLowStockEmail({ tenantEmail: settings.contactEmail, tenantName: tenant.name, items });
+  }
+}
+
+// Variants and tracked products this sale took to their low-stock threshold
+// or below, so each is reported once on the way down rather than on every
+// later sale
+export async function sendLowStockAlerts(
+  tenant: Tenant,
+  settings: StoreSettings | undefined,
+  lines: Pick<InsertOrderItem, "productId" | "variantId" | "quantity">[]
+): Promise<void> {
+  try {
+    const items: LowStockItem[] = [];
+    for (const line of lines) {
+      const product = line.productId ? await storage.getProduct(line.productId) : undefined;
+      const variant = line.variantId ? await storage.getProductVariant(line.variantId) : undefined;
+      if (!product || (line.variantId && !variant)) continue;
+      const stock = getAvailableStock(product, variant);
+      const threshold = getLowStockThreshold(product, settings);
+      if (stock === null || stock > threshold || stock + line.quantity <= threshold) continue;
+      items.push({
+        productId: product.id,
+        productName: product.name,
+        variantId: variant?.id ?? null,
+        variantName: variant?.name ?? null,
+        sku: variant?.sku ?? null,
+        stock,
+        threshold,
+      });
+    }
+    await notifyLowStock(tenant, settings, items);
+  } catch (error) {
+    console.error("Low stock alert error:", error);
+  }
+}
+
+function getLowStockKey(item: LowStockItem): string {
+  return item.variantId ?? item.productId;
+}
+
+async function getLowStock(tenantId: string, settings: StoreSettings | undefined): Promise<LowStockItem[]> {
+  return storage.getLowStockItems(tenantId, settings?.lowStockThreshold ?? LOW_STOCK_THRESHOLD);
+}
+
+// Makes a change that can move stock, thresholds or stock tracking (an edit,
+// an import, reinstating an order...) and then alerts about whatever it took
+// to its threshold. What was already low beforehand isn't reported again.
+export async function withLowStockAlerts<T>(tenantId: string, change: () => Promise<T>): Promise<T> {
+  let before: Set<string> | undefined;
+  try {
+    const settings = await storage.getStoreSettings(tenantId);
+    before = new Set((await getLowStock(tenantId, settings)).map(getLowStockKey));
+  } catch (error) {
+    console.error("Low stock alert error:", error);
+  }
+
+  const result = await change();
+  if (before) sendNewLowStockAlerts(tenantId, before);
+  return result;
+}
+
+async function sendNewLowStockAlerts(tenantId: string, before: Set<string>): Promise<void> {
+  try {
+    const [tenant, settings] = await Promise.all([storage.getTenant(tenantId), storage.getStoreSettings(tenantId)]);
+    if (!tenant) return;
+    const items = (await getLowStock(tenantId, settings)).filter((item) => !before.has(getLowStockKey(item)));
+    await notifyLowStock(tenant, settings, items);
+  } catch (error) {
+    console.error("Low stock alert error:", error);
+  }
+}
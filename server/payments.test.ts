@@ -0,0 +1,305 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { constants, generateKeyPairSync, privateDecrypt, publicEncrypt, sign, verify, type KeyObject } from "crypto";
+import { createBkashProvider } from "./payments/bkash";
+import { createNagadProvider } from "./payments/nagad";
+import { createSslcommerzProvider } from "./payments/sslcommerz";
+import { PaymentError, type PaymentRequest } from "./payments/types";
+
+type GatewayReply = { status?: number; body: unknown };
+type Handler = (url: URL, init: RequestInit) => GatewayReply | Promise<GatewayReply>;
+
+// Answers the adapters' requests from `routes`, keyed by path, in place of the
+// gateway. Anything unexpected fails the test.
+function stubGateway(t: TestContext, routes: Record<string, Handler>) {
+  const calls: { url: URL; init: RequestInit }[] = [];
+  t.mock.method(globalThis, "fetch", async (input: string | URL, init: RequestInit = {}) => {
+    const url = new URL(input);
+    calls.push({ url, init });
+    const handler = routes[url.pathname];
+    if (!handler) throw new Error(`Unexpected request to ${url}`);
+    const { status = 200, body } = await handler(url, init);
+    return new Response(typeof body === "string" ? body : JSON.stringify(body), { status });
+  });
+  return calls;
+}
+
+function unreachableGateway(t: TestContext) {
+  t.mock.method(globalThis, "fetch", async () => {
+    throw new TypeError("fetch failed");
+  });
+}
+
+function jsonBody(init: RequestInit): any {
+  return JSON.parse(init.body as string);
+}
+
+const paymentRequest: PaymentRequest = {
+  reference: "ORD-1001-a1",
+  invoice: "ORD-1001",
+  amount: 1250,
+  customerName: "Rahim Uddin",
+  customerPhone: "01712345678",
+  customerAddress: "House 12, Road 5, Dhanmondi, Dhaka",
+  description: "Order ORD-1001",
+  callbackUrl: "https://shop.example.com/api/payments/nagad/callback",
+  ipnUrl: "https://shop.example.com/api/payments/nagad/ipn",
+};
+
+// ==================== bKash ====================
+
+// Grant tokens are cached per app key, so each test gets its own
+let bkashAccount = 0;
+function bkashProvider() {
+  bkashAccount += 1;
+  return createBkashProvider({
+    appKey: `app-key-${bkashAccount}`,
+    appSecret: "app-secret",
+    username: "merchant",
+    password: "merchant-password",
+  });
+}
+
+const grantToken: Handler = () => ({ body: { id_token: "grant-token", expires_in: 3600 } });
+
+test("bKash: a successful callback is executed and paid", async (t) => {
+  const calls = stubGateway(t, {
+    "/v1.2.0-beta/tokenized/checkout/token/grant": grantToken,
+    "/v1.2.0-beta/tokenized/checkout/execute": (_url, init) => {
+      assert.equal(jsonBody(init).paymentID, "TR0011abc");
+      return { body: { paymentID: "TR0011abc", trxID: "BK123", amount: "1250.00", transactionStatus: "Completed" } };
+    },
+  });
+
+  const result = await bkashProvider().verifyPayment("TR0011abc", { paymentID: "TR0011abc", status: "success" });
+  assert.deepEqual(result, { status: "paid", transactionId: "BK123", amount: 1250 });
+  assert.equal((calls[1].init.headers as Record<string, string>).Authorization, "grant-token");
+});
+
+test("bKash: a repeated callback falls back to the status query", async (t) => {
+  stubGateway(t, {
+    "/v1.2.0-beta/tokenized/checkout/token/grant": grantToken,
+    "/v1.2.0-beta/tokenized/checkout/execute": () => ({ body: { statusCode: "2117", statusMessage: "Duplicate" } }),
+    "/v1.2.0-beta/tokenized/checkout/payment/status": () => ({
+      body: { paymentID: "TR0011abc", trxID: "BK123", amount: "1250.00", transactionStatus: "Completed" },
+    }),
+  });
+
+  const result = await bkashProvider().verifyPayment("TR0011abc", { paymentID: "TR0011abc", status: "success" });
+  assert.equal(result.status, "paid");
+});
+
+test("bKash: forged callbacks are ignored without asking bKash", async (t) => {
+  const calls = stubGateway(t, {});
+  const provider = bkashProvider();
+
+  const otherPayment = await provider.verifyPayment("TR0011abc", { paymentID: "TR0011xyz", status: "success" });
+  assert.equal(otherPayment.status, "ignored");
+  const failure = await provider.verifyPayment("TR0011abc", { paymentID: "TR0011abc", status: "failure" });
+  assert.deepEqual(failure, { status: "ignored", message: "Unverified failure callback" });
+  assert.equal(calls.length, 0);
+});
+
+test("bKash: a success bKash doesn't confirm is failed", async (t) => {
+  stubGateway(t, {
+    "/v1.2.0-beta/tokenized/checkout/token/grant": grantToken,
+    "/v1.2.0-beta/tokenized/checkout/execute": () => ({
+      body: { statusCode: "2056", statusMessage: "Invalid Payment State" },
+    }),
+    "/v1.2.0-beta/tokenized/checkout/payment/status": () => ({
+      body: { transactionStatus: "Initiated", statusMessage: "Payment not completed yet" },
+    }),
+  });
+
+  const result = await bkashProvider().verifyPayment("TR0011abc", { paymentID: "TR0011abc", status: "success" });
+  assert.deepEqual(result, { status: "failed", message: "Payment not completed yet" });
+});
+
+test("bKash: a failing gateway surfaces as PaymentError", async (t) => {
+  stubGateway(t, {
+    "/v1.2.0-beta/tokenized/checkout/token/grant": () => ({ status: 503, body: "<html>Service Unavailable</html>" }),
+  });
+  await assert.rejects(
+    bkashProvider().verifyPayment("TR0011abc", { paymentID: "TR0011abc", status: "success" }),
+    (error) => error instanceof PaymentError && error.provider === "bkash" && error.status === 503
+  );
+});
+
+// ==================== Nagad ====================
+
+// Nagad's key pair and the merchant's, exported the way Nagad hands them
+// out: bare base64 DER
+function rsaKeyPair() {
+  return generateKeyPairSync("rsa", { modulusLength: 2048 });
+}
+const nagadKeys = rsaKeyPair();
+const merchantKeys = rsaKeyPair();
+const forgerKeys = rsaKeyPair();
+
+function nagadProvider() {
+  return createNagadProvider({
+    merchantId: "683002007104225",
+    merchantNumber: "01711111111",
+    pgPublicKey: nagadKeys.publicKey.export({ type: "spki", format: "der" }).toString("base64"),
+    merchantPrivateKey: merchantKeys.privateKey.export({ type: "pkcs8", format: "der" }).toString("base64"),
+  });
+}
+
+// What Nagad does with a request: decrypt the payload and check the
+// merchant's signature on it. Node won't PKCS#1-decrypt, so unpad by hand.
+function openRequest(body: { sensitiveData: string; signature: string }): Record<string, string> {
+  const padded = privateDecrypt(
+    { key: nagadKeys.privateKey, padding: constants.RSA_NO_PADDING },
+    Buffer.from(body.sensitiveData, "base64")
+  );
+  const json = padded.subarray(padded.indexOf(0, 2) + 1);
+  assert.ok(verify("sha256", json, merchantKeys.publicKey, Buffer.from(body.signature, "base64")));
+  return JSON.parse(json.toString("utf8"));
+}
+
+function sealResponse(payload: unknown, signingKey: KeyObject = nagadKeys.privateKey) {
+  const json = Buffer.from(JSON.stringify(payload));
+  return {
+    sensitiveData: publicEncrypt(
+      { key: merchantKeys.publicKey, padding: constants.RSA_PKCS1_PADDING },
+      json
+    ).toString("base64"),
+    signature: sign("sha256", json, signingKey).toString("base64"),
+  };
+}
+
+const INITIALIZE_PATH = `/api/dfs/check-out/initialize/683002007104225/${paymentRequest.reference}`;
+
+test("Nagad: a signed session is completed and redirected to", async (t) => {
+  let challenge = "";
+  stubGateway(t, {
+    [INITIALIZE_PATH]: (_url, init) => {
+      const payload = openRequest(jsonBody(init));
+      assert.equal(payload.orderId, paymentRequest.reference);
+      challenge = payload.challenge;
+      return { body: sealResponse({ paymentReferenceId: "NG-REF-1", challenge }) };
+    },
+    "/api/dfs/check-out/complete/NG-REF-1": (_url, init) => {
+      const payload = openRequest(jsonBody(init));
+      assert.equal(payload.amount, "1250.00");
+      assert.equal(payload.challenge, challenge);
+      return { body: { status: "Success", callBackUrl: "https://sandbox.mynagad.com/pay/NG-REF-1" } };
+    },
+  });
+
+  const session = await nagadProvider().createPayment(paymentRequest);
+  assert.deepEqual(session, { paymentReference: "NG-REF-1", redirectUrl: "https://sandbox.mynagad.com/pay/NG-REF-1" });
+});
+
+test("Nagad: a response not signed by Nagad is rejected", async (t) => {
+  stubGateway(t, {
+    [INITIALIZE_PATH]: () => ({
+      body: sealResponse({ paymentReferenceId: "NG-REF-1", challenge: "abc" }, forgerKeys.privateKey),
+    }),
+  });
+  await assert.rejects(nagadProvider().createPayment(paymentRequest), {
+    name: "PaymentError",
+    message: "Nagad's response signature didn't match - check the Nagad public key",
+  });
+});
+
+test("Nagad: a response without PKCS#1 padding is rejected", async (t) => {
+  // A raw block with no 0x00 0x02 header, as from a key mix-up
+  const block = Buffer.alloc(256, 0x41);
+  block[0] = 0;
+  const encrypted = publicEncrypt({ key: merchantKeys.publicKey, padding: constants.RSA_NO_PADDING }, block);
+  stubGateway(t, {
+    [INITIALIZE_PATH]: () => ({
+      body: {
+        sensitiveData: encrypted.toString("base64"),
+        signature: sign("sha256", block, nagadKeys.privateKey).toString("base64"),
+      },
+    }),
+  });
+  await assert.rejects(nagadProvider().createPayment(paymentRequest), {
+    name: "PaymentError",
+    message: "Could not read Nagad's response - check the merchant private key",
+  });
+});
+
+test("Nagad: callbacks are confirmed with the verify API", async (t) => {
+  stubGateway(t, {
+    "/api/dfs/verify/payment/NG-REF-1": () => ({
+      body: { status: "Success", amount: "1250", orderId: paymentRequest.reference, issuerPaymentRefNo: "NG123" },
+    }),
+    "/api/dfs/verify/payment/NG-REF-2": () => ({ body: { status: "Aborted" } }),
+  });
+  const provider = nagadProvider();
+
+  const paid = await provider.verifyPayment("NG-REF-1", { payment_ref_id: "NG-REF-1", status: "Success" });
+  assert.deepEqual(paid, { status: "paid", transactionId: "NG123", amount: 1250 });
+  // The callback's own status is never trusted
+  const aborted = await provider.verifyPayment("NG-REF-2", { payment_ref_id: "NG-REF-2", status: "Success" });
+  assert.deepEqual(aborted, { status: "failed", message: "Payment aborted" });
+  const forged = await provider.verifyPayment("NG-REF-1", { payment_ref_id: "NG-REF-9", status: "Success" });
+  assert.equal(forged.status, "ignored");
+});
+
+test("Nagad: an unreachable gateway surfaces as PaymentError", async (t) => {
+  unreachableGateway(t);
+  await assert.rejects(nagadProvider().verifyPayment("NG-REF-1", { payment_ref_id: "NG-REF-1" }), {
+    name: "PaymentError",
+    message: "Could not reach nagad: fetch failed",
+  });
+});
+
+// ==================== SSLCommerz ====================
+
+const sslcommerz = createSslcommerzProvider({ storeId: "teststore", storePassword: "store-password" });
+const VALIDATION_PATH = "/validator/api/validationserverAPI.php";
+
+test("SSLCommerz: a callback's val_id is validated before paying", async (t) => {
+  const calls = stubGateway(t, {
+    [VALIDATION_PATH]: (url) => {
+      assert.equal(url.searchParams.get("val_id"), "VAL-1");
+      assert.equal(url.searchParams.get("store_id"), "teststore");
+      return { body: { status: "VALID", tran_id: "ORD-1001-a1", bank_tran_id: "SSL123", amount: "1250.00" } };
+    },
+  });
+
+  const result = await sslcommerz.verifyPayment("ORD-1001-a1", {
+    tran_id: "ORD-1001-a1",
+    val_id: "VAL-1",
+    status: "VALID",
+  });
+  assert.deepEqual(result, { status: "paid", transactionId: "SSL123", amount: 1250 });
+  assert.equal(calls.length, 1);
+});
+
+test("SSLCommerz: callbacks without a usable val_id are ignored", async (t) => {
+  const calls = stubGateway(t, {
+    [VALIDATION_PATH]: () => ({ body: { status: "VALID", tran_id: "ORD-2002-b2", bank_tran_id: "SSL999" } }),
+  });
+
+  const noValId = await sslcommerz.verifyPayment("ORD-1001-a1", { tran_id: "ORD-1001-a1", status: "VALID" });
+  assert.deepEqual(noValId, { status: "ignored", message: "Unverified valid callback" });
+  assert.equal(calls.length, 0);
+
+  // A genuine val_id from some other (cheaper) payment
+  const borrowed = await sslcommerz.verifyPayment("ORD-1001-a1", { tran_id: "ORD-1001-a1", val_id: "VAL-2" });
+  assert.deepEqual(borrowed, { status: "ignored", message: "Validated payment is for another transaction" });
+});
+
+test("SSLCommerz: a val_id that doesn't validate is failed", async (t) => {
+  stubGateway(t, {
+    [VALIDATION_PATH]: () => ({ body: { status: "INVALID_TRANSACTION", tran_id: "ORD-1001-a1" } }),
+  });
+  const result = await sslcommerz.verifyPayment("ORD-1001-a1", { tran_id: "ORD-1001-a1", val_id: "VAL-3" });
+  assert.deepEqual(result, { status: "failed", message: "Validation returned INVALID_TRANSACTION" });
+});
+
+test("SSLCommerz: a failing gateway surfaces as PaymentError", async (t) => {
+  stubGateway(t, {
+    [VALIDATION_PATH]: () => ({ status: 500, body: { failedreason: "Store credential error" } }),
+  });
+  await assert.rejects(sslcommerz.verifyPayment("ORD-1001-a1", { tran_id: "ORD-1001-a1", val_id: "VAL-4" }), {
+    name: "PaymentError",
+    message: "sslcommerz rejected the request: Store credential error",
+    status: 500,
+  });
+});
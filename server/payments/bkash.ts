@@ -0,0 +1,113 @@
+import { paymentRequest } from "./http";
+import { PaymentError, type PaymentProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://tokenized.pay.bka.sh/v1.2.0-beta";
+
+// Tokenized checkout without saving the customer's wallet
+const CHECKOUT_MODE = "0011";
+
+interface BkashTokenResponse {
+  id_token?: string;
+  expires_in?: number; // seconds
+  statusCode?: string;
+  statusMessage?: string;
+}
+
+interface BkashPaymentResponse {
+  paymentID?: string;
+  bkashURL?: string;
+  trxID?: string;
+  amount?: string;
+  transactionStatus?: string; // "Completed" once the money has moved
+  statusCode?: string; // "0000" on success
+  statusMessage?: string;
+  errorMessage?: string;
+}
+
+// Grant tokens are cached per merchant account until shortly before expiry
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+
+export function createBkashProvider(credentials: Record<string, string>): PaymentProvider {
+  const baseUrl = (process.env.BKASH_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, "");
+  const cacheKey = `${baseUrl}|${credentials.appKey}|${credentials.username}`;
+
+  async function getToken(): Promise<string> {
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const data = await paymentRequest<BkashTokenResponse>("bkash", `${baseUrl}/tokenized/checkout/token/grant`, {
+      headers: { username: credentials.username, password: credentials.password },
+      body: { app_key: credentials.appKey, app_secret: credentials.appSecret },
+    });
+    if (!data.id_token) {
+      throw new PaymentError("bkash", `bkash rejected the credentials: ${data.statusMessage || "unknown error"}`);
+    }
+    tokenCache.set(cacheKey, {
+      token: data.id_token,
+      expiresAt: Date.now() + Math.max((data.expires_in || 3600) - 60, 0) * 1000,
+    });
+    return data.id_token;
+  }
+
+  async function call(path: string, body: Record<string, unknown>): Promise<BkashPaymentResponse> {
+    const token = await getToken();
+    return paymentRequest<BkashPaymentResponse>("bkash", `${baseUrl}${path}`, {
+      headers: { Authorization: token, "X-APP-Key": credentials.appKey },
+      body,
+    });
+  }
+
+  return {
+    name: "bkash",
+    async createPayment(request) {
+      const data = await call("/tokenized/checkout/create", {
+        mode: CHECKOUT_MODE,
+        payerReference: request.customerPhone,
+        callbackURL: request.callbackUrl,
+        amount: request.amount.toFixed(2),
+        currency: "BDT",
+        intent: "sale",
+        merchantInvoiceNumber: request.reference,
+      });
+
+      if (!data.paymentID || !data.bkashURL) {
+        throw new PaymentError(
+          "bkash",
+          `bkash rejected the request: ${data.statusMessage || data.errorMessage || "unknown error"}`
+        );
+      }
+      return { paymentReference: data.paymentID, redirectUrl: data.bkashURL };
+    },
+
+    // bKash sends the customer back with ?paymentID=...&status=success|failure|cancel.
+    // A successful return still has to be executed before money moves. The
+    // status parameter is only a hint, so failure and cancel returns are
+    // ignored: anyone could send one, and the payment stays open for a retry.
+    async verifyPayment(paymentReference, params) {
+      if (params.paymentID !== paymentReference) {
+        return { status: "ignored", message: "Payment reference mismatch" };
+      }
+      if (params.status !== "success") {
+        return { status: "ignored", message: `Unverified ${params.status || "failure"} callback` };
+      }
+
+      let data = await call("/tokenized/checkout/execute", { paymentID: paymentReference });
+      if (data.transactionStatus !== "Completed") {
+        // Execute fails if it already ran (e.g. a repeated callback); the
+        // status query is authoritative either way
+        data = await call("/tokenized/checkout/payment/status", { paymentID: paymentReference });
+      }
+
+      if (data.transactionStatus !== "Completed") {
+        return { status: "failed", message: data.statusMessage || data.errorMessage || "Payment not completed" };
+      }
+      return {
+        status: "paid",
+        transactionId: data.trxID,
+        amount: data.amount !== undefined ? parseFloat(data.amount) : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { PaymentProviderName } from "@shared/schema";
+import { PaymentError } from "./types";
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Request helper shared by the adapters. JSON bodies by default; pass `form`
+// for gateways that want application/x-www-form-urlencoded. Network failures,
+// timeouts and non-2xx responses all surface as PaymentError.
+export async function paymentRequest<T>(
+  provider: PaymentProviderName,
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: unknown; form?: Record<string, string> }
+): Promise<T> {
+  const method = init.method || (init.body !== undefined || init.form ? "POST" : "GET");
+  const contentType = init.form ? "application/x-www-form-urlencoded" : "application/json";
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method,
+      headers: { "Content-Type": contentType, Accept: "application/json", ...init.headers },
+      body: init.form
+        ? new URLSearchParams(init.form).toString()
+        : init.body !== undefined
+        ? JSON.stringify(init.body)
+        : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "request failed";
+    throw new PaymentError(provider, `Could not reach ${provider}: ${reason}`);
+  }
+
+  const text = await res.text();
+  let data: any = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    // Some error pages come back as HTML - fall through with the raw text
+  }
+
+  if (!res.ok) {
+    const message = data?.message || data?.statusMessage || data?.failedreason || text || res.statusText;
+    throw new PaymentError(provider, `${provider} rejected the request: ${message}`, res.status);
+  }
+  return data as T;
+}
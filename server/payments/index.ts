@@ -0,0 +1,33 @@
+import {
+  paymentCredentialsSchemas,
+  type PaymentProviderName,
+  type StoreSettings,
+} from "@shared/schema";
+import { createBkashProvider } from "./bkash";
+import { createNagadProvider } from "./nagad";
+import { createSslcommerzProvider } from "./sslcommerz";
+import type { PaymentProvider } from "./types";
+
+export { PaymentError } from "./types";
+export type { PaymentProvider, PaymentRequest, PaymentResult, PaymentSession } from "./types";
+
+const factories: Record<PaymentProviderName, (credentials: Record<string, string>) => PaymentProvider> = {
+  bkash: createBkashProvider,
+  nagad: createNagadProvider,
+  sslcommerz: createSslcommerzProvider,
+};
+
+export function createPaymentProvider(name: PaymentProviderName, credentials: Record<string, string>): PaymentProvider {
+  return factories[name](credentials);
+}
+
+// Returns the gateway if the store has connected it, or null if it hasn't or
+// its saved credentials are incomplete.
+export function getPaymentProvider(
+  settings: StoreSettings | undefined,
+  name: PaymentProviderName
+): PaymentProvider | null {
+  const parsed = paymentCredentialsSchemas[name].safeParse(settings?.paymentCredentials?.[name]);
+  if (!parsed.success) return null;
+  return createPaymentProvider(name, parsed.data);
+}
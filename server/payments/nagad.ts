@@ -0,0 +1,199 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  privateDecrypt,
+  publicEncrypt,
+  randomBytes,
+  sign,
+  verify,
+  constants,
+  type KeyObject,
+} from "crypto";
+import { paymentRequest } from "./http";
+import { PaymentError, type PaymentProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.mynagad.com";
+const API_VERSION = "v-0.2.0";
+const CURRENCY_BDT = "050";
+
+interface NagadInitializeResponse {
+  sensitiveData?: string;
+  signature?: string;
+  reason?: string;
+  message?: string;
+}
+
+interface NagadCompleteResponse {
+  status?: string;
+  callBackUrl?: string;
+  reason?: string;
+  message?: string;
+}
+
+interface NagadVerifyResponse {
+  status?: string; // "Success" once paid
+  amount?: string;
+  orderId?: string;
+  issuerPaymentRefNo?: string;
+  message?: string;
+}
+
+// Nagad hands out bare base64 keys; node wants PEM
+function toPem(key: string, type: "PUBLIC KEY" | "PRIVATE KEY"): string {
+  const trimmed = key.trim();
+  if (trimmed.startsWith("-----BEGIN")) return trimmed;
+  const body = trimmed.replace(/\s+/g, "").match(/.{1,64}/g)?.join("\n") || "";
+  return `-----BEGIN ${type}-----\n${body}\n-----END ${type}-----`;
+}
+
+// Nagad encrypts with PKCS#1 v1.5, which node no longer decrypts directly
+// (CVE-2023-46809). We only ever decrypt Nagad's own responses, so there is
+// no padding oracle to protect against: 0x00 0x02 <random non-zero> 0x00 <data>
+function stripPkcs1Padding(block: Buffer): Buffer {
+  const separator = block.indexOf(0, 2);
+  if (block[0] !== 0 || block[1] !== 2 || separator < 10) {
+    throw new Error("Invalid PKCS#1 padding");
+  }
+  return block.subarray(separator + 1);
+}
+
+// yyyyMMddHHmmss in Bangladesh time, as Nagad expects
+function nagadDateTime(date = new Date()): string {
+  const local = new Date(date.getTime() + 6 * 60 * 60 * 1000);
+  return local.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+export function createNagadProvider(credentials: Record<string, string>): PaymentProvider {
+  const baseUrl = (process.env.NAGAD_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  // Parsed on first use so a bad key fails the payment, not the checkout
+  let keys: { pgPublicKey: KeyObject; merchantPrivateKey: KeyObject } | undefined;
+  function getKeys() {
+    if (!keys) {
+      try {
+        keys = {
+          pgPublicKey: createPublicKey(toPem(credentials.pgPublicKey, "PUBLIC KEY")),
+          merchantPrivateKey: createPrivateKey(toPem(credentials.merchantPrivateKey, "PRIVATE KEY")),
+        };
+      } catch {
+        throw new PaymentError("nagad", "Nagad keys are not valid RSA keys");
+      }
+    }
+    return keys;
+  }
+
+  // Every request carries its payload encrypted for Nagad and signed by us
+  function seal(payload: Record<string, string>) {
+    const { pgPublicKey, merchantPrivateKey } = getKeys();
+    const json = JSON.stringify(payload);
+    return {
+      sensitiveData: publicEncrypt(
+        { key: pgPublicKey, padding: constants.RSA_PKCS1_PADDING },
+        Buffer.from(json)
+      ).toString("base64"),
+      signature: sign("sha256", Buffer.from(json), merchantPrivateKey).toString("base64"),
+    };
+  }
+
+  // Responses come back encrypted for us and signed by Nagad. Anything that
+  // decrypts but doesn't carry Nagad's signature is rejected.
+  function unseal<T>(sensitiveData: string, signature: string | undefined): T {
+    const { pgPublicKey, merchantPrivateKey } = getKeys();
+    let json: Buffer;
+    try {
+      const padded = privateDecrypt(
+        { key: merchantPrivateKey, padding: constants.RSA_NO_PADDING },
+        Buffer.from(sensitiveData, "base64")
+      );
+      json = stripPkcs1Padding(padded);
+    } catch {
+      throw new PaymentError("nagad", "Could not read Nagad's response - check the merchant private key");
+    }
+    if (!signature || !verify("sha256", json, pgPublicKey, Buffer.from(signature, "base64"))) {
+      throw new PaymentError("nagad", "Nagad's response signature didn't match - check the Nagad public key");
+    }
+    return JSON.parse(json.toString("utf8")) as T;
+  }
+
+  return {
+    name: "nagad",
+    async createPayment(request) {
+      const headers = {
+        "X-KM-Api-Version": API_VERSION,
+        "X-KM-IP-V4": request.customerIp || "127.0.0.1",
+        "X-KM-Client-Type": "PC_WEB",
+      };
+      const dateTime = nagadDateTime();
+
+      const init = await paymentRequest<NagadInitializeResponse>(
+        "nagad",
+        `${baseUrl}/api/dfs/check-out/initialize/${credentials.merchantId}/${request.reference}?locale=EN`,
+        {
+          headers,
+          body: {
+            accountNumber: credentials.merchantNumber,
+            dateTime,
+            ...seal({
+              merchantId: credentials.merchantId,
+              datetime: dateTime,
+              orderId: request.reference,
+              challenge: randomBytes(20).toString("hex"),
+            }),
+          },
+        }
+      );
+      if (!init.sensitiveData) {
+        throw new PaymentError("nagad", `nagad rejected the request: ${init.reason || init.message || "unknown error"}`);
+      }
+
+      const session = unseal<{ paymentReferenceId: string; challenge: string }>(init.sensitiveData, init.signature);
+
+      const complete = await paymentRequest<NagadCompleteResponse>(
+        "nagad",
+        `${baseUrl}/api/dfs/check-out/complete/${session.paymentReferenceId}`,
+        {
+          headers,
+          body: {
+            ...seal({
+              merchantId: credentials.merchantId,
+              orderId: request.reference,
+              currencyCode: CURRENCY_BDT,
+              amount: request.amount.toFixed(2),
+              challenge: session.challenge,
+            }),
+            merchantCallbackURL: request.callbackUrl,
+            additionalMerchantInfo: { invoice: request.invoice },
+          },
+        }
+      );
+      if (complete.status !== "Success" || !complete.callBackUrl) {
+        throw new PaymentError(
+          "nagad",
+          `nagad rejected the request: ${complete.reason || complete.message || "unknown error"}`
+        );
+      }
+      return { paymentReference: session.paymentReferenceId, redirectUrl: complete.callBackUrl };
+    },
+
+    // Nagad sends the customer back with ?payment_ref_id=...&status=...
+    async verifyPayment(paymentReference, params) {
+      if (params.payment_ref_id !== paymentReference) {
+        return { status: "ignored", message: "Payment reference mismatch" };
+      }
+
+      const data = await paymentRequest<NagadVerifyResponse>(
+        "nagad",
+        `${baseUrl}/api/dfs/verify/payment/${encodeURIComponent(paymentReference)}`,
+        { method: "GET", headers: { "X-KM-Api-Version": API_VERSION } }
+      );
+      if (data.status !== "Success") {
+        return { status: "failed", message: data.message || `Payment ${(data.status || "failed").toLowerCase()}` };
+      }
+      return {
+        status: "paid",
+        transactionId: data.issuerPaymentRefNo,
+        amount: data.amount !== undefined ? parseFloat(data.amount) : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { paymentRequest } from "./http";
+import { PaymentError, type PaymentProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://securepay.sslcommerz.com";
+
+interface SslcommerzSessionResponse {
+  status?: string; // "SUCCESS" or "FAILED"
+  failedreason?: string;
+  sessionkey?: string;
+  GatewayPageURL?: string;
+}
+
+interface SslcommerzValidationResponse {
+  status?: string; // "VALID" first time, "VALIDATED" on repeat checks
+  tran_id?: string;
+  bank_tran_id?: string;
+  amount?: string;
+  currency?: string;
+}
+
+export function createSslcommerzProvider(credentials: Record<string, string>): PaymentProvider {
+  const baseUrl = (process.env.SSLCOMMERZ_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  return {
+    name: "sslcommerz",
+    async createPayment(request) {
+      const data = await paymentRequest<SslcommerzSessionResponse>("sslcommerz", `${baseUrl}/gwprocess/v4/api.php`, {
+        form: {
+          store_id: credentials.storeId,
+          store_passwd: credentials.storePassword,
+          total_amount: request.amount.toFixed(2),
+          currency: "BDT",
+          tran_id: request.reference,
+          success_url: request.callbackUrl,
+          fail_url: request.callbackUrl,
+          cancel_url: request.callbackUrl,
+          ipn_url: request.ipnUrl,
+          cus_name: request.customerName,
+          // Email is mandatory for SSLCommerz but we don't collect one
+          cus_email: "customer@example.com",
+          cus_phone: request.customerPhone,
+          cus_add1: request.customerAddress,
+          cus_city: "Dhaka",
+          cus_country: "Bangladesh",
+          shipping_method: "NO",
+          product_name: request.description.slice(0, 250),
+          product_category: "general",
+          product_profile: "general",
+          value_a: request.invoice,
+        },
+      });
+
+      if (data.status !== "SUCCESS" || !data.GatewayPageURL) {
+        throw new PaymentError("sslcommerz", `sslcommerz rejected the request: ${data.failedreason || "unknown error"}`);
+      }
+      // Our tran_id is what SSLCommerz echoes back on callbacks and IPNs
+      return { paymentReference: request.reference, redirectUrl: data.GatewayPageURL };
+    },
+
+    // Callbacks and IPNs post tran_id, status and (on success) val_id, which
+    // must be checked with the validation API
+    async verifyPayment(paymentReference, params) {
+      if (params.tran_id !== paymentReference) {
+        return { status: "ignored", message: "Payment reference mismatch" };
+      }
+      // Without a val_id there's nothing to check with SSLCommerz, so a
+      // reported failure can't be told apart from a forged one
+      if (!params.val_id) {
+        return { status: "ignored", message: `Unverified ${(params.status || "failed").toLowerCase()} callback` };
+      }
+
+      const query = new URLSearchParams({
+        val_id: params.val_id,
+        store_id: credentials.storeId,
+        store_passwd: credentials.storePassword,
+        format: "json",
+      });
+      const data = await paymentRequest<SslcommerzValidationResponse>(
+        "sslcommerz",
+        `${baseUrl}/validator/api/validationserverAPI.php?${query}`,
+        { method: "GET" }
+      );
+
+      if (data.tran_id !== paymentReference) {
+        return { status: "ignored", message: "Validated payment is for another transaction" };
+      }
+      if (data.status !== "VALID" && data.status !== "VALIDATED") {
+        return { status: "failed", message: `Validation returned ${data.status || "no status"}` };
+      }
+      return {
+        status: "paid",
+        transactionId: data.bank_tran_id,
+        amount: data.amount !== undefined ? parseFloat(data.amount) : undefined,
+      };
+    },
+  };
+}
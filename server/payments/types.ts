@@ -0,0 +1,43 @@
+import type { PaymentProviderName } from "@shared/schema";
+
+// What we ask a gateway to collect for an order
+export interface PaymentRequest {
+  reference: string; // Unique per attempt; gateways reject reused invoice IDs
+  invoice: string; // Our order number, shown to the customer
+  amount: number;
+  customerName: string;
+  customerPhone: string;
+  customerAddress: string;
+  description: string;
+  callbackUrl: string; // Where the gateway sends the customer back
+  ipnUrl: string; // Server-to-server notification, for gateways that send one
+  customerIp?: string;
+}
+
+export interface PaymentSession {
+  paymentReference: string; // The gateway's ID for this attempt
+  redirectUrl: string; // Gateway page the customer pays on
+}
+
+// "ignored" means the callback couldn't be tied to this payment or confirmed
+// with the gateway. Anyone can send one, so it must leave the order alone.
+export type PaymentResult =
+  | { status: "paid" | "failed"; transactionId?: string; amount?: number; message?: string }
+  | { status: "ignored"; message: string };
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  createPayment(request: PaymentRequest): Promise<PaymentSession>;
+  // Confirms a callback with the gateway itself - callback parameters alone
+  // are never trusted, since anyone can hit the callback URL
+  verifyPayment(paymentReference: string, params: Record<string, string>): Promise<PaymentResult>;
+}
+
+// Thrown when a gateway rejects a request or can't be reached. The message is
+// safe to show to the store owner.
+export class PaymentError extends Error {
+  constructor(public provider: PaymentProviderName, message: string, public status?: number) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
@@ -0,0 +1,378 @@
+import type { Request, Response, NextFunction } from "express";
+import { Readable } from "stream";
+import ExcelJS from "exceljs";
+import multer from "multer";
+import { storage, type ProductImportItem } from "./storage";
+import {
+  PRODUCT_SHEET_COLUMNS,
+  PRODUCT_SHEET_LIST_SEPARATOR,
+  productStatusEnum,
+  type Product,
+  type ProductVariant,
+  type ProductImportMapping,
+  type ProductImportReport,
+  type ProductSheetColumn,
+} from "@shared/schema";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+export type SpreadsheetRow = { number: number; cells: string[] };
+
+const FILE_SIZE_LIMIT = 5 * 1024 * 1024;
+const UTF8_BOM = "\ufeff";
+const SLUG_PATTERN = /^[a-z0-9-]+$/;
+
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: FILE_SIZE_LIMIT } }).single("file");
+
+// Takes the spreadsheet from a multipart "file" field into memory
+export function uploadSpreadsheet(req: Request, res: Response, next: NextFunction) {
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res
+        .status(400)
+        .json({ message: error.code === "LIMIT_FILE_SIZE" ? "The file is larger than 5 MB" : error.message });
+    }
+    if (error) return next(error);
+    if (!req.file) {
+      return res.status(400).json({ message: "Choose a CSV or Excel file to import" });
+    }
+    next();
+  });
+}
+
+// The first sheet's non-blank rows as trimmed text, header row included.
+// Excel files are zip archives, so anything else is read as CSV.
+export async function readSpreadsheet(buffer: Buffer): Promise<SpreadsheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  let sheet: ExcelJS.Worksheet | undefined;
+  if (buffer.subarray(0, 2).toString() === "PK") {
+    await workbook.xlsx.load(buffer);
+    sheet = workbook.worksheets[0];
+  } else {
+    const text = buffer.toString("utf8").replace(UTF8_BOM, "");
+    // Leave values as written; by default dates and numbers are converted
+    sheet = await workbook.csv.read(Readable.from([text]), { map: (value: string) => value });
+  }
+
+  const rows: SpreadsheetRow[] = [];
+  sheet?.eachRow((row, number) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      cells[column - 1] = cell.text.trim();
+    });
+    const filled = Array.from(cells, (cell) => cell ?? "");
+    if (filled.some(Boolean)) rows.push({ number, cells: filled });
+  });
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Matches headers to fields by name, ignoring case, spaces and punctuation
+export function suggestImportMapping(headers: string[]): ProductImportMapping {
+  const mapping: ProductImportMapping = {};
+  for (const [column, label] of Object.entries(PRODUCT_SHEET_COLUMNS) as [ProductSheetColumn, string][]) {
+    const index = headers.findIndex(
+      (header) => normalizeHeader(header) === normalizeHeader(label) || normalizeHeader(header) === normalizeHeader(column)
+    );
+    if (index >= 0) mapping[column] = index;
+  }
+  return mapping;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(PRODUCT_SHEET_LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Accepts "1,200", "৳1200" and the like; null when it isn't a price
+function parsePrice(value: string): string | null {
+  const price = Number(value.replace(/[৳,\s]/g, ""));
+  return value && Number.isFinite(price) && price >= 0 ? price.toFixed(2) : null;
+}
+
+function parseStock(value: string): number | null {
+  const stock = Number(value.replace(/,/g, ""));
+  return value && Number.isInteger(stock) && stock >= 0 ? stock : null;
+}
+
+// Export writes "yes" and "no"; the usual spreadsheet spellings work too
+function parseYesNo(value: string): boolean | null {
+  const normalized = value.toLowerCase();
+  if (["yes", "y", "true", "1"].includes(normalized)) return true;
+  if (["no", "n", "false", "0"].includes(normalized)) return false;
+  return null;
+}
+
+// Uploaded images are stored as paths on this server, so those come back
+// from an export too
+function isImageUrl(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value) || /^\/\S+$/.test(value);
+}
+
+class RowError extends Error {
+  constructor(public row: number, message: string) {
+    super(message);
+  }
+}
+
+// Works out what an import would change without saving anything. Rows are
+// grouped into products by slug; product fields come from a product's first
+// row and each row with variant details adds or updates one variant.
+// Variants are matched by SKU, or by name within their product.
+export async function planProductImport(
+  tenantId: string,
+  rows: SpreadsheetRow[],
+  mapping: ProductImportMapping,
+  productLimit: number
+): Promise<{ items: ProductImportItem[]; report: Omit<ProductImportReport, "dryRun"> }> {
+  const [existingProducts, existingVariants, categories] = await Promise.all([
+    storage.getProductsByTenant(tenantId),
+    storage.getProductVariantsByTenant(tenantId),
+    storage.getCategoriesByTenant(tenantId),
+  ]);
+  const productsBySlug = new Map(existingProducts.map((product) => [product.slug, product]));
+  const variantsBySku = new Map(
+    existingVariants.filter((variant) => variant.sku).map((variant) => [variant.sku!, variant])
+  );
+
+  const groups = new Map<string, SpreadsheetRow[]>();
+  const errors: ProductImportReport["errors"] = [];
+  for (const row of rows) {
+    const slug = row.cells[mapping.slug!]?.toLowerCase() ?? "";
+    if (!SLUG_PATTERN.test(slug)) {
+      errors.push({
+        row: row.number,
+        message: slug
+          ? `Slug "${slug}" can only contain lowercase letters, numbers, and hyphens`
+          : "Slug is required",
+      });
+      continue;
+    }
+    groups.set(slug, [...(groups.get(slug) ?? []), row]);
+  }
+
+  const items: ProductImportItem[] = [];
+  const seenSkus = new Set<string>();
+  let productsCreated = 0;
+  let productsUpdated = 0;
+  let variantsCreated = 0;
+  let variantsUpdated = 0;
+
+  groups.forEach((groupRows, slug) => {
+    const [first] = groupRows;
+    const read = (row: SpreadsheetRow, column: ProductSheetColumn) => {
+      const index = mapping[column];
+      return index === undefined ? undefined : row.cells[index] ?? "";
+    };
+
+    try {
+      const existing = productsBySlug.get(slug);
+      const fields: Partial<Omit<Product, "id" | "tenantId" | "createdAt">> = {};
+
+      const name = read(first, "name");
+      if (name) {
+        if (name.length < 2) throw new RowError(first.number, "Name must be at least 2 characters");
+        fields.name = name;
+      } else if (!existing) {
+        throw new RowError(first.number, `Name is required for new product "${slug}"`);
+      }
+
+      const price = read(first, "price");
+      if (price) {
+        const parsed = parsePrice(price);
+        if (!parsed) throw new RowError(first.number, `Price "${price}" isn't a number`);
+        fields.price = parsed;
+      } else if (!existing) {
+        throw new RowError(first.number, `Price is required for new product "${slug}"`);
+      }
+
+      const status = read(first, "status")?.toLowerCase();
+      if (status) {
+        if (!productStatusEnum.enumValues.includes(status as Product["status"])) {
+          throw new RowError(first.number, `Status must be one of ${productStatusEnum.enumValues.join(", ")}`);
+        }
+        fields.status = status as Product["status"];
+      }
+
+      // Mapped list and text columns replace what's there, even when blank
+      const description = read(first, "description");
+      if (description !== undefined) fields.description = description || null;
+
+      const images = read(first, "images");
+      if (images !== undefined) {
+        const urls = splitList(images);
+        const invalid = urls.find((url) => !isImageUrl(url));
+        if (invalid) throw new RowError(first.number, `"${invalid}" isn't an image URL`);
+        fields.images = urls;
+      }
+
+      const trackStock = read(first, "trackStock");
+      if (trackStock) {
+        const parsed = parseYesNo(trackStock);
+        if (parsed === null) throw new RowError(first.number, `Track stock "${trackStock}" must be yes or no`);
+        fields.trackStock = parsed;
+      }
+
+      const stock = read(first, "stock");
+      if (stock) {
+        const parsed = parseStock(stock);
+        if (parsed === null) throw new RowError(first.number, `Stock "${stock}" must be a whole number of 0 or more`);
+        fields.stock = parsed;
+      }
+
+      // A blank threshold falls back to the store's, like clearing it in the form
+      const lowStockThreshold = read(first, "lowStockThreshold");
+      if (lowStockThreshold !== undefined) {
+        const parsed = lowStockThreshold ? parseStock(lowStockThreshold) : null;
+        if (lowStockThreshold && parsed === null) {
+          throw new RowError(
+            first.number,
+            `Low stock threshold "${lowStockThreshold}" must be a whole number of 0 or more`
+          );
+        }
+        fields.lowStockThreshold = parsed;
+      }
+
+      let categoryIds: string[] | undefined;
+      const categorySlugs = read(first, "categories");
+      if (categorySlugs !== undefined) {
+        categoryIds = splitList(categorySlugs).map((categorySlug) => {
+          const category = categories.find((c) => c.slug === categorySlug.toLowerCase());
+          if (!category) throw new RowError(first.number, `Category "${categorySlug}" not found`);
+          return category.id;
+        });
+      }
+
+      const productVariants = existing ? existingVariants.filter((variant) => variant.productId === existing.id) : [];
+      const variants: ProductImportItem["variants"] = [];
+      for (const row of groupRows) {
+        const variantName = read(row, "variantName");
+        const sku = read(row, "variantSku");
+        const variantPrice = read(row, "variantPrice");
+        const stock = read(row, "variantStock");
+        if (!variantName && !sku && !variantPrice && !stock) continue;
+
+        if (sku) {
+          if (seenSkus.has(sku)) throw new RowError(row.number, `SKU "${sku}" appears more than once`);
+          seenSkus.add(sku);
+        }
+        let match: ProductVariant | undefined = sku ? variantsBySku.get(sku) : undefined;
+        if (match && match.productId !== existing?.id) {
+          const owner = existingProducts.find((product) => product.id === match!.productId);
+          throw new RowError(row.number, `SKU "${sku}" already belongs to "${owner?.name ?? "another product"}"`);
+        }
+        match ??= variantName ? productVariants.find((variant) => variant.name === variantName) : undefined;
+
+        const data: Partial<Omit<ProductVariant, "id" | "productId" | "createdAt">> = {};
+        if (variantName) data.name = variantName;
+        if (sku) data.sku = sku;
+        if (variantPrice) {
+          const parsed = parsePrice(variantPrice);
+          if (!parsed) throw new RowError(row.number, `Variant price "${variantPrice}" isn't a number`);
+          data.price = parsed;
+        }
+        if (stock) {
+          const parsed = parseStock(stock);
+          if (parsed === null) throw new RowError(row.number, `Stock "${stock}" must be a whole number of 0 or more`);
+          data.stock = parsed;
+        }
+
+        if (match) {
+          variants.push({ id: match.id, data });
+          variantsUpdated++;
+        } else {
+          if (!data.name) throw new RowError(row.number, "Variant name is required for a new variant");
+          const fallbackPrice = fields.price ?? existing?.price;
+          variants.push({ data: { ...data, name: data.name, price: data.price ?? fallbackPrice! } });
+          variantsCreated++;
+        }
+      }
+
+      if (existing) {
+        items.push({ id: existing.id, data: fields, categoryIds, variants });
+        productsUpdated++;
+      } else {
+        items.push({
+          data: { ...fields, tenantId, slug, name: fields.name!, price: fields.price! },
+          categoryIds,
+          variants,
+        });
+        productsCreated++;
+      }
+    } catch (error) {
+      if (!(error instanceof RowError)) throw error;
+      errors.push({ row: error.row, message: error.message });
+    }
+  });
+
+  const room = Math.max(productLimit - existingProducts.length, 0);
+  if (productsCreated > room) {
+    errors.push({
+      row: rows[0]?.number ?? 1,
+      message: `This file adds ${productsCreated} new products but your plan has room for ${room} more (limit ${productLimit}). Please upgrade your plan or import fewer products.`,
+    });
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return { items, report: { productsCreated, productsUpdated, variantsCreated, variantsUpdated, errors } };
+}
+
+// One row per variant, or a single row for a product without any. Product
+// fields are only filled on a product's first row, which is where import
+// reads them from.
+export async function writeProductSpreadsheet(tenantId: string, format: SpreadsheetFormat): Promise<Buffer> {
+  const [products, variants, categories, categoryLinks] = await Promise.all([
+    storage.getProductsByTenant(tenantId),
+    storage.getProductVariantsByTenant(tenantId),
+    storage.getCategoriesByTenant(tenantId),
+    storage.getProductCategoryLinks(tenantId),
+  ]);
+  const categorySlugs = new Map(categories.map((category) => [category.id, category.slug]));
+  const separator = ` ${PRODUCT_SHEET_LIST_SEPARATOR} `;
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Products");
+  sheet.addRow(Object.values(PRODUCT_SHEET_COLUMNS));
+  sheet.getRow(1).font = { bold: true };
+
+  for (const product of [...products].reverse()) {
+    const productFields = [
+      product.name,
+      product.description ?? "",
+      Number(product.price),
+      product.status,
+      product.images.join(separator),
+      categoryLinks
+        .filter((link) => link.productId === product.id)
+        .map((link) => categorySlugs.get(link.categoryId))
+        .join(separator),
+      product.trackStock ? "yes" : "no",
+      product.stock,
+      product.lowStockThreshold ?? "",
+    ];
+    const productVariants = variants.filter((variant) => variant.productId === product.id);
+    if (productVariants.length === 0) {
+      sheet.addRow([product.slug, ...productFields]);
+    }
+    productVariants.forEach((variant, index) => {
+      sheet.addRow([
+        product.slug,
+        ...(index === 0 ? productFields : productFields.map(() => "")),
+        variant.name,
+        variant.sku ?? "",
+        Number(variant.price),
+        variant.stock,
+      ]);
+    });
+  }
+
+  if (format === "xlsx") {
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+  // The byte order mark makes Excel read the file as UTF-8, keeping Bangla text intact
+  return Buffer.concat([Buffer.from(UTF8_BOM), Buffer.from(await workbook.csv.writeBuffer())]);
+}
@@ -2,14 +2,140 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import session from "express-session";
 import rateLimit from "express-rate-limit";
-import { storage } from "./storage";
+import { storage, OutOfStockError, DiscountUnavailableError, OrderOnHoldError } from "./storage";
 import { hash, compare } from "bcrypt";
 import { z } from "zod";
-import { registerSchema, loginSchema, checkoutSchema } from "@shared/schema";
+import {
+  registerSchema,
+  loginSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  changePasswordSchema,
+  cartCheckoutSchema,
+  trackOrderSchema,
+  discountFormSchema,
+  discountPreviewSchema,
+  updateCustomerSchema,
+  courierSettingsSchema,
+  smsTemplatesSchema,
+  paymentSettingsSchema,
+  fraudSettingsSchema,
+  inventorySettingsSchema,
+  LOW_STOCK_THRESHOLD,
+  auditLogFiltersSchema,
+  staffInviteSchema,
+  updateStaffMemberSchema,
+  acceptInviteSchema,
+  createApiKeySchema,
+  webhookSchema,
+  categorySchema,
+  collectionSchema,
+  productAssignmentsSchema,
+  productImportMappingSchema,
+  productOptionsSchema,
+  variantBulkUpdateSchema,
+  apiVariantSchema,
+  optionValueMediaSchema,
+  type ProductOptionWithValues,
+  PRODUCT_IMPORT_ROW_LIMIT,
+  type ProductImportReport,
+  hasPermission,
+  getOrderNumber,
+  normalizeBdPhone,
+  getEnabledPaymentProviders,
+  getOnlinePaymentDue,
+  getRiskLevel,
+  COURIER_PROVIDERS,
+  PAYMENT_PROVIDERS,
+  STATUS_PERMISSIONS,
+  orderStatusEnum,
+  TENANT_ROLES,
+  type CheckoutItemInput,
+  type InsertDiscount,
+  type DiscountFormData,
+  type InsertOrderItem,
+  type Order,
+  type OrderWithItems,
+  type StoreSettings,
+  type PublicStoreSettings,
+  type TrackedOrder,
+  type DiscountPreview,
+  courierProviderEnum,
+  paymentProviderEnum,
+  type CourierProviderName,
+  type PaymentProviderName,
+  type TenantPermission,
+  type User,
+  type AuthTokenPurpose,
+  type ProductWithAssignments,
+} from "@shared/schema";
 import pgSession from "connect-pg-simple";
 import { pool } from "./db";
-import { sendNewOrderEmail } from "./email";
+import {
+  sendNewOrderEmail,
+  sendStaffInviteEmail,
+  sendPasswordResetEmail,
+  sendEmailVerificationEmail,
+} from "./email";
+import { sendOrderSms, sendOrderStatusSms } from "./sms";
+import { resolveCheckoutDiscount, DiscountError } from "./discounts";
+import { assessOrderRisk } from "./fraud";
+import { sendLowStockAlerts, withLowStockAlerts } from "./low-stock";
+import {
+  createTwoFactorEnrollment,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  verifyTotpCode,
+  verifyTwoFactorCode,
+} from "./two-factor";
+import { recordAudit, auditLogsToCsv, type AuditEntry } from "./audit";
+import {
+  isCategoryCycle,
+  groupLinks,
+  expandCategoryAncestors,
+  getCollectionProductIds,
+  toPublicCollection,
+} from "./catalog";
+import {
+  uploadSpreadsheet,
+  readSpreadsheet,
+  suggestImportMapping,
+  planProductImport,
+  writeProductSpreadsheet,
+} from "./product-import";
+import {
+  getWebhookUrlError,
+  generateWebhookSecret,
+  redeliverWebhook,
+  sendOrderCreatedWebhook,
+  sendOrderStatusWebhook,
+  sendProductUpdatedWebhook,
+} from "./webhooks";
+import { startUserSession, trackSessionActivity, getPublicSessionId, toActiveSession } from "./sessions";
+import { registerApiV1Routes, generateApiKey } from "./api-v1";
 import { registerObjectStorageRoutes } from "./replit_integrations/object_storage";
+import { resolveCustomDomain, clearCustomDomainCache } from "./custom-domain";
+import {
+  generateVerificationToken,
+  getCnameTarget,
+  getVerificationRecord,
+  verifyDomainMapping,
+} from "./domain-verification";
+import { createHash, randomBytes } from "crypto";
+import {
+  getCourierProvider,
+  buildCourierParcel,
+  parseCourierWebhook,
+  getWebhookSecret,
+  isValidWebhookSecret,
+  getStatusForCourierEvent,
+  CourierError,
+  type CourierProvider,
+} from "./couriers";
+import { getPaymentProvider, PaymentError, type PaymentProvider } from "./payments";
 
 const PgSession = pgSession(session);
 
@@ -29,11 +155,24 @@ const checkoutLimiter = rateLimit({
   legacyHeaders: false,
 });
 
-declare module "express-session" {
-  interface SessionData {
-    userId?: string;
-  }
-}
+// Stops phone numbers being guessed against a known order number
+const trackingLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  message: { message: "Too many lookups, please wait a moment" },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Allows re-pricing as the customer changes quantity, without making coupon
+// codes cheap to guess
+const discountLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30,
+  message: { message: "Too many attempts, please wait a moment" },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
 
 const requireAuth = (req: Request, res: Response, next: NextFunction) => {
   if (!req.session.userId) {
@@ -42,6 +181,16 @@ const requireAuth = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
+// requireAuth doesn't load the user, so changes to someone's own sign-in are
+// credited to them directly and filed under their store (none for admins)
+function recordAccountAudit(req: Request, user: User, entry: Omit<AuditEntry, "tenantId" | "actor">) {
+  recordAudit(req, {
+    ...entry,
+    tenantId: user.tenantId ?? null,
+    actor: { id: user.id, email: user.email, role: user.role },
+  });
+}
+
 const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
   if (!req.session.userId) {
     return res.status(401).json({ message: "Unauthorized" });
@@ -50,10 +199,19 @@ const requireAdmin = async (req: Request, res: Response, next: NextFunction) =>
   if (!user || user.role !== "admin") {
     return res.status(403).json({ message: "Forbidden" });
   }
+  // Admins can change any store, so 2FA isn't optional for them
+  if (!user.totpEnabledAt) {
+    return res.status(403).json({
+      message: "Set up two-factor authentication to use the admin panel",
+      twoFactorSetupRequired: true,
+    });
+  }
+  (req as any).user = user;
   next();
 };
 
-const requireTenant = async (req: Request, res: Response, next: NextFunction) => {
+// Lets tenant staff through when their role on the store grants `permission`
+const requirePermission = (permission: TenantPermission) => async (req: Request, res: Response, next: NextFunction) => {
   if (!req.session.userId) {
     return res.status(401).json({ message: "Unauthorized" });
   }
@@ -61,11 +219,325 @@ const requireTenant = async (req: Request, res: Response, next: NextFunction) =>
   if (!user || user.role !== "tenant" || !user.tenantId) {
     return res.status(403).json({ message: "Forbidden" });
   }
+  const member = await storage.getTenantMember(user.tenantId, user.id);
+  if (!member || !hasPermission(member.role, permission)) {
+    return res.status(403).json({ message: "You don't have permission to do that" });
+  }
   (req as any).user = user;
   (req as any).tenantId = user.tenantId;
+  (req as any).tenantRole = member.role;
   next();
 };
 
+function canAccess(req: Request, permission: TenantPermission): boolean {
+  return hasPermission((req as any).tenantRole, permission);
+}
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000; // To enter the code after the password
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Most recent entries shown in the dashboard; exports go further back
+const AUDIT_LOG_PAGE_SIZE = 200;
+const AUDIT_LOG_EXPORT_LIMIT = 10000;
+
+// Latest deliveries shown in a webhook's log
+const WEBHOOK_DELIVERY_LOG_SIZE = 50;
+
+// Invite, reset and verification links carry the raw token; only its hash is stored
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function findValidInvite(token: string) {
+  const invite = await storage.getStaffInviteByTokenHash(hashToken(token));
+  if (!invite || invite.expiresAt.getTime() < Date.now()) return undefined;
+  return invite;
+}
+
+async function findValidAuthToken(purpose: AuthTokenPurpose, token: string) {
+  const authToken = await storage.getAuthTokenByHash(purpose, hashToken(token));
+  if (!authToken || authToken.expiresAt.getTime() < Date.now()) return undefined;
+  return authToken;
+}
+
+// Where links we send out point. Always from config, never the request's
+// Host header, which the client controls and could aim at its own domain.
+function getAppUrl(): string {
+  const url = process.env.APP_URL;
+  if (url) return url.replace(/\/$/, "");
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("APP_URL must be set to send links");
+  }
+  return `http://localhost:${process.env.PORT || "5000"}`;
+}
+
+// Emails the user a new single-use link, replacing any they were sent before
+async function sendAccountLink(user: User, purpose: AuthTokenPurpose): Promise<boolean> {
+  const token = randomBytes(32).toString("hex");
+  const ttl = purpose === "password_reset" ? PASSWORD_RESET_TTL_MS : EMAIL_VERIFICATION_TTL_MS;
+  const expiresAt = new Date(Date.now() + ttl);
+  await storage.createAuthToken({ userId: user.id, purpose, tokenHash: hashToken(token), expiresAt });
+
+  const baseUrl = getAppUrl();
+  if (purpose === "password_reset") {
+    return sendPasswordResetEmail({ email: user.email, url: `${baseUrl}/reset-password/${token}`, expiresAt });
+  }
+  return sendEmailVerificationEmail({ email: user.email, url: `${baseUrl}/verify-email/${token}`, expiresAt });
+}
+
+// Courier and payment credentials stay server-side; storefront responses get
+// the rest, plus which gateways are ready to take payments
+function toPublicStoreSettings(settings: StoreSettings | undefined): PublicStoreSettings | undefined {
+  if (!settings) return settings;
+  const { courierCredentials, courierProvider, courierWebhookSecret, paymentCredentials, ...rest } = settings;
+  return { ...rest, paymentProviders: getEnabledPaymentProviders(settings) };
+}
+
+// Prices cart lines from the catalogue, for checkout and the discount
+// preview. Problems come back with the status to respond with.
+async function priceCheckoutItems(
+  tenantId: string,
+  items: CheckoutItemInput[]
+): Promise<{ lines: Array<Omit<InsertOrderItem, "orderId">> } | { error: string; status: number; soldOut?: boolean }> {
+  const lines: Array<Omit<InsertOrderItem, "orderId">> = [];
+
+  for (const item of items) {
+    const product = await storage.getProduct(item.productId);
+    if (!product || product.tenantId !== tenantId || product.status !== "active") {
+      return { error: "Product not found", status: 404 };
+    }
+
+    // Get variant if provided
+    let variant = null;
+    let unitPrice = parseFloat(product.price);
+
+    if (item.variantId) {
+      variant = await storage.getProductVariant(item.variantId);
+      if (!variant || variant.productId !== product.id) {
+        return { error: "Invalid variant", status: 400 };
+      }
+
+      // Early check for a friendly message; the authoritative check is the
+      // conditional decrement inside storage.createOrder
+      if (variant.stock < item.quantity) {
+        return {
+          error: variant.stock === 0
+            ? `${product.name} (${variant.name}) is sold out`
+            : `Only ${variant.stock} left of ${product.name} (${variant.name})`,
+          status: 409,
+          soldOut: true,
+        };
+      }
+
+      unitPrice = parseFloat(variant.price);
+    } else if (product.hasVariants) {
+      return { error: `Please select a variant for ${product.name}`, status: 400 };
+    } else if (product.trackStock && product.stock < item.quantity) {
+      return {
+        error: product.stock === 0 ? `${product.name} is sold out` : `Only ${product.stock} left of ${product.name}`,
+        status: 409,
+        soldOut: true,
+      };
+    }
+
+    lines.push({
+      productId: product.id,
+      variantId: variant?.id || null,
+      productName: product.name,
+      variantName: variant?.name || null,
+      unitPrice: unitPrice.toFixed(2),
+      quantity: item.quantity,
+      lineTotal: (unitPrice * item.quantity).toFixed(2),
+    });
+  }
+
+  return { lines };
+}
+
+// Checks a discount form against the tenant's other codes and products
+async function validateDiscountInput(
+  tenantId: string,
+  data: DiscountFormData,
+  discountId?: string
+): Promise<string | null> {
+  const existing = await storage.getDiscountByCode(tenantId, data.code);
+  if (existing && existing.id !== discountId) {
+    return "A discount with this code already exists";
+  }
+  if (data.productIds?.length) {
+    const productIds = new Set((await storage.getProductsByTenant(tenantId)).map((p) => p.id));
+    if (data.productIds.some((id) => !productIds.has(id))) {
+      return "Invalid product selection";
+    }
+  }
+  return null;
+}
+
+function toDiscountValues(data: DiscountFormData): Omit<InsertDiscount, "tenantId"> {
+  return {
+    code: data.code,
+    type: data.type,
+    value: data.type === "free_shipping" ? "0" : data.value.toFixed(2),
+    automatic: data.automatic,
+    minOrderAmount: data.minOrderAmount ? data.minOrderAmount.toFixed(2) : null,
+    usageLimit: data.usageLimit ?? null,
+    productIds: data.productIds?.length ? data.productIds : null,
+    startsAt: data.startsAt ?? null,
+    expiresAt: data.expiresAt ?? null,
+    isActive: data.isActive,
+  };
+}
+
+// Base path of the order's storefront as seen from this request's host
+function getStorefrontPath(req: Request, tenant: { id: string; slug: string }): string {
+  const hostTenant = (req as any).hostTenant;
+  return hostTenant?.id === tenant.id ? "" : `/store/${tenant.slug}`;
+}
+
+// Opens a gateway session for what the order owes online. Failures come back
+// as a message so the order itself still stands.
+async function startOrderPayment(
+  req: Request,
+  order: Order,
+  provider: PaymentProvider
+): Promise<{ paymentUrl: string } | { paymentError: string }> {
+  const orderNumber = getOrderNumber(order);
+
+  try {
+    // Inside the try: the order is already saved, so a missing APP_URL has to
+    // come back as a payment error rather than fail the checkout
+    const baseUrl = `${getAppUrl()}/api/payments/${provider.name}`;
+    const session = await provider.createPayment({
+      // Gateways want short alphanumeric IDs that are new on every attempt
+      reference: `${orderNumber.replace(/[^A-Za-z0-9]/g, "")}${Date.now().toString(36).toUpperCase()}`,
+      invoice: orderNumber,
+      amount: parseFloat(order.paymentDue),
+      customerName: order.customerName,
+      customerPhone: order.phone,
+      customerAddress: order.address,
+      description: `Order #${orderNumber}`,
+      callbackUrl: `${baseUrl}/callback/${order.id}`,
+      ipnUrl: `${baseUrl}/ipn/${order.id}`,
+      customerIp: req.ip,
+    });
+    await storage.setOrderPaymentSession(order.id, provider.name, session.paymentReference);
+    return { paymentUrl: session.redirectUrl };
+  } catch (error) {
+    if (!(error instanceof PaymentError)) {
+      console.error("Payment start error:", error);
+    }
+    await storage.markOrderPayment(order.id, {
+      status: "failed",
+      message: error instanceof PaymentError ? error.message : undefined,
+    });
+    return { paymentError: `${PAYMENT_PROVIDERS[provider.name].label} is unavailable right now. You can pay later from the order tracking page.` };
+  }
+}
+
+// Confirms a gateway callback or IPN with the gateway and records the result.
+// Gateway outages and callbacks that can't be verified leave the payment
+// pending so the customer can retry.
+async function completeOrderPayment(
+  providerName: PaymentProviderName,
+  order: Order,
+  params: Record<string, string>
+): Promise<Order> {
+  if (order.paymentStatus === "paid" || !order.paymentReference || order.paymentProvider !== providerName) {
+    return order;
+  }
+
+  const provider = getPaymentProvider(await storage.getStoreSettings(order.tenantId), providerName);
+  if (!provider) return order;
+
+  try {
+    let result = await provider.verifyPayment(order.paymentReference, params);
+    if (result.status === "ignored") {
+      console.warn(`Ignored ${providerName} callback for order ${order.id}: ${result.message}`);
+      return order;
+    }
+    // A callback for a smaller amount than we asked for doesn't settle the order
+    if (result.status === "paid" && result.amount !== undefined && result.amount + 0.005 < parseFloat(order.paymentDue)) {
+      result = {
+        status: "failed",
+        transactionId: result.transactionId,
+        message: `Paid ৳${result.amount.toFixed(2)} instead of ৳${order.paymentDue}`,
+      };
+    }
+    return (await storage.markOrderPayment(order.id, result)) || (await storage.getOrder(order.id)) || order;
+  } catch (error) {
+    console.error("Payment verification error:", error);
+    return order;
+  }
+}
+
+// Files a product under the given categories and manual collections,
+// dropping IDs that belong to another store or an automatic collection.
+// Lists that weren't sent are left as they are.
+async function saveProductAssignments(
+  tenantId: string,
+  productId: string,
+  assignments: z.infer<typeof productAssignmentsSchema>
+): Promise<void> {
+  if (assignments.categoryIds) {
+    const categories = await storage.getCategoriesByTenant(tenantId);
+    const categoryIds = assignments.categoryIds.filter((id) => categories.some((category) => category.id === id));
+    await storage.setProductCategories(productId, categoryIds);
+  }
+  if (assignments.collectionIds) {
+    const collections = await storage.getCollectionsByTenant(tenantId);
+    const collectionIds = assignments.collectionIds.filter((id) =>
+      collections.some((collection) => collection.id === id && collection.type === "manual")
+    );
+    await storage.setProductCollections(productId, collectionIds);
+  }
+}
+
+// Options as one line each ("Size: S, M, L") for the audit log
+function describeOptions(options: ProductOptionWithValues[]): string[] {
+  return options.map((option) => `${option.name}: ${option.values.map((value) => value.value).join(", ")}`);
+}
+
+// Books a parcel for one order. Failures come back as a message rather than
+// an exception so bulk sends can report them per order.
+async function sendOrderToCourier(
+  order: OrderWithItems,
+  provider: CourierProvider
+): Promise<{ order: Order } | { error: string }> {
+  if (order.courierConsignmentId) {
+    return { error: `Already sent to ${order.courierProvider} (${order.courierTrackingCode})` };
+  }
+  if (order.status !== "confirmed") {
+    return { error: "Only confirmed orders can be sent to a courier" };
+  }
+
+  try {
+    const shippingClass = order.shippingClassId
+      ? await storage.getShippingClass(order.shippingClassId)
+      : undefined;
+    const consignment = await provider.createParcel(buildCourierParcel(order, shippingClass?.location));
+    const updated = await storage.markOrderSentToCourier(order.id, {
+      courierProvider: provider.name,
+      courierConsignmentId: consignment.consignmentId,
+      courierTrackingCode: consignment.trackingCode,
+    });
+    if (!updated) {
+      // Status changed while we were talking to the courier
+      return { error: `Order changed during booking; cancel consignment ${consignment.consignmentId} with ${provider.name} if needed` };
+    }
+    sendOrderStatusSms(updated);
+    sendOrderStatusWebhook(updated, order.status);
+    return { order: updated };
+  } catch (error) {
+    if (error instanceof CourierError) {
+      return { error: error.message };
+    }
+    console.error("Courier booking error:", error);
+    return { error: "Failed to send order to courier" };
+  }
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -113,6 +585,20 @@ export async function registerRoutes(
     })
   );
 
+  app.use(trackSessionActivity);
+
+  // Map verified custom domains to their tenant's storefront
+  app.use(resolveCustomDomain);
+
+  app.get("/api/host", (req, res) => {
+    const hostTenant = (req as any).hostTenant;
+    res.json({
+      store: hostTenant
+        ? { id: hostTenant.id, name: hostTenant.name, slug: hostTenant.slug }
+        : null,
+    });
+  });
+
   // ==================== AUTH ROUTES ====================
   app.post("/api/auth/register", authLimiter, async (req, res) => {
     try {
@@ -156,6 +642,16 @@ export async function registerRoutes(
         role: "tenant",
         tenantId: tenant.id,
       });
+      await storage.createTenantMember({ tenantId: tenant.id, userId: user.id, role: "owner" });
+      recordAudit(req, {
+        tenantId: tenant.id,
+        entityType: "tenant",
+        entityId: tenant.id,
+        entityLabel: tenant.name,
+        action: "create",
+        after: tenant,
+        actor: { id: user.id, email: user.email, role: "owner" },
+      });
 
       await storage.upsertStoreSettings({
         tenantId: tenant.id,
@@ -178,7 +674,9 @@ export async function registerRoutes(
         isDefault: false,
       });
 
-      req.session.userId = user.id;
+      sendAccountLink(user, "email_verification").catch(console.error);
+
+      startUserSession(req, user.id);
       
       // Explicitly save session before responding
       req.session.save((err) => {
@@ -221,7 +719,15 @@ export async function registerRoutes(
         }
       }
 
-      req.session.userId = user.id;
+      // With 2FA on, the password only gets as far as the code prompt
+      const twoFactorRequired = !!user.totpEnabledAt;
+      if (twoFactorRequired) {
+        req.session.userId = undefined;
+        req.session.twoFactorUserId = user.id;
+        req.session.twoFactorExpiresAt = Date.now() + TWO_FACTOR_LOGIN_TTL_MS;
+      } else {
+        startUserSession(req, user.id);
+      }
       
       // Explicitly save session before responding
       req.session.save((err) => {
@@ -229,7 +735,7 @@ export async function registerRoutes(
           console.error("Session save error:", err);
           return res.status(500).json({ message: "Login failed" });
         }
-        res.json({ success: true });
+        res.json({ success: true, twoFactorRequired });
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -242,370 +748,2198 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/auth/login/two-factor", authLimiter, async (req, res) => {
+    try {
+      const data = twoFactorCodeSchema.parse(req.body);
+      const { twoFactorUserId, twoFactorExpiresAt } = req.session;
+      const user =
+        twoFactorUserId && twoFactorExpiresAt && twoFactorExpiresAt > Date.now()
+          ? await storage.getUser(twoFactorUserId)
+          : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Your sign-in has expired. Please enter your password again." });
+      }
+
+      if (!(await verifyTwoFactorCode(user, data.code))) {
+        return res.status(401).json({ message: "Invalid code" });
+      }
+
+      req.session.twoFactorUserId = undefined;
+      req.session.twoFactorExpiresAt = undefined;
+      startUserSession(req, user.id);
+      req.session.save((err) => {
+        if (err) {
+          console.error("Session save error:", err);
+          return res.status(500).json({ message: "Login failed" });
+        }
+        res.json({ success: true });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
   app.post("/api/auth/logout", (req, res) => {
     req.session.destroy(() => {
       res.json({ success: true });
     });
   });
 
-  app.get("/api/auth/me", async (req, res) => {
-    if (!req.session.userId) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
-    const user = await storage.getUserWithTenant(req.session.userId);
-    if (!user) {
-      return res.status(401).json({ message: "User not found" });
+  // Always answers the same way, so it can't be used to find registered emails
+  app.post("/api/auth/forgot-password", authLimiter, async (req, res) => {
+    try {
+      const data = forgotPasswordSchema.parse(req.body);
+      const user = await storage.getUserByEmail(data.email);
+      if (user) {
+        sendAccountLink(user, "password_reset").catch(console.error);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Failed to send reset link" });
     }
-
-    const { password, ...safeUser } = user;
-    res.json({ user: safeUser });
   });
 
-  // ==================== TENANT CHECK ROUTES ====================
-  app.get("/api/tenants/check-slug", async (req, res) => {
-    const slug = req.query.slug as string;
-    if (!slug) {
-      return res.status(400).json({ available: false });
+  app.get("/api/auth/reset-password/:token", authLimiter, async (req, res) => {
+    try {
+      const authToken = await findValidAuthToken("password_reset", req.params.token);
+      const user = authToken && (await storage.getUser(authToken.userId));
+      if (!user) {
+        return res.status(404).json({ message: "This reset link is invalid or has expired" });
+      }
+      res.json({ email: user.email });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load reset link" });
     }
-    const available = await storage.checkSlugAvailability(slug);
-    res.json({ available });
   });
 
-  // ==================== DASHBOARD ROUTES ====================
-  app.get("/api/dashboard/stats", requireTenant, async (req, res) => {
+  app.post("/api/auth/reset-password", authLimiter, async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const productCount = await storage.countProductsByTenant(tenantId);
-      const orderStats = await storage.getOrderStats(tenantId);
+      const data = resetPasswordSchema.parse(req.body);
+      const authToken = await findValidAuthToken("password_reset", data.token);
+      if (!authToken) {
+        return res.status(404).json({ message: "This reset link is invalid or has expired" });
+      }
 
-      res.json({
-        totalProducts: productCount,
-        ...orderStats,
-      });
+      await storage.resetUserPassword(authToken, await hash(data.password, 10));
+      // Whoever knew the old password may still be signed in
+      await storage.deleteUserSessions(authToken.userId);
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch stats" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
     }
   });
 
-  app.get("/api/dashboard/analytics", requireTenant, async (req, res) => {
+  app.post("/api/auth/verify-email", authLimiter, async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const period = (req.query.period as "7d" | "30d" | "90d" | "all") || "30d";
-      const analytics = await storage.getAnalytics(tenantId, period);
-      res.json(analytics);
+      const data = verifyEmailSchema.parse(req.body);
+      const authToken = await findValidAuthToken("email_verification", data.token);
+      if (!authToken) {
+        return res.status(404).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      await storage.verifyUserEmail(authToken);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Analytics error:", error);
-      res.status(500).json({ message: "Failed to fetch analytics" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "Failed to verify email" });
     }
   });
 
-  // ==================== PRODUCT ROUTES ====================
-  app.get("/api/products", requireTenant, async (req, res) => {
+  app.post("/api/auth/resend-verification", authLimiter, async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const products = await storage.getProductsByTenant(tenantId);
-      res.json(products);
+      const user = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Your email is already verified" });
+      }
+
+      const emailSent = await sendAccountLink(user, "email_verification");
+      if (!emailSent) {
+        return res.status(503).json({ message: "Email isn't set up on this server. Please contact support." });
+      }
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch products" });
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
     }
   });
 
-  app.post("/api/products", requireTenant, async (req, res) => {
-    try {
-      const tenantId = (req as any).tenantId;
-      const user = (req as any).user;
+  app.get("/api/auth/me", async (req, res) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
 
-      const productCount = await storage.countProductsByTenant(tenantId);
-      const productLimit = user.tenant?.plan?.productLimit || 5;
+    const user = await storage.getUserWithTenant(req.session.userId);
+    if (!user) {
+      return res.status(401).json({ message: "User not found" });
+    }
 
-      if (productCount >= productLimit) {
-        return res.status(403).json({
-          message: `Product limit reached (${productLimit}). Please upgrade your plan.`,
-        });
+    const member = user.tenantId ? await storage.getTenantMember(user.tenantId, user.id) : undefined;
+    const { password, totpSecret, ...safeUser } = user;
+    // Store settings carry courier and payment credentials
+    if (safeUser.tenant && !hasPermission(member?.role, "settings")) {
+      safeUser.tenant = { ...safeUser.tenant, storeSettings: undefined };
+    }
+    res.json({
+      user: { ...safeUser, twoFactorEnabled: !!user.totpEnabledAt, tenantRole: member?.role ?? null },
+    });
+  });
+
+  app.post("/api/auth/change-password", requireAuth, authLimiter, async (req, res) => {
+    try {
+      const data = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!(await compare(data.currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
       }
 
-      const product = await storage.createProduct({
-        ...req.body,
-        tenantId,
+      const newPassword = await hash(data.newPassword, 10);
+      await storage.updateUserPassword(user.id, newPassword);
+      await storage.deleteUserSessions(user.id, req.sessionID);
+      recordAccountAudit(req, user, {
+        entityType: "account",
+        entityId: user.id,
+        entityLabel: user.email,
+        action: "update",
+        before: { password: user.password },
+        after: { password: newPassword },
       });
-      res.json(product);
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to create product" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Change password error:", error);
+      res.status(500).json({ message: "Failed to change password" });
     }
   });
 
-  app.patch("/api/products/:id", requireTenant, async (req, res) => {
+  // ==================== SESSION ROUTES ====================
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.id);
-      if (!product || product.tenantId !== (req as any).tenantId) {
-        return res.status(404).json({ message: "Product not found" });
-      }
-
-      const updated = await storage.updateProduct(req.params.id, req.body);
-      res.json(updated);
+      const sessions = await storage.getUserSessions(req.session.userId!);
+      // This device first, then the most recently used
+      const active = sessions
+        .map((row) => toActiveSession(row, req.sessionID))
+        .sort(
+          (a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? "")
+        );
+      res.json(active);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update product" });
+      res.status(500).json({ message: "Failed to fetch sessions" });
     }
   });
 
-  app.delete("/api/products/:id", requireTenant, async (req, res) => {
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.id);
-      if (!product || product.tenantId !== (req as any).tenantId) {
-        return res.status(404).json({ message: "Product not found" });
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const sessions = await storage.getUserSessions(user.id);
+      const session = sessions.find((row) => getPublicSessionId(row.sid) === req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (session.sid === req.sessionID) {
+        return res.status(400).json({ message: "Use log out to end this session" });
       }
 
-      await storage.deleteProduct(req.params.id);
+      await storage.deleteSession(session.sid);
+      const { id, device, ip, signedInAt } = toActiveSession(session, req.sessionID);
+      recordAccountAudit(req, user, {
+        entityType: "session",
+        entityId: id,
+        entityLabel: `${device} (${user.email})`,
+        action: "revoke",
+        before: { device, ip, signedInAt },
+      });
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete product" });
+      res.status(500).json({ message: "Failed to sign out session" });
     }
   });
 
-  // ==================== PRODUCT VARIANT ROUTES ====================
-  app.get("/api/products/:productId/variants", requireTenant, async (req, res) => {
+  // Signs out every other device; this one stays signed in
+  app.delete("/api/auth/sessions", requireAuth, async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.productId);
-      if (!product || product.tenantId !== (req as any).tenantId) {
-        return res.status(404).json({ message: "Product not found" });
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
       }
-
-      const variants = await storage.getProductVariants(req.params.productId);
-      res.json(variants);
+      await storage.deleteUserSessions(user.id, req.sessionID);
+      recordAccountAudit(req, user, {
+        entityType: "session",
+        entityLabel: `Every other device (${user.email})`,
+        action: "revoke",
+      });
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch variants" });
+      res.status(500).json({ message: "Failed to sign out other sessions" });
     }
   });
 
-  app.post("/api/products/:productId/variants", requireTenant, async (req, res) => {
+  // ==================== TWO-FACTOR ROUTES ====================
+  app.get("/api/auth/two-factor", requireAuth, async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.productId);
-      if (!product || product.tenantId !== (req as any).tenantId) {
-        return res.status(404).json({ message: "Product not found" });
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
       }
+      res.json({
+        enabled: !!user.totpEnabledAt,
+        required: user.role === "admin",
+        recoveryCodesLeft: user.totpEnabledAt ? await storage.countRecoveryCodes(user.id) : 0,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
 
-      const variant = await storage.createProductVariant({
-        ...req.body,
-        productId: req.params.productId,
+  app.post("/api/auth/two-factor/setup", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+
+      const enrollment = await createTwoFactorEnrollment(user.email);
+      await storage.setTotpSecret(user.id, enrollment.secret);
+      res.json(enrollment);
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/two-factor/enable", requireAuth, authLimiter, async (req, res) => {
+    try {
+      const data = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      if (!(await verifyTotpCode(user, data.code))) {
+        return res.status(400).json({ message: "That code didn't match. Check your authenticator app and try again." });
+      }
+
+      const codes = generateRecoveryCodes();
+      await storage.enableTwoFactor(user.id, codes.map(hashRecoveryCode));
+      recordAccountAudit(req, user, {
+        entityType: "account",
+        entityId: user.id,
+        entityLabel: user.email,
+        action: "update",
+        before: { twoFactorEnabled: false },
+        after: { twoFactorEnabled: true },
       });
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Two-factor enable error:", error);
+      res.status(500).json({ message: "Failed to turn on two-factor authentication" });
+    }
+  });
 
-      // Update product to mark it as having variants
-      if (!product.hasVariants) {
-        await storage.updateProduct(req.params.productId, { hasVariants: true });
+  app.post("/api/auth/two-factor/recovery-codes", requireAuth, authLimiter, async (req, res) => {
+    try {
+      const data = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+      if (!(await verifyTwoFactorCode(user, data.code))) {
+        return res.status(400).json({ message: "Invalid code" });
       }
 
-      res.json(variant);
+      const codes = generateRecoveryCodes();
+      const recoveryCodeHashes = codes.map(hashRecoveryCode);
+      await storage.replaceRecoveryCodes(user.id, recoveryCodeHashes);
+      // The old hashes aren't loaded; any value stands in, as both are redacted
+      recordAccountAudit(req, user, {
+        entityType: "account",
+        entityId: user.id,
+        entityLabel: user.email,
+        action: "update",
+        before: { recoveryCodeHashes: [] },
+        after: { recoveryCodeHashes },
+      });
+      res.json({ recoveryCodes: codes });
     } catch (error) {
-      console.error("Create variant error:", error);
-      res.status(500).json({ message: "Failed to create variant" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Recovery codes error:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
     }
   });
 
-  app.patch("/api/variants/:id", requireTenant, async (req, res) => {
+  app.post("/api/auth/two-factor/disable", requireAuth, authLimiter, async (req, res) => {
     try {
-      const variant = await storage.getProductVariant(req.params.id);
-      if (!variant) {
-        return res.status(404).json({ message: "Variant not found" });
+      const data = disableTwoFactorSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (user.role === "admin") {
+        return res.status(400).json({ message: "Admin accounts must keep two-factor authentication on" });
+      }
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already off" });
+      }
+      if (!(await compare(data.password, user.password))) {
+        return res.status(400).json({ message: "Incorrect password" });
+      }
+      if (!(await verifyTwoFactorCode(user, data.code))) {
+        return res.status(400).json({ message: "Invalid code" });
       }
 
-      const product = await storage.getProduct(variant.productId);
+      await storage.disableTwoFactor(user.id);
+      recordAccountAudit(req, user, {
+        entityType: "account",
+        entityId: user.id,
+        entityLabel: user.email,
+        action: "update",
+        before: { twoFactorEnabled: true },
+        after: { twoFactorEnabled: false },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Two-factor disable error:", error);
+      res.status(500).json({ message: "Failed to turn off two-factor authentication" });
+    }
+  });
+
+  // ==================== TENANT CHECK ROUTES ====================
+  app.get("/api/tenants/check-slug", async (req, res) => {
+    const slug = req.query.slug as string;
+    if (!slug) {
+      return res.status(400).json({ available: false });
+    }
+    const available = await storage.checkSlugAvailability(slug);
+    res.json({ available });
+  });
+
+  // ==================== DASHBOARD ROUTES ====================
+  app.get("/api/dashboard/stats", requirePermission("analytics"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const productCount = await storage.countProductsByTenant(tenantId);
+      const orderStats = await storage.getOrderStats(tenantId);
+
+      res.json({
+        totalProducts: productCount,
+        ...orderStats,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  app.get("/api/dashboard/analytics", requirePermission("analytics"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const period = (req.query.period as "7d" | "30d" | "90d" | "all") || "30d";
+      const analytics = await storage.getAnalytics(tenantId, period);
+      res.json(analytics);
+    } catch (error) {
+      console.error("Analytics error:", error);
+      res.status(500).json({ message: "Failed to fetch analytics" });
+    }
+  });
+
+  // ==================== PRODUCT ROUTES ====================
+  app.get("/api/products", requirePermission("products"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const [products, categoryLinks, collectionLinks] = await Promise.all([
+        storage.getProductsByTenant(tenantId),
+        storage.getProductCategoryLinks(tenantId),
+        storage.getCollectionProductLinks(tenantId),
+      ]);
+      const categoryIds = groupLinks(categoryLinks, "productId", "categoryId");
+      const collectionIds = groupLinks(collectionLinks, "productId", "collectionId");
+      const withAssignments: ProductWithAssignments[] = products.map((product) => ({
+        ...product,
+        categoryIds: categoryIds.get(product.id) ?? [],
+        collectionIds: collectionIds.get(product.id) ?? [],
+      }));
+      res.json(withAssignments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.get("/api/products/low-stock", requirePermission("products"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const settings = await storage.getStoreSettings(tenantId);
+      res.json(await storage.getLowStockItems(tenantId, settings?.lowStockThreshold ?? LOW_STOCK_THRESHOLD));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch low stock" });
+    }
+  });
+
+  app.get("/api/products/export", requirePermission("products"), async (req, res) => {
+    try {
+      const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+      const file = await writeProductSpreadsheet((req as any).tenantId, format);
+      res.setHeader(
+        "Content-Type",
+        format === "xlsx" ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" : "text/csv; charset=utf-8"
+      );
+      res.setHeader("Content-Disposition", `attachment; filename="products-${Date.now()}.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error("Product export error:", error);
+      res.status(500).json({ message: "Failed to export products" });
+    }
+  });
+
+  // First step of an import: the file's headers and a suggested mapping of
+  // them to product fields, for the merchant to check
+  app.post("/api/products/import/columns", requirePermission("products"), uploadSpreadsheet, async (req, res) => {
+    try {
+      const [header, ...rows] = await readSpreadsheet(req.file!.buffer);
+      if (!header || rows.length === 0) {
+        return res.status(400).json({ message: "The file has no rows to import" });
+      }
+      res.json({ headers: header.cells, rowCount: rows.length, mapping: suggestImportMapping(header.cells) });
+    } catch (error) {
+      res.status(400).json({ message: "Couldn't read the file. Upload a CSV or .xlsx spreadsheet." });
+    }
+  });
+
+  // Validates the whole file against the mapping and, unless it's a dry run,
+  // saves it. Nothing is saved while any row has an error.
+  app.post("/api/products/import", requirePermission("products"), uploadSpreadsheet, async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const user = (req as any).user;
+      const mapping = productImportMappingSchema.parse(JSON.parse(req.body.mapping || "{}"));
+      const dryRun = req.body.dryRun !== "false";
+
+      let rows;
+      try {
+        rows = (await readSpreadsheet(req.file!.buffer)).slice(1);
+      } catch {
+        return res.status(400).json({ message: "Couldn't read the file. Upload a CSV or .xlsx spreadsheet." });
+      }
+      if (rows.length > PRODUCT_IMPORT_ROW_LIMIT) {
+        return res.status(400).json({ message: `Import up to ${PRODUCT_IMPORT_ROW_LIMIT} rows at a time` });
+      }
+
+      const productLimit = user.tenant?.plan?.productLimit || 5;
+      const { items, report } = await planProductImport(tenantId, rows, mapping, productLimit);
+      const result: ProductImportReport = { dryRun, ...report };
+      if (dryRun || report.errors.length > 0) {
+        return res.json(result);
+      }
+
+      const before = await storage.getProductsByTenant(tenantId);
+      const saved = await withLowStockAlerts(tenantId, () => storage.importProducts(items));
+      for (const product of saved) {
+        const previous = before.find((p) => p.id === product.id);
+        if (previous) sendProductUpdatedWebhook(tenantId, product.id);
+        recordAudit(req, {
+          entityType: "product",
+          entityId: product.id,
+          entityLabel: product.name,
+          action: previous ? "update" : "create",
+          before: previous,
+          after: product,
+        });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({ message: "Invalid column mapping" });
+      }
+      console.error("Product import error:", error);
+      res.status(500).json({ message: "Failed to import products" });
+    }
+  });
+
+  app.post("/api/products", requirePermission("products"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const user = (req as any).user;
+
+      const productCount = await storage.countProductsByTenant(tenantId);
+      const productLimit = user.tenant?.plan?.productLimit || 5;
+
+      if (productCount >= productLimit) {
+        return res.status(403).json({
+          message: `Product limit reached (${productLimit}). Please upgrade your plan.`,
+        });
+      }
+
+      const { categoryIds, collectionIds, ...data } = req.body;
+      const assignments = productAssignmentsSchema.parse({ categoryIds, collectionIds });
+      const product = await storage.createProduct({
+        ...data,
+        tenantId,
+      });
+      await saveProductAssignments(tenantId, product.id, assignments);
+      recordAudit(req, {
+        entityType: "product",
+        entityId: product.id,
+        entityLabel: product.name,
+        action: "create",
+        after: product,
+      });
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create product" });
+    }
+  });
+
+  app.patch("/api/products/:id", requirePermission("products"), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
       if (!product || product.tenantId !== (req as any).tenantId) {
         return res.status(404).json({ message: "Product not found" });
       }
 
-      const updated = await storage.updateProductVariant(req.params.id, req.body);
+      const { categoryIds, collectionIds, ...data } = req.body;
+      const assignments = productAssignmentsSchema.parse({ categoryIds, collectionIds });
+      const updated = await withLowStockAlerts(product.tenantId, () => storage.updateProduct(req.params.id, data));
+      await saveProductAssignments(product.tenantId, product.id, assignments);
+      sendProductUpdatedWebhook(product.tenantId, product.id);
+      recordAudit(req, {
+        entityType: "product",
+        entityId: product.id,
+        entityLabel: product.name,
+        action: "update",
+        before: product,
+        after: updated,
+      });
       res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update variant" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update product" });
     }
   });
 
-  app.delete("/api/variants/:id", requireTenant, async (req, res) => {
+  app.delete("/api/products/:id", requirePermission("products"), async (req, res) => {
     try {
-      const variant = await storage.getProductVariant(req.params.id);
-      if (!variant) {
-        return res.status(404).json({ message: "Variant not found" });
+      const product = await storage.getProduct(req.params.id);
+      if (!product || product.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Product not found" });
       }
 
-      const product = await storage.getProduct(variant.productId);
+      await storage.deleteProduct(req.params.id);
+      recordAudit(req, {
+        entityType: "product",
+        entityId: product.id,
+        entityLabel: product.name,
+        action: "delete",
+        before: product,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  // ==================== PRODUCT VARIANT ROUTES ====================
+  app.get("/api/products/:productId/variants", requirePermission("products"), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.productId);
       if (!product || product.tenantId !== (req as any).tenantId) {
         return res.status(404).json({ message: "Product not found" });
       }
 
-      await storage.deleteProductVariant(req.params.id);
+      const variants = await storage.getProductVariants(req.params.productId);
+      res.json(variants);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch variants" });
+    }
+  });
 
-      // Check if product still has variants, if not, update hasVariants flag
-      const remainingVariants = await storage.getProductVariants(variant.productId);
-      if (remainingVariants.length === 0) {
-        await storage.updateProduct(variant.productId, { hasVariants: false });
+  app.get("/api/products/:productId/options", requirePermission("products"), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.productId);
+      if (!product || product.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Product not found" });
       }
 
-      res.json({ success: true });
+      res.json(await storage.getProductOptions(product.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete variant" });
+      res.status(500).json({ message: "Failed to fetch options" });
     }
   });
 
-  // ==================== ORDER ROUTES ====================
-  app.get("/api/orders", requireTenant, async (req, res) => {
+  // Saves the option list and regenerates the variant matrix from it
+  app.put("/api/products/:productId/options", requirePermission("products"), async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const orders = await storage.getOrdersByTenant(tenantId);
-      res.json(orders);
+      const product = await storage.getProduct(req.params.productId);
+      if (!product || product.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const { options } = productOptionsSchema.parse(req.body);
+      const before = await storage.getProductOptions(product.id);
+      await storage.saveProductOptions(product.id, options, product.price);
+      const after = await storage.getProductOptions(product.id);
+      sendProductUpdatedWebhook(product.tenantId, product.id);
+      recordAudit(req, {
+        entityType: "product",
+        entityId: product.id,
+        entityLabel: product.name,
+        action: "update",
+        before: { options: describeOptions(before) },
+        after: { options: describeOptions(after) },
+      });
+      res.json({ options: after, variants: await storage.getProductVariants(product.id) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch orders" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Save options error:", error);
+      res.status(500).json({ message: "Failed to save options" });
+    }
+  });
+
+  // Swatch color and images for one option value
+  app.patch("/api/products/:productId/options/values/:valueId", requirePermission("products"), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.productId);
+      if (!product || product.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const data = optionValueMediaSchema.parse(req.body);
+      if (data.images && !data.images.every((image) => product.images.includes(image))) {
+        return res.status(400).json({ message: "Upload images to the product before assigning them" });
+      }
+      const options = await storage.getProductOptions(product.id);
+      const before = options.flatMap((option) => option.values).find((value) => value.id === req.params.valueId);
+      const value = await storage.updateProductOptionValue(product.id, req.params.valueId, data);
+      if (!before || !value) {
+        return res.status(404).json({ message: "Option value not found" });
+      }
+
+      sendProductUpdatedWebhook(product.tenantId, product.id);
+      recordAudit(req, {
+        entityType: "product",
+        entityId: product.id,
+        entityLabel: `${product.name} - ${value.value}`,
+        action: "update",
+        before: { swatch: before.swatch, images: before.images },
+        after: { swatch: value.swatch, images: value.images },
+      });
+      res.json(value);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update option value" });
+    }
+  });
+
+  app.patch("/api/products/:productId/variants", requirePermission("products"), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.productId);
+      if (!product || product.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const { variants: updates } = variantBulkUpdateSchema.parse(req.body);
+      if (updates.some((update) => update.images && !update.images.every((image) => product.images.includes(image)))) {
+        return res.status(400).json({ message: "Upload images to the product before assigning them" });
+      }
+      const before = await storage.getProductVariants(product.id);
+      const updated = await withLowStockAlerts(product.tenantId, () =>
+        storage.updateProductVariants(product.id, updates)
+      );
+      if (updated.length > 0) sendProductUpdatedWebhook(product.tenantId, product.id);
+      for (const variant of updated) {
+        recordAudit(req, {
+          entityType: "variant",
+          entityId: variant.id,
+          entityLabel: `${product.name} - ${variant.name}`,
+          action: "update",
+          before: before.find((v) => v.id === variant.id),
+          after: variant,
+        });
+      }
+      res.json(await storage.getProductVariants(product.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update variants" });
+    }
+  });
+
+  app.post("/api/products/:productId/variants", requirePermission("products"), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.productId);
+      if (!product || product.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const data = apiVariantSchema.parse(req.body);
+      const variant = await storage.createProductVariant({
+        ...data,
+        productId: req.params.productId,
+      });
+
+      // Update product to mark it as having variants
+      if (!product.hasVariants) {
+        await storage.updateProduct(req.params.productId, { hasVariants: true });
+      }
+      sendProductUpdatedWebhook(product.tenantId, product.id);
+
+      recordAudit(req, {
+        entityType: "variant",
+        entityId: variant.id,
+        entityLabel: `${product.name} - ${variant.name}`,
+        action: "create",
+        after: variant,
+      });
+      res.json(variant);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Create variant error:", error);
+      res.status(500).json({ message: "Failed to create variant" });
+    }
+  });
+
+  app.patch("/api/variants/:id", requirePermission("products"), async (req, res) => {
+    try {
+      const variant = await storage.getProductVariant(req.params.id);
+      if (!variant) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+
+      const product = await storage.getProduct(variant.productId);
+      if (!product || product.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const data = apiVariantSchema.partial().parse(req.body);
+      const updated = await withLowStockAlerts(product.tenantId, () =>
+        storage.updateProductVariant(req.params.id, data)
+      );
+      sendProductUpdatedWebhook(product.tenantId, product.id);
+      recordAudit(req, {
+        entityType: "variant",
+        entityId: variant.id,
+        entityLabel: `${product.name} - ${variant.name}`,
+        action: "update",
+        before: variant,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update variant" });
+    }
+  });
+
+  app.delete("/api/variants/:id", requirePermission("products"), async (req, res) => {
+    try {
+      const variant = await storage.getProductVariant(req.params.id);
+      if (!variant) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+
+      const product = await storage.getProduct(variant.productId);
+      if (!product || product.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      await storage.deleteProductVariant(req.params.id);
+      recordAudit(req, {
+        entityType: "variant",
+        entityId: variant.id,
+        entityLabel: `${product.name} - ${variant.name}`,
+        action: "delete",
+        before: variant,
+      });
+
+      // Check if product still has variants, if not, update hasVariants flag
+      const remainingVariants = await storage.getProductVariants(variant.productId);
+      if (remainingVariants.length === 0) {
+        await storage.updateProduct(variant.productId, { hasVariants: false });
+      }
+      sendProductUpdatedWebhook(product.tenantId, product.id);
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete variant" });
+    }
+  });
+
+  // ==================== CATEGORY ROUTES ====================
+  app.get("/api/categories", requirePermission("products"), async (req, res) => {
+    try {
+      const categories = await storage.getCategoriesByTenant((req as any).tenantId);
+      res.json(categories);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+
+  app.post("/api/categories", requirePermission("products"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const data = categorySchema.parse(req.body);
+      const categories = await storage.getCategoriesByTenant(tenantId);
+      if (categories.some((category) => category.slug === data.slug)) {
+        return res.status(400).json({ message: "Another category already uses this slug" });
+      }
+      if (data.parentId && !categories.some((category) => category.id === data.parentId)) {
+        return res.status(400).json({ message: "Parent category not found" });
+      }
+
+      const category = await storage.createCategory({ ...data, tenantId });
+      recordAudit(req, {
+        entityType: "category",
+        entityId: category.id,
+        entityLabel: category.name,
+        action: "create",
+        after: category,
+      });
+      res.json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create category" });
+    }
+  });
+
+  app.patch("/api/categories/:id", requirePermission("products"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const category = await storage.getCategory(req.params.id);
+      if (!category || category.tenantId !== tenantId) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      const data = categorySchema.parse(req.body);
+      const categories = await storage.getCategoriesByTenant(tenantId);
+      if (categories.some((other) => other.id !== category.id && other.slug === data.slug)) {
+        return res.status(400).json({ message: "Another category already uses this slug" });
+      }
+      if (data.parentId && !categories.some((other) => other.id === data.parentId)) {
+        return res.status(400).json({ message: "Parent category not found" });
+      }
+      if (isCategoryCycle(categories, category.id, data.parentId)) {
+        return res.status(400).json({ message: "A category can't be moved under itself or its subcategories" });
+      }
+
+      const updated = await storage.updateCategory(category.id, data);
+      recordAudit(req, {
+        entityType: "category",
+        entityId: category.id,
+        entityLabel: category.name,
+        action: "update",
+        before: category,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update category" });
+    }
+  });
+
+  app.delete("/api/categories/:id", requirePermission("products"), async (req, res) => {
+    try {
+      const category = await storage.getCategory(req.params.id);
+      if (!category || category.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      await storage.deleteCategory(category);
+      recordAudit(req, {
+        entityType: "category",
+        entityId: category.id,
+        entityLabel: category.name,
+        action: "delete",
+        before: category,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete category" });
+    }
+  });
+
+  // ==================== COLLECTION ROUTES ====================
+  app.get("/api/collections", requirePermission("products"), async (req, res) => {
+    try {
+      const collections = await storage.getCollectionsByTenant((req as any).tenantId);
+      res.json(collections);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch collections" });
+    }
+  });
+
+  app.post("/api/collections", requirePermission("products"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const data = collectionSchema.parse(req.body);
+      const collections = await storage.getCollectionsByTenant(tenantId);
+      if (collections.some((collection) => collection.slug === data.slug)) {
+        return res.status(400).json({ message: "Another collection already uses this slug" });
+      }
+
+      const collection = await storage.createCollection({ ...data, tenantId });
+      recordAudit(req, {
+        entityType: "collection",
+        entityId: collection.id,
+        entityLabel: collection.name,
+        action: "create",
+        after: collection,
+      });
+      res.json(collection);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create collection" });
+    }
+  });
+
+  app.patch("/api/collections/:id", requirePermission("products"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const collection = await storage.getCollection(req.params.id);
+      if (!collection || collection.tenantId !== tenantId) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+
+      const data = collectionSchema.parse(req.body);
+      const collections = await storage.getCollectionsByTenant(tenantId);
+      if (collections.some((other) => other.id !== collection.id && other.slug === data.slug)) {
+        return res.status(400).json({ message: "Another collection already uses this slug" });
+      }
+
+      const updated = await storage.updateCollection(collection.id, data);
+      recordAudit(req, {
+        entityType: "collection",
+        entityId: collection.id,
+        entityLabel: collection.name,
+        action: "update",
+        before: collection,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update collection" });
+    }
+  });
+
+  app.delete("/api/collections/:id", requirePermission("products"), async (req, res) => {
+    try {
+      const collection = await storage.getCollection(req.params.id);
+      if (!collection || collection.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+
+      await storage.deleteCollection(collection.id);
+      recordAudit(req, {
+        entityType: "collection",
+        entityId: collection.id,
+        entityLabel: collection.name,
+        action: "delete",
+        before: collection,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete collection" });
+    }
+  });
+
+  // ==================== ORDER ROUTES ====================
+  app.get("/api/orders", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const orders = await storage.getOrdersByTenant(tenantId);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  app.patch("/api/orders/:id/status", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order || order.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const status = z.enum(orderStatusEnum.enumValues).parse(req.body.status);
+      const permission = STATUS_PERMISSIONS[status];
+      if (!permission || !canAccess(req, permission)) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
+      }
+
+      // Reinstating a cancelled order takes its stock again
+      const update = () => storage.updateOrderStatus(order.id, status);
+      const updated = await (order.status === "cancelled" && status !== "cancelled"
+        ? withLowStockAlerts(order.tenantId, update)
+        : update());
+      if (updated) {
+        sendOrderStatusSms(updated);
+        sendOrderStatusWebhook(updated, order.status);
+      }
+      recordAudit(req, {
+        entityType: "order",
+        entityId: order.id,
+        entityLabel: getOrderNumber(order),
+        action: "update",
+        before: order,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof OutOfStockError) {
+        return res.status(409).json({ message: `Cannot reinstate order: ${error.message}` });
+      }
+      if (error instanceof OrderOnHoldError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Valid status is required" });
+      }
+      res.status(500).json({ message: "Failed to update order" });
+    }
+  });
+
+  // Releases a high-risk order held at checkout
+  app.post("/api/orders/:id/approve", requirePermission("orders.update"), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order || order.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const updated = await storage.approveHeldOrder(order.id);
+      if (!updated) {
+        return res.status(409).json({ message: "Order isn't on hold" });
+      }
+      // Held orders skip the confirmation SMS until someone vouches for them
+      sendOrderSms("order_placed", updated);
+      recordAudit(req, {
+        entityType: "order",
+        entityId: order.id,
+        entityLabel: getOrderNumber(order),
+        action: "approve",
+        before: order,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to approve order" });
+    }
+  });
+
+  app.patch("/api/orders/bulk-status", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const { orderIds } = req.body;
+
+      if (!Array.isArray(orderIds) || orderIds.length === 0) {
+        return res.status(400).json({ message: "Order IDs array is required" });
+      }
+
+      const parsedStatus = z.enum(orderStatusEnum.enumValues).safeParse(req.body.status);
+      if (!parsedStatus.success) {
+        return res.status(400).json({ message: "Valid status is required" });
+      }
+      const status = parsedStatus.data;
+
+      const permission = STATUS_PERMISSIONS[status];
+      if (!permission || !canAccess(req, permission)) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
+      }
+
+      const previous = await Promise.all(orderIds.map((id: string) => storage.getOrder(id)));
+      const update = () => storage.bulkUpdateOrderStatus(orderIds, status, tenantId);
+      const updated = await (status !== "cancelled" && previous.some((order) => order?.status === "cancelled")
+        ? withLowStockAlerts(tenantId, update)
+        : update());
+      updated.forEach(sendOrderStatusSms);
+      for (const order of updated) {
+        const before = previous.find((o) => o?.id === order.id);
+        if (before) sendOrderStatusWebhook(order, before.status);
+        recordAudit(req, {
+          entityType: "order",
+          entityId: order.id,
+          entityLabel: getOrderNumber(order),
+          action: "update",
+          before,
+          after: order,
+        });
+      }
+      res.json({ success: true, updatedCount: updated.length });
+    } catch (error) {
+      if (error instanceof OutOfStockError) {
+        return res.status(409).json({ message: `Cannot reinstate orders: ${error.message}` });
+      }
+      if (error instanceof OrderOnHoldError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Bulk update error:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ message: "Failed to update orders", error: errorMessage });
+    }
+  });
+
+  app.post("/api/orders/:id/courier", requirePermission("orders.ship"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const order = await storage.getOrderWithItems(req.params.id);
+      if (!order || order.tenantId !== tenantId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const provider = getCourierProvider(await storage.getStoreSettings(tenantId));
+      if (!provider) {
+        return res.status(400).json({ message: "Set up a courier in Settings first" });
+      }
+
+      const result = await sendOrderToCourier(order, provider);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      recordAudit(req, {
+        entityType: "order",
+        entityId: order.id,
+        entityLabel: getOrderNumber(order),
+        action: "send_to_courier",
+        before: order,
+        after: result.order,
+      });
+      res.json(result.order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send order to courier" });
+    }
+  });
+
+  app.post("/api/orders/bulk-courier", requirePermission("orders.ship"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const { orderIds } = req.body;
+
+      if (!Array.isArray(orderIds) || orderIds.length === 0) {
+        return res.status(400).json({ message: "Order IDs array is required" });
+      }
+
+      const provider = getCourierProvider(await storage.getStoreSettings(tenantId));
+      if (!provider) {
+        return res.status(400).json({ message: "Set up a courier in Settings first" });
+      }
+
+      // Sequential so a courier's rate limit isn't hit by a large selection
+      let sentCount = 0;
+      const failed: { orderId: string; orderNumber?: string; message: string }[] = [];
+      for (const orderId of orderIds) {
+        const order = await storage.getOrderWithItems(orderId);
+        if (!order || order.tenantId !== tenantId) {
+          failed.push({ orderId, message: "Order not found" });
+          continue;
+        }
+        const result = await sendOrderToCourier(order, provider);
+        if ("error" in result) {
+          failed.push({ orderId, orderNumber: getOrderNumber(order), message: result.error });
+        } else {
+          sentCount++;
+          recordAudit(req, {
+            entityType: "order",
+            entityId: order.id,
+            entityLabel: getOrderNumber(order),
+            action: "send_to_courier",
+            before: order,
+            after: result.order,
+          });
+        }
+      }
+
+      res.json({ success: failed.length === 0, sentCount, failed });
+    } catch (error) {
+      console.error("Bulk courier error:", error);
+      res.status(500).json({ message: "Failed to send orders to courier" });
+    }
+  });
+
+  app.get("/api/orders/:id/events", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order || order.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const events = await storage.getOrderEvents(order.id);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch order timeline" });
+    }
+  });
+
+  app.get("/api/orders/:id/sms", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order || order.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const messages = await storage.getSmsMessagesByOrder(order.id);
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch SMS log" });
+    }
+  });
+
+  app.get("/api/orders/export", requirePermission("orders.view"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const statusFilter = req.query.status as string | undefined;
+      const orders = await storage.getOrdersByTenant(tenantId);
+      
+      const filteredOrders = statusFilter && statusFilter !== "all"
+        ? orders.filter((o) => o.status === statusFilter)
+        : orders;
+
+      // Generate CSV - one row per line item so every product in an order is listed
+      const headers = ["Order Number", "Customer Name", "Phone", "Address", "Product", "Variant", "Unit Price", "Quantity", "Line Total", "Subtotal", "Discount Code", "Discount Amount", "Shipping", "Total", "Status", "Created At"];
+      const rows = filteredOrders.flatMap((order) => {
+        const lines = order.items.length > 0
+          ? order.items
+          : [{ productName: "", variantName: null, unitPrice: "", quantity: order.quantity, lineTotal: order.subtotal }];
+        return lines.map((item) => [
+          getOrderNumber(order),
+          order.customerName,
+          order.phone,
+          order.address.replace(/,/g, ";"), // Replace commas to avoid CSV issues
+          item.productName.replace(/"/g, "'"),
+          (item.variantName || "").replace(/"/g, "'"),
+          item.unitPrice,
+          item.quantity.toString(),
+          item.lineTotal,
+          order.subtotal,
+          order.discountCode || "",
+          order.discountAmount,
+          order.shippingFee,
+          order.total,
+          order.status,
+          new Date(order.createdAt).toISOString(),
+        ]);
+      });
+
+      const csvContent = [
+        headers.join(","),
+        ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
+      ].join("\n");
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="orders-${statusFilter || "all"}-${Date.now()}.csv"`);
+      res.send(csvContent);
+    } catch (error) {
+      console.error("Export error:", error);
+      res.status(500).json({ message: "Failed to export orders" });
+    }
+  });
+
+  // ==================== CUSTOMER ROUTES ====================
+  app.get("/api/customers", requirePermission("customers"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const customers = await storage.getCustomersByTenant(tenantId);
+      res.json(customers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch customers" });
+    }
+  });
+
+  app.get("/api/customers/:id", requirePermission("customers"), async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer || customer.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const orders = await storage.getOrdersByCustomer(customer.id);
+      res.json({ ...customer, orders });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch customer" });
+    }
+  });
+
+  app.patch("/api/customers/:id", requirePermission("customers"), async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer || customer.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const data = updateCustomerSchema.parse(req.body);
+      const updated = await storage.updateCustomer(req.params.id, data);
+      recordAudit(req, {
+        entityType: "customer",
+        entityId: customer.id,
+        entityLabel: `${customer.name} (${customer.phone})`,
+        action: "update",
+        before: customer,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update customer" });
+    }
+  });
+
+  // ==================== DISCOUNT ROUTES ====================
+  app.get("/api/discounts", requirePermission("discounts"), async (req, res) => {
+    try {
+      const discounts = await storage.getDiscountsByTenant((req as any).tenantId);
+      res.json(discounts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch discounts" });
+    }
+  });
+
+  app.post("/api/discounts", requirePermission("discounts"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const data = discountFormSchema.parse(req.body);
+
+      const problem = await validateDiscountInput(tenantId, data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const discount = await storage.createDiscount({ ...toDiscountValues(data), tenantId });
+      recordAudit(req, {
+        entityType: "discount",
+        entityId: discount.id,
+        entityLabel: discount.code,
+        action: "create",
+        after: discount,
+      });
+      res.json(discount);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create discount" });
+    }
+  });
+
+  app.patch("/api/discounts/:id", requirePermission("discounts"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const discount = await storage.getDiscount(req.params.id);
+      if (!discount || discount.tenantId !== tenantId) {
+        return res.status(404).json({ message: "Discount not found" });
+      }
+
+      // Partial updates (e.g. toggling isActive) are validated as a whole discount
+      const data = discountFormSchema.parse({ ...discount, ...req.body });
+
+      const problem = await validateDiscountInput(tenantId, data, discount.id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const updated = await storage.updateDiscount(discount.id, toDiscountValues(data));
+      recordAudit(req, {
+        entityType: "discount",
+        entityId: discount.id,
+        entityLabel: discount.code,
+        action: "update",
+        before: discount,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update discount" });
+    }
+  });
+
+  app.delete("/api/discounts/:id", requirePermission("discounts"), async (req, res) => {
+    try {
+      const discount = await storage.getDiscount(req.params.id);
+      if (!discount || discount.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Discount not found" });
+      }
+
+      // Orders keep their discount code and amount
+      await storage.deleteDiscount(discount.id);
+      recordAudit(req, {
+        entityType: "discount",
+        entityId: discount.id,
+        entityLabel: discount.code,
+        action: "delete",
+        before: discount,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete discount" });
+    }
+  });
+
+  // ==================== SHIPPING CLASS ROUTES ====================
+  app.get("/api/shipping-classes", requirePermission("shipping"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const classes = await storage.getShippingClassesByTenant(tenantId);
+      res.json(classes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch shipping classes" });
+    }
+  });
+
+  app.post("/api/shipping-classes", requirePermission("shipping"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const shippingClass = await storage.createShippingClass({
+        ...req.body,
+        tenantId,
+      });
+      recordAudit(req, {
+        entityType: "shipping_class",
+        entityId: shippingClass.id,
+        entityLabel: shippingClass.name,
+        action: "create",
+        after: shippingClass,
+      });
+      res.json(shippingClass);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create shipping class" });
+    }
+  });
+
+  app.patch("/api/shipping-classes/:id", requirePermission("shipping"), async (req, res) => {
+    try {
+      const sc = await storage.getShippingClass(req.params.id);
+      if (!sc || sc.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Shipping class not found" });
+      }
+
+      const updated = await storage.updateShippingClass(req.params.id, req.body);
+      recordAudit(req, {
+        entityType: "shipping_class",
+        entityId: sc.id,
+        entityLabel: sc.name,
+        action: "update",
+        before: sc,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update shipping class" });
+    }
+  });
+
+  app.delete("/api/shipping-classes/:id", requirePermission("shipping"), async (req, res) => {
+    try {
+      const sc = await storage.getShippingClass(req.params.id);
+      if (!sc || sc.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Shipping class not found" });
+      }
+
+      await storage.deleteShippingClass(req.params.id);
+      recordAudit(req, {
+        entityType: "shipping_class",
+        entityId: sc.id,
+        entityLabel: sc.name,
+        action: "delete",
+        before: sc,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete shipping class" });
+    }
+  });
+
+  // ==================== STORE SETTINGS ROUTES ====================
+  app.get("/api/store-settings", requirePermission("settings"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const settings = await storage.getStoreSettings(tenantId);
+      res.json(settings || {});
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.patch("/api/store-settings", requirePermission("settings"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+
+      if (
+        req.body.orderNumberPrefix !== undefined &&
+        !/^[A-Za-z0-9-]{0,10}$/.test(req.body.orderNumberPrefix)
+      ) {
+        return res.status(400).json({
+          message: "Order number prefix can be up to 10 letters, numbers or hyphens",
+        });
+      }
+
+      // Provider and credentials are validated together; parsing also drops
+      // any unexpected credential keys
+      const courier =
+        req.body.courierProvider !== undefined || req.body.courierCredentials !== undefined
+          ? courierSettingsSchema.parse({
+              courierProvider: req.body.courierProvider ?? null,
+              courierCredentials: req.body.courierCredentials ?? null,
+            })
+          : {};
+
+      const sms = req.body.smsTemplates !== undefined
+        ? { smsTemplates: smsTemplatesSchema.parse(req.body.smsTemplates) }
+        : {};
+
+      // Gateways are saved one at a time; the others keep their credentials
+      const { paymentCredentials, ...paymentToggles } = paymentSettingsSchema.parse({
+        codEnabled: req.body.codEnabled,
+        advanceDeliveryCharge: req.body.advanceDeliveryCharge,
+        paymentCredentials: req.body.paymentCredentials,
+      });
+      let payments: Partial<StoreSettings> = paymentToggles;
+      if (paymentCredentials) {
+        const existing = await storage.getStoreSettings(tenantId);
+        const merged = { ...existing?.paymentCredentials };
+        for (const name of paymentProviderEnum.enumValues) {
+          const credentials = paymentCredentials[name];
+          if (credentials === null) delete merged[name];
+          else if (credentials) merged[name] = credentials;
+        }
+        payments = { ...payments, paymentCredentials: merged };
+      }
+
+      const fraud = fraudSettingsSchema.parse({
+        highRiskAction: req.body.highRiskAction,
+        duplicateOrderWindow: req.body.duplicateOrderWindow,
+      });
+
+      const inventory = inventorySettingsSchema.parse({
+        lowStockThreshold: req.body.lowStockThreshold,
+        lowStockEmail: req.body.lowStockEmail,
+      });
+
+      const previous = await storage.getStoreSettings(tenantId);
+      const settings = await storage.upsertStoreSettings({
+        ...req.body,
+        ...courier,
+        ...sms,
+        ...payments,
+        ...fraud,
+        ...inventory,
+        tenantId,
+      });
+      recordAudit(req, {
+        entityType: "store_settings",
+        entityId: settings.id,
+        action: "update",
+        before: previous,
+        after: settings,
+      });
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Rotating the secret breaks webhooks until it's updated in the courier portal
+  app.post("/api/store-settings/courier-webhook-secret", requirePermission("settings"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const previous = await storage.getStoreSettings(tenantId);
+      const settings = await storage.upsertStoreSettings({
+        tenantId,
+        courierWebhookSecret: randomBytes(24).toString("hex"),
+      });
+      recordAudit(req, {
+        entityType: "store_settings",
+        entityId: settings.id,
+        action: "update",
+        before: previous,
+        after: settings,
+      });
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate webhook secret" });
+    }
+  });
+
+  // ==================== STAFF ROUTES ====================
+  app.get("/api/staff", requirePermission("staff"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const [members, invites] = await Promise.all([
+        storage.getStaffByTenant(tenantId),
+        storage.getStaffInvitesByTenant(tenantId),
+      ]);
+      res.json({ members, invites });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch staff" });
+    }
+  });
+
+  app.post("/api/staff/invites", requirePermission("staff"), async (req, res) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const user = (req as any).user;
+      const data = staffInviteSchema.parse(req.body);
+
+      if (await storage.getUserByEmail(data.email)) {
+        return res.status(400).json({ message: "This email already has a StoreBuilder login" });
+      }
+
+      const token = randomBytes(32).toString("hex");
+      const invite = await storage.upsertStaffInvite({
+        tenantId,
+        email: data.email,
+        role: data.role,
+        tokenHash: hashToken(token),
+        invitedBy: user.id,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      });
+
+      const inviteUrl = `${getAppUrl()}/invite/${token}`;
+      const emailSent = await sendStaffInviteEmail({
+        email: invite.email,
+        storeName: user.tenant?.name || "our store",
+        invitedBy: user.email,
+        roleLabel: TENANT_ROLES[invite.role].label,
+        inviteUrl,
+        expiresAt: invite.expiresAt,
+      });
+
+      const { tokenHash, ...publicInvite } = invite;
+      recordAudit(req, {
+        entityType: "staff_invite",
+        entityId: invite.id,
+        entityLabel: invite.email,
+        action: "invite",
+        after: publicInvite,
+      });
+      // Without email set up, the link is handed back so it can be shared by hand
+      res.json({ invite: publicInvite, emailSent, inviteUrl: emailSent ? undefined : inviteUrl });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Staff invite error:", error);
+      res.status(500).json({ message: "Failed to send invite" });
+    }
+  });
+
+  app.delete("/api/staff/invites/:id", requirePermission("staff"), async (req, res) => {
+    try {
+      const invite = await storage.getStaffInvite(req.params.id);
+      if (!invite || invite.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      await storage.deleteStaffInvite(invite.id);
+      const { tokenHash, ...publicInvite } = invite;
+      recordAudit(req, {
+        entityType: "staff_invite",
+        entityId: invite.id,
+        entityLabel: invite.email,
+        action: "delete",
+        before: publicInvite,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel invite" });
+    }
+  });
+
+  // Staff can't change or remove themselves, so a store always keeps the
+  // owner who is doing the editing
+  app.patch("/api/staff/:id", requirePermission("staff"), async (req, res) => {
+    try {
+      const member = await storage.getTenantMemberById(req.params.id);
+      if (!member || member.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      if (member.userId === (req as any).user.id) {
+        return res.status(400).json({ message: "You can't change your own role" });
+      }
+
+      const { role } = updateStaffMemberSchema.parse(req.body);
+      const updated = await storage.updateTenantMemberRole(member.id, role);
+      const staffUser = await storage.getUser(member.userId);
+      recordAudit(req, {
+        entityType: "staff",
+        entityId: member.id,
+        entityLabel: staffUser?.email,
+        action: "update",
+        before: member,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update staff member" });
+    }
+  });
+
+  app.delete("/api/staff/:id", requirePermission("staff"), async (req, res) => {
+    try {
+      const member = await storage.getTenantMemberById(req.params.id);
+      if (!member || member.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      if (member.userId === (req as any).user.id) {
+        return res.status(400).json({ message: "You can't remove yourself" });
+      }
+
+      const staffUser = await storage.getUser(member.userId);
+      await storage.deleteStaffMember(member);
+      recordAudit(req, {
+        entityType: "staff",
+        entityId: member.id,
+        entityLabel: staffUser?.email,
+        action: "delete",
+        before: member,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove staff member" });
+    }
+  });
+
+  app.get("/api/invites/:token", authLimiter, async (req, res) => {
+    try {
+      const invite = await findValidInvite(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+
+      const tenant = await storage.getTenant(invite.tenantId);
+      res.json({ email: invite.email, role: invite.role, storeName: tenant?.name });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load invitation" });
+    }
+  });
+
+  app.post("/api/invites/:token/accept", authLimiter, async (req, res) => {
+    try {
+      const invite = await findValidInvite(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+
+      const data = acceptInviteSchema.parse(req.body);
+      if (await storage.getUserByEmail(invite.email)) {
+        return res.status(400).json({ message: "Email already registered" });
+      }
+
+      const user = await storage.acceptStaffInvite(invite, await hash(data.password, 10));
+      startUserSession(req, user.id);
+      recordAudit(req, {
+        tenantId: invite.tenantId,
+        entityType: "staff",
+        entityId: user.id,
+        entityLabel: user.email,
+        action: "join",
+        after: { role: invite.role },
+        actor: { id: user.id, email: user.email, role: invite.role },
+      });
+
+      req.session.save((err) => {
+        if (err) {
+          console.error("Session save error:", err);
+          return res.status(500).json({ message: "Failed to accept invitation" });
+        }
+        res.json({ success: true });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Accept invite error:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // ==================== API KEY ROUTES ====================
+  app.get("/api/api-keys", requirePermission("api_keys"), async (req, res) => {
+    try {
+      const apiKeys = await storage.getApiKeysByTenant((req as any).tenantId);
+      res.json(apiKeys);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch API keys" });
+    }
+  });
+
+  app.post("/api/api-keys", requirePermission("api_keys"), async (req, res) => {
+    try {
+      const data = createApiKeySchema.parse(req.body);
+      const { key, ...credentials } = generateApiKey();
+      const { keyHash, ...apiKey } = await storage.createApiKey({
+        ...data,
+        ...credentials,
+        tenantId: (req as any).tenantId,
+        createdBy: (req as any).user.id,
+      });
+      recordAudit(req, {
+        entityType: "api_key",
+        entityId: apiKey.id,
+        entityLabel: apiKey.name,
+        action: "create",
+        after: apiKey,
+      });
+      // The full key is only ever returned here
+      res.json({ apiKey, key });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create API key" });
+    }
+  });
+
+  app.delete("/api/api-keys/:id", requirePermission("api_keys"), async (req, res) => {
+    try {
+      const apiKey = await storage.getApiKey(req.params.id);
+      if (!apiKey || apiKey.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+
+      const revoked = await storage.revokeApiKey(apiKey.id);
+      if (revoked) {
+        recordAudit(req, {
+          entityType: "api_key",
+          entityId: apiKey.id,
+          entityLabel: apiKey.name,
+          action: "revoke",
+          before: { revokedAt: null },
+          after: { revokedAt: revoked.revokedAt },
+        });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
+
+  // ==================== WEBHOOK ROUTES ====================
+  app.get("/api/webhooks", requirePermission("webhooks"), async (req, res) => {
+    try {
+      const webhooks = await storage.getWebhooksByTenant((req as any).tenantId);
+      res.json(webhooks);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhooks" });
     }
   });
 
-  app.patch("/api/orders/:id/status", requireTenant, async (req, res) => {
+  app.post("/api/webhooks", requirePermission("webhooks"), async (req, res) => {
     try {
-      const order = await storage.getOrder(req.params.id);
-      if (!order || order.tenantId !== (req as any).tenantId) {
-        return res.status(404).json({ message: "Order not found" });
+      const data = webhookSchema.parse(req.body);
+      const urlError = await getWebhookUrlError(data.url);
+      if (urlError) {
+        return res.status(400).json({ message: urlError });
       }
 
-      const updated = await storage.updateOrderStatus(req.params.id, req.body.status);
-      res.json(updated);
+      const webhook = await storage.createWebhook({
+        ...data,
+        tenantId: (req as any).tenantId,
+        secret: generateWebhookSecret(),
+      });
+      recordAudit(req, {
+        entityType: "webhook",
+        entityId: webhook.id,
+        entityLabel: webhook.url,
+        action: "create",
+        after: webhook,
+      });
+      res.json(webhook);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update order" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create webhook" });
     }
   });
 
-  app.patch("/api/orders/bulk-status", requireTenant, async (req, res) => {
+  app.patch("/api/webhooks/:id", requirePermission("webhooks"), async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const { orderIds, status } = req.body;
-
-      if (!Array.isArray(orderIds) || orderIds.length === 0) {
-        return res.status(400).json({ message: "Order IDs array is required" });
+      const webhook = await storage.getWebhook(req.params.id);
+      if (!webhook || webhook.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Webhook not found" });
       }
 
-      if (!status || !["new", "confirmed", "shipped", "delivered", "cancelled"].includes(status)) {
-        return res.status(400).json({ message: "Valid status is required" });
+      const data = webhookSchema.partial().parse(req.body);
+      const urlError = data.url ? await getWebhookUrlError(data.url) : null;
+      if (urlError) {
+        return res.status(400).json({ message: urlError });
       }
 
-      const updatedCount = await storage.bulkUpdateOrderStatus(orderIds, status, tenantId);
-      res.json({ success: true, updatedCount });
+      const updated = await storage.updateWebhook(webhook.id, data);
+      recordAudit(req, {
+        entityType: "webhook",
+        entityId: webhook.id,
+        entityLabel: webhook.url,
+        action: "update",
+        before: webhook,
+        after: updated,
+      });
+      res.json(updated);
     } catch (error) {
-      console.error("Bulk update error:", error);
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      res.status(500).json({ message: "Failed to update orders", error: errorMessage });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update webhook" });
     }
   });
 
-  app.get("/api/orders/export", requireTenant, async (req, res) => {
+  app.delete("/api/webhooks/:id", requirePermission("webhooks"), async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const statusFilter = req.query.status as string | undefined;
-      const orders = await storage.getOrdersByTenant(tenantId);
-      
-      const filteredOrders = statusFilter && statusFilter !== "all"
-        ? orders.filter((o) => o.status === statusFilter)
-        : orders;
-
-      // Generate CSV
-      const headers = ["Order ID", "Customer Name", "Phone", "Address", "Quantity", "Subtotal", "Shipping", "Total", "Status", "Created At"];
-      const rows = filteredOrders.map((order) => [
-        order.id,
-        order.customerName,
-        order.phone,
-        order.address.replace(/,/g, ";"), // Replace commas to avoid CSV issues
-        order.quantity.toString(),
-        order.subtotal,
-        order.shippingFee,
-        order.total,
-        order.status,
-        new Date(order.createdAt).toISOString(),
-      ]);
-
-      const csvContent = [
-        headers.join(","),
-        ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
-      ].join("\n");
+      const webhook = await storage.getWebhook(req.params.id);
+      if (!webhook || webhook.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
 
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader("Content-Disposition", `attachment; filename="orders-${statusFilter || "all"}-${Date.now()}.csv"`);
-      res.send(csvContent);
+      await storage.deleteWebhook(webhook.id);
+      recordAudit(req, {
+        entityType: "webhook",
+        entityId: webhook.id,
+        entityLabel: webhook.url,
+        action: "delete",
+        before: webhook,
+      });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Export error:", error);
-      res.status(500).json({ message: "Failed to export orders" });
+      res.status(500).json({ message: "Failed to delete webhook" });
     }
   });
 
-  // ==================== SHIPPING CLASS ROUTES ====================
-  app.get("/api/shipping-classes", requireTenant, async (req, res) => {
+  app.get("/api/webhooks/:id/deliveries", requirePermission("webhooks"), async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const classes = await storage.getShippingClassesByTenant(tenantId);
-      res.json(classes);
+      const webhook = await storage.getWebhook(req.params.id);
+      if (!webhook || webhook.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const deliveries = await storage.getWebhookDeliveries(webhook.id, WEBHOOK_DELIVERY_LOG_SIZE);
+      res.json(deliveries);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch shipping classes" });
+      res.status(500).json({ message: "Failed to fetch deliveries" });
     }
   });
 
-  app.post("/api/shipping-classes", requireTenant, async (req, res) => {
+  app.post("/api/webhooks/:id/deliveries/:deliveryId/redeliver", requirePermission("webhooks"), async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const shippingClass = await storage.createShippingClass({
-        ...req.body,
-        tenantId,
+      const webhook = await storage.getWebhook(req.params.id);
+      if (!webhook || webhook.tenantId !== (req as any).tenantId) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      const delivery = await storage.getWebhookDelivery(req.params.deliveryId);
+      if (!delivery || delivery.webhookId !== webhook.id) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+
+      const redelivery = await redeliverWebhook(webhook, delivery);
+      recordAudit(req, {
+        entityType: "webhook",
+        entityId: webhook.id,
+        entityLabel: `${webhook.url} (${delivery.event})`,
+        action: "redeliver",
       });
-      res.json(shippingClass);
+      res.json(redelivery);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create shipping class" });
+      res.status(500).json({ message: "Failed to redeliver webhook" });
     }
   });
 
-  app.patch("/api/shipping-classes/:id", requireTenant, async (req, res) => {
+  // ==================== AUDIT LOG ROUTES ====================
+  app.get("/api/audit-logs", requirePermission("audit"), async (req, res) => {
     try {
-      const sc = await storage.getShippingClass(req.params.id);
-      if (!sc || sc.tenantId !== (req as any).tenantId) {
-        return res.status(404).json({ message: "Shipping class not found" });
+      const filters = auditLogFiltersSchema.parse(req.query);
+      const logs = await storage.getAuditLogs({ ...filters, tenantId: (req as any).tenantId }, AUDIT_LOG_PAGE_SIZE);
+      res.json(logs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
       }
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
 
-      const updated = await storage.updateShippingClass(req.params.id, req.body);
-      res.json(updated);
+  app.get("/api/audit-logs/export", requirePermission("audit"), async (req, res) => {
+    try {
+      const filters = auditLogFiltersSchema.parse(req.query);
+      const logs = await storage.getAuditLogs({ ...filters, tenantId: (req as any).tenantId }, AUDIT_LOG_EXPORT_LIMIT);
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${Date.now()}.csv"`);
+      res.send(auditLogsToCsv(logs, false));
     } catch (error) {
-      res.status(500).json({ message: "Failed to update shipping class" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Audit log export error:", error);
+      res.status(500).json({ message: "Failed to export audit log" });
     }
   });
 
-  app.delete("/api/shipping-classes/:id", requireTenant, async (req, res) => {
+  // ==================== COURIER WEBHOOKS ====================
+  app.post("/api/webhooks/couriers/:provider/:tenantId", async (req, res) => {
     try {
-      const sc = await storage.getShippingClass(req.params.id);
-      if (!sc || sc.tenantId !== (req as any).tenantId) {
-        return res.status(404).json({ message: "Shipping class not found" });
+      const provider = req.params.provider as CourierProviderName;
+      if (!courierProviderEnum.enumValues.includes(provider)) {
+        return res.status(404).json({ message: "Unknown courier" });
       }
 
-      await storage.deleteShippingClass(req.params.id);
-      res.json({ success: true });
+      const settings = await storage.getStoreSettings(req.params.tenantId);
+      const secret = getWebhookSecret(req.headers);
+      if (!isValidWebhookSecret(settings?.courierWebhookSecret, secret)) {
+        return res.status(401).json({ message: "Invalid webhook secret" });
+      }
+
+      const event = parseCourierWebhook(provider, req.body);
+      if (!event) {
+        // Handshakes and events without a parcel reference
+        return res.status(202).json({ message: "Ignored" });
+      }
+
+      const order = await storage.findOrderByCourierReference(req.params.tenantId, provider, event);
+      if (!order) {
+        return res.status(202).json({ message: "Order not found" });
+      }
+
+      const status = getStatusForCourierEvent(event.event, order.status);
+      const updated = await storage.applyCourierUpdate(order.id, status, {
+        courierStatus: event.courierStatus,
+        message: event.message,
+      });
+      if (updated && status) {
+        sendOrderStatusSms(updated);
+        sendOrderStatusWebhook(updated, order.status);
+      }
+      res.json({ success: true, status: updated?.status });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete shipping class" });
+      if (error instanceof OutOfStockError) {
+        return res.status(409).json({ message: `Cannot reinstate order: ${error.message}` });
+      }
+      if (error instanceof OrderOnHoldError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Courier webhook error:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
     }
   });
 
-  // ==================== STORE SETTINGS ROUTES ====================
-  app.get("/api/store-settings", requireTenant, async (req, res) => {
+  // ==================== PAYMENT CALLBACKS ====================
+  // Gateways send the customer back here (GET or POST, depending on the
+  // gateway); we confirm with the gateway and return them to the track page
+  app.all("/api/payments/:provider/callback/:orderId", async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const settings = await storage.getStoreSettings(tenantId);
-      res.json(settings || {});
+      const provider = req.params.provider as PaymentProviderName;
+      const order = paymentProviderEnum.enumValues.includes(provider)
+        ? await storage.getOrder(req.params.orderId)
+        : undefined;
+      const tenant = order ? await storage.getTenant(order.tenantId) : undefined;
+      if (!order || !tenant) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const params = { ...req.query, ...req.body } as Record<string, string>;
+      const updated = await completeOrderPayment(provider, order, params);
+
+      const query = new URLSearchParams({
+        order: getOrderNumber(updated),
+        payment: updated.paymentStatus === "paid" ? "paid" : "failed",
+      });
+      res.redirect(303, `${getStorefrontPath(req, tenant)}/track?${query}`);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch settings" });
+      console.error("Payment callback error:", error);
+      res.status(500).json({ message: "Failed to process payment" });
     }
   });
 
-  app.patch("/api/store-settings", requireTenant, async (req, res) => {
+  // Server-to-server notifications, for when the customer never makes it back
+  app.post("/api/payments/:provider/ipn/:orderId", async (req, res) => {
     try {
-      const tenantId = (req as any).tenantId;
-      const settings = await storage.upsertStoreSettings({
-        ...req.body,
-        tenantId,
-      });
-      res.json(settings);
+      const provider = req.params.provider as PaymentProviderName;
+      const order = paymentProviderEnum.enumValues.includes(provider)
+        ? await storage.getOrder(req.params.orderId)
+        : undefined;
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const updated = await completeOrderPayment(provider, order, req.body as Record<string, string>);
+      res.json({ success: true, paymentStatus: updated.paymentStatus });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update settings" });
+      console.error("Payment IPN error:", error);
+      res.status(500).json({ message: "Failed to process notification" });
     }
   });
 
@@ -620,13 +2954,49 @@ export async function registerRoutes(
       }
 
       const products = await storage.getProductsByTenant(tenant.id);
-      const activeProducts = products.filter((p) => p.status === "active");
+      let activeProducts = products.filter((p) => p.status === "active");
       const settings = await storage.getStoreSettings(tenant.id);
+      const shippingClasses = await storage.getShippingClassesByTenant(tenant.id);
+      const categories = await storage.getCategoriesByTenant(tenant.id);
+      const collections = await storage.getCollectionsByTenant(tenant.id);
+
+      // ?category= and ?collection= take slugs and narrow the product list.
+      // A category includes everything in its subcategories.
+      const { category: categorySlug, collection: collectionSlug } = req.query;
+      const category = typeof categorySlug === "string" ? categories.find((c) => c.slug === categorySlug) : undefined;
+      const collection = typeof collectionSlug === "string" ? collections.find((c) => c.slug === collectionSlug) : undefined;
+      if ((categorySlug && !category) || (collectionSlug && !collection)) {
+        return res.status(404).json({ message: categorySlug && !category ? "Category not found" : "Collection not found" });
+      }
+
+      if (category || collection) {
+        const productCategoryIds = expandCategoryAncestors(
+          categories,
+          groupLinks(await storage.getProductCategoryLinks(tenant.id), "productId", "categoryId")
+        );
+        if (category) {
+          activeProducts = activeProducts.filter((p) => productCategoryIds.get(p.id)?.includes(category.id));
+        }
+        if (collection) {
+          const manualProductIds = collection.type === "manual"
+            ? (await storage.getCollectionProductLinks(tenant.id))
+                .filter((link) => link.collectionId === collection.id)
+                .map((link) => link.productId)
+            : [];
+          const productIds = getCollectionProductIds(collection, activeProducts, productCategoryIds, manualProductIds);
+          activeProducts = activeProducts.filter((p) => productIds.has(p.id));
+        }
+      }
 
       res.json({
         tenant: { id: tenant.id, name: tenant.name, slug: tenant.slug },
         products: activeProducts,
-        settings,
+        categories,
+        collections: collections.map(toPublicCollection),
+        category: category ?? null,
+        collection: collection ? toPublicCollection(collection) : null,
+        shippingClasses,
+        settings: toPublicStoreSettings(settings),
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch store data" });
@@ -654,20 +3024,22 @@ export async function registerRoutes(
       const variants = product.hasVariants 
         ? await storage.getProductVariants(product.id)
         : [];
+      const options = product.hasVariants ? await storage.getProductOptions(product.id) : [];
 
       res.json({
         tenant: { id: tenant.id, name: tenant.name, slug: tenant.slug },
         product,
         variants,
+        options,
         shippingClasses,
-        settings,
+        settings: toPublicStoreSettings(settings),
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch store data" });
     }
   });
 
-  app.post("/api/store/:storeSlug/orders", checkoutLimiter, async (req, res) => {
+  app.post("/api/store/:storeSlug/discount", discountLimiter, async (req, res) => {
     try {
       const { storeSlug } = req.params;
 
@@ -676,84 +3048,298 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Store not found" });
       }
 
-      const data = checkoutSchema.parse(req.body);
-      const product = await storage.getProduct(req.body.productId);
-      if (!product || product.tenantId !== tenant.id) {
-        return res.status(404).json({ message: "Product not found" });
+      const data = discountPreviewSchema.parse(req.body);
+
+      const priced = await priceCheckoutItems(tenant.id, data.items);
+      if ("error" in priced) {
+        return res.status(priced.status).json({ message: priced.error, soldOut: priced.soldOut });
       }
 
-      // Get variant if provided
-      let variant = null;
-      let unitPrice = parseFloat(product.price);
-      
-      if (data.variantId) {
-        variant = await storage.getProductVariant(data.variantId);
-        if (!variant || variant.productId !== product.id) {
-          return res.status(400).json({ message: "Invalid variant" });
-        }
-        
-        // Check stock
-        if (variant.stock < data.quantity) {
-          return res.status(400).json({ message: "Insufficient stock for selected variant" });
-        }
-        
-        unitPrice = parseFloat(variant.price);
+      const shippingClass = data.shippingClassId ? await storage.getShippingClass(data.shippingClassId) : undefined;
+      const shippingFee = shippingClass && shippingClass.tenantId === tenant.id ? parseFloat(shippingClass.fee) : 0;
+      const subtotal = priced.lines.reduce((sum, line) => sum + parseFloat(line.lineTotal), 0);
+      const applied = await resolveCheckoutDiscount(tenant.id, data.discountCode, priced.lines, shippingFee);
+      const discountAmount = applied?.amount ?? 0;
+
+      const preview: DiscountPreview = {
+        discount: applied
+          ? { code: applied.discount.code, type: applied.discount.type, automatic: applied.discount.automatic }
+          : null,
+        subtotal: subtotal.toFixed(2),
+        shippingFee: shippingFee.toFixed(2),
+        discountAmount: discountAmount.toFixed(2),
+        total: (subtotal + shippingFee - discountAmount).toFixed(2),
+      };
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof DiscountError) {
+        return res.status(400).json({ message: error.message, discountInvalid: true });
+      }
+      res.status(500).json({ message: "Failed to check discount" });
+    }
+  });
+
+  app.post("/api/store/:storeSlug/track", trackingLimiter, async (req, res) => {
+    try {
+      const { storeSlug } = req.params;
+
+      const tenant = await storage.getTenantBySlug(storeSlug);
+      if (!tenant || tenant.status !== "active") {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const data = trackOrderSchema.parse(req.body);
+
+      // Same answer for an unknown number and a wrong phone, so the lookup
+      // can't be used to discover which order numbers exist
+      const order = await storage.findOrderByNumber(tenant.id, data.orderNumber);
+      if (!order || normalizeBdPhone(order.phone) !== normalizeBdPhone(data.phone)) {
+        return res.status(404).json({ message: "No order matches that order number and phone" });
+      }
+
+      const shippingClass = order.shippingClassId
+        ? await storage.getShippingClass(order.shippingClassId)
+        : undefined;
+      const events = await storage.getOrderEvents(order.id);
+
+      const tracked: TrackedOrder = {
+        orderNumber: getOrderNumber(order),
+        status: order.status,
+        createdAt: order.createdAt,
+        items: order.items.map(({ productName, variantName, quantity, lineTotal }) => ({
+          productName,
+          variantName,
+          quantity,
+          lineTotal,
+        })),
+        subtotal: order.subtotal,
+        shippingFee: order.shippingFee,
+        discountAmount: order.discountAmount,
+        total: order.total,
+        shippingClass: shippingClass ? { name: shippingClass.name, location: shippingClass.location } : null,
+        courier: order.courierProvider
+          ? { name: COURIER_PROVIDERS[order.courierProvider].label, trackingCode: order.courierTrackingCode }
+          : null,
+        payment: {
+          method: order.paymentMethod,
+          provider: order.paymentProvider,
+          status: order.paymentStatus,
+          due: order.paymentDue,
+        },
+        // Staff notes stay private; payment messages are written for customers
+        timeline: events.filter((event) => event.type !== "review").map(({ type, status, courierStatus, message, createdAt }) => ({
+          type,
+          status,
+          courierStatus,
+          message: type === "payment" ? message : null,
+          createdAt,
+        })),
+      };
+      res.json(tracked);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to look up order" });
+    }
+  });
+
+  // Retries the online payment for an order whose payment failed or was abandoned
+  app.post("/api/store/:storeSlug/track/pay", trackingLimiter, async (req, res) => {
+    try {
+      const { storeSlug } = req.params;
+
+      const tenant = await storage.getTenantBySlug(storeSlug);
+      if (!tenant || tenant.status !== "active") {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const data = trackOrderSchema.parse(req.body);
+
+      const order = await storage.findOrderByNumber(tenant.id, data.orderNumber);
+      if (!order || normalizeBdPhone(order.phone) !== normalizeBdPhone(data.phone)) {
+        return res.status(404).json({ message: "No order matches that order number and phone" });
+      }
+      if (order.status === "cancelled" || !["pending", "failed"].includes(order.paymentStatus)) {
+        return res.status(400).json({ message: "This order has nothing to pay online" });
+      }
+
+      const provider = order.paymentProvider
+        ? getPaymentProvider(await storage.getStoreSettings(tenant.id), order.paymentProvider)
+        : null;
+      if (!provider) {
+        return res.status(400).json({ message: "Online payment isn't available for this store right now" });
+      }
+
+      const payment = await startOrderPayment(req, order, provider);
+      if ("paymentError" in payment) {
+        return res.status(502).json({ message: payment.paymentError });
+      }
+      res.json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to start payment" });
+    }
+  });
+
+  app.post("/api/store/:storeSlug/orders", checkoutLimiter, async (req, res) => {
+    try {
+      const { storeSlug } = req.params;
+
+      const tenant = await storage.getTenantBySlug(storeSlug);
+      if (!tenant || tenant.status !== "active") {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      // Older clients post a single product at the top level
+      const body = Array.isArray(req.body?.items)
+        ? req.body
+        : {
+            ...req.body,
+            items: [{ productId: req.body?.productId, variantId: req.body?.variantId, quantity: req.body?.quantity }],
+          };
+      const data = cartCheckoutSchema.parse(body);
+
+      const priced = await priceCheckoutItems(tenant.id, data.items);
+      if ("error" in priced) {
+        return res.status(priced.status).json({ message: priced.error, soldOut: priced.soldOut });
       }
+      const { lines } = priced;
 
       const shippingClass = await storage.getShippingClass(data.shippingClassId);
       if (!shippingClass || shippingClass.tenantId !== tenant.id) {
         return res.status(400).json({ message: "Invalid shipping option" });
       }
 
-      const subtotal = unitPrice * data.quantity;
+      const subtotal = lines.reduce((sum, line) => sum + parseFloat(line.lineTotal), 0);
+      const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
       const shippingFee = parseFloat(shippingClass.fee);
-      const total = subtotal + shippingFee;
 
-      const order = await storage.createOrder({
-        tenantId: tenant.id,
-        productId: product.id,
-        variantId: variant?.id || null,
-        customerName: data.customerName,
-        phone: data.phone,
-        address: data.address,
-        quantity: data.quantity,
-        shippingClassId: data.shippingClassId,
-        shippingFee: shippingFee.toFixed(2),
-        subtotal: subtotal.toFixed(2),
-        total: total.toFixed(2),
-        status: "new",
-      });
+      const storeSettings = await storage.getStoreSettings(tenant.id);
+      const paymentProviders = getEnabledPaymentProviders(storeSettings);
+      if (data.paymentMethod === "cod" && storeSettings?.codEnabled === false && paymentProviders.length > 0) {
+        return res.status(400).json({ message: "This store only accepts online payment" });
+      }
+      if (data.paymentMethod === "online" && paymentProviders.length === 0) {
+        return res.status(400).json({ message: "This store doesn't accept online payment" });
+      }
 
-      // Update variant stock if variant was used
-      if (variant) {
-        await storage.updateProductVariant(variant.id, {
-          stock: variant.stock - data.quantity,
+      const risk = await assessOrderRisk(
+        { tenantId: tenant.id, phone: data.phone, customerName: data.customerName, address: data.address },
+        lines,
+        storeSettings?.duplicateOrderWindow ?? 60
+      );
+      const highRisk = getRiskLevel(risk.score) === "high";
+      if (highRisk && storeSettings?.highRiskAction === "reject") {
+        // Deliberately vague, so the checks can't be probed from the storefront
+        return res.status(422).json({
+          message: "We couldn't place this order. Please contact the store to order by phone.",
+          rejected: true,
         });
       }
 
-      const storeSettings = await storage.getStoreSettings(tenant.id);
+      // An automatic discount can run out between being picked here and the
+      // order being saved. The order then goes through without it; only a
+      // code the customer typed in fails the checkout.
+      const exhaustedDiscountIds: string[] = [];
+      let order: OrderWithItems | undefined;
+      let paymentProvider: PaymentProvider | null = null;
+      while (!order) {
+        const applied = await resolveCheckoutDiscount(
+          tenant.id,
+          data.discountCode,
+          lines,
+          shippingFee,
+          exhaustedDiscountIds
+        );
+        const discountAmount = applied?.amount ?? 0;
+        const total = subtotal + shippingFee - discountAmount;
+
+        // Advance delivery charges need a gateway to pay them through
+        const paymentDue = getOnlinePaymentDue(
+          data.paymentMethod,
+          !!storeSettings?.advanceDeliveryCharge && paymentProviders.length > 0,
+          { total, shippingFee: applied?.discount.type === "free_shipping" ? 0 : shippingFee }
+        );
+        paymentProvider =
+          paymentDue > 0 && data.paymentProvider ? getPaymentProvider(storeSettings, data.paymentProvider) : null;
+        if (paymentDue > 0 && !paymentProvider) {
+          return res.status(400).json({ message: "Please choose how to pay online" });
+        }
+
+        try {
+          order = await storage.createOrder(
+            {
+              tenantId: tenant.id,
+              customerName: data.customerName,
+              phone: data.phone,
+              address: data.address,
+              quantity: totalQuantity,
+              shippingClassId: data.shippingClassId,
+              shippingFee: shippingFee.toFixed(2),
+              subtotal: subtotal.toFixed(2),
+              discountId: applied?.discount.id ?? null,
+              discountCode: applied?.discount.code ?? null,
+              discountAmount: discountAmount.toFixed(2),
+              total: total.toFixed(2),
+              paymentMethod: data.paymentMethod,
+              paymentProvider: paymentProvider?.name ?? null,
+              paymentStatus: paymentDue > 0 ? "pending" : "not_required",
+              paymentDue: paymentDue.toFixed(2),
+              riskScore: risk.score,
+              riskReasons: risk.reasons.length ? risk.reasons : null,
+              onHold: highRisk && storeSettings?.highRiskAction === "hold",
+              status: "new",
+            },
+            lines
+          );
+        } catch (error) {
+          if (!(error instanceof DiscountUnavailableError) || !applied?.discount.automatic) throw error;
+          exhaustedDiscountIds.push(applied.discount.id);
+        }
+      }
+
       if (storeSettings?.contactEmail) {
         sendNewOrderEmail({
           tenantEmail: storeSettings.contactEmail,
           tenantName: tenant.name,
-          orderNumber: order.id.slice(-8).toUpperCase(),
+          orderNumber: getOrderNumber(order),
           customerName: data.customerName,
           customerPhone: data.phone,
           customerAddress: data.address,
-          productName: product.name,
-          quantity: data.quantity,
+          items: order.items,
           subtotal: subtotal.toFixed(2),
           shippingFee: shippingFee.toFixed(2),
-          total: total.toFixed(2),
+          discountCode: order.discountCode,
+          discountAmount: order.discountAmount,
+          total: order.total,
           shippingLocation: shippingClass.location,
         }).catch(console.error);
       }
 
-      res.json(order);
+      if (!order.onHold) {
+        sendOrderSms("order_placed", order);
+      }
+      sendOrderCreatedWebhook(order);
+      sendLowStockAlerts(tenant, storeSettings, lines);
+
+      const payment = paymentProvider ? await startOrderPayment(req, order, paymentProvider) : {};
+      res.json({ ...order, ...payment });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
+      if (error instanceof OutOfStockError) {
+        return res.status(409).json({ message: error.message, soldOut: true });
+      }
+      if (error instanceof DiscountError || error instanceof DiscountUnavailableError) {
+        return res.status(400).json({ message: error.message, discountInvalid: true });
+      }
       console.error("Order error:", error);
       res.status(500).json({ message: "Failed to create order" });
     }
@@ -773,6 +3359,36 @@ export async function registerRoutes(
     res.json([]);
   });
 
+  app.get("/api/admin/audit-logs", requireAdmin, async (req, res) => {
+    try {
+      const filters = auditLogFiltersSchema.parse(req.query);
+      const logs = await storage.getAuditLogs(filters, AUDIT_LOG_PAGE_SIZE);
+      res.json(logs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get("/api/admin/audit-logs/export", requireAdmin, async (req, res) => {
+    try {
+      const filters = auditLogFiltersSchema.parse(req.query);
+      const logs = await storage.getAuditLogs(filters, AUDIT_LOG_EXPORT_LIMIT);
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-all-${Date.now()}.csv"`);
+      res.send(auditLogsToCsv(logs, true));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Audit log export error:", error);
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
   app.get("/api/admin/tenants", requireAdmin, async (req, res) => {
     try {
       const tenants = await storage.getAllTenants();
@@ -784,7 +3400,24 @@ export async function registerRoutes(
 
   app.patch("/api/admin/tenants/:id/status", requireAdmin, async (req, res) => {
     try {
+      const tenant = await storage.getTenant(req.params.id);
       const updated = await storage.updateTenant(req.params.id, { status: req.body.status });
+      clearCustomDomainCache();
+      // Login already refuses suspended stores; this signs out anyone still in
+      if (updated?.status === "suspended") {
+        await storage.deleteTenantSessions(updated.id);
+      }
+      if (updated) {
+        recordAudit(req, {
+          tenantId: updated.id,
+          entityType: "tenant",
+          entityId: updated.id,
+          entityLabel: updated.name,
+          action: "update",
+          before: tenant,
+          after: updated,
+        });
+      }
       res.json(updated);
     } catch (error) {
       res.status(500).json({ message: "Failed to update tenant status" });
@@ -793,7 +3426,19 @@ export async function registerRoutes(
 
   app.patch("/api/admin/tenants/:id/plan", requireAdmin, async (req, res) => {
     try {
+      const tenant = await storage.getTenant(req.params.id);
       const updated = await storage.updateTenant(req.params.id, { planId: req.body.planId });
+      if (updated) {
+        recordAudit(req, {
+          tenantId: updated.id,
+          entityType: "tenant",
+          entityId: updated.id,
+          entityLabel: updated.name,
+          action: "update",
+          before: tenant,
+          after: updated,
+        });
+      }
       res.json(updated);
     } catch (error) {
       res.status(500).json({ message: "Failed to update tenant plan" });
@@ -802,7 +3447,19 @@ export async function registerRoutes(
 
   app.delete("/api/admin/tenants/:id", requireAdmin, async (req, res) => {
     try {
+      const tenant = await storage.getTenant(req.params.id);
       await storage.deleteTenant(req.params.id);
+      clearCustomDomainCache();
+      if (tenant) {
+        recordAudit(req, {
+          tenantId: tenant.id,
+          entityType: "tenant",
+          entityId: tenant.id,
+          entityLabel: tenant.name,
+          action: "delete",
+          before: tenant,
+        });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Delete tenant error:", error);
@@ -823,6 +3480,14 @@ export async function registerRoutes(
   app.post("/api/admin/plans", requireAdmin, async (req, res) => {
     try {
       const plan = await storage.createPlan(req.body);
+      recordAudit(req, {
+        tenantId: null,
+        entityType: "plan",
+        entityId: plan.id,
+        entityLabel: plan.name,
+        action: "create",
+        after: plan,
+      });
       res.json(plan);
     } catch (error) {
       res.status(500).json({ message: "Failed to create plan" });
@@ -831,7 +3496,19 @@ export async function registerRoutes(
 
   app.patch("/api/admin/plans/:id", requireAdmin, async (req, res) => {
     try {
+      const plan = await storage.getPlan(req.params.id);
       const updated = await storage.updatePlan(req.params.id, req.body);
+      if (updated) {
+        recordAudit(req, {
+          tenantId: null,
+          entityType: "plan",
+          entityId: updated.id,
+          entityLabel: updated.name,
+          action: "update",
+          before: plan,
+          after: updated,
+        });
+      }
       res.json(updated);
     } catch (error) {
       res.status(500).json({ message: "Failed to update plan" });
@@ -840,7 +3517,18 @@ export async function registerRoutes(
 
   app.delete("/api/admin/plans/:id", requireAdmin, async (req, res) => {
     try {
+      const plan = await storage.getPlan(req.params.id);
       await storage.deletePlan(req.params.id);
+      if (plan) {
+        recordAudit(req, {
+          tenantId: null,
+          entityType: "plan",
+          entityId: plan.id,
+          entityLabel: plan.name,
+          action: "delete",
+          before: plan,
+        });
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete plan" });
@@ -848,17 +3536,22 @@ export async function registerRoutes(
   });
 
   // ========== Domain Mappings (Tenant) ==========
-  app.get("/api/domains", requireTenant, async (req, res) => {
+  app.get("/api/domains", requirePermission("domains"), async (req, res) => {
     try {
       const tenantId = (req as any).tenantId;
       const domains = await storage.getDomainMappingsByTenant(tenantId);
-      res.json(domains);
+      res.json(
+        domains.map((d) => ({
+          ...d,
+          txtRecord: d.verificationToken ? getVerificationRecord(d) : null,
+        }))
+      );
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch domains" });
     }
   });
 
-  app.post("/api/domains", requireTenant, async (req, res) => {
+  app.post("/api/domains", requirePermission("domains"), async (req, res) => {
     try {
       const tenantId = (req as any).tenantId;
       const user = (req as any).user;
@@ -889,14 +3582,23 @@ export async function registerRoutes(
       const domain = await storage.createDomainMapping({
         tenantId,
         domain: domainInput,
+        verificationToken: generateVerificationToken(),
+        cnameTarget: getCnameTarget(),
+      });
+      recordAudit(req, {
+        entityType: "domain",
+        entityId: domain.id,
+        entityLabel: domain.domain,
+        action: "create",
+        after: domain,
       });
-      res.json(domain);
+      res.json({ ...domain, txtRecord: getVerificationRecord(domain) });
     } catch (error) {
       res.status(500).json({ message: "Failed to add domain" });
     }
   });
 
-  app.delete("/api/domains/:id", requireTenant, async (req, res) => {
+  app.delete("/api/domains/:id", requirePermission("domains"), async (req, res) => {
     try {
       const tenantId = (req as any).tenantId;
       const domain = await storage.getDomainMapping(req.params.id);
@@ -906,13 +3608,21 @@ export async function registerRoutes(
       }
 
       await storage.deleteDomainMapping(req.params.id);
+      clearCustomDomainCache(domain.domain);
+      recordAudit(req, {
+        entityType: "domain",
+        entityId: domain.id,
+        entityLabel: domain.domain,
+        action: "delete",
+        before: domain,
+      });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete domain" });
     }
   });
 
-  app.post("/api/domains/:id/verify", requireTenant, async (req, res) => {
+  app.post("/api/domains/:id/verify", requirePermission("domains"), async (req, res) => {
     try {
       const tenantId = (req as any).tenantId;
       const domain = await storage.getDomainMapping(req.params.id);
@@ -921,9 +3631,34 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Domain not found" });
       }
 
-      // In production, you would do DNS lookup to verify CNAME record points to your server
-      // For now, we'll just mark it as verified after admin approval
-      res.json({ message: "Verification request sent. Admin will review your domain." });
+      // Domains added before DNS verification existed have no token yet
+      let mapping = domain;
+      if (!mapping.verificationToken) {
+        mapping = (await storage.updateDomainMapping(domain.id, {
+          verificationToken: generateVerificationToken(),
+          cnameTarget: getCnameTarget(),
+        }))!;
+      }
+
+      const updated = await verifyDomainMapping(mapping);
+      if (updated?.verified && !domain.verified) {
+        recordAudit(req, {
+          entityType: "domain",
+          entityId: domain.id,
+          entityLabel: domain.domain,
+          action: "verify",
+          before: domain,
+          after: updated,
+        });
+      }
+      if (!updated?.verified) {
+        return res.status(400).json({
+          message: updated?.lastCheckError || "Domain verification failed",
+          domain: updated,
+        });
+      }
+
+      res.json({ message: "Domain verified successfully", domain: updated });
     } catch (error) {
       res.status(500).json({ message: "Failed to verify domain" });
     }
@@ -941,7 +3676,26 @@ export async function registerRoutes(
 
   app.patch("/api/admin/domains/:id/verify", requireAdmin, async (req, res) => {
     try {
-      const updated = await storage.updateDomainMapping(req.params.id, { verified: true });
+      const domain = await storage.getDomainMapping(req.params.id);
+      const updated = await storage.updateDomainMapping(req.params.id, {
+        verified: true,
+        verifiedAt: new Date(),
+        lastCheckError: null,
+        checkFailures: 0,
+        manuallyVerified: true,
+      });
+      if (updated) {
+        clearCustomDomainCache(updated.domain);
+        recordAudit(req, {
+          tenantId: updated.tenantId,
+          entityType: "domain",
+          entityId: updated.id,
+          entityLabel: updated.domain,
+          action: "verify",
+          before: domain,
+          after: updated,
+        });
+      }
       res.json(updated);
     } catch (error) {
       res.status(500).json({ message: "Failed to verify domain" });
@@ -950,7 +3704,24 @@ export async function registerRoutes(
 
   app.patch("/api/admin/domains/:id/unverify", requireAdmin, async (req, res) => {
     try {
-      const updated = await storage.updateDomainMapping(req.params.id, { verified: false });
+      const domain = await storage.getDomainMapping(req.params.id);
+      const updated = await storage.updateDomainMapping(req.params.id, {
+        verified: false,
+        verifiedAt: null,
+        manuallyVerified: false,
+      });
+      if (updated) {
+        clearCustomDomainCache(updated.domain);
+        recordAudit(req, {
+          tenantId: updated.tenantId,
+          entityType: "domain",
+          entityId: updated.id,
+          entityLabel: updated.domain,
+          action: "unverify",
+          before: domain,
+          after: updated,
+        });
+      }
       res.json(updated);
     } catch (error) {
       res.status(500).json({ message: "Failed to unverify domain" });
@@ -959,13 +3730,28 @@ export async function registerRoutes(
 
   app.delete("/api/admin/domains/:id", requireAdmin, async (req, res) => {
     try {
+      const domain = await storage.getDomainMapping(req.params.id);
       await storage.deleteDomainMapping(req.params.id);
+      if (domain) {
+        clearCustomDomainCache(domain.domain);
+        recordAudit(req, {
+          tenantId: domain.tenantId,
+          entityType: "domain",
+          entityId: domain.id,
+          entityLabel: domain.domain,
+          action: "delete",
+          before: domain,
+        });
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete domain" });
     }
   });
 
+  // Public REST API, authenticated with the store's API keys
+  registerApiV1Routes(app);
+
   // Register object storage routes for file uploads
   registerObjectStorageRoutes(app);
 
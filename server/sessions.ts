@@ -0,0 +1,85 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import type { ActiveSession, UserSession } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    userId?: string;
+    // Set once the password checks out, until the 2FA code does too
+    twoFactorUserId?: string;
+    twoFactorExpiresAt?: number;
+    // Shown on the security page's list of signed-in devices
+    signedInAt?: number;
+    lastSeenAt?: number;
+    userAgent?: string;
+    ip?: string;
+  }
+}
+
+// Saving lastSeenAt rewrites the session row, so it's only refreshed this often
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+// Signs the user in on this session and notes which device it is
+export function startUserSession(req: Request, userId: string): void {
+  const now = Date.now();
+  req.session.userId = userId;
+  req.session.signedInAt = now;
+  req.session.lastSeenAt = now;
+  req.session.userAgent = req.get("user-agent")?.slice(0, 512);
+  req.session.ip = req.ip;
+}
+
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  const { session } = req;
+  if (session?.userId && (!session.lastSeenAt || Date.now() - session.lastSeenAt > LAST_SEEN_INTERVAL_MS)) {
+    session.lastSeenAt = Date.now();
+    session.ip = req.ip;
+  }
+  next();
+}
+
+// The public handle for a session. Session IDs aren't sent to the browser,
+// since anyone holding one could sign the cookie for it.
+export function getPublicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser/, "Samsung Internet"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Chrome on Android" and the like; good enough to tell devices apart
+export function describeUserAgent(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || "Unknown device";
+}
+
+export function toActiveSession(row: UserSession, currentSid: string): ActiveSession {
+  const sess = row.sess as Record<string, unknown>;
+  const timestamp = (value: unknown) => (typeof value === "number" ? new Date(value).toISOString() : null);
+  return {
+    id: getPublicSessionId(row.sid),
+    device: describeUserAgent(typeof sess.userAgent === "string" ? sess.userAgent : undefined),
+    ip: typeof sess.ip === "string" ? sess.ip : null,
+    signedInAt: timestamp(sess.signedInAt),
+    lastSeenAt: timestamp(sess.lastSeenAt),
+    current: row.sid === currentSid,
+  };
+}
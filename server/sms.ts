@@ -0,0 +1,130 @@
+import { storage } from "./storage";
+import {
+  getOrderNumber,
+  getSmsTemplates,
+  normalizeBdPhone,
+  COURIER_PROVIDERS,
+  SMS_EVENT_FOR_STATUS,
+  type Order,
+  type SmsEvent,
+} from "@shared/schema";
+
+export interface SmsProvider {
+  name: string;
+  send(to: string, message: string): Promise<{ messageId?: string }>;
+}
+
+// Development default: prints messages instead of sending them
+const logProvider: SmsProvider = {
+  name: "log",
+  async send(to, message) {
+    console.log(`[sms] to ${to}: ${message}`);
+    return {};
+  },
+};
+
+// BulkSMSBD-style HTTP gateway, the most common API shape among local providers
+function createHttpGatewayProvider(): SmsProvider {
+  const apiUrl = process.env.SMS_API_URL || "http://bulksmsbd.net/api/smsapi";
+
+  return {
+    name: "http",
+    async send(to, message) {
+      const params = new URLSearchParams({
+        api_key: process.env.SMS_API_KEY || "",
+        type: "text",
+        number: to,
+        senderid: process.env.SMS_SENDER_ID || "",
+        message,
+      });
+      const res = await fetch(apiUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: params.toString(),
+        signal: AbortSignal.timeout(15000),
+      });
+      const data: any = await res.json().catch(() => null);
+      // BulkSMSBD answers 202 in the body on success, whatever the HTTP status
+      if (!res.ok || (data?.response_code !== undefined && data.response_code !== 202)) {
+        throw new Error(data?.error_message || data?.message || `Gateway responded ${res.status}`);
+      }
+      return { messageId: data?.message_id !== undefined ? String(data.message_id) : undefined };
+    },
+  };
+}
+
+function createConfiguredProvider(): SmsProvider {
+  return process.env.SMS_PROVIDER === "http" ? createHttpGatewayProvider() : logProvider;
+}
+
+let provider: SmsProvider = createConfiguredProvider();
+
+export function setSmsProvider(custom: SmsProvider) {
+  provider = custom;
+}
+
+export function renderSmsTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in vars ? vars[key] : match));
+}
+
+// Sends the tenant's template for `event` to the order's customer and logs the
+// attempt. Each event is sent at most once per order, so status changes that
+// go back and forth don't repeat messages. Never throws.
+export async function sendOrderSms(event: SmsEvent, order: Order): Promise<void> {
+  try {
+    const settings = await storage.getStoreSettings(order.tenantId);
+    const template = getSmsTemplates(settings)[event];
+    if (!template.enabled) return;
+
+    const phone = normalizeBdPhone(order.phone);
+    if (!phone) return;
+
+    if (await storage.hasOrderSms(order.id, event)) return;
+
+    const tenant = await storage.getTenant(order.tenantId);
+    const body = renderSmsTemplate(template.body, {
+      customerName: order.customerName,
+      orderNumber: getOrderNumber(order),
+      storeName: tenant?.name || "",
+      total: order.total,
+      courier: order.courierProvider ? COURIER_PROVIDERS[order.courierProvider].label : "courier",
+      trackingCode: order.courierTrackingCode || "",
+    });
+
+    const to = `88${phone}`;
+    try {
+      const result = await provider.send(to, body);
+      await storage.createSmsMessage({
+        tenantId: order.tenantId,
+        orderId: order.id,
+        event,
+        phone: to,
+        body,
+        status: "sent",
+        provider: provider.name,
+        providerMessageId: result.messageId,
+      });
+    } catch (error) {
+      await storage.createSmsMessage({
+        tenantId: order.tenantId,
+        orderId: order.id,
+        event,
+        phone: to,
+        body,
+        status: "failed",
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  } catch (error) {
+    console.error("Failed to send order SMS:", error);
+  }
+}
+
+// Sends the SMS for the order's current status, if that status has one
+export async function sendOrderStatusSms(order: Order): Promise<void> {
+  const event = SMS_EVENT_FOR_STATUS[order.status];
+  if (event) {
+    await sendOrderSms(event, order);
+  }
+}
@@ -1,17 +1,55 @@
 import { db } from "./db";
-import { eq, and, desc, sql, count, inArray } from "drizzle-orm";
+import { eq, and, or, ne, desc, sql, count, inArray, notInArray, gte, lt, lte, ilike, getTableColumns, isNull, type SQL } from "drizzle-orm";
 import {
   users,
+  authTokens,
+  recoveryCodes,
   tenants,
+  tenantMembers,
+  staffInvites,
+  apiKeys,
+  webhooks,
+  webhookDeliveries,
   plans,
   products,
   productVariants,
+  productOptions,
+  productOptionValues,
+  categories,
+  productCategories,
+  collections,
+  collectionProducts,
+  customers,
+  discounts,
   orders,
+  orderItems,
+  orderEvents,
+  smsMessages,
   shippingClasses,
   storeSettings,
   domainMappings,
+  auditLogs,
+  userSessions,
   type User,
   type InsertUser,
+  type AuthToken,
+  type InsertAuthToken,
+  type AuthTokenPurpose,
+  type UserSession,
+  type TenantMember,
+  type InsertTenantMember,
+  type TenantRole,
+  type StaffMember,
+  type StaffInvite,
+  type InsertStaffInvite,
+  type PublicStaffInvite,
+  type ApiKey,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type InsertApiKey,
+  type PublicApiKey,
   type Tenant,
   type InsertTenant,
   type Plan,
@@ -19,23 +57,150 @@ import {
   type Product,
   type InsertProduct,
   type ProductVariant,
+  type Category,
+  type InsertCategory,
+  type Collection,
+  type InsertCollection,
   type InsertProductVariant,
+  type ProductOptionWithValues,
+  type ProductOptionsInput,
+  type ProductOptionValue,
+  type OptionValueMedia,
+  type VariantBulkUpdate,
+  type LowStockItem,
+  type Customer,
+  type CustomerWithStats,
+  type Discount,
+  type InsertDiscount,
+  type DiscountWithStats,
   type Order,
   type InsertOrder,
+  type OrderItem,
+  type InsertOrderItem,
+  type OrderWithItems,
+  type OrderStatus,
+  type OrderEvent,
+  type InsertOrderEvent,
+  type PaymentProviderName,
+  type SmsEvent,
+  type SmsMessage,
+  type InsertSmsMessage,
+  type CourierProviderName,
   type ShippingClass,
   type InsertShippingClass,
   type StoreSettings,
   type InsertStoreSettings,
   type DomainMapping,
   type InsertDomainMapping,
+  type AuditLog,
+  type InsertAuditLog,
+  type AuditLogWithTenant,
+  type AuditLogFilters,
+  formatOrderNumber,
+  getOrderNumber,
+  getOptionCombinations,
+  getVariantName,
+  normalizeBdPhone,
 } from "@shared/schema";
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Thrown when a conditional stock decrement finds fewer units than requested
+export class OutOfStockError extends Error {
+  constructor(public productName: string, public variantName?: string | null) {
+    super(`${productName}${variantName ? ` (${variantName})` : ""} is sold out`);
+    this.name = "OutOfStockError";
+  }
+}
+
+// Thrown when staff try to process a high-risk order before approving it.
+// Cancelling is always allowed.
+export class OrderOnHoldError extends Error {
+  constructor(public orderNumber: string) {
+    super(`Order #${orderNumber} is on hold - approve it before changing its status`);
+    this.name = "OrderOnHoldError";
+  }
+}
+
+// Thrown when a discount's last use is taken between validation and checkout
+export class DiscountUnavailableError extends Error {
+  constructor(public code: string) {
+    super(`Discount code ${code} has reached its usage limit`);
+    this.name = "DiscountUnavailableError";
+  }
+}
+
+type StockLine = Pick<OrderItem, "productId" | "variantId" | "quantity" | "productName" | "variantName">;
+
+// A record with an id is updated with whatever fields it has; one without is
+// created, so it carries every required field
+type ImportedRecord<T> = { id: string; data: Partial<T> } | { id?: undefined; data: T };
+
+// One product's share of a spreadsheet import. `categoryIds`, when present,
+// replaces the product's categories.
+export type ProductImportItem = ImportedRecord<InsertProduct> & {
+  categoryIds?: string[];
+  variants: ImportedRecord<Omit<InsertProductVariant, "productId">>[];
+};
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserWithTenant(id: string): Promise<(User & { tenant?: Tenant & { plan?: Plan; storeSettings?: StoreSettings } }) | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(id: string, hashedPassword: string): Promise<void>;
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthTokenByHash(purpose: AuthTokenPurpose, tokenHash: string): Promise<AuthToken | undefined>;
+  resetUserPassword(token: AuthToken, hashedPassword: string): Promise<void>;
+  verifyUserEmail(token: AuthToken): Promise<void>;
+  setTotpSecret(userId: string, secret: string): Promise<void>;
+  enableTwoFactor(userId: string, recoveryCodeHashes: string[]): Promise<void>;
+  disableTwoFactor(userId: string): Promise<void>;
+  replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  useTotpStep(userId: string, step: number): Promise<boolean>;
+  countRecoveryCodes(userId: string): Promise<number>;
+
+  // Sessions
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  deleteSession(sid: string): Promise<void>;
+  deleteUserSessions(userId: string, keepSid?: string): Promise<void>;
+  deleteTenantSessions(tenantId: string): Promise<void>;
+
+  // Staff
+  getTenantMember(tenantId: string, userId: string): Promise<TenantMember | undefined>;
+  getTenantMemberById(id: string): Promise<TenantMember | undefined>;
+  getStaffByTenant(tenantId: string): Promise<StaffMember[]>;
+  createTenantMember(member: InsertTenantMember): Promise<TenantMember>;
+  updateTenantMemberRole(id: string, role: TenantRole): Promise<TenantMember | undefined>;
+  deleteStaffMember(member: TenantMember): Promise<void>;
+  getStaffInvite(id: string): Promise<StaffInvite | undefined>;
+  getStaffInviteByTokenHash(tokenHash: string): Promise<StaffInvite | undefined>;
+  getStaffInvitesByTenant(tenantId: string): Promise<PublicStaffInvite[]>;
+  upsertStaffInvite(invite: InsertStaffInvite): Promise<StaffInvite>;
+  deleteStaffInvite(id: string): Promise<void>;
+  acceptStaffInvite(invite: StaffInvite, hashedPassword: string): Promise<User>;
+
+  // API keys
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  getApiKeysByTenant(tenantId: string): Promise<PublicApiKey[]>;
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  revokeApiKey(id: string): Promise<ApiKey | undefined>;
+  touchApiKey(id: string): Promise<void>;
+
+  // Webhooks
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  getWebhooksByTenant(tenantId: string): Promise<Webhook[]>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: string, data: Partial<Pick<Webhook, "url" | "events" | "active">>): Promise<Webhook | undefined>;
+  deleteWebhook(id: string): Promise<void>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, data: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  claimDueWebhookDeliveries(limit: number, leaseUntil: Date): Promise<WebhookDelivery[]>;
 
   // Tenants
   getTenant(id: string): Promise<Tenant | undefined>;
@@ -62,13 +227,46 @@ export interface IStorage {
   updateProduct(id: string, data: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<void>;
   countProductsByTenant(tenantId: string): Promise<number>;
+  getLowStockItems(tenantId: string, threshold: number): Promise<LowStockItem[]>;
+  importProducts(items: ProductImportItem[]): Promise<Product[]>;
+
+  // Categories and collections
+  getCategory(id: string): Promise<Category | undefined>;
+  getCategoriesByTenant(tenantId: string): Promise<Category[]>;
+  createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: string, data: Partial<InsertCategory>): Promise<Category | undefined>;
+  deleteCategory(category: Category): Promise<void>;
+  getProductCategoryLinks(tenantId: string): Promise<{ productId: string; categoryId: string }[]>;
+  setProductCategories(productId: string, categoryIds: string[]): Promise<void>;
+  getCollection(id: string): Promise<Collection | undefined>;
+  getCollectionsByTenant(tenantId: string): Promise<Collection[]>;
+  createCollection(collection: InsertCollection): Promise<Collection>;
+  updateCollection(id: string, data: Partial<InsertCollection>): Promise<Collection | undefined>;
+  deleteCollection(id: string): Promise<void>;
+  getCollectionProductLinks(tenantId: string): Promise<{ collectionId: string; productId: string }[]>;
+  setProductCollections(productId: string, collectionIds: string[]): Promise<void>;
 
   // Orders
   getOrder(id: string): Promise<Order | undefined>;
-  getOrdersByTenant(tenantId: string): Promise<Order[]>;
-  createOrder(order: InsertOrder): Promise<Order>;
+  getOrderWithItems(id: string): Promise<OrderWithItems | undefined>;
+  getOrdersByTenant(tenantId: string): Promise<OrderWithItems[]>;
+  getOrdersPage(tenantId: string, page: { status?: OrderStatus; limit: number; offset: number }): Promise<{ orders: OrderWithItems[]; total: number }>;
+  createOrder(order: InsertOrder, items: Omit<InsertOrderItem, "orderId">[]): Promise<OrderWithItems>;
   updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
-  bulkUpdateOrderStatus(ids: string[], status: string, tenantId: string): Promise<number>;
+  bulkUpdateOrderStatus(ids: string[], status: string, tenantId: string): Promise<Order[]>;
+  markOrderSentToCourier(id: string, consignment: Pick<Order, "courierProvider" | "courierConsignmentId" | "courierTrackingCode">): Promise<Order | undefined>;
+  approveHeldOrder(id: string): Promise<Order | undefined>;
+  setOrderPaymentSession(id: string, provider: PaymentProviderName, paymentReference: string): Promise<Order | undefined>;
+  markOrderPayment(id: string, result: { status: "paid" | "failed"; transactionId?: string; message?: string }): Promise<Order | undefined>;
+  findOrderByNumber(tenantId: string, orderNumber: string): Promise<OrderWithItems | undefined>;
+  findOrderByCourierReference(tenantId: string, provider: CourierProviderName, ref: { consignmentId?: string; trackingCode?: string; invoice?: string }): Promise<Order | undefined>;
+  applyCourierUpdate(id: string, status: OrderStatus | null, event: Pick<InsertOrderEvent, "courierStatus" | "message">): Promise<Order | undefined>;
+  getOrderEvents(orderId: string): Promise<OrderEvent[]>;
+
+  // SMS Messages
+  createSmsMessage(message: InsertSmsMessage): Promise<SmsMessage>;
+  getSmsMessagesByOrder(orderId: string): Promise<SmsMessage[]>;
+  hasOrderSms(orderId: string, event: SmsEvent): Promise<boolean>;
   getOrderStats(tenantId: string): Promise<{ totalOrders: number; newOrders: number; totalRevenue: string }>;
   getAnalytics(tenantId: string, period?: "7d" | "30d" | "90d" | "all"): Promise<{
     salesTrend: Array<{ date: string; revenue: number; orders: number }>;
@@ -78,6 +276,23 @@ export interface IStorage {
     conversionRate: number;
   }>;
 
+  // Customers
+  getCustomer(id: string): Promise<CustomerWithStats | undefined>;
+  getCustomersByTenant(tenantId: string): Promise<CustomerWithStats[]>;
+  getCustomersPage(tenantId: string, page: { limit: number; offset: number }): Promise<{ customers: CustomerWithStats[]; total: number }>;
+  getCustomerByPhone(tenantId: string, phone: string): Promise<Customer | undefined>;
+  getOrdersByCustomer(customerId: string): Promise<OrderWithItems[]>;
+  updateCustomer(id: string, data: Partial<Pick<Customer, "name" | "notes">>): Promise<Customer | undefined>;
+
+  // Discounts
+  getDiscount(id: string): Promise<Discount | undefined>;
+  getDiscountByCode(tenantId: string, code: string): Promise<Discount | undefined>;
+  getAutomaticDiscounts(tenantId: string): Promise<Discount[]>;
+  getDiscountsByTenant(tenantId: string): Promise<DiscountWithStats[]>;
+  createDiscount(discount: InsertDiscount): Promise<Discount>;
+  updateDiscount(id: string, data: Partial<InsertDiscount>): Promise<Discount | undefined>;
+  deleteDiscount(id: string): Promise<void>;
+
   // Shipping Classes
   getShippingClass(id: string): Promise<ShippingClass | undefined>;
   getShippingClassesByTenant(tenantId: string): Promise<ShippingClass[]>;
@@ -92,10 +307,15 @@ export interface IStorage {
   // Admin Stats
   getAdminStats(): Promise<{ totalTenants: number; activeTenants: number; totalOrders: number; totalRevenue: string }>;
 
+  // Audit Logs
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters: AuditLogFilters, limit: number): Promise<AuditLogWithTenant[]>;
+
   // Domain Mappings
   getDomainMapping(id: string): Promise<DomainMapping | undefined>;
   getDomainMappingByDomain(domain: string): Promise<DomainMapping | undefined>;
   getDomainMappingsByTenant(tenantId: string): Promise<DomainMapping[]>;
+  getVerifiedDomainMappings(): Promise<DomainMapping[]>;
   createDomainMapping(mapping: InsertDomainMapping): Promise<DomainMapping>;
   updateDomainMapping(id: string, data: Partial<InsertDomainMapping>): Promise<DomainMapping | undefined>;
   deleteDomainMapping(id: string): Promise<void>;
@@ -142,6 +362,345 @@ export class DatabaseStorage implements IStorage {
     return newUser;
   }
 
+  async updateUserPassword(id: string, hashedPassword: string): Promise<void> {
+    await db.update(users).set({ password: hashedPassword }).where(eq(users.id, id));
+  }
+
+  // Issuing a new link retires the user's earlier ones for the same purpose
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(authTokens)
+        .where(and(eq(authTokens.userId, token.userId), eq(authTokens.purpose, token.purpose)));
+      const [created] = await tx.insert(authTokens).values(token).returning();
+      return created;
+    });
+  }
+
+  async getAuthTokenByHash(purpose: AuthTokenPurpose, tokenHash: string): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(authTokens)
+      .where(and(eq(authTokens.purpose, purpose), eq(authTokens.tokenHash, tokenHash)));
+    return token;
+  }
+
+  // Getting the reset email proves the inbox too, so this also verifies it
+  async resetUserPassword(token: AuthToken, hashedPassword: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ password: hashedPassword, emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, now())` })
+        .where(eq(users.id, token.userId));
+      await tx.delete(authTokens).where(eq(authTokens.userId, token.userId));
+    });
+  }
+
+  async verifyUserEmail(token: AuthToken): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, now())` })
+        .where(eq(users.id, token.userId));
+      await tx
+        .delete(authTokens)
+        .where(and(eq(authTokens.userId, token.userId), eq(authTokens.purpose, "email_verification")));
+    });
+  }
+
+  // Staff
+  async getTenantMember(tenantId: string, userId: string): Promise<TenantMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(tenantMembers)
+      .where(and(eq(tenantMembers.tenantId, tenantId), eq(tenantMembers.userId, userId)));
+    return member;
+  }
+
+  async getTenantMemberById(id: string): Promise<TenantMember | undefined> {
+    const [member] = await db.select().from(tenantMembers).where(eq(tenantMembers.id, id));
+    return member;
+  }
+
+  async getStaffByTenant(tenantId: string): Promise<StaffMember[]> {
+    return db
+      .select({ ...getTableColumns(tenantMembers), email: users.email })
+      .from(tenantMembers)
+      .innerJoin(users, eq(users.id, tenantMembers.userId))
+      .where(eq(tenantMembers.tenantId, tenantId))
+      .orderBy(tenantMembers.createdAt);
+  }
+
+  async createTenantMember(member: InsertTenantMember): Promise<TenantMember> {
+    const [newMember] = await db.insert(tenantMembers).values(member).returning();
+    return newMember;
+  }
+
+  async updateTenantMemberRole(id: string, role: TenantRole): Promise<TenantMember | undefined> {
+    const [updated] = await db.update(tenantMembers).set({ role }).where(eq(tenantMembers.id, id)).returning();
+    return updated;
+  }
+
+  // Staff logins belong to a single store, so removing someone deletes their
+  // account; the membership goes with it
+  async deleteStaffMember(member: TenantMember): Promise<void> {
+    await db.delete(users).where(and(eq(users.id, member.userId), eq(users.tenantId, member.tenantId)));
+  }
+
+  async getStaffInvite(id: string): Promise<StaffInvite | undefined> {
+    const [invite] = await db.select().from(staffInvites).where(eq(staffInvites.id, id));
+    return invite;
+  }
+
+  async getStaffInviteByTokenHash(tokenHash: string): Promise<StaffInvite | undefined> {
+    const [invite] = await db.select().from(staffInvites).where(eq(staffInvites.tokenHash, tokenHash));
+    return invite;
+  }
+
+  async getStaffInvitesByTenant(tenantId: string): Promise<PublicStaffInvite[]> {
+    const { tokenHash, ...columns } = getTableColumns(staffInvites);
+    return db
+      .select(columns)
+      .from(staffInvites)
+      .where(eq(staffInvites.tenantId, tenantId))
+      .orderBy(desc(staffInvites.createdAt));
+  }
+
+  // Inviting the same email again replaces the earlier invite, so only the
+  // newest link works
+  async upsertStaffInvite(invite: InsertStaffInvite): Promise<StaffInvite> {
+    const [saved] = await db
+      .insert(staffInvites)
+      .values(invite)
+      .onConflictDoUpdate({
+        target: [staffInvites.tenantId, staffInvites.email],
+        set: {
+          role: invite.role,
+          tokenHash: invite.tokenHash,
+          invitedBy: invite.invitedBy,
+          expiresAt: invite.expiresAt,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteStaffInvite(id: string): Promise<void> {
+    await db.delete(staffInvites).where(eq(staffInvites.id, id));
+  }
+
+  // Creates the invitee's login and membership, using up the invite
+  async acceptStaffInvite(invite: StaffInvite, hashedPassword: string): Promise<User> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values({
+          email: invite.email,
+          password: hashedPassword,
+          role: "tenant",
+          tenantId: invite.tenantId,
+          emailVerifiedAt: new Date(), // The invite link was emailed to them
+        })
+        .returning();
+      await tx.insert(tenantMembers).values({ tenantId: invite.tenantId, userId: user.id, role: invite.role });
+      await tx.delete(staffInvites).where(eq(staffInvites.id, invite.id));
+      return user;
+    });
+  }
+
+  // API keys
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const [key] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return key;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async getApiKeysByTenant(tenantId: string): Promise<PublicApiKey[]> {
+    const { keyHash, ...columns } = getTableColumns(apiKeys);
+    return db.select(columns).from(apiKeys).where(eq(apiKeys.tenantId, tenantId)).orderBy(desc(apiKeys.createdAt));
+  }
+
+  async createApiKey(key: InsertApiKey): Promise<ApiKey> {
+    const [created] = await db.insert(apiKeys).values(key).returning();
+    return created;
+  }
+
+  // Revoked keys are kept so the audit log and key list still make sense
+  async revokeApiKey(id: string): Promise<ApiKey | undefined> {
+    const [revoked] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+    return revoked;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+
+  // Webhooks
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async getWebhooksByTenant(tenantId: string): Promise<Webhook[]> {
+    return db.select().from(webhooks).where(eq(webhooks.tenantId, tenantId)).orderBy(desc(webhooks.createdAt));
+  }
+
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const [created] = await db.insert(webhooks).values(webhook).returning();
+    return created;
+  }
+
+  async updateWebhook(id: string, data: Partial<Pick<Webhook, "url" | "events" | "active">>): Promise<Webhook | undefined> {
+    const [updated] = await db.update(webhooks).set(data).where(eq(webhooks.id, id)).returning();
+    return updated;
+  }
+
+  // Its delivery log goes with it
+  async deleteWebhook(id: string): Promise<void> {
+    await db.delete(webhooks).where(eq(webhooks.id, id));
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db.update(webhookDeliveries).set(data).where(eq(webhookDeliveries.id, id)).returning();
+    return updated;
+  }
+
+  // Takes pending deliveries that are due, pushing their next attempt out to
+  // `leaseUntil` so another server picking up work at the same time skips
+  // them, and so they're retried if this one dies mid-delivery.
+  async claimDueWebhookDeliveries(limit: number, leaseUntil: Date): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, new Date())))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    return db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  // Two-factor authentication
+  // Starts (or restarts) enrollment; 2FA isn't on until the first code checks out
+  async setTotpSecret(userId: string, secret: string): Promise<void> {
+    await db.update(users).set({ totpSecret: secret, totpEnabledAt: null }).where(eq(users.id, userId));
+  }
+
+  async enableTwoFactor(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(users).set({ totpEnabledAt: new Date() }).where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(users).set({ totpSecret: null, totpEnabledAt: null }).where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    });
+  }
+
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  // Deleting the row is what makes a code single-use, so two requests
+  // racing with the same code can't both succeed
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const deleted = await db
+      .delete(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), eq(recoveryCodes.codeHash, codeHash)))
+      .returning({ id: recoveryCodes.id });
+    return deleted.length > 0;
+  }
+
+  // Records the time step of an accepted authenticator code. False when a
+  // code from this step or a later one was already used, including by a
+  // concurrent sign-in.
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const [updated] = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+      ))
+      .returning({ id: users.id });
+    return !!updated;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    return result?.count ?? 0;
+  }
+
+  // Sessions - rows are written by connect-pg-simple, keyed by the session ID,
+  // with the signed-in user inside the `sess` JSON
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return db
+      .select()
+      .from(userSessions)
+      .where(and(sql`${userSessions.sess}->>'userId' = ${userId}`, gte(userSessions.expire, new Date())));
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(userSessions).where(eq(userSessions.sid, sid));
+  }
+
+  async deleteUserSessions(userId: string, keepSid?: string): Promise<void> {
+    await db
+      .delete(userSessions)
+      .where(
+        and(sql`${userSessions.sess}->>'userId' = ${userId}`, keepSid ? ne(userSessions.sid, keepSid) : undefined)
+      );
+  }
+
+  async deleteTenantSessions(tenantId: string): Promise<void> {
+    await db
+      .delete(userSessions)
+      .where(
+        inArray(
+          sql`${userSessions.sess}->>'userId'`,
+          db.select({ id: users.id }).from(users).where(eq(users.tenantId, tenantId))
+        )
+      );
+  }
+
   // Tenants
   async getTenant(id: string): Promise<Tenant | undefined> {
     const [tenant] = await db.select().from(tenants).where(eq(tenants.id, id));
@@ -180,8 +739,14 @@ export class DatabaseStorage implements IStorage {
           .from(orders)
           .where(eq(orders.tenantId, tenant.id));
         
-        // Get user email for this tenant
-        const [user] = await db.select().from(users).where(eq(users.tenantId, tenant.id)).limit(1);
+        // Get the owner's email for this tenant
+        const [user] = await db
+          .select({ email: users.email })
+          .from(tenantMembers)
+          .innerJoin(users, eq(users.id, tenantMembers.userId))
+          .where(and(eq(tenantMembers.tenantId, tenant.id), eq(tenantMembers.role, "owner")))
+          .orderBy(tenantMembers.createdAt)
+          .limit(1);
         
         // Get store settings for contact email and phone
         const storeSettings = await this.getStoreSettings(tenant.id);
@@ -207,8 +772,15 @@ export class DatabaseStorage implements IStorage {
     // Delete related data in correct order to avoid foreign key constraint violations
     // 1. Orders (must be deleted before products and shipping classes)
     await db.delete(orders).where(eq(orders.tenantId, id));
+
+    // 1b. Customers and discounts (referenced by orders)
+    await db.delete(customers).where(eq(customers.tenantId, id));
+    await db.delete(discounts).where(eq(discounts.tenantId, id));
     
-    // 2. Products (referenced by orders)
+    // 2. Collections and categories (their product links cascade), then
+    // products (referenced by orders)
+    await db.delete(collections).where(eq(collections.tenantId, id));
+    await db.delete(categories).where(eq(categories.tenantId, id));
     await db.delete(products).where(eq(products.tenantId, id));
     
     // 3. Shipping Classes (referenced by orders)
@@ -220,7 +792,12 @@ export class DatabaseStorage implements IStorage {
     // 5. Domain Mappings
     await db.delete(domainMappings).where(eq(domainMappings.tenantId, id));
     
-    // 6. Users
+    // 6. Staff invites, API keys and webhooks (their deliveries cascade), then
+    // users (their memberships cascade) and their sessions
+    await db.delete(staffInvites).where(eq(staffInvites.tenantId, id));
+    await db.delete(apiKeys).where(eq(apiKeys.tenantId, id));
+    await db.delete(webhooks).where(eq(webhooks.tenantId, id));
+    await this.deleteTenantSessions(id);
     await db.delete(users).where(eq(users.tenantId, id));
     
     // 7. Finally, delete the tenant itself
@@ -306,6 +883,170 @@ export class DatabaseStorage implements IStorage {
     return result?.count || 0;
   }
 
+  // Variants, and tracked products without variants, at or below their
+  // threshold (the product's own, else `threshold`), fewest left first.
+  // Archived products are left out.
+  async getLowStockItems(tenantId: string, threshold: number): Promise<LowStockItem[]> {
+    const limit = sql<number>`coalesce(${products.lowStockThreshold}, ${threshold})`.mapWith(Number);
+    const variantRows = await db
+      .select({
+        productId: products.id,
+        productName: products.name,
+        variantId: productVariants.id,
+        variantName: productVariants.name,
+        sku: productVariants.sku,
+        stock: productVariants.stock,
+        threshold: limit,
+      })
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(and(eq(products.tenantId, tenantId), ne(products.status, "archived"), lte(productVariants.stock, limit)));
+    const productRows = await db
+      .select({ productId: products.id, productName: products.name, stock: products.stock, threshold: limit })
+      .from(products)
+      .where(
+        and(
+          eq(products.tenantId, tenantId),
+          ne(products.status, "archived"),
+          eq(products.trackStock, true),
+          eq(products.hasVariants, false),
+          lte(products.stock, limit)
+        )
+      );
+    return [
+      ...variantRows,
+      ...productRows.map((row) => ({ ...row, variantId: null, variantName: null, sku: null })),
+    ].sort((a, b) => a.stock - b.stock);
+  }
+
+  // All or nothing, so a failed import never leaves half a spreadsheet behind.
+  // Returns the saved products in the order they were given.
+  async importProducts(items: ProductImportItem[]): Promise<Product[]> {
+    return db.transaction(async (tx) => {
+      const saved: Product[] = [];
+      for (const item of items) {
+        const hasVariants = item.variants.length > 0 ? { hasVariants: true } : {};
+        let product: Product;
+        if (item.id === undefined) {
+          [product] = await tx.insert(products).values({ ...item.data, ...hasVariants }).returning();
+        } else if (Object.keys(item.data).length > 0 || item.variants.length > 0) {
+          [product] = await tx
+            .update(products)
+            .set({ ...item.data, ...hasVariants })
+            .where(eq(products.id, item.id))
+            .returning();
+        } else {
+          [product] = await tx.select().from(products).where(eq(products.id, item.id));
+        }
+
+        for (const variant of item.variants) {
+          if (variant.id === undefined) {
+            await tx.insert(productVariants).values({ ...variant.data, productId: product.id });
+          } else if (Object.keys(variant.data).length > 0) {
+            await tx.update(productVariants).set(variant.data).where(eq(productVariants.id, variant.id));
+          }
+        }
+
+        if (item.categoryIds) {
+          await tx.delete(productCategories).where(eq(productCategories.productId, product.id));
+          if (item.categoryIds.length > 0) {
+            await tx
+              .insert(productCategories)
+              .values(item.categoryIds.map((categoryId) => ({ productId: product.id, categoryId })));
+          }
+        }
+        saved.push(product);
+      }
+      return saved;
+    });
+  }
+
+  // Categories
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async getCategoriesByTenant(tenantId: string): Promise<Category[]> {
+    return db.select().from(categories).where(eq(categories.tenantId, tenantId)).orderBy(categories.name);
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    const [created] = await db.insert(categories).values(category).returning();
+    return created;
+  }
+
+  async updateCategory(id: string, data: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [updated] = await db.update(categories).set(data).where(eq(categories.id, id)).returning();
+    return updated;
+  }
+
+  // Subcategories move up a level rather than becoming top-level
+  async deleteCategory(category: Category): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(categories).set({ parentId: category.parentId }).where(eq(categories.parentId, category.id));
+      await tx.delete(categories).where(eq(categories.id, category.id));
+    });
+  }
+
+  async getProductCategoryLinks(tenantId: string): Promise<{ productId: string; categoryId: string }[]> {
+    return db
+      .select({ productId: productCategories.productId, categoryId: productCategories.categoryId })
+      .from(productCategories)
+      .innerJoin(categories, eq(productCategories.categoryId, categories.id))
+      .where(eq(categories.tenantId, tenantId));
+  }
+
+  async setProductCategories(productId: string, categoryIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(productCategories).where(eq(productCategories.productId, productId));
+      if (categoryIds.length > 0) {
+        await tx.insert(productCategories).values(categoryIds.map((categoryId) => ({ productId, categoryId })));
+      }
+    });
+  }
+
+  // Collections
+  async getCollection(id: string): Promise<Collection | undefined> {
+    const [collection] = await db.select().from(collections).where(eq(collections.id, id));
+    return collection;
+  }
+
+  async getCollectionsByTenant(tenantId: string): Promise<Collection[]> {
+    return db.select().from(collections).where(eq(collections.tenantId, tenantId)).orderBy(collections.name);
+  }
+
+  async createCollection(collection: InsertCollection): Promise<Collection> {
+    const [created] = await db.insert(collections).values(collection).returning();
+    return created;
+  }
+
+  async updateCollection(id: string, data: Partial<InsertCollection>): Promise<Collection | undefined> {
+    const [updated] = await db.update(collections).set(data).where(eq(collections.id, id)).returning();
+    return updated;
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await db.delete(collections).where(eq(collections.id, id));
+  }
+
+  async getCollectionProductLinks(tenantId: string): Promise<{ collectionId: string; productId: string }[]> {
+    return db
+      .select({ collectionId: collectionProducts.collectionId, productId: collectionProducts.productId })
+      .from(collectionProducts)
+      .innerJoin(collections, eq(collectionProducts.collectionId, collections.id))
+      .where(eq(collections.tenantId, tenantId));
+  }
+
+  async setProductCollections(productId: string, collectionIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(collectionProducts).where(eq(collectionProducts.productId, productId));
+      if (collectionIds.length > 0) {
+        await tx.insert(collectionProducts).values(collectionIds.map((collectionId) => ({ collectionId, productId })));
+      }
+    });
+  }
+
   // Product Variants
   async getProductVariants(productId: string): Promise<ProductVariant[]> {
     return db
@@ -315,6 +1056,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(productVariants.isDefault), desc(productVariants.createdAt));
   }
 
+  async getProductVariantsByTenant(tenantId: string): Promise<ProductVariant[]> {
+    return db
+      .select(getTableColumns(productVariants))
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(eq(products.tenantId, tenantId))
+      .orderBy(desc(productVariants.isDefault), desc(productVariants.createdAt));
+  }
+
   async getProductVariant(id: string): Promise<ProductVariant | undefined> {
     const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, id));
     return variant;
@@ -338,52 +1088,589 @@ export class DatabaseStorage implements IStorage {
     await db.delete(productVariants).where(eq(productVariants.productId, productId));
   }
 
+  async updateProductVariants(productId: string, updates: VariantBulkUpdate["variants"]): Promise<ProductVariant[]> {
+    return db.transaction(async (tx) => {
+      const updated: ProductVariant[] = [];
+      for (const { id, ...data } of updates) {
+        if (Object.keys(data).length === 0) continue;
+        const [variant] = await tx
+          .update(productVariants)
+          .set(data)
+          .where(and(eq(productVariants.id, id), eq(productVariants.productId, productId)))
+          .returning();
+        if (variant) updated.push(variant);
+      }
+      return updated;
+    });
+  }
+
+  // Product Options
+  async getProductOptions(productId: string): Promise<ProductOptionWithValues[]> {
+    const options = await db
+      .select()
+      .from(productOptions)
+      .where(eq(productOptions.productId, productId))
+      .orderBy(productOptions.position);
+    if (options.length === 0) return [];
+    const values = await db
+      .select()
+      .from(productOptionValues)
+      .where(inArray(productOptionValues.optionId, options.map((option) => option.id)))
+      .orderBy(productOptionValues.position);
+    return options.map((option) => ({ ...option, values: values.filter((value) => value.optionId === option.id) }));
+  }
+
+  // Replaces the product's options, matching existing ones by name so their
+  // ids survive, then makes the variants one per combination of values.
+  // A combination takes over the variant it grew out of (same values, or one
+  // more or fewer option) so price, stock and SKU carry across; new ones start
+  // at `price` with no stock. Other variants are deleted, except that clearing
+  // every option leaves variants that were added by hand.
+  async saveProductOptions(productId: string, options: ProductOptionsInput["options"], price: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const existingOptions = await tx.select().from(productOptions).where(eq(productOptions.productId, productId));
+      const existingValues =
+        existingOptions.length > 0
+          ? await tx
+              .select()
+              .from(productOptionValues)
+              .where(inArray(productOptionValues.optionId, existingOptions.map((option) => option.id)))
+          : [];
+
+      const optionIds: string[] = [];
+      const valueLists: { id: string; value: string }[][] = [];
+      for (let position = 0; position < options.length; position++) {
+        const input = options[position];
+        const existing = existingOptions.find((option) => option.name.toLowerCase() === input.name.toLowerCase());
+        const [option] = existing
+          ? await tx
+              .update(productOptions)
+              .set({ name: input.name, position })
+              .where(eq(productOptions.id, existing.id))
+              .returning()
+          : await tx.insert(productOptions).values({ productId, name: input.name, position }).returning();
+
+        const values = [];
+        for (let valuePosition = 0; valuePosition < input.values.length; valuePosition++) {
+          const text = input.values[valuePosition];
+          const existingValue = existingValues.find(
+            (value) => value.optionId === option.id && value.value.toLowerCase() === text.toLowerCase()
+          );
+          const [value] = existingValue
+            ? await tx
+                .update(productOptionValues)
+                .set({ value: text, position: valuePosition })
+                .where(eq(productOptionValues.id, existingValue.id))
+                .returning()
+            : await tx
+                .insert(productOptionValues)
+                .values({ optionId: option.id, value: text, position: valuePosition })
+                .returning();
+          values.push(value);
+        }
+        await tx.delete(productOptionValues).where(
+          and(
+            eq(productOptionValues.optionId, option.id),
+            notInArray(productOptionValues.id, values.map((value) => value.id))
+          )
+        );
+        optionIds.push(option.id);
+        valueLists.push(values);
+      }
+      await tx
+        .delete(productOptions)
+        .where(
+          optionIds.length > 0
+            ? and(eq(productOptions.productId, productId), notInArray(productOptions.id, optionIds))
+            : eq(productOptions.productId, productId)
+        );
+
+      const variants = await tx.select().from(productVariants).where(eq(productVariants.productId, productId));
+      const generated = variants.filter((variant) => variant.optionValueIds.length > 0);
+      const kept = new Set<string>();
+      const combinations = options.length > 0 ? getOptionCombinations(valueLists) : [];
+      for (const combination of combinations) {
+        const optionValueIds = combination.map((value) => value.id);
+        const name = getVariantName(combination.map((value) => value.value));
+        const unclaimed = generated.filter((variant) => !kept.has(variant.id));
+        const match =
+          unclaimed.find((variant) => variant.optionValueIds.join() === optionValueIds.join()) ??
+          unclaimed.find(
+            (variant) =>
+              variant.optionValueIds.every((id) => optionValueIds.includes(id)) ||
+              optionValueIds.every((id) => variant.optionValueIds.includes(id))
+          );
+        if (match) {
+          kept.add(match.id);
+          await tx.update(productVariants).set({ name, optionValueIds }).where(eq(productVariants.id, match.id));
+        } else {
+          await tx.insert(productVariants).values({ productId, name, price, stock: 0, optionValueIds });
+        }
+      }
+
+      const removed = (options.length > 0 ? variants : generated).filter((variant) => !kept.has(variant.id));
+      if (removed.length > 0) {
+        await tx.delete(productVariants).where(inArray(productVariants.id, removed.map((variant) => variant.id)));
+      }
+      const [remaining] = await tx
+        .select({ count: count() })
+        .from(productVariants)
+        .where(eq(productVariants.productId, productId));
+      await tx.update(products).set({ hasVariants: remaining.count > 0 }).where(eq(products.id, productId));
+    });
+  }
+
+  async updateProductOptionValue(
+    productId: string,
+    valueId: string,
+    data: OptionValueMedia
+  ): Promise<ProductOptionValue | undefined> {
+    const [owned] = await db
+      .select({ id: productOptionValues.id })
+      .from(productOptionValues)
+      .innerJoin(productOptions, eq(productOptionValues.optionId, productOptions.id))
+      .where(and(eq(productOptionValues.id, valueId), eq(productOptions.productId, productId)));
+    if (!owned) return undefined;
+    const [value] = await db
+      .update(productOptionValues)
+      .set(data)
+      .where(eq(productOptionValues.id, valueId))
+      .returning();
+    return value;
+  }
+
   // Orders
   async getOrder(id: string): Promise<Order | undefined> {
     const [order] = await db.select().from(orders).where(eq(orders.id, id));
     return order;
   }
 
-  async getOrdersByTenant(tenantId: string): Promise<Order[]> {
-    return db
-      .select()
-      .from(orders)
-      .where(eq(orders.tenantId, tenantId))
-      .orderBy(desc(orders.createdAt));
+  async getOrderWithItems(id: string): Promise<OrderWithItems | undefined> {
+    return db.query.orders.findFirst({
+      where: eq(orders.id, id),
+      with: { items: true },
+    });
+  }
+
+  async getOrdersByTenant(tenantId: string): Promise<OrderWithItems[]> {
+    return db.query.orders.findMany({
+      where: eq(orders.tenantId, tenantId),
+      with: { items: true },
+      orderBy: desc(orders.createdAt),
+    });
+  }
+
+  async getOrdersPage(
+    tenantId: string,
+    page: { status?: OrderStatus; limit: number; offset: number }
+  ): Promise<{ orders: OrderWithItems[]; total: number }> {
+    const where = and(eq(orders.tenantId, tenantId), page.status ? eq(orders.status, page.status) : undefined);
+    const [pageOrders, [{ total }]] = await Promise.all([
+      db.query.orders.findMany({
+        where,
+        with: { items: true },
+        orderBy: [desc(orders.createdAt), desc(orders.id)],
+        limit: page.limit,
+        offset: page.offset,
+      }),
+      db.select({ total: count() }).from(orders).where(where),
+    ]);
+    return { orders: pageOrders, total };
+  }
+
+  async createOrder(order: InsertOrder, items: Omit<InsertOrderItem, "orderId">[]): Promise<OrderWithItems> {
+    // Stock is reserved in the same transaction as the order insert, so a
+    // sold-out line rolls the whole order back.
+    return db.transaction(async (tx) => {
+      const reserved = await this.reserveStock(tx, items.map((item) => ({
+        productId: item.productId ?? null,
+        variantId: item.variantId ?? null,
+        quantity: item.quantity,
+        productName: item.productName,
+        variantName: item.variantName ?? null,
+      })));
+
+      // Incrementing the tenant's counter row-locks it until commit, so
+      // concurrent checkouts for the same store get consecutive numbers.
+      const [{ orderSequence }] = await tx
+        .update(tenants)
+        .set({ orderSequence: sql`${tenants.orderSequence} + 1` })
+        .where(eq(tenants.id, order.tenantId))
+        .returning({ orderSequence: tenants.orderSequence });
+      const [settings] = await tx
+        .select({ prefix: storeSettings.orderNumberPrefix })
+        .from(storeSettings)
+        .where(eq(storeSettings.tenantId, order.tenantId));
+
+      // Counted here rather than at validation so the last use of a limited
+      // code can't be spent twice
+      if (order.discountId) {
+        const [used] = await tx
+          .update(discounts)
+          .set({ usageCount: sql`${discounts.usageCount} + 1` })
+          .where(and(
+            eq(discounts.id, order.discountId),
+            or(isNull(discounts.usageLimit), sql`${discounts.usageCount} < ${discounts.usageLimit}`)
+          ))
+          .returning({ id: discounts.id });
+        if (!used) {
+          throw new DiscountUnavailableError(order.discountCode || "");
+        }
+      }
+
+      const customerId = await this.upsertCustomer(tx, order);
+
+      const [newOrder] = await tx
+        .insert(orders)
+        .values({
+          ...order,
+          customerId,
+          orderSequence,
+          orderNumber: formatOrderNumber(settings?.prefix, orderSequence),
+        })
+        .returning();
+      const newItems: OrderItem[] = items.length
+        ? await tx
+            .insert(orderItems)
+            .values(items.map((item, index) => ({ ...item, orderId: newOrder.id, stockReserved: reserved[index] })))
+            .returning()
+        : [];
+      return { ...newOrder, items: newItems };
+    });
+  }
+
+  // Links the order to the store's customer record for its phone number,
+  // creating it on first order and refreshing name/address on repeat ones.
+  private async upsertCustomer(tx: Transaction, order: InsertOrder): Promise<string | null> {
+    const phone = normalizeBdPhone(order.phone);
+    if (!phone) return null;
+    const [customer] = await tx
+      .insert(customers)
+      .values({ tenantId: order.tenantId, phone, name: order.customerName, address: order.address })
+      .onConflictDoUpdate({
+        target: [customers.tenantId, customers.phone],
+        set: { name: order.customerName, address: order.address, updatedAt: new Date() },
+      })
+      .returning({ id: customers.id });
+    return customer.id;
+  }
+
+  // Variants always count stock; products without variants only when they
+  // track it, otherwise their lines are left alone. Returns whether each line
+  // took stock, which is what cancelling the order later gives back.
+  private async reserveStock(tx: Transaction, lines: StockLine[]): Promise<boolean[]> {
+    const reserved: boolean[] = [];
+    for (const line of lines) {
+      if (line.variantId) {
+        const [updated] = await tx
+          .update(productVariants)
+          .set({ stock: sql`${productVariants.stock} - ${line.quantity}` })
+          .where(and(eq(productVariants.id, line.variantId), gte(productVariants.stock, line.quantity)))
+          .returning({ id: productVariants.id });
+        if (!updated) {
+          throw new OutOfStockError(line.productName, line.variantName);
+        }
+        reserved.push(true);
+      } else if (line.productId) {
+        const [product] = await tx
+          .select({ trackStock: products.trackStock })
+          .from(products)
+          .where(eq(products.id, line.productId));
+        if (!product?.trackStock) {
+          reserved.push(false);
+          continue;
+        }
+        const [updated] = await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} - ${line.quantity}` })
+          .where(and(eq(products.id, line.productId), gte(products.stock, line.quantity)))
+          .returning({ id: products.id });
+        if (!updated) {
+          throw new OutOfStockError(line.productName);
+        }
+        reserved.push(true);
+      } else {
+        reserved.push(false);
+      }
+    }
+    return reserved;
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db.insert(orders).values(order).returning();
-    return newOrder;
+  // Only for lines that reserveStock took stock for
+  private async releaseStock(tx: Transaction, lines: StockLine[]): Promise<void> {
+    for (const line of lines) {
+      if (line.variantId) {
+        await tx
+          .update(productVariants)
+          .set({ stock: sql`${productVariants.stock} + ${line.quantity}` })
+          .where(eq(productVariants.id, line.variantId));
+      } else if (line.productId) {
+        await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} + ${line.quantity}` })
+          .where(eq(products.id, line.productId));
+      }
+    }
+  }
+
+  // Applies a status change inside a transaction, returning stock and
+  // discount uses when an order is cancelled and taking them again if it's
+  // reinstated.
+  // The change is recorded on the order timeline as `event`.
+  private async applyOrderStatus(
+    tx: Transaction,
+    order: Order,
+    status: string,
+    event: Omit<InsertOrderEvent, "orderId" | "status"> = { type: "status", source: "staff" }
+  ): Promise<Order> {
+    const wasCancelled = order.status === "cancelled";
+    const isCancelled = status === "cancelled";
+
+    if (order.onHold && !isCancelled && status !== order.status) {
+      throw new OrderOnHoldError(getOrderNumber(order));
+    }
+
+    if (wasCancelled !== isCancelled) {
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+      if (items.length === 0) {
+        // Orders from before line items only ever held variant stock
+        const lines: StockLine[] = order.variantId
+          ? [{ productId: order.productId, variantId: order.variantId, quantity: order.quantity, productName: "Product", variantName: null }]
+          : [];
+        if (isCancelled) {
+          await this.releaseStock(tx, lines);
+        } else {
+          await this.reserveStock(tx, lines);
+        }
+      } else if (isCancelled) {
+        // A product that started tracking stock after the order was placed
+        // never gave any to it, so doesn't get any back
+        await this.releaseStock(tx, items.filter((item) => item.stockReserved));
+        await tx.update(orderItems).set({ stockReserved: false }).where(eq(orderItems.orderId, order.id));
+      } else {
+        const reserved = await this.reserveStock(tx, items);
+        const reservedIds = items.filter((_, index) => reserved[index]).map((item) => item.id);
+        if (reservedIds.length > 0) {
+          await tx.update(orderItems).set({ stockReserved: true }).where(inArray(orderItems.id, reservedIds));
+        }
+      }
+
+      // A cancelled order gives its use of a limited discount back. Reinstating
+      // takes it again even past the limit, since the order was already priced
+      // with the discount.
+      if (order.discountId) {
+        await tx
+          .update(discounts)
+          .set({
+            usageCount: isCancelled
+              ? sql`greatest(${discounts.usageCount} - 1, 0)`
+              : sql`${discounts.usageCount} + 1`,
+          })
+          .where(eq(discounts.id, order.discountId));
+      }
+    }
+
+    const [updated] = await tx
+      .update(orders)
+      .set({ status: status as any })
+      .where(eq(orders.id, order.id))
+      .returning();
+    if (order.status !== updated.status) {
+      await tx.insert(orderEvents).values({ ...event, orderId: order.id, status: updated.status });
+    }
+    return updated;
   }
 
   async updateOrderStatus(id: string, status: string): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the row so concurrent status changes can't release stock twice
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order) return undefined;
+      return this.applyOrderStatus(tx, order, status);
+    });
+  }
+
+  // Booking a parcel moves a confirmed order to shipped. The status guard
+  // stops a concurrent cancel from being overwritten.
+  async markOrderSentToCourier(
+    id: string,
+    consignment: Pick<Order, "courierProvider" | "courierConsignmentId" | "courierTrackingCode">
+  ): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orders)
+        .set({ ...consignment, courierSentAt: new Date(), status: "shipped" })
+        .where(and(eq(orders.id, id), eq(orders.status, "confirmed")))
+        .returning();
+      if (updated) {
+        await tx.insert(orderEvents).values({
+          orderId: id,
+          type: "courier_booked",
+          source: "staff",
+          status: "shipped",
+          message: `Booked with ${consignment.courierProvider}, tracking ${consignment.courierTrackingCode}`,
+        });
+      }
+      return updated;
+    });
+  }
+
+  // Clears a risk hold so the order can be processed. Returns undefined if it
+  // wasn't on hold, e.g. when two staff approve at once.
+  async approveHeldOrder(id: string): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orders)
+        .set({ onHold: false })
+        .where(and(eq(orders.id, id), eq(orders.onHold, true)))
+        .returning();
+      if (updated) {
+        await tx.insert(orderEvents).values({
+          orderId: id,
+          type: "review",
+          source: "staff",
+          message: "Approved after risk review",
+        });
+      }
+      return updated;
+    });
+  }
+
+  // Starts a new payment attempt. Paid orders are left alone so a stale
+  // retry can't reopen them.
+  async setOrderPaymentSession(
+    id: string,
+    provider: PaymentProviderName,
+    paymentReference: string
+  ): Promise<Order | undefined> {
     const [updated] = await db
       .update(orders)
-      .set({ status: status as any })
-      .where(eq(orders.id, id))
+      .set({ paymentProvider: provider, paymentReference, paymentStatus: "pending" })
+      .where(and(eq(orders.id, id), ne(orders.paymentStatus, "paid")))
       .returning();
     return updated;
   }
 
-  async bulkUpdateOrderStatus(ids: string[], status: string, tenantId: string): Promise<number> {
-    // Verify all orders belong to the tenant
-    const allOrders = await db
+  // Records the outcome of a payment attempt on the order and its timeline.
+  // Returns undefined if the order was already paid, so repeated gateway
+  // callbacks only log once.
+  async markOrderPayment(
+    id: string,
+    result: { status: "paid" | "failed"; transactionId?: string; message?: string }
+  ): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orders)
+        .set(
+          result.status === "paid"
+            ? { paymentStatus: "paid", paymentTransactionId: result.transactionId, paidAt: new Date() }
+            : { paymentStatus: "failed" }
+        )
+        .where(and(eq(orders.id, id), ne(orders.paymentStatus, "paid")))
+        .returning();
+      if (updated) {
+        await tx.insert(orderEvents).values({
+          orderId: id,
+          type: "payment",
+          source: "system",
+          message:
+            result.status === "paid"
+              ? `Paid ৳${updated.paymentDue} via ${updated.paymentProvider}${result.transactionId ? `, transaction ${result.transactionId}` : ""}`
+              : `Payment via ${updated.paymentProvider} failed${result.message ? `: ${result.message}` : ""}`,
+        });
+      }
+      return updated;
+    });
+  }
+
+  // Case-insensitive, and also matches the UUID-derived numbers shown for
+  // orders placed before sequential numbering
+  async findOrderByNumber(tenantId: string, orderNumber: string): Promise<OrderWithItems | undefined> {
+    const normalized = orderNumber.trim().replace(/^#/, "").toUpperCase();
+    if (!normalized) return undefined;
+    return db.query.orders.findFirst({
+      where: and(
+        eq(orders.tenantId, tenantId),
+        or(
+          sql`upper(${orders.orderNumber}) = ${normalized}`,
+          and(isNull(orders.orderNumber), sql`upper(right(${orders.id}, 8)) = ${normalized}`)
+        )
+      ),
+      with: { items: true },
+    });
+  }
+
+  // Courier webhooks identify parcels by their own IDs, or by the order
+  // number we sent as the invoice
+  async findOrderByCourierReference(
+    tenantId: string,
+    provider: CourierProviderName,
+    ref: { consignmentId?: string; trackingCode?: string; invoice?: string }
+  ): Promise<Order | undefined> {
+    const matches = [
+      ref.consignmentId ? eq(orders.courierConsignmentId, ref.consignmentId) : undefined,
+      ref.trackingCode ? eq(orders.courierTrackingCode, ref.trackingCode) : undefined,
+      ref.invoice ? eq(orders.orderNumber, ref.invoice) : undefined,
+    ].filter((m) => m !== undefined);
+    if (matches.length === 0) return undefined;
+
+    const [order] = await db
       .select()
       .from(orders)
-      .where(and(eq(orders.tenantId, tenantId), inArray(orders.id, ids)));
-    
-    if (allOrders.length !== ids.length) {
-      throw new Error("Some orders not found or don't belong to tenant");
-    }
+      .where(and(eq(orders.tenantId, tenantId), eq(orders.courierProvider, provider), or(...matches)))
+      .limit(1);
+    return order;
+  }
 
-    const result = await db
-      .update(orders)
-      .set({ status: status as any })
-      .where(and(eq(orders.tenantId, tenantId), inArray(orders.id, ids)))
-      .returning();
-    
-    return result.length;
+  // Records a courier status update on the timeline, moving the order to
+  // `status` when one is given
+  async applyCourierUpdate(
+    id: string,
+    status: OrderStatus | null,
+    event: Pick<InsertOrderEvent, "courierStatus" | "message">
+  ): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order) return undefined;
+
+      const courierEvent = {
+        type: "courier_update" as const,
+        source: "courier" as const,
+        courierStatus: event.courierStatus,
+        message: event.message,
+      };
+      if (status && status !== order.status) {
+        return this.applyOrderStatus(tx, order, status, courierEvent);
+      }
+      await tx.insert(orderEvents).values({ ...courierEvent, orderId: id });
+      return order;
+    });
+  }
+
+  async getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+    return db.select().from(orderEvents).where(eq(orderEvents.orderId, orderId)).orderBy(orderEvents.createdAt);
+  }
+
+  async bulkUpdateOrderStatus(ids: string[], status: string, tenantId: string): Promise<Order[]> {
+    return db.transaction(async (tx) => {
+      // Verify all orders belong to the tenant
+      const allOrders = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.tenantId, tenantId), inArray(orders.id, ids)))
+        .for("update");
+      
+      if (allOrders.length !== ids.length) {
+        throw new Error("Some orders not found or don't belong to tenant");
+      }
+
+      const updated: Order[] = [];
+      for (const order of allOrders) {
+        updated.push(await this.applyOrderStatus(tx, order, status));
+      }
+      
+      return updated;
+    });
   }
 
   async getOrderStats(tenantId: string): Promise<{ totalOrders: number; newOrders: number; totalRevenue: string }> {
@@ -483,27 +1770,50 @@ export class DatabaseStorage implements IStorage {
       .map(([period, data]) => ({ period, ...data }))
       .sort((a, b) => a.period.localeCompare(b.period));
     
-    // Top Products
+    // Top Products (from line items; legacy single-item orders fall back to order.productId)
     const productMap = new Map<string, { productName: string; orders: number; revenue: number }>();
-    const productIds = new Set(filteredOrders.map((o) => o.productId));
     const productList = await db
       .select()
       .from(products)
       .where(eq(products.tenantId, tenantId));
     
     const productNameMap = new Map(productList.map((p) => [p.id, p.name]));
+    const filteredOrderIds = filteredOrders.map((o) => o.id);
+    const lineItems = filteredOrderIds.length
+      ? await db.select().from(orderItems).where(inArray(orderItems.orderId, filteredOrderIds))
+      : [];
+    const itemsByOrder = new Map<string, OrderItem[]>();
+    lineItems.forEach((item) => {
+      itemsByOrder.set(item.orderId, [...(itemsByOrder.get(item.orderId) || []), item]);
+    });
     
     filteredOrders.forEach((order) => {
-      const productName = productNameMap.get(order.productId) || "Unknown Product";
-      const existing = productMap.get(order.productId) || {
-        productName,
-        orders: 0,
-        revenue: 0,
-      };
-      productMap.set(order.productId, {
-        productName,
-        orders: existing.orders + 1,
-        revenue: existing.revenue + parseFloat(order.total),
+      const items = itemsByOrder.get(order.id);
+      const lines = items && items.length > 0
+        ? items.map((item) => ({
+            productId: item.productId,
+            productName: item.productName,
+            revenue: parseFloat(item.lineTotal),
+          }))
+        : [{
+            productId: order.productId,
+            productName: order.productId ? productNameMap.get(order.productId) : undefined,
+            revenue: parseFloat(order.subtotal),
+          }];
+
+      lines.forEach((line) => {
+        if (!line.productId) return;
+        const productName = productNameMap.get(line.productId) || line.productName || "Unknown Product";
+        const existing = productMap.get(line.productId) || {
+          productName,
+          orders: 0,
+          revenue: 0,
+        };
+        productMap.set(line.productId, {
+          productName,
+          orders: existing.orders + 1,
+          revenue: existing.revenue + line.revenue,
+        });
       });
     });
     
@@ -527,6 +1837,146 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // SMS Messages
+  async createSmsMessage(message: InsertSmsMessage): Promise<SmsMessage> {
+    const [created] = await db.insert(smsMessages).values(message).returning();
+    return created;
+  }
+
+  async getSmsMessagesByOrder(orderId: string): Promise<SmsMessage[]> {
+    return db.select().from(smsMessages).where(eq(smsMessages.orderId, orderId)).orderBy(smsMessages.createdAt);
+  }
+
+  // Failed attempts don't count, so a retry can go out on the next trigger
+  async hasOrderSms(orderId: string, event: SmsEvent): Promise<boolean> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(smsMessages)
+      .where(and(eq(smsMessages.orderId, orderId), eq(smsMessages.event, event), eq(smsMessages.status, "sent")));
+    return result.count > 0;
+  }
+
+  // Customers
+  // Lifetime stats are aggregated from the customer's orders on every read
+  private customerWithStatsQuery() {
+    return db
+      .select({
+        ...getTableColumns(customers),
+        orderCount: sql<number>`count(${orders.id})::int`,
+        deliveredCount: sql<number>`(count(${orders.id}) filter (where ${orders.status} = 'delivered'))::int`,
+        cancelledCount: sql<number>`(count(${orders.id}) filter (where ${orders.status} = 'cancelled'))::int`,
+        totalSpent: sql<string>`coalesce(sum(${orders.total}) filter (where ${orders.status} = 'delivered'), 0)::text`,
+        lastOrderAt: sql<Date | null>`max(${orders.createdAt})`,
+      })
+      .from(customers)
+      .leftJoin(orders, eq(orders.customerId, customers.id))
+      .groupBy(customers.id)
+      .$dynamic();
+  }
+
+  async getCustomer(id: string): Promise<CustomerWithStats | undefined> {
+    const [customer] = await this.customerWithStatsQuery().where(eq(customers.id, id));
+    return customer;
+  }
+
+  async getCustomersByTenant(tenantId: string): Promise<CustomerWithStats[]> {
+    return this.customerWithStatsQuery()
+      .where(eq(customers.tenantId, tenantId))
+      .orderBy(desc(sql`max(${orders.createdAt})`));
+  }
+
+  async getCustomersPage(
+    tenantId: string,
+    page: { limit: number; offset: number }
+  ): Promise<{ customers: CustomerWithStats[]; total: number }> {
+    const [pageCustomers, [{ total }]] = await Promise.all([
+      this.customerWithStatsQuery()
+        .where(eq(customers.tenantId, tenantId))
+        .orderBy(desc(customers.createdAt), desc(customers.id))
+        .limit(page.limit)
+        .offset(page.offset),
+      db.select({ total: count() }).from(customers).where(eq(customers.tenantId, tenantId)),
+    ]);
+    return { customers: pageCustomers, total };
+  }
+
+  // `phone` must already be normalized, as customer records are
+  async getCustomerByPhone(tenantId: string, phone: string): Promise<Customer | undefined> {
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(and(eq(customers.tenantId, tenantId), eq(customers.phone, phone)));
+    return customer;
+  }
+
+  async getOrdersByCustomer(customerId: string): Promise<OrderWithItems[]> {
+    return db.query.orders.findMany({
+      where: eq(orders.customerId, customerId),
+      with: { items: true },
+      orderBy: desc(orders.createdAt),
+    });
+  }
+
+  async updateCustomer(id: string, data: Partial<Pick<Customer, "name" | "notes">>): Promise<Customer | undefined> {
+    const [updated] = await db
+      .update(customers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Discounts
+  async getDiscount(id: string): Promise<Discount | undefined> {
+    const [discount] = await db.select().from(discounts).where(eq(discounts.id, id));
+    return discount;
+  }
+
+  async getDiscountByCode(tenantId: string, code: string): Promise<Discount | undefined> {
+    const [discount] = await db
+      .select()
+      .from(discounts)
+      .where(and(eq(discounts.tenantId, tenantId), eq(discounts.code, code.trim().toUpperCase())));
+    return discount;
+  }
+
+  async getAutomaticDiscounts(tenantId: string): Promise<Discount[]> {
+    return db
+      .select()
+      .from(discounts)
+      .where(and(eq(discounts.tenantId, tenantId), eq(discounts.automatic, true), eq(discounts.isActive, true)));
+  }
+
+  // Report figures leave out cancelled orders, whose discount was never redeemed
+  async getDiscountsByTenant(tenantId: string): Promise<DiscountWithStats[]> {
+    return db
+      .select({
+        ...getTableColumns(discounts),
+        orderCount: sql<number>`count(${orders.id})::int`,
+        discountTotal: sql<string>`coalesce(sum(${orders.discountAmount}), 0)::text`,
+        revenue: sql<string>`coalesce(sum(${orders.total}), 0)::text`,
+      })
+      .from(discounts)
+      .leftJoin(orders, and(eq(orders.discountId, discounts.id), sql`${orders.status} <> 'cancelled'`))
+      .where(eq(discounts.tenantId, tenantId))
+      .groupBy(discounts.id)
+      .orderBy(desc(discounts.createdAt));
+  }
+
+  async createDiscount(discount: InsertDiscount): Promise<Discount> {
+    const [created] = await db.insert(discounts).values(discount).returning();
+    return created;
+  }
+
+  async updateDiscount(id: string, data: Partial<InsertDiscount>): Promise<Discount | undefined> {
+    const [updated] = await db.update(discounts).set(data).where(eq(discounts.id, id)).returning();
+    return updated;
+  }
+
+  async deleteDiscount(id: string): Promise<void> {
+    await db.delete(discounts).where(eq(discounts.id, id));
+  }
+
   // Shipping Classes
   async getShippingClass(id: string): Promise<ShippingClass | undefined> {
     const [sc] = await db.select().from(shippingClasses).where(eq(shippingClasses.id, id));
@@ -590,6 +2040,37 @@ export class DatabaseStorage implements IStorage {
     return { totalTenants, activeTenants, totalOrders, totalRevenue };
   }
 
+  // Audit Logs
+  // There's deliberately no update or delete; the log is append-only
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await db.insert(auditLogs).values(entry).returning();
+    return log;
+  }
+
+  // Newest first. The store name comes from a left join, so entries for
+  // deleted stores are still listed.
+  async getAuditLogs(filters: AuditLogFilters, limit: number): Promise<AuditLogWithTenant[]> {
+    const conditions: SQL[] = [];
+    if (filters.tenantId) conditions.push(eq(auditLogs.tenantId, filters.tenantId));
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.actor) conditions.push(ilike(auditLogs.actorEmail, `%${filters.actor}%`));
+    if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+    if (filters.to) {
+      const end = new Date(filters.to);
+      end.setDate(end.getDate() + 1);
+      conditions.push(lt(auditLogs.createdAt, end));
+    }
+
+    return db
+      .select({ ...getTableColumns(auditLogs), tenantName: tenants.name })
+      .from(auditLogs)
+      .leftJoin(tenants, eq(tenants.id, auditLogs.tenantId))
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(limit);
+  }
+
   // Domain Mappings
   async getDomainMapping(id: string): Promise<DomainMapping | undefined> {
     const [mapping] = await db.select().from(domainMappings).where(eq(domainMappings.id, id));
@@ -605,6 +2086,10 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(domainMappings).where(eq(domainMappings.tenantId, tenantId));
   }
 
+  async getVerifiedDomainMappings(): Promise<DomainMapping[]> {
+    return db.select().from(domainMappings).where(eq(domainMappings.verified, true));
+  }
+
   async createDomainMapping(mapping: InsertDomainMapping): Promise<DomainMapping> {
     const [newMapping] = await db.insert(domainMappings).values({
       ...mapping,
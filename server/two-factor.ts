@@ -0,0 +1,68 @@
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+const ISSUER = "StoreBuilder BD";
+const RECOVERY_CODE_COUNT = 10;
+const TOTP_STEP_SECONDS = 30; // otplib's default
+
+// Accept the codes either side of the current one, for phones whose clock
+// has drifted by up to 30 seconds
+authenticator.options = { window: 1 };
+
+export interface TwoFactorEnrollment {
+  secret: string; // For apps that can't scan, typed in by hand
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL of otpauthUrl
+}
+
+export async function createTwoFactorEnrollment(email: string): Promise<TwoFactorEnrollment> {
+  const secret = authenticator.generateSecret();
+  const otpauthUrl = authenticator.keyuri(email, ISSUER, secret);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+  return { secret, otpauthUrl, qrCode };
+}
+
+// The 30-second time step a code from the authenticator app belongs to, or
+// null if it doesn't match any step in the window
+function getTotpStep(secret: string, code: string): number | null {
+  const digits = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(digits)) return null;
+  const now = Date.now();
+  const delta = authenticator.clone({ epoch: now }).checkDelta(digits, secret);
+  return delta === null ? null : Math.floor(now / 1000 / TOTP_STEP_SECONDS) + delta;
+}
+
+// Checks a code from the authenticator app. Each code only works once: its
+// time step is recorded, and codes from that step or an earlier one are
+// turned away afterwards, so one seen over someone's shoulder can't be
+// replayed while it's still in the window.
+export async function verifyTotpCode(user: Pick<User, "id" | "totpSecret">, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+  const step = getTotpStep(user.totpSecret, code);
+  return step !== null && storage.useTotpStep(user.id, step);
+}
+
+// Shown to the user once, as `xxxxx-xxxxx`; only their hashes are stored
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Case, spaces and the dash don't matter when a code is typed back in
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// Checks a code from the authenticator app, or else uses up a matching
+// recovery code
+export async function verifyTwoFactorCode(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret || !user.totpEnabledAt) return false;
+  if (await verifyTotpCode(user, code)) return true;
+  return storage.consumeRecoveryCode(user.id, hashRecoveryCode(code));
+}
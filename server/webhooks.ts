@@ -0,0 +1,319 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup as dnsLookup, type LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { storage } from "./storage";
+import {
+  type LowStockItem,
+  type Order,
+  type OrderStatus,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookPayload,
+} from "@shared/schema";
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_ATTEMPTS = 6;
+// Retries wait 1, 2, 4, 8 then 16 minutes
+const RETRY_BASE_MS = 60 * 1000;
+// A claimed delivery is retried after this long if its attempt never finishes
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const RESPONSE_BODY_LIMIT = 1000;
+const RETRY_BATCH_SIZE = 20;
+
+// Only for testing against a receiver on your own machine. Never set it in
+// production: it lets stores reach the server's own network.
+const ALLOW_PRIVATE_URLS =
+  process.env.NODE_ENV !== "production" && process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254),
+// carrier-grade NAT, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges too.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+class PrivateAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} resolves to a private address`);
+    this.name = "PrivateAddressError";
+  }
+}
+
+// Used as the socket's DNS lookup, so the address that's checked is the one
+// connected to. Checking separately before connecting would let a host
+// answer with a public address first and a private one after.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) return callback(err, "", 0);
+    if (addresses.length === 0 || addresses.some((entry) => isBlockedAddress(entry.address))) {
+      return callback(new PrivateAddressError(hostname), "", 0);
+    }
+    if (options.all) return (callback as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function resolvesToPublicAddress(hostname: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    publicOnlyLookup(hostname, { all: true }, (err) => resolve(!err));
+  });
+}
+
+// Stops a store pointing webhooks at the server's own network. Checked when
+// the URL is saved so the store gets an error straight away, and again on
+// every delivery since what the host resolves to can change.
+export async function getWebhookUrlError(url: string): Promise<string | null> {
+  if (ALLOW_PRIVATE_URLS) return null;
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "https:") return "Webhook URL must use https";
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const isPublic = isIP(host) ? !isBlockedAddress(host) : await resolvesToPublicAddress(host);
+  return isPublic ? null : "Webhook URL must be a public address";
+}
+
+// POSTs the body and reads back at most RESPONSE_BODY_LIMIT characters of the
+// reply. Redirects aren't followed, so a 3xx counts as a failure.
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+    // An IP literal is connected to without a lookup, so check it here
+    if (!ALLOW_PRIVATE_URLS && isIP(host) && isBlockedAddress(host)) {
+      return reject(new PrivateAddressError(host));
+    }
+
+    const request = (target.protocol === "https:" ? https : http).request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: ALLOW_PRIVATE_URLS ? undefined : publicOnlyLookup,
+        timeout: REQUEST_TIMEOUT_MS,
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          if (text.length < RESPONSE_BODY_LIMIT) text += chunk;
+        });
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, body: text.slice(0, RESPONSE_BODY_LIMIT) }));
+        res.on("error", reject);
+      }
+    );
+    request.on("timeout", () => request.destroy(new Error("Request timed out")));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+// Receivers recompute this over `<timestamp>.<raw body>` with their secret and
+// compare it to the X-StoreBuilder-Signature header. The timestamp is signed
+// too, so old requests can't be replayed.
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+// Makes one attempt and records the outcome on the delivery, scheduling the
+// next try after a failure until MAX_ATTEMPTS is reached
+async function attemptDelivery(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  if (!webhook.active) {
+    const updated = await storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      error: "Webhook is turned off",
+      nextAttemptAt: null,
+      completedAt: new Date(),
+    });
+    return updated ?? delivery;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const res = await postWebhook(
+      webhook.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "StoreBuilder-Webhooks/1.0",
+        "X-StoreBuilder-Event": delivery.event,
+        "X-StoreBuilder-Delivery": delivery.id,
+        "X-StoreBuilder-Timestamp": String(timestamp),
+        "X-StoreBuilder-Signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body
+    );
+    responseStatus = res.status;
+    responseBody = res.body || null;
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Request failed";
+  }
+
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const givenUp = !succeeded && attempts >= MAX_ATTEMPTS;
+  const updated = await storage.updateWebhookDelivery(delivery.id, {
+    status: succeeded ? "succeeded" : givenUp ? "failed" : "pending",
+    attempts,
+    responseStatus,
+    responseBody,
+    error,
+    nextAttemptAt: succeeded || givenUp ? null : new Date(Date.now() + getRetryDelay(attempts)),
+    completedAt: succeeded || givenUp ? new Date() : null,
+  });
+  return updated ?? delivery;
+}
+
+// Queues the event for every active webhook subscribed to it and makes the
+// first attempt straight away. `getData` is only called when someone is
+// listening, and may return undefined to send nothing. Never throws, so
+// callers don't need to wait on it.
+export async function dispatchWebhookEvent(
+  tenantId: string,
+  event: WebhookEvent,
+  getData: () => Promise<unknown>
+): Promise<void> {
+  try {
+    const subscribed = (await storage.getWebhooksByTenant(tenantId)).filter(
+      (webhook) => webhook.active && webhook.events.includes(event)
+    );
+    if (subscribed.length === 0) return;
+
+    const data = await getData();
+    if (data === undefined) return;
+
+    const payload: WebhookPayload = { id: randomUUID(), event, createdAt: new Date().toISOString(), data };
+    const leaseUntil = new Date(Date.now() + CLAIM_LEASE_MS);
+    const deliveries = await storage.createWebhookDeliveries(
+      subscribed.map((webhook) => ({
+        webhookId: webhook.id,
+        eventId: payload.id,
+        event,
+        payload,
+        nextAttemptAt: leaseUntil,
+      }))
+    );
+
+    await Promise.all(
+      deliveries.map((delivery) => {
+        const webhook = subscribed.find((w) => w.id === delivery.webhookId)!;
+        return attemptDelivery(webhook, delivery);
+      })
+    );
+  } catch (error) {
+    console.error(`Failed to send ${event} webhook:`, error);
+  }
+}
+
+export function sendOrderCreatedWebhook(order: Order): Promise<void> {
+  return dispatchWebhookEvent(order.tenantId, "order.created", () => storage.getOrderWithItems(order.id));
+}
+
+export function sendOrderStatusWebhook(order: Order, previousStatus: OrderStatus): Promise<void> {
+  if (order.status === previousStatus) return Promise.resolve();
+  return dispatchWebhookEvent(order.tenantId, "order.status_changed", async () => {
+    const withItems = await storage.getOrderWithItems(order.id);
+    return withItems && { ...withItems, previousStatus };
+  });
+}
+
+export function sendProductUpdatedWebhook(tenantId: string, productId: string): Promise<void> {
+  return dispatchWebhookEvent(tenantId, "product.updated", async () => {
+    const product = await storage.getProduct(productId);
+    if (!product) return undefined;
+    return { ...product, variants: await storage.getProductVariants(product.id) };
+  });
+}
+
+// Reports the variants and products a sale or edit took to their low-stock
+// threshold, as found by the caller
+export function sendLowStockWebhook(tenantId: string, items: LowStockItem[]): Promise<void> {
+  return dispatchWebhookEvent(tenantId, "stock.low", async () => {
+    if (items.length === 0) return undefined;
+    return {
+      variants: items.filter((item) => item.variantId),
+      products: items
+        .filter((item) => !item.variantId)
+        .map(({ productId, productName, stock, threshold }) => ({ productId, productName, stock, threshold })),
+    };
+  });
+}
+
+// Sends a logged delivery's payload again as a new delivery, leaving the
+// original in the log. Goes out even if the webhook is turned off, since
+// someone asked for it.
+export async function redeliverWebhook(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const [copy] = await storage.createWebhookDeliveries([
+    {
+      webhookId: webhook.id,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload,
+      nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS),
+    },
+  ]);
+  return attemptDelivery({ ...webhook, active: true }, copy);
+}
+
+export async function retryDueWebhookDeliveries(): Promise<void> {
+  const deliveries = await storage.claimDueWebhookDeliveries(RETRY_BATCH_SIZE, new Date(Date.now() + CLAIM_LEASE_MS));
+  for (const delivery of deliveries) {
+    try {
+      const webhook = await storage.getWebhook(delivery.webhookId);
+      if (webhook) await attemptDelivery(webhook, delivery);
+    } catch (error) {
+      console.error(`Failed to retry webhook delivery ${delivery.id}:`, error);
+    }
+  }
+}
+
+export function startWebhookRetryJob() {
+  const timer = setInterval(() => {
+    retryDueWebhookDeliveries().catch((error) => console.error("Webhook retry error:", error));
+  }, 30 * 1000);
+  timer.unref();
+}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, decimal, pgEnum, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, decimal, pgEnum, json, uniqueIndex, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +8,16 @@ export const userRoleEnum = pgEnum("user_role", ["tenant", "admin"]);
 export const tenantStatusEnum = pgEnum("tenant_status", ["active", "suspended", "pending"]);
 export const productStatusEnum = pgEnum("product_status", ["active", "draft", "archived"]);
 export const orderStatusEnum = pgEnum("order_status", ["new", "confirmed", "shipped", "delivered", "cancelled"]);
+export const courierProviderEnum = pgEnum("courier_provider", ["steadfast", "pathao", "redx"]);
+export const discountTypeEnum = pgEnum("discount_type", ["percentage", "fixed", "free_shipping"]);
+export const paymentMethodEnum = pgEnum("payment_method", ["cod", "online"]);
+export const paymentProviderEnum = pgEnum("payment_provider", ["bkash", "nagad", "sslcommerz"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["not_required", "pending", "paid", "failed"]);
+export const highRiskActionEnum = pgEnum("high_risk_action", ["flag", "hold", "reject"]);
+export const tenantRoleEnum = pgEnum("tenant_role", ["owner", "manager", "order_agent", "packer"]);
+export const authTokenPurposeEnum = pgEnum("auth_token_purpose", ["password_reset", "email_verification"]);
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", ["pending", "succeeded", "failed"]);
+export const collectionTypeEnum = pgEnum("collection_type", ["manual", "automatic"]);
 
 // Plans table - subscription plans for tenants
 export const plans = pgTable("plans", {
@@ -28,6 +38,7 @@ export const tenants = pgTable("tenants", {
   slug: text("slug").notNull().unique(),
   planId: varchar("plan_id").references(() => plans.id),
   status: tenantStatusEnum("status").notNull().default("active"),
+  orderSequence: integer("order_sequence").notNull().default(1000), // Last order number issued
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -38,9 +49,104 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   role: userRoleEnum("role").notNull().default("tenant"),
   tenantId: varchar("tenant_id").references(() => tenants.id),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  totpSecret: text("totp_secret"), // Base32; set during enrollment, before totpEnabledAt
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Time step of the last code accepted, so no code is accepted twice
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Recovery Codes table - one-time codes for signing in without the authenticator app
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(), // SHA-256 of the normalized code
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userCodeIdx: uniqueIndex("recovery_codes_user_code_idx").on(table.userId, table.codeHash),
+}));
+
+// Auth Tokens table - single-use links for password resets and email verification
+export const authTokens = pgTable("auth_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: authTokenPurposeEnum("purpose").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the emailed token; the token itself isn't stored
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Tenant Members table - which users work on a store, and in what role
+export const tenantMembers = pgTable("tenant_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: tenantRoleEnum("role").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantUserIdx: uniqueIndex("tenant_members_tenant_user_idx").on(table.tenantId, table.userId),
+}));
+
+// Staff Invites table - pending invitations to join a store
+export const staffInvites = pgTable("staff_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  email: text("email").notNull(), // Lowercased
+  role: tenantRoleEnum("role").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the emailed token; the token itself isn't stored
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantEmailIdx: uniqueIndex("staff_invites_tenant_email_idx").on(table.tenantId, table.email),
+}));
+
+// API Keys table - bearer keys a store issues for its own tools to call /api/v1
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // Start of the key, so owners can tell keys apart
+  keyHash: text("key_hash").notNull().unique(), // SHA-256 of the key; the key itself is shown once and not stored
+  scopes: json("scopes").$type<ApiScope[]>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Webhooks table - URLs a store wants told about its orders and products
+export const webhooks = pgTable("webhooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  url: text("url").notNull(),
+  events: json("events").$type<WebhookEvent[]>().notNull(),
+  secret: text("secret").notNull(), // Signs each payload; kept in the clear since it's needed to sign
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Webhook Deliveries table - one row per attempt to deliver an event,
+// retried in place until it succeeds or runs out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id").notNull(), // Shared by redeliveries, so receivers can skip duplicates
+  event: text("event").$type<WebhookEvent>().notNull(),
+  payload: json("payload").$type<WebhookPayload>().notNull(),
+  status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // HTTP status of the last attempt
+  responseBody: text("response_body"), // Start of the last response, for debugging
+  error: text("error"), // Why the last attempt failed, if it never got a response
+  nextAttemptAt: timestamp("next_attempt_at"), // Null once the delivery has succeeded or given up
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  webhookCreatedIdx: index("webhook_deliveries_webhook_created_idx").on(table.webhookId, table.createdAt),
+  statusNextAttemptIdx: index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+}));
+
 // Products table
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -52,6 +158,9 @@ export const products = pgTable("products", {
   images: text("images").array().notNull().default(sql`ARRAY[]::text[]`),
   status: productStatusEnum("status").notNull().default("draft"),
   hasVariants: boolean("has_variants").notNull().default(false),
+  trackStock: boolean("track_stock").notNull().default(false), // Off means unlimited; variants always track their own
+  stock: integer("stock").notNull().default(0), // Only counted when trackStock is on and there are no variants
+  lowStockThreshold: integer("low_stock_threshold"), // Overrides the store's threshold for this product and its variants
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -63,11 +172,77 @@ export const productVariants = pgTable("product_variants", {
   sku: text("sku"), // Optional SKU
   price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Variant-specific price
   stock: integer("stock").notNull().default(0), // Stock quantity
-  attributes: text("attributes").notNull().default("{}"), // JSON string for size, color, etc.
+  attributes: text("attributes").notNull().default("{}"), // Legacy free-form JSON; options replace it
+  // One value per product option, in option order. Empty for variants added by hand.
+  optionValueIds: json("option_value_ids").$type<string[]>().notNull().default([]),
+  images: text("images").array().notNull().default(sql`ARRAY[]::text[]`), // Picked from the product's images; shown instead of them
   isDefault: boolean("is_default").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Product options - the choices a shopper makes, like Size or Color. The
+// product's variants are every combination of their values.
+export const productOptions = pgTable("product_options", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+});
+
+export const productOptionValues = pgTable("product_option_values", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  optionId: varchar("option_id").notNull().references(() => productOptions.id, { onDelete: "cascade" }),
+  value: text("value").notNull(),
+  position: integer("position").notNull().default(0),
+  swatch: text("swatch"), // Hex color shown in place of the text, e.g. "#c0392b"
+  images: text("images").array().notNull().default(sql`ARRAY[]::text[]`), // For every variant with this value that has none of its own
+});
+
+// Categories table - a store's own product tree. Deleting a category moves
+// its subcategories up to its parent.
+export const categories = pgTable("categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  parentId: varchar("parent_id").references((): AnyPgColumn => categories.id, { onDelete: "set null" }), // Null for top-level categories
+  name: text("name").notNull(),
+  slug: text("slug").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantSlugIdx: uniqueIndex("categories_tenant_slug_idx").on(table.tenantId, table.slug),
+}));
+
+export const productCategories = pgTable("product_categories", {
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  categoryId: varchar("category_id").notNull().references(() => categories.id, { onDelete: "cascade" }),
+}, (table) => ({
+  productCategoryIdx: uniqueIndex("product_categories_product_category_idx").on(table.productId, table.categoryId),
+}));
+
+// Collections table - hand-picked products, or every product matching its
+// rules (worked out when the collection is viewed)
+export const collections = pgTable("collections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  name: text("name").notNull(),
+  slug: text("slug").notNull(),
+  description: text("description"),
+  type: collectionTypeEnum("type").notNull().default("manual"),
+  rules: json("rules").$type<CollectionRule[]>().notNull().default([]), // Automatic collections only
+  matchAll: boolean("match_all").notNull().default(true), // Products must match every rule, or any one
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantSlugIdx: uniqueIndex("collections_tenant_slug_idx").on(table.tenantId, table.slug),
+}));
+
+// Products in manual collections
+export const collectionProducts = pgTable("collection_products", {
+  collectionId: varchar("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+}, (table) => ({
+  collectionProductIdx: uniqueIndex("collection_products_collection_product_idx").on(table.collectionId, table.productId),
+}));
+
 // Shipping Classes table
 export const shippingClasses = pgTable("shipping_classes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -78,21 +253,119 @@ export const shippingClasses = pgTable("shipping_classes", {
   isDefault: boolean("is_default").notNull().default(false),
 });
 
+// Customers table - one row per phone number per store
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  phone: text("phone").notNull(), // Normalized to 01XXXXXXXXX
+  name: text("name").notNull(), // Name used on the most recent order
+  address: text("address"), // Address used on the most recent order
+  notes: text("notes"), // Private notes from the store owner
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantPhoneIdx: uniqueIndex("customers_tenant_phone_idx").on(table.tenantId, table.phone),
+}));
+
+// Discounts table - coupon codes, and promotions applied without a code
+export const discounts = pgTable("discounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  code: text("code").notNull(), // Stored uppercase; also labels automatic promotions
+  type: discountTypeEnum("type").notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"), // Percent or taka; unused for free shipping
+  automatic: boolean("automatic").notNull().default(false), // Applies at checkout without entering the code
+  minOrderAmount: decimal("min_order_amount", { precision: 10, scale: 2 }), // Cart subtotal required
+  usageLimit: integer("usage_limit"), // Null for unlimited
+  usageCount: integer("usage_count").notNull().default(0),
+  productIds: text("product_ids").array(), // Null applies to every product
+  startsAt: timestamp("starts_at"),
+  expiresAt: timestamp("expires_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantCodeIdx: uniqueIndex("discounts_tenant_code_idx").on(table.tenantId, table.code),
+}));
+
 // Orders table
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
-  productId: varchar("product_id").notNull().references(() => products.id),
-  variantId: varchar("variant_id").references(() => productVariants.id), // Optional variant reference
+  // Legacy single-item orders only; line items live in order_items
+  productId: varchar("product_id").references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
   customerName: text("customer_name").notNull(),
   phone: text("phone").notNull(),
   address: text("address").notNull(),
-  quantity: integer("quantity").notNull().default(1),
+  quantity: integer("quantity").notNull().default(1), // Total units across all line items
   shippingClassId: varchar("shipping_class_id").references(() => shippingClasses.id),
   shippingFee: decimal("shipping_fee", { precision: 10, scale: 2 }).notNull(),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
-  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  discountId: varchar("discount_id").references(() => discounts.id, { onDelete: "set null" }),
+  discountCode: text("discount_code"), // Snapshot, kept if the discount is deleted
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // Subtotal + shipping - discount
+  paymentMethod: paymentMethodEnum("payment_method").notNull().default("cod"),
+  paymentProvider: paymentProviderEnum("payment_provider"), // Gateway for the online part, if any
+  paymentStatus: paymentStatusEnum("payment_status").notNull().default("not_required"),
+  paymentDue: decimal("payment_due", { precision: 10, scale: 2 }).notNull().default("0"), // To be paid online before delivery
+  paymentReference: text("payment_reference"), // Gateway's ID for the latest payment attempt
+  paymentTransactionId: text("payment_transaction_id"), // Gateway transaction ID once paid
+  paidAt: timestamp("paid_at"),
+  riskScore: integer("risk_score").notNull().default(0), // 0-100, from server/fraud.ts at checkout
+  riskReasons: text("risk_reasons").array(), // Why the score is what it is, for staff
+  onHold: boolean("on_hold").notNull().default(false), // High-risk order waiting for staff approval
   status: orderStatusEnum("status").notNull().default("new"),
+  orderSequence: integer("order_sequence"), // Per-tenant counter value
+  orderNumber: text("order_number"), // Prefix + sequence, e.g. "ORD-1001"
+  courierProvider: courierProviderEnum("courier_provider"), // Set once the parcel is booked
+  courierConsignmentId: text("courier_consignment_id"),
+  courierTrackingCode: text("courier_tracking_code"),
+  courierSentAt: timestamp("courier_sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantSequenceIdx: uniqueIndex("orders_tenant_sequence_idx").on(table.tenantId, table.orderSequence),
+}));
+
+// Order Items table - one row per cart line
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "set null" }),
+  variantId: varchar("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
+  productName: text("product_name").notNull(), // Snapshot at time of order
+  variantName: text("variant_name"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  quantity: integer("quantity").notNull(),
+  lineTotal: decimal("line_total", { precision: 10, scale: 2 }).notNull(),
+  stockReserved: boolean("stock_reserved").notNull().default(false), // Whether this line took stock, so cancelling only returns what it took
+});
+
+// Order Events table - timeline of status changes and courier updates
+export const orderEvents = pgTable("order_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  type: text("type").$type<OrderEventType>().notNull(),
+  source: text("source").$type<OrderEventSource>().notNull().default("system"),
+  status: orderStatusEnum("status"), // Order status after the event, if it changed
+  courierStatus: text("courier_status"), // Raw status string reported by the courier
+  message: text("message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// SMS Messages table - delivery log of customer SMS per order
+export const smsMessages = pgTable("sms_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  event: text("event").$type<SmsEvent>().notNull(),
+  phone: text("phone").notNull(),
+  body: text("body").notNull(),
+  status: text("status").$type<"sent" | "failed">().notNull(),
+  provider: text("provider").notNull(), // Gateway that handled the message
+  providerMessageId: text("provider_message_id"),
+  error: text("error"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -106,6 +379,18 @@ export const storeSettings = pgTable("store_settings", {
   primaryColor: text("primary_color").default("#3b82f6"),
   whatsappNumber: text("whatsapp_number"),
   contactEmail: text("contact_email"),
+  orderNumberPrefix: text("order_number_prefix").notNull().default(""),
+  courierProvider: courierProviderEnum("courier_provider"),
+  courierCredentials: json("courier_credentials").$type<CourierCredentials>(), // Never sent to storefronts
+  courierWebhookSecret: text("courier_webhook_secret"), // Shared with couriers to sign status webhooks
+  smsTemplates: json("sms_templates").$type<Partial<SmsTemplates>>(), // Overrides of DEFAULT_SMS_TEMPLATES
+  codEnabled: boolean("cod_enabled").notNull().default(true),
+  advanceDeliveryCharge: boolean("advance_delivery_charge").notNull().default(false), // COD orders pay shipping online first
+  paymentCredentials: json("payment_credentials").$type<PaymentCredentials>(), // Never sent to storefronts
+  highRiskAction: highRiskActionEnum("high_risk_action").notNull().default("flag"), // What checkout does with high-risk orders
+  duplicateOrderWindow: integer("duplicate_order_window").notNull().default(60), // Minutes; repeat orders within it count as duplicates
+  lowStockThreshold: integer("low_stock_threshold").notNull().default(5), // At or below this many left counts as low stock
+  lowStockEmail: boolean("low_stock_email").notNull().default(true), // Email contactEmail when a sale leaves stock low
 });
 
 // Domain Mappings table (for custom domains)
@@ -114,9 +399,36 @@ export const domainMappings = pgTable("domain_mappings", {
   tenantId: varchar("tenant_id").notNull().references(() => tenants.id),
   domain: text("domain").notNull().unique(),
   verified: boolean("verified").notNull().default(false),
+  verificationToken: text("verification_token"), // Expected in the _storebuilder-verify TXT record
+  cnameTarget: text("cname_target"), // Host the domain should CNAME to
+  verifiedAt: timestamp("verified_at"),
+  lastCheckedAt: timestamp("last_checked_at"),
+  lastCheckError: text("last_check_error"), // Reason the last DNS check failed
+  checkFailures: integer("check_failures").notNull().default(0), // Consecutive failed checks
+  // Verified by an admin, or before DNS checks existed. Failed checks don't
+  // unverify it; a passing owner check clears this and re-checks begin.
+  manuallyVerified: boolean("manually_verified").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Audit Logs table - append-only record of staff and admin changes. Tenant
+// and actor aren't foreign keys so entries outlive deleted stores and staff.
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id"), // Null for platform-wide changes such as plans
+  actorId: varchar("actor_id"),
+  actorEmail: text("actor_email"), // As it was when the change was made
+  actorRole: text("actor_role"), // Store role, or "admin"
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: varchar("entity_id"),
+  entityLabel: text("entity_label"), // Human-readable name, e.g. order number or product name
+  action: text("action").$type<AuditAction>().notNull(),
+  changes: json("changes").$type<AuditChanges>().notNull().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantCreatedIdx: index("audit_logs_tenant_created_idx").on(table.tenantId, table.createdAt),
+}));
+
 // User Sessions table (managed by connect-pg-simple, but included so Drizzle doesn't try to delete it)
 export const userSessions = pgTable("user_sessions", {
   sid: varchar("sid").primaryKey(),
@@ -132,37 +444,92 @@ export const plansRelations = relations(plans, ({ many }) => ({
 export const tenantsRelations = relations(tenants, ({ one, many }) => ({
   plan: one(plans, { fields: [tenants.planId], references: [plans.id] }),
   users: many(users),
+  members: many(tenantMembers),
+  staffInvites: many(staffInvites),
   products: many(products),
   orders: many(orders),
+  customers: many(customers),
+  discounts: many(discounts),
   shippingClasses: many(shippingClasses),
   storeSettings: one(storeSettings),
   domainMappings: many(domainMappings),
 }));
 
-export const usersRelations = relations(users, ({ one }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   tenant: one(tenants, { fields: [users.tenantId], references: [tenants.id] }),
+  memberships: many(tenantMembers),
+}));
+
+export const tenantMembersRelations = relations(tenantMembers, ({ one }) => ({
+  tenant: one(tenants, { fields: [tenantMembers.tenantId], references: [tenants.id] }),
+  user: one(users, { fields: [tenantMembers.userId], references: [users.id] }),
+}));
+
+export const staffInvitesRelations = relations(staffInvites, ({ one }) => ({
+  tenant: one(tenants, { fields: [staffInvites.tenantId], references: [tenants.id] }),
 }));
 
 export const productsRelations = relations(products, ({ one, many }) => ({
   tenant: one(tenants, { fields: [products.tenantId], references: [tenants.id] }),
   orders: many(orders),
+  orderItems: many(orderItems),
   variants: many(productVariants),
+  options: many(productOptions),
+}));
+
+export const productOptionsRelations = relations(productOptions, ({ one, many }) => ({
+  product: one(products, { fields: [productOptions.productId], references: [products.id] }),
+  values: many(productOptionValues),
+}));
+
+export const productOptionValuesRelations = relations(productOptionValues, ({ one }) => ({
+  option: one(productOptions, { fields: [productOptionValues.optionId], references: [productOptions.id] }),
 }));
 
 export const productVariantsRelations = relations(productVariants, ({ one, many }) => ({
   product: one(products, { fields: [productVariants.productId], references: [products.id] }),
   orders: many(orders),
+  orderItems: many(orderItems),
 }));
 
 export const shippingClassesRelations = relations(shippingClasses, ({ one }) => ({
   tenant: one(tenants, { fields: [shippingClasses.tenantId], references: [tenants.id] }),
 }));
 
-export const ordersRelations = relations(orders, ({ one }) => ({
+export const customersRelations = relations(customers, ({ one, many }) => ({
+  tenant: one(tenants, { fields: [customers.tenantId], references: [tenants.id] }),
+  orders: many(orders),
+}));
+
+export const discountsRelations = relations(discounts, ({ one, many }) => ({
+  tenant: one(tenants, { fields: [discounts.tenantId], references: [tenants.id] }),
+  orders: many(orders),
+}));
+
+export const ordersRelations = relations(orders, ({ one, many }) => ({
   tenant: one(tenants, { fields: [orders.tenantId], references: [tenants.id] }),
+  customer: one(customers, { fields: [orders.customerId], references: [customers.id] }),
+  discount: one(discounts, { fields: [orders.discountId], references: [discounts.id] }),
   product: one(products, { fields: [orders.productId], references: [products.id] }),
   variant: one(productVariants, { fields: [orders.variantId], references: [productVariants.id] }),
   shippingClass: one(shippingClasses, { fields: [orders.shippingClassId], references: [shippingClasses.id] }),
+  items: many(orderItems),
+  events: many(orderEvents),
+  smsMessages: many(smsMessages),
+}));
+
+export const smsMessagesRelations = relations(smsMessages, ({ one }) => ({
+  order: one(orders, { fields: [smsMessages.orderId], references: [orders.id] }),
+}));
+
+export const orderEventsRelations = relations(orderEvents, ({ one }) => ({
+  order: one(orders, { fields: [orderEvents.orderId], references: [orders.id] }),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, { fields: [orderItems.orderId], references: [orders.id] }),
+  product: one(products, { fields: [orderItems.productId], references: [products.id] }),
+  variant: one(productVariants, { fields: [orderItems.variantId], references: [productVariants.id] }),
 }));
 
 export const storeSettingsRelations = relations(storeSettings, ({ one }) => ({
@@ -173,15 +540,75 @@ export const domainMappingsRelations = relations(domainMappings, ({ one }) => ({
   tenant: one(tenants, { fields: [domainMappings.tenantId], references: [tenants.id] }),
 }));
 
+// Customer SMS
+export const SMS_EVENTS = ["order_placed", "order_confirmed", "order_shipped", "order_delivered"] as const;
+export type SmsEvent = (typeof SMS_EVENTS)[number];
+export type SmsTemplate = { enabled: boolean; body: string };
+export type SmsTemplates = Record<SmsEvent, SmsTemplate>;
+
+// Placeholders available in every template
+export const SMS_TEMPLATE_VARIABLES = ["customerName", "orderNumber", "storeName", "total", "courier", "trackingCode"] as const;
+
+export const DEFAULT_SMS_TEMPLATES: SmsTemplates = {
+  order_placed: {
+    enabled: true,
+    body: "Dear {customerName}, your order #{orderNumber} at {storeName} has been received. Total: Tk {total}. We will call you to confirm.",
+  },
+  order_confirmed: {
+    enabled: true,
+    body: "Your order #{orderNumber} at {storeName} is confirmed and will be shipped soon.",
+  },
+  order_shipped: {
+    enabled: true,
+    body: "Your order #{orderNumber} from {storeName} has been shipped via {courier}. Tracking: {trackingCode}. Please keep Tk {total} ready.",
+  },
+  order_delivered: {
+    enabled: true,
+    body: "Your order #{orderNumber} has been delivered. Thank you for shopping with {storeName}!",
+  },
+};
+
+export function getSmsTemplates(settings?: Pick<StoreSettings, "smsTemplates"> | null): SmsTemplates {
+  return { ...DEFAULT_SMS_TEMPLATES, ...settings?.smsTemplates };
+}
+
+// Order status that triggers each SMS, other than order_placed which is sent at checkout
+export const SMS_EVENT_FOR_STATUS: Partial<Record<OrderStatus, SmsEvent>> = {
+  confirmed: "order_confirmed",
+  shipped: "order_shipped",
+  delivered: "order_delivered",
+};
+
+const smsTemplateSchema = z.object({
+  enabled: z.boolean(),
+  // Three concatenated SMS segments
+  body: z.string().trim().min(1, "SMS text is required").max(480, "SMS text can be at most 480 characters"),
+});
+
+export const smsTemplatesSchema = z.object({
+  order_placed: smsTemplateSchema,
+  order_confirmed: smsTemplateSchema,
+  order_shipped: smsTemplateSchema,
+  order_delivered: smsTemplateSchema,
+}).partial();
+
 // Insert Schemas
 export const insertPlanSchema = createInsertSchema(plans).omit({ id: true, createdAt: true });
 export const insertTenantSchema = createInsertSchema(tenants).omit({ id: true, createdAt: true });
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertProductSchema = createInsertSchema(products).omit({ id: true, createdAt: true });
-export const insertProductVariantSchema = createInsertSchema(productVariants).omit({ id: true, createdAt: true });
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  optionValueIds: z.array(z.string()).optional(),
+}).omit({ id: true, createdAt: true });
 export const insertShippingClassSchema = createInsertSchema(shippingClasses).omit({ id: true });
+export const insertCustomerSchema = createInsertSchema(customers).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertDiscountSchema = createInsertSchema(discounts).omit({ id: true, createdAt: true, usageCount: true });
 export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, createdAt: true });
-export const insertStoreSettingsSchema = createInsertSchema(storeSettings).omit({ id: true });
+export const insertOrderItemSchema = createInsertSchema(orderItems).omit({ id: true });
+export const insertStoreSettingsSchema = createInsertSchema(storeSettings, {
+  smsTemplates: smsTemplatesSchema.nullable().optional(),
+  paymentCredentials: z.record(z.record(z.string())).nullable().optional(),
+}).omit({ id: true });
 export const insertDomainMappingSchema = createInsertSchema(domainMappings).omit({ id: true, createdAt: true });
 
 // Types
@@ -191,19 +618,777 @@ export type Tenant = typeof tenants.$inferSelect;
 export type InsertTenant = z.infer<typeof insertTenantSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type TenantMember = typeof tenantMembers.$inferSelect;
+export type InsertTenantMember = typeof tenantMembers.$inferInsert;
+export type StaffMember = TenantMember & { email: string };
+export type StaffInvite = typeof staffInvites.$inferSelect;
+export type InsertStaffInvite = typeof staffInvites.$inferInsert;
+export type PublicStaffInvite = Omit<StaffInvite, "tokenHash">;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatusEnum.enumValues)[number];
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = typeof authTokens.$inferInsert;
+export type AuthTokenPurpose = (typeof authTokenPurposeEnum.enumValues)[number];
+// What the browser gets for the signed-in user; secrets stay on the server
+export type SafeUser = Omit<User, "password" | "totpSecret"> & { twoFactorEnabled: boolean };
+export type UserSession = typeof userSessions.$inferSelect;
+// A signed-in device as listed on the security page
+export interface ActiveSession {
+  id: string; // Hash of the session ID; the ID itself is as good as the cookie
+  device: string;
+  ip: string | null;
+  signedInAt: string | null; // Unknown for sessions from before these were recorded
+  lastSeenAt: string | null;
+  current: boolean;
+}
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+// As listed in the dashboard, with what it's been filed under
+export type ProductWithAssignments = Product & { categoryIds: string[]; collectionIds: string[] };
 export type ProductVariant = typeof productVariants.$inferSelect;
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = typeof categories.$inferInsert;
+export type Collection = typeof collections.$inferSelect;
+export type InsertCollection = typeof collections.$inferInsert;
+export type CollectionType = (typeof collectionTypeEnum.enumValues)[number];
+export type PublicCollection = Pick<Collection, "id" | "name" | "slug" | "description">;
 export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductOption = typeof productOptions.$inferSelect;
+export type ProductOptionValue = typeof productOptionValues.$inferSelect;
+export type ProductOptionWithValues = ProductOption & { values: ProductOptionValue[] };
 export type ShippingClass = typeof shippingClasses.$inferSelect;
 export type InsertShippingClass = z.infer<typeof insertShippingClassSchema>;
+export type Customer = typeof customers.$inferSelect;
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type CustomerStats = {
+  orderCount: number;
+  deliveredCount: number;
+  cancelledCount: number;
+  totalSpent: string; // Sum of delivered order totals
+  lastOrderAt: Date | null;
+};
+export type CustomerWithStats = Customer & CustomerStats;
+export type Discount = typeof discounts.$inferSelect;
+export type InsertDiscount = z.infer<typeof insertDiscountSchema>;
+export type DiscountType = Discount["type"];
+export type DiscountStats = {
+  orderCount: number; // Orders that used it, excluding cancelled
+  discountTotal: string; // Taka given away on those orders
+  revenue: string; // Order totals on those orders
+};
+export type DiscountWithStats = Discount & DiscountStats;
+// Totals for a cart before it is placed, as the checkout route would charge them
+export type DiscountPreview = {
+  discount: Pick<Discount, "code" | "type" | "automatic"> | null;
+  subtotal: string;
+  shippingFee: string;
+  discountAmount: string;
+  total: string;
+};
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderWithItems = Order & { items: OrderItem[] };
+export type OrderStatus = Order["status"];
+export type OrderEventType = "status" | "courier_booked" | "courier_update" | "payment" | "review";
+export type OrderEventSource = "staff" | "courier" | "system";
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type InsertOrderEvent = typeof orderEvents.$inferInsert;
+// What the public tracking page may see of an order - no address or staff notes
+export type TrackedOrder = {
+  orderNumber: string;
+  status: OrderStatus;
+  createdAt: Date;
+  items: Pick<OrderItem, "productName" | "variantName" | "quantity" | "lineTotal">[];
+  subtotal: string;
+  shippingFee: string;
+  discountAmount: string;
+  total: string;
+  shippingClass: { name: string; location: string } | null;
+  courier: { name: string; trackingCode: string | null } | null;
+  payment: { method: PaymentMethod; provider: PaymentProviderName | null; status: PaymentStatus; due: string };
+  timeline: Pick<OrderEvent, "type" | "status" | "courierStatus" | "message" | "createdAt">[];
+};
+// Checkout response: the order, plus where to pay when something is due online
+export type PlacedOrder = OrderWithItems & { paymentUrl?: string; paymentError?: string };
+export type SmsMessage = typeof smsMessages.$inferSelect;
+export type InsertSmsMessage = typeof smsMessages.$inferInsert;
 export type StoreSettings = typeof storeSettings.$inferSelect;
 export type InsertStoreSettings = z.infer<typeof insertStoreSettingsSchema>;
+// Settings as storefronts see them: credentials stay server-side
+export type PublicStoreSettings = Omit<
+  StoreSettings,
+  "courierCredentials" | "courierProvider" | "courierWebhookSecret" | "paymentCredentials"
+> & { paymentProviders: PaymentProviderName[] };
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
+export type AuditLogWithTenant = AuditLog & { tenantName: string | null };
 export type DomainMapping = typeof domainMappings.$inferSelect;
 export type InsertDomainMapping = z.infer<typeof insertDomainMappingSchema>;
 
+// Human-friendly order numbers
+export function formatOrderNumber(prefix: string | null | undefined, sequence: number): string {
+  return `${prefix || ""}${sequence}`;
+}
+
+// Orders placed before sequential numbering fall back to a slice of the UUID
+export function getOrderNumber(order: Pick<Order, "id" | "orderNumber">): string {
+  return order.orderNumber || order.id.slice(-8).toUpperCase();
+}
+
+// Couriers
+export type CourierProviderName = (typeof courierProviderEnum.enumValues)[number];
+export type CourierCredentials = Record<string, string>;
+
+export const courierCredentialsSchemas: Record<CourierProviderName, z.ZodType<CourierCredentials>> = {
+  steadfast: z.object({
+    apiKey: z.string().min(1, "API key is required"),
+    secretKey: z.string().min(1, "Secret key is required"),
+  }),
+  pathao: z.object({
+    clientId: z.string().min(1, "Client ID is required"),
+    clientSecret: z.string().min(1, "Client secret is required"),
+    username: z.string().min(1, "Username is required"),
+    password: z.string().min(1, "Password is required"),
+    storeId: z.string().regex(/^\d+$/, "Store ID must be a number"),
+  }),
+  redx: z.object({
+    accessToken: z.string().min(1, "Access token is required"),
+    deliveryAreaId: z.string().regex(/^\d*$/, "Area ID must be a number").optional(),
+  }),
+};
+
+// Labels for the settings form, in the order fields are shown
+export const COURIER_PROVIDERS: Record<CourierProviderName, { label: string; fields: { key: string; label: string; secret?: boolean; optional?: boolean }[] }> = {
+  steadfast: {
+    label: "Steadfast",
+    fields: [
+      { key: "apiKey", label: "API Key" },
+      { key: "secretKey", label: "Secret Key", secret: true },
+    ],
+  },
+  pathao: {
+    label: "Pathao",
+    fields: [
+      { key: "clientId", label: "Client ID" },
+      { key: "clientSecret", label: "Client Secret", secret: true },
+      { key: "username", label: "Merchant Email" },
+      { key: "password", label: "Merchant Password", secret: true },
+      { key: "storeId", label: "Store ID" },
+    ],
+  },
+  redx: {
+    label: "RedX",
+    fields: [
+      { key: "accessToken", label: "API Access Token", secret: true },
+      { key: "deliveryAreaId", label: "Default Delivery Area ID", optional: true },
+    ],
+  },
+};
+
+export const courierSettingsSchema = z.discriminatedUnion("courierProvider", [
+  z.object({ courierProvider: z.literal("steadfast"), courierCredentials: courierCredentialsSchemas.steadfast }),
+  z.object({ courierProvider: z.literal("pathao"), courierCredentials: courierCredentialsSchemas.pathao }),
+  z.object({ courierProvider: z.literal("redx"), courierCredentials: courierCredentialsSchemas.redx }),
+  z.object({ courierProvider: z.null(), courierCredentials: z.null() }),
+]);
+
+// Payments
+export type PaymentMethod = (typeof paymentMethodEnum.enumValues)[number];
+export type PaymentProviderName = (typeof paymentProviderEnum.enumValues)[number];
+export type PaymentStatus = (typeof paymentStatusEnum.enumValues)[number];
+export type PaymentCredentials = Partial<Record<PaymentProviderName, Record<string, string>>>;
+
+export const paymentCredentialsSchemas: Record<PaymentProviderName, z.ZodType<Record<string, string>>> = {
+  bkash: z.object({
+    appKey: z.string().min(1, "App key is required"),
+    appSecret: z.string().min(1, "App secret is required"),
+    username: z.string().min(1, "Username is required"),
+    password: z.string().min(1, "Password is required"),
+  }),
+  nagad: z.object({
+    merchantId: z.string().min(1, "Merchant ID is required"),
+    merchantNumber: z.string().min(1, "Merchant number is required"),
+    merchantPrivateKey: z.string().min(1, "Merchant private key is required"),
+    pgPublicKey: z.string().min(1, "Nagad public key is required"),
+  }),
+  sslcommerz: z.object({
+    storeId: z.string().min(1, "Store ID is required"),
+    storePassword: z.string().min(1, "Store password is required"),
+  }),
+};
+
+export const PAYMENT_PROVIDERS: Record<PaymentProviderName, { label: string; fields: { key: string; label: string; secret?: boolean; multiline?: boolean }[] }> = {
+  bkash: {
+    label: "bKash",
+    fields: [
+      { key: "appKey", label: "App Key" },
+      { key: "appSecret", label: "App Secret", secret: true },
+      { key: "username", label: "Username" },
+      { key: "password", label: "Password", secret: true },
+    ],
+  },
+  nagad: {
+    label: "Nagad",
+    fields: [
+      { key: "merchantId", label: "Merchant ID" },
+      { key: "merchantNumber", label: "Merchant Number" },
+      { key: "merchantPrivateKey", label: "Merchant Private Key", secret: true, multiline: true },
+      { key: "pgPublicKey", label: "Nagad Public Key", multiline: true },
+    ],
+  },
+  sslcommerz: {
+    label: "SSLCommerz",
+    fields: [
+      { key: "storeId", label: "Store ID" },
+      { key: "storePassword", label: "Store Password", secret: true },
+    ],
+  },
+};
+
+// Each gateway is optional; sending null for one disconnects it
+export const paymentSettingsSchema = z
+  .object({
+    codEnabled: z.boolean(),
+    advanceDeliveryCharge: z.boolean(),
+    paymentCredentials: z.object({
+      bkash: paymentCredentialsSchemas.bkash.nullable().optional(),
+      nagad: paymentCredentialsSchemas.nagad.nullable().optional(),
+      sslcommerz: paymentCredentialsSchemas.sslcommerz.nullable().optional(),
+    }),
+  })
+  .partial();
+
+// Gateways the store has saved complete credentials for
+export function getEnabledPaymentProviders(
+  settings: Pick<StoreSettings, "paymentCredentials"> | null | undefined
+): PaymentProviderName[] {
+  const credentials = settings?.paymentCredentials || {};
+  return paymentProviderEnum.enumValues.filter(
+    (name) => paymentCredentialsSchemas[name].safeParse(credentials[name]).success
+  );
+}
+
+// Taka collected online at checkout: the whole order when paying online, or
+// the delivery charge on COD orders when the store asks for it up front
+export function getOnlinePaymentDue(
+  method: PaymentMethod,
+  advanceDeliveryCharge: boolean,
+  amounts: { total: number; shippingFee: number }
+): number {
+  const due = method === "online" ? amounts.total : advanceDeliveryCharge ? amounts.shippingFee : 0;
+  return Math.max(0, Math.round(Math.min(due, amounts.total) * 100) / 100);
+}
+
+// What's left for the courier to collect once any online payment is in
+export function getCashDue(order: Pick<Order, "total" | "paymentDue" | "paymentStatus">): number {
+  const paid = order.paymentStatus === "paid" ? parseFloat(order.paymentDue) : 0;
+  return Math.max(0, Math.round((parseFloat(order.total) - paid) * 100) / 100);
+}
+
+// Fraud scoring
+export type HighRiskAction = (typeof highRiskActionEnum.enumValues)[number];
+export type RiskLevel = "low" | "medium" | "high";
+
+export const MEDIUM_RISK_SCORE = 30;
+export const HIGH_RISK_SCORE = 60;
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= HIGH_RISK_SCORE) return "high";
+  if (score >= MEDIUM_RISK_SCORE) return "medium";
+  return "low";
+}
+
+export const HIGH_RISK_ACTIONS: Record<HighRiskAction, { label: string; description: string }> = {
+  flag: { label: "Flag only", description: "Accept the order and mark it as high risk" },
+  hold: { label: "Hold for review", description: "Accept the order but block it until you approve it" },
+  reject: { label: "Reject automatically", description: "Refuse the order at checkout" },
+};
+
+export const fraudSettingsSchema = z
+  .object({
+    highRiskAction: z.enum(highRiskActionEnum.enumValues),
+    duplicateOrderWindow: z.coerce
+      .number()
+      .int()
+      .min(1, "Duplicate window must be at least 1 minute")
+      .max(1440, "Duplicate window can be at most 24 hours"),
+  })
+  .partial();
+
+// Inventory
+// The low-stock threshold for stores without settings
+export const LOW_STOCK_THRESHOLD = 5;
+
+export const inventorySettingsSchema = z
+  .object({
+    lowStockThreshold: z.coerce
+      .number()
+      .int()
+      .min(0, "Low stock threshold can't be negative")
+      .max(1000, "Low stock threshold can be at most 1000"),
+    lowStockEmail: z.boolean(),
+  })
+  .partial();
+
+// The threshold for a product and its variants: its own, else the store's
+export function getLowStockThreshold(
+  product: Pick<Product, "lowStockThreshold">,
+  settings?: Pick<StoreSettings, "lowStockThreshold"> | null
+): number {
+  return product.lowStockThreshold ?? settings?.lowStockThreshold ?? LOW_STOCK_THRESHOLD;
+}
+
+// How many a shopper can still buy: null when the product doesn't track stock
+export function getAvailableStock(
+  product: Pick<Product, "trackStock" | "stock" | "hasVariants">,
+  variant?: Pick<ProductVariant, "stock"> | null
+): number | null {
+  if (variant) return variant.stock;
+  return product.trackStock && !product.hasVariants ? product.stock : null;
+}
+
+// A variant, or a product without variants, at or below its threshold
+export interface LowStockItem {
+  productId: string;
+  productName: string;
+  variantId: string | null;
+  variantName: string | null;
+  sku: string | null;
+  stock: number;
+  threshold: number;
+}
+
+// Staff roles
+export type TenantRole = (typeof tenantRoleEnum.enumValues)[number];
+
+export const TENANT_PERMISSIONS = [
+  "analytics",
+  "products",
+  "orders.view",
+  "orders.update", // Confirm, cancel and approve held orders
+  "orders.ship", // Book couriers and mark orders shipped or delivered
+  "customers",
+  "discounts",
+  "shipping",
+  "settings",
+  "domains",
+  "staff",
+  "audit",
+  "api_keys",
+  "webhooks",
+] as const;
+export type TenantPermission = (typeof TENANT_PERMISSIONS)[number];
+
+export const TENANT_ROLES: Record<TenantRole, { label: string; description: string; permissions: readonly TenantPermission[] }> = {
+  owner: {
+    label: "Owner",
+    description: "Everything, including settings, domains, staff, API keys, webhooks and the audit log",
+    permissions: TENANT_PERMISSIONS,
+  },
+  manager: {
+    label: "Manager",
+    description: "Products, orders, customers, discounts and analytics",
+    permissions: ["analytics", "products", "orders.view", "orders.update", "orders.ship", "customers", "discounts", "shipping"],
+  },
+  order_agent: {
+    label: "Order agent",
+    description: "Confirms and cancels orders and looks up customers",
+    permissions: ["orders.view", "orders.update", "customers"],
+  },
+  packer: {
+    label: "Packer",
+    description: "Sees orders, books couriers and marks orders shipped",
+    permissions: ["orders.view", "orders.ship"],
+  },
+};
+
+export function hasPermission(role: TenantRole | null | undefined, permission: TenantPermission): boolean {
+  return !!role && TENANT_ROLES[role].permissions.includes(permission);
+}
+
+// Which permission moving an order into each status takes
+export const STATUS_PERMISSIONS: Record<OrderStatus, TenantPermission> = {
+  new: "orders.update",
+  confirmed: "orders.update",
+  cancelled: "orders.update",
+  shipped: "orders.ship",
+  delivered: "orders.ship",
+};
+
+export const staffInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  role: z.enum(tenantRoleEnum.enumValues),
+});
+
+export const updateStaffMemberSchema = z.object({
+  role: z.enum(tenantRoleEnum.enumValues),
+});
+
+export const acceptInviteSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Audit log
+export const AUDIT_ENTITY_TYPES = {
+  tenant: "Store",
+  plan: "Plan",
+  product: "Product",
+  variant: "Variant",
+  order: "Order",
+  customer: "Customer",
+  discount: "Discount",
+  shipping_class: "Shipping class",
+  store_settings: "Settings",
+  staff: "Staff member",
+  staff_invite: "Staff invite",
+  domain: "Domain",
+  api_key: "API key",
+  webhook: "Webhook",
+  category: "Category",
+  collection: "Collection",
+  account: "Account",
+  session: "Session",
+} as const;
+export type AuditEntityType = keyof typeof AUDIT_ENTITY_TYPES;
+
+export const AUDIT_ACTIONS = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  approve: "Approved",
+  send_to_courier: "Sent to courier",
+  invite: "Invited",
+  join: "Joined",
+  verify: "Verified",
+  unverify: "Unverified",
+  revoke: "Revoked",
+  redeliver: "Redelivered",
+} as const;
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+export type AuditChange = { from: unknown; to: unknown };
+export type AuditChanges = Record<string, AuditChange>;
+
+const auditEntityTypeKeys = Object.keys(AUDIT_ENTITY_TYPES) as [AuditEntityType, ...AuditEntityType[]];
+const auditActionKeys = Object.keys(AUDIT_ACTIONS) as [AuditAction, ...AuditAction[]];
+
+// Query-string filters; `to` is a date and includes that whole day
+export const auditLogFiltersSchema = z.object({
+  tenantId: z.string().optional(),
+  entityType: z.enum(auditEntityTypeKeys).optional(),
+  action: z.enum(auditActionKeys).optional(),
+  actor: z.string().trim().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>;
+
+// Public API (/api/v1)
+export const API_SCOPES = {
+  "products:read": "Read products and variants",
+  "products:write": "Create, update and delete products and variants",
+  "orders:read": "Read orders",
+  "orders:write": "Change order status",
+  "customers:read": "Read customers",
+  "customers:write": "Update customer names and notes",
+  "shipping:read": "Read shipping classes",
+  "shipping:write": "Create, update and delete shipping classes",
+} as const;
+export type ApiScope = keyof typeof API_SCOPES;
+
+const apiScopeKeys = Object.keys(API_SCOPES) as [ApiScope, ...ApiScope[]];
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60, "Name can be at most 60 characters"),
+  scopes: z.array(z.enum(apiScopeKeys)).min(1, "Choose at least one scope"),
+});
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+
+export const apiPaginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+export type ApiPagination = z.infer<typeof apiPaginationSchema>;
+
+// Every list endpoint answers with this envelope
+export interface ApiPage<T> {
+  data: T[];
+  pagination: { page: number; limit: number; total: number; hasMore: boolean };
+}
+
+// Store-owned columns are set from the API key, never the request body
+export const apiProductSchema = insertProductSchema.omit({ tenantId: true, hasVariants: true });
+export const apiVariantSchema = insertProductVariantSchema.omit({ productId: true });
+export const apiShippingClassSchema = insertShippingClassSchema.omit({ tenantId: true });
+export const apiOrderStatusSchema = z.object({
+  status: z.enum(orderStatusEnum.enumValues),
+});
+
+// Webhooks
+export const WEBHOOK_EVENTS = {
+  "order.created": "A customer places an order",
+  "order.status_changed": "An order is confirmed, shipped, delivered or cancelled",
+  "product.updated": "A product or one of its variants is edited",
+  "stock.low": "A sale leaves a variant or product with only a few left",
+} as const;
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+// The JSON body POSTed to a webhook's URL
+export interface WebhookPayload {
+  id: string; // Event ID; the same across redeliveries
+  event: WebhookEvent;
+  createdAt: string;
+  data: unknown;
+}
+
+const webhookEventKeys = Object.keys(WEBHOOK_EVENTS) as [WebhookEvent, ...WebhookEvent[]];
+
+export const webhookSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("Enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  events: z.array(z.enum(webhookEventKeys)).min(1, "Choose at least one event"),
+  active: z.boolean().default(true),
+});
+export type WebhookInput = z.infer<typeof webhookSchema>;
+
+// Categories and collections
+const catalogSlugSchema = z
+  .string()
+  .trim()
+  .min(2, "Slug must be at least 2 characters")
+  .regex(/^[a-z0-9-]+$/, "Slug can only contain lowercase letters, numbers, and hyphens");
+
+export const categorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60, "Name can be at most 60 characters"),
+  slug: catalogSlugSchema,
+  parentId: z.string().nullable().default(null),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+export type CategoryInput = z.infer<typeof categorySchema>;
+
+// Categories in display order, each under its parent, with how deep it sits
+export function getCategoryTree(categories: Category[]): { category: Category; depth: number }[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const tree: { category: Category; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const category of categories) {
+      // Categories whose parent is missing are shown at the top level
+      const parent = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+      if (parent === parentId) {
+        tree.push({ category, depth });
+        visit(category.id, depth + 1);
+      }
+    }
+  };
+  visit(null, 0);
+  return tree;
+}
+
+// The top-level category down to `id`, for breadcrumbs
+export function getCategoryPath(categories: Category[], id: string): Category[] {
+  const path: Category[] = [];
+  let current = categories.find((category) => category.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId: string | null = current.parentId;
+    current = categories.find((category) => category.id === parentId);
+  }
+  return path;
+}
+
+export const COLLECTION_RULE_FIELDS = {
+  name: { label: "Product name", operators: { contains: "contains", not_contains: "doesn't contain" } },
+  price: { label: "Price", operators: { greater_than: "is more than", less_than: "is less than" } },
+  category: { label: "Category", operators: { is: "is", is_not: "isn't" } },
+  created: { label: "Added", operators: { within_days: "within the last (days)" } },
+} as const;
+export type CollectionRuleField = keyof typeof COLLECTION_RULE_FIELDS;
+
+const collectionRuleFieldKeys = Object.keys(COLLECTION_RULE_FIELDS) as [CollectionRuleField, ...CollectionRuleField[]];
+
+// `value` is text for names, a number for price and days, and a category ID
+export const collectionRuleSchema = z
+  .object({
+    field: z.enum(collectionRuleFieldKeys),
+    operator: z.string(),
+    value: z.string().trim().min(1, "Every rule needs a value"),
+  })
+  .refine((rule) => rule.operator in COLLECTION_RULE_FIELDS[rule.field].operators, {
+    message: "Invalid rule condition",
+    path: ["operator"],
+  })
+  .refine((rule) => (rule.field !== "price" && rule.field !== "created") || !isNaN(Number(rule.value)), {
+    message: "Enter a number",
+    path: ["value"],
+  });
+export type CollectionRule = z.infer<typeof collectionRuleSchema>;
+
+export const collectionSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(60, "Name can be at most 60 characters"),
+    slug: catalogSlugSchema,
+    description: z.string().trim().max(500).nullable().optional(),
+    type: z.enum(collectionTypeEnum.enumValues),
+    rules: z.array(collectionRuleSchema).max(10, "Use at most 10 rules").default([]),
+    matchAll: z.boolean().default(true),
+  })
+  .refine((collection) => collection.type === "manual" || collection.rules.length > 0, {
+    message: "Add at least one rule",
+    path: ["rules"],
+  });
+export type CollectionInput = z.infer<typeof collectionSchema>;
+
+// Sent alongside a product's own fields from the dashboard form
+export const productAssignmentsSchema = z.object({
+  categoryIds: z.array(z.string()).optional(),
+  collectionIds: z.array(z.string()).optional(), // Manual collections only
+});
+
+export const MAX_PRODUCT_OPTIONS = 3;
+export const MAX_OPTION_VALUES = 20;
+export const MAX_PRODUCT_VARIANTS = 100;
+export const MAX_VARIANT_IMAGES = 10;
+
+// Every combination of one value from each list, in list order
+export function getOptionCombinations<T>(valueLists: T[][]): T[][] {
+  return valueLists.reduce<T[][]>(
+    (combinations, values) => combinations.flatMap((combination) => values.map((value) => [...combination, value])),
+    [[]]
+  );
+}
+
+export function getVariantName(values: string[]): string {
+  return values.join(" / ");
+}
+
+const hasNoDuplicates = (items: string[]) => new Set(items.map((item) => item.toLowerCase())).size === items.length;
+
+// The whole option list for a product, in display order. Saving it
+// regenerates the product's variants.
+export const productOptionsSchema = z
+  .object({
+    options: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1, "Option name is required").max(40),
+          values: z
+            .array(z.string().trim().min(1, "Option values can't be blank").max(40))
+            .min(1, "Each option needs at least one value")
+            .max(MAX_OPTION_VALUES, `An option can have up to ${MAX_OPTION_VALUES} values`)
+            .refine(hasNoDuplicates, "An option can't list the same value twice"),
+        })
+      )
+      .max(MAX_PRODUCT_OPTIONS, `A product can have up to ${MAX_PRODUCT_OPTIONS} options`)
+      .refine((options) => hasNoDuplicates(options.map((option) => option.name)), "Option names must be different"),
+  })
+  .refine(
+    ({ options }) => options.reduce((total, option) => total * option.values.length, 1) <= MAX_PRODUCT_VARIANTS,
+    { message: `Those options make more than ${MAX_PRODUCT_VARIANTS} variants`, path: ["options"] }
+  );
+export type ProductOptionsInput = z.infer<typeof productOptionsSchema>;
+
+// Price, stock and SKU for many of a product's variants at once
+export const variantBulkUpdateSchema = z.object({
+  variants: z
+    .array(
+      z.object({
+        id: z.string(),
+        price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter prices like 1200 or 1200.50").optional(),
+        stock: z.number().int().min(0, "Stock can't be negative").optional(),
+        sku: z.string().trim().max(64).nullable().optional(),
+        images: z.array(z.string()).max(MAX_VARIANT_IMAGES).optional(),
+      })
+    )
+    .min(1)
+    .max(MAX_PRODUCT_VARIANTS),
+});
+export type VariantBulkUpdate = z.infer<typeof variantBulkUpdateSchema>;
+
+// The color swatch and images of one option value, like Color: Red
+export const optionValueMediaSchema = z.object({
+  swatch: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i, "Pick a color like #c0392b")
+    .nullable()
+    .optional(),
+  images: z.array(z.string()).max(MAX_VARIANT_IMAGES).optional(),
+});
+export type OptionValueMedia = z.infer<typeof optionValueMediaSchema>;
+
+// What the product page shows for a variant: its own images, else those of
+// its option values, else the product's. Images since removed from the
+// product are skipped.
+export function getVariantImages(
+  productImages: string[],
+  variant?: Pick<ProductVariant, "images" | "optionValueIds">,
+  options: ProductOptionWithValues[] = []
+): string[] {
+  if (!variant) return productImages;
+  const own = variant.images.filter((image) => productImages.includes(image));
+  if (own.length > 0) return own;
+  const fromValues = options
+    .flatMap((option) => option.values)
+    .filter((value) => variant.optionValueIds.includes(value.id))
+    .flatMap((value) => value.images)
+    .filter((image, index, all) => productImages.includes(image) && all.indexOf(image) === index);
+  return fromValues.length > 0 ? fromValues : productImages;
+}
+
+// Columns of the product spreadsheet, one row per variant. Export writes
+// these headers and import maps columns with the same names automatically,
+// so an exported file can be edited and imported back.
+export const PRODUCT_SHEET_COLUMNS = {
+  slug: "Slug",
+  name: "Name",
+  description: "Description",
+  price: "Price",
+  status: "Status",
+  images: "Images",
+  categories: "Categories",
+  trackStock: "Track Stock",
+  stock: "Stock",
+  lowStockThreshold: "Low Stock Threshold",
+  variantName: "Variant Name",
+  variantSku: "Variant SKU",
+  variantPrice: "Variant Price",
+  variantStock: "Variant Stock",
+} as const;
+export type ProductSheetColumn = keyof typeof PRODUCT_SHEET_COLUMNS;
+
+// Image URLs and category slugs share one cell, split by this
+export const PRODUCT_SHEET_LIST_SEPARATOR = "|";
+export const PRODUCT_IMPORT_ROW_LIMIT = 2000;
+
+const productSheetColumnKeys = Object.keys(PRODUCT_SHEET_COLUMNS) as [ProductSheetColumn, ...ProductSheetColumn[]];
+
+// Which spreadsheet column (by position) each field is read from; fields
+// left out are ignored, and keep their current value on existing products
+export const productImportMappingSchema = z
+  .record(z.enum(productSheetColumnKeys), z.number().int().min(0))
+  .refine((mapping) => mapping.slug !== undefined, "Choose the column that holds each product's slug");
+export type ProductImportMapping = z.infer<typeof productImportMappingSchema>;
+
+// Rows are numbered as in the spreadsheet, counting the header as row 1
+export interface ProductImportReport {
+  dryRun: boolean;
+  productsCreated: number;
+  productsUpdated: number;
+  variantsCreated: number;
+  variantsUpdated: number;
+  errors: { row: number; message: string }[];
+}
+
 // Validation schemas for forms
 export const registerSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -217,23 +1402,132 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset link is invalid"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification link is invalid"),
+});
+
+// Accepts a 6-digit authenticator code or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(32),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Bangladeshi mobile number: 01XXXXXXXXX, 8801XXXXXXXXX or +8801XXXXXXXXX.
+// Returns the local 01XXXXXXXXX form, or null if the number isn't valid.
+export function normalizeBdPhone(val: string): string | null {
+  // Remove +880 prefix if present, then check if it's a valid Bangladeshi number
+  const cleaned = val.replace(/^\+880/, "").replace(/^880/, "").replace(/^0/, "");
+  // Should be 10 digits starting with 1, then 3-9
+  return /^1[3-9]\d{8}$/.test(cleaned) ? `0${cleaned}` : null;
+}
+
+export const bdPhoneSchema = z.string().refine(
+  (val) => normalizeBdPhone(val) !== null,
+  { message: "Invalid Bangladeshi phone number. Use format: 01XXXXXXXXX or +8801XXXXXXXXX" }
+);
+
+export const updateCustomerSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters").optional(),
+  notes: z.string().max(2000, "Notes can be at most 2000 characters").nullable().optional(),
+});
+
+export const discountCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9_-]{3,32}$/, "Codes are 3-32 letters, numbers, dashes or underscores")
+  .transform((code) => code.toUpperCase());
+
+// Dashboard create/edit form. Amounts arrive as numbers or numeric strings.
+export const discountFormSchema = z
+  .object({
+    code: discountCodeSchema,
+    type: z.enum(discountTypeEnum.enumValues),
+    value: z.coerce.number().min(0, "Value can't be negative").default(0),
+    automatic: z.boolean().default(false),
+    minOrderAmount: z.coerce.number().min(0, "Minimum order can't be negative").nullable().optional(),
+    usageLimit: z.coerce.number().int().min(1, "Usage limit must be at least 1").nullable().optional(),
+    productIds: z.array(z.string()).nullable().optional(),
+    startsAt: z.coerce.date().nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+    isActive: z.boolean().default(true),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type === "percentage" && (data.value <= 0 || data.value > 100)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Percentage must be above 0 and at most 100" });
+    }
+    if (data.type === "fixed" && data.value <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Amount must be greater than 0" });
+    }
+    if (data.startsAt && data.expiresAt && data.expiresAt <= data.startsAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiresAt"], message: "Expiry must be after the start date" });
+    }
+  });
+
+export const checkoutItemSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  variantId: z.string().optional(), // Optional variant ID
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+});
+
+// Single-product "Order Now" form on the product page
 export const checkoutSchema = z.object({
   customerName: z.string().min(2, "Name must be at least 2 characters"),
-  phone: z.string().refine(
-    (val) => {
-      // Remove +880 prefix if present, then check if it's a valid Bangladeshi number
-      const cleaned = val.replace(/^\+880/, "").replace(/^880/, "").replace(/^0/, "");
-      // Should be 10 digits starting with 1, then 3-9
-      return /^1[3-9]\d{8}$/.test(cleaned);
-    },
-    { message: "Invalid Bangladeshi phone number. Use format: 01XXXXXXXXX or +8801XXXXXXXXX" }
-  ),
+  phone: bdPhoneSchema,
   address: z.string().min(10, "Please enter a complete address"),
   quantity: z.number().min(1, "Quantity must be at least 1"),
   shippingClassId: z.string().min(1, "Please select a shipping option"),
   variantId: z.string().optional(), // Optional variant ID
+  discountCode: discountCodeSchema.optional(),
+  paymentMethod: z.enum(paymentMethodEnum.enumValues).default("cod"),
+  paymentProvider: z.enum(paymentProviderEnum.enumValues).optional(), // Required when anything is paid online
+});
+
+// Payload accepted by POST /api/store/:storeSlug/orders - one or more cart lines
+export const cartCheckoutSchema = checkoutSchema
+  .omit({ quantity: true, variantId: true })
+  .extend({
+    items: z.array(checkoutItemSchema).min(1, "Your cart is empty").max(50, "Too many items in cart"),
+  });
+
+// Cart sent to the discount preview endpoint; shipping is optional until chosen
+export const discountPreviewSchema = z.object({
+  items: cartCheckoutSchema.shape.items,
+  shippingClassId: z.string().optional(),
+  discountCode: discountCodeSchema.optional(),
+});
+
+// Public order lookup; the phone must match the one used at checkout
+export const trackOrderSchema = z.object({
+  orderNumber: z.string().trim().min(1, "Order number is required").max(40),
+  phone: bdPhoneSchema,
 });
 
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type StaffInviteInput = z.infer<typeof staffInviteSchema>;
 export type CheckoutInput = z.infer<typeof checkoutSchema>;
+export type CheckoutItemInput = z.infer<typeof checkoutItemSchema>;
+export type CartCheckoutInput = z.infer<typeof cartCheckoutSchema>;
+export type TrackOrderInput = z.infer<typeof trackOrderSchema>;
+export type DiscountFormInput = z.input<typeof discountFormSchema>;
+export type DiscountFormData = z.infer<typeof discountFormSchema>;
+export type DiscountPreviewInput = z.infer<typeof discountPreviewSchema>;